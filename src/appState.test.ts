@@ -19,7 +19,7 @@ const mockHandle = {} as FileSystemDirectoryHandle;
 const mockNotebook: Notebook = {
   handle: mockHandle,
   name: "Test Notebook",
-  meta: { version: 1, lastOpenedNote: null },
+  meta: { version: 3, id: "test", lastOpenedNote: null, journal: {} },
 };
 
 const mockNote: Note = {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjacentDay,
+  calendarMonth,
+  countNotesByDay,
+  noteForDay,
+} from "./calendar";
+import type { NoteInfo } from "./storage/note";
+
+function info(path: string, created = 0): NoteInfo {
+  return { path, title: path, created, modified: created, labels: [] };
+}
+
+// Newest first, as listNotes returns them
+const notes = [
+  info("2026/02/03/1", 4),
+  info("2026/01/26/2", 3),
+  info("2026/01/26/1", 2),
+  info("2026/01/05/1", 1),
+];
+
+describe("countNotesByDay", () => {
+  it("counts notes per day directory", () => {
+    expect(countNotesByDay(notes)).toEqual(
+      new Map([
+        ["2026/02/03", 1],
+        ["2026/01/26", 2],
+        ["2026/01/05", 1],
+      ]),
+    );
+  });
+});
+
+describe("calendarMonth", () => {
+  it("lays out a month in Monday-first weeks", () => {
+    // January 2026 starts on a Thursday and ends on a Saturday
+    const weeks = calendarMonth(2026, 0, countNotesByDay(notes), "2026/01/26");
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    expect(weeks[0][0]).toEqual({
+      day: "2025/12/29",
+      date: 29,
+      inMonth: false,
+      notes: 0,
+      today: false,
+    });
+    expect(weeks[0][3].day).toBe("2026/01/01");
+    expect(weeks[4][0]).toEqual({
+      day: "2026/01/26",
+      date: 26,
+      inMonth: true,
+      notes: 2,
+      today: true,
+    });
+    expect(weeks[4][6].day).toBe("2026/02/01");
+  });
+
+  it("starts months that begin on a Monday without padding", () => {
+    // June 2026 starts on a Monday
+    const weeks = calendarMonth(2026, 5, new Map(), "");
+    expect(weeks[0][0].day).toBe("2026/06/01");
+    expect(weeks.at(-1)?.at(-1)?.day).toBe("2026/07/05");
+  });
+});
+
+describe("adjacentDay", () => {
+  it("steps to the nearest day with notes", () => {
+    expect(adjacentDay(notes, "2026/01/26", -1)).toBe("2026/01/05");
+    expect(adjacentDay(notes, "2026/01/26", 1)).toBe("2026/02/03");
+    expect(adjacentDay(notes, "2026/01/20", 1)).toBe("2026/01/26");
+  });
+
+  it("returns null past the first and last days", () => {
+    expect(adjacentDay(notes, "2026/01/05", -1)).toBeNull();
+    expect(adjacentDay(notes, "2026/02/03", 1)).toBeNull();
+  });
+});
+
+describe("noteForDay", () => {
+  it("prefers the day's journal note, then the newest note", () => {
+    expect(noteForDay(notes, "2026/01/26", {})?.path).toBe("2026/01/26/2");
+    expect(
+      noteForDay(notes, "2026/01/26", { "2026/01/26": "2026/01/26/1" })?.path,
+    ).toBe("2026/01/26/1");
+    expect(noteForDay(notes, "2026/01/27", {})).toBeNull();
+  });
+});
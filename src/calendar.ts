@@ -0,0 +1,118 @@
+/**
+ * Calendar of the notebook's days.
+ *
+ * Pure helpers for the calendar sidebar in main.ts: the month grid, which
+ * days have notes, and stepping from one day with notes to the next. Days
+ * are yyyy/mm/dd strings, the directory notes are filed under.
+ */
+
+import { noteDay } from "./storage/journal";
+import type { NoteInfo } from "./storage/note";
+
+/**
+ * One cell of the month grid.
+ */
+export interface CalendarDay {
+  /** yyyy/mm/dd */
+  day: string;
+  /** Day of the month */
+  date: number;
+  /** False for the days of the previous and next month that fill the grid */
+  inMonth: boolean;
+  /** Number of notes filed under the day */
+  notes: number;
+  today: boolean;
+}
+
+function dayString(year: number, month: number, date: number): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${year}/${pad(month + 1)}/${pad(date)}`;
+}
+
+/**
+ * Count the notes filed under each day.
+ */
+export function countNotesByDay(
+  notes: readonly NoteInfo[],
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    const day = noteDay(note.path);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * The weeks (Monday to Sunday) showing a month, `month` counted from 0 as
+ * in Date. Days before the 1st and after the last day of the month fill
+ * the first and last weeks.
+ */
+export function calendarMonth(
+  year: number,
+  month: number,
+  counts: ReadonlyMap<string, number>,
+  today: string,
+): CalendarDay[][] {
+  const first = new Date(year, month, 1);
+  // Monday of the first week
+  const start = 1 - ((first.getDay() + 6) % 7);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const weeks: CalendarDay[][] = [];
+  for (let offset = start; offset <= daysInMonth; offset += 7) {
+    const week: CalendarDay[] = [];
+    for (let i = 0; i < 7; i++) {
+      // Date rolls over into the neighbouring months
+      const date = new Date(year, month, offset + i);
+      const day = dayString(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+      );
+      week.push({
+        day,
+        date: date.getDate(),
+        inMonth: date.getMonth() === month,
+        notes: counts.get(day) ?? 0,
+        today: day === today,
+      });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * The nearest day before (`direction` -1) or after (1) `day` that has
+ * notes, or null if there is none.
+ */
+export function adjacentDay(
+  notes: readonly NoteInfo[],
+  day: string,
+  direction: -1 | 1,
+): string | null {
+  let best: string | null = null;
+  for (const note of notes) {
+    const other = noteDay(note.path);
+    const beyond = direction < 0 ? other < day : other > day;
+    const closer =
+      best === null || (direction < 0 ? other > best : other < best);
+    if (beyond && closer) best = other;
+  }
+  return best;
+}
+
+/**
+ * The note to open for a day: its journal note if it has one, otherwise
+ * the newest note filed under it. `notes` are newest first, as listNotes
+ * returns them.
+ */
+export function noteForDay(
+  notes: readonly NoteInfo[],
+  day: string,
+  journal: Readonly<Record<string, string>>,
+): NoteInfo | null {
+  const onDay = notes.filter((note) => noteDay(note.path) === day);
+  return onDay.find((note) => note.path === journal[day]) ?? onDay[0] ?? null;
+}
@@ -0,0 +1,17 @@
+/// <reference types="node" />
+/**
+ * Entry point for the reflection-notes command (see `npm run build:cli`).
+ */
+
+import { writeFile } from "node:fs/promises";
+import { NodeFileSystemProvider } from "../storage/nodeFilesystem";
+import { runCli } from "./cli";
+
+runCli(process.argv.slice(2), {
+  createProvider: (dir) => new NodeFileSystemProvider({ pickPath: dir }),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  writeFile: (path, data) => writeFile(path, data),
+}).then((code) => {
+  process.exitCode = code;
+});
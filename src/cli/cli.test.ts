@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "../storage/memoryFilesystem";
+import { createNotebook } from "../storage/notebook";
+import { type CliEnvironment, noteToPlainText, runCli } from "./cli";
+
+function createEnv(fs: MemoryFileSystemProvider) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const files = new Map<string, Uint8Array>();
+  const env: CliEnvironment = {
+    createProvider: () => fs,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    writeFile: async (path, data) => {
+      files.set(path, data);
+    },
+  };
+  return {
+    env,
+    files,
+    stdout: () => out.join(""),
+    stderr: () => err.join(""),
+  };
+}
+
+describe("runCli", () => {
+  it("prints usage and fails without a command", async () => {
+    const { env, stdout } = createEnv(new MemoryFileSystemProvider());
+    expect(await runCli([], env)).toBe(1);
+    expect(stdout()).toContain("Usage:");
+  });
+
+  it("fails when the directory is not a notebook", async () => {
+    const { env, stderr } = createEnv(new MemoryFileSystemProvider());
+    expect(await runCli(["list", "nb"], env)).toBe(1);
+    expect(stderr()).toContain("Not a valid notebook directory");
+  });
+
+  it("creates titled notes and lists them", async () => {
+    const fs = new MemoryFileSystemProvider();
+    await createNotebook(fs);
+    const { env, stdout } = createEnv(fs);
+
+    expect(await runCli(["new", "nb", "Meeting", "notes"], env)).toBe(0);
+    expect(await runCli(["list", "nb"], env)).toBe(0);
+
+    const lines = stdout().trim().split("\n");
+    expect(lines[0]).toMatch(/^\d{4}\/\d{2}\/\d{2}\/2$/);
+    expect(lines.slice(1).join("\n")).toContain("\tMeeting notes");
+    expect(lines.slice(1).join("\n")).toContain("\tUntitled");
+  });
+
+  it("shows a note as plain text", async () => {
+    const fs = new MemoryFileSystemProvider();
+    await createNotebook(fs);
+    const { env, stdout } = createEnv(fs);
+    await runCli(["new", "nb", "Hello"], env);
+    const path = stdout().trim();
+
+    expect(await runCli(["show", "nb", path], env)).toBe(0);
+
+    expect(stdout()).toContain("Hello\n\n");
+  });
+
+  it("exports the notebook as a zip archive", async () => {
+    const fs = new MemoryFileSystemProvider();
+    await createNotebook(fs);
+    const { env, files } = createEnv(fs);
+
+    expect(await runCli(["export", "nb", "out.zip"], env)).toBe(0);
+
+    const zip = files.get("out.zip");
+    expect(zip?.[0]).toBe(0x50); // "PK"
+    expect(zip?.[1]).toBe(0x4b);
+  });
+
+  it("rebuilds the note index", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+    await fs.writeTextFile(notebook.handle, "index.json", "garbage");
+    const { env, stdout } = createEnv(fs);
+
+    expect(await runCli(["reindex", "nb"], env)).toBe(0);
+
+    expect(stdout()).toBe("Indexed 1 notes\n");
+    expect(
+      JSON.parse(await fs.readTextFile(notebook.handle, "index.json")).notes,
+    ).toHaveLength(1);
+  });
+
+  it("rejects unknown commands", async () => {
+    const fs = new MemoryFileSystemProvider();
+    await createNotebook(fs);
+    const { env, stderr } = createEnv(fs);
+
+    expect(await runCli(["frobnicate", "nb"], env)).toBe(1);
+    expect(stderr()).toContain("Unknown command: frobnicate");
+  });
+});
+
+describe("noteToPlainText", () => {
+  it("renders title, labels, blocks and math", () => {
+    const text = noteToPlainText({
+      type: "doc",
+      content: [
+        { type: "title", content: [{ type: "text", text: "T" }] },
+        { type: "created", attrs: { timestamp: 0 } },
+        { type: "labels", attrs: { labels: ["a", "b c"] } },
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "x is " },
+            { type: "math_inline", attrs: { content: "x^2" } },
+          ],
+        },
+        { type: "math_display", attrs: { content: "E=mc^2" } },
+        { type: "horizontal_rule" },
+      ],
+    });
+
+    expect(text).toBe(
+      "T\n\nLabels: a, b c\n\nx is $x^2$\n\n$$E=mc^2$$\n\n---\n",
+    );
+  });
+
+  it("lists footnotes after the blocks", () => {
+    const footnote = (text: string) => ({
+      type: "footnote",
+      content: [{ type: "text", text }],
+    });
+    const text = noteToPlainText({
+      type: "doc",
+      content: [
+        { type: "title", content: [{ type: "text", text: "T" }] },
+        { type: "created", attrs: { timestamp: 0 } },
+        { type: "labels", attrs: { labels: [] } },
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "a" },
+            footnote("one"),
+            { type: "text", text: " b" },
+            footnote("two"),
+          ],
+        },
+      ],
+    });
+
+    expect(text).toBe("T\n\na[1] b[2]\n\n[1] one\n[2] two\n");
+  });
+
+  it("writes cross-references as their target's label", () => {
+    const text = noteToPlainText({
+      type: "doc",
+      content: [
+        { type: "title", content: [{ type: "text", text: "T" }] },
+        { type: "created", attrs: { timestamp: 0 } },
+        { type: "labels", attrs: { labels: [] } },
+        { type: "math_display", attrs: { content: "x", id: "eq-a" } },
+        {
+          type: "paragraph",
+          content: [
+            { type: "xref", attrs: { target: "eq-a" } },
+            { type: "text", text: " " },
+            { type: "xref", attrs: { target: "gone" } },
+          ],
+        },
+      ],
+    });
+
+    expect(text).toBe("T\n\n$$x$$\n\nEquation (1) ??\n");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Command-line notebook tool.
+ *
+ * Runs the same storage functions as the app (note.ts, notebook.ts,
+ * archive.ts, noteIndex.ts) against any FileSystemProvider. bin.ts wires it
+ * to the Node.js file system and process; tests use the in-memory provider.
+ */
+
+import { Fragment, Node } from "prosemirror-model";
+import { anchorsById, DANGLING_LABEL } from "../editor/anchors";
+import { formatTimestamp, schema } from "../editor/schema";
+import { exportNotebookArchive } from "../storage/archive";
+import type { FileSystemProvider } from "../storage/filesystem";
+import { createNote, listNotes, loadNote, saveNote } from "../storage/note";
+import { openNotebook } from "../storage/notebook";
+import { rebuildNoteIndex } from "../storage/noteIndex";
+
+export interface CliEnvironment {
+  /** Create a provider whose pickDirectory() returns `dir` */
+  createProvider(dir: string): FileSystemProvider;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Write an output file (relative to the working directory) */
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+}
+
+export const USAGE = `Usage: reflection-notes <command> <notebook-dir> [args]
+
+Commands:
+  list <dir>                 List notes, newest first
+  show <dir> <note-path>     Print a note as plain text
+  new <dir> [title]          Create a note and print its path
+  export <dir> [out.zip]     Write the notebook as a zip archive
+  reindex <dir>              Rebuild the note index from the notes
+`;
+
+/**
+ * Replace footnotes with their `[n]` markers, collecting their text.
+ */
+function extractFootnotes(fragment: Fragment, notes: string[]): Fragment {
+  const children: Node[] = [];
+  fragment.forEach((node) => {
+    if (node.type.name === "footnote") {
+      notes.push(node.textContent);
+      children.push(schema.text(`[${notes.length}]`));
+    } else if (node.content.size > 0) {
+      children.push(node.copy(extractFootnotes(node.content, notes)));
+    } else {
+      children.push(node);
+    }
+  });
+  return Fragment.from(children);
+}
+
+/**
+ * Render a note document as plain text: title, creation date, labels, then
+ * blocks separated by blank lines, then footnotes.
+ */
+export function noteToPlainText(content: unknown): string {
+  const parsed = Node.fromJSON(schema, content);
+  const notes: string[] = [];
+  const doc = parsed.copy(extractFootnotes(parsed.content, notes));
+  const anchors = anchorsById(doc);
+  const blocks: string[] = [];
+
+  doc.forEach((node) => {
+    if (node.type.name === "created") {
+      const ts = node.attrs.timestamp as number;
+      if (ts) blocks.push(formatTimestamp(ts));
+      return;
+    }
+    if (node.type.name === "labels") {
+      const labels = node.attrs.labels as string[];
+      if (labels.length > 0) blocks.push(`Labels: ${labels.join(", ")}`);
+      return;
+    }
+    const text = node.textBetween(0, node.content.size, "\n\n", (leaf) => {
+      if (leaf.type.name === "math_inline") return `$${leaf.attrs.content}$`;
+      if (leaf.type.name === "math_display") {
+        return `$$${leaf.attrs.content}$$`;
+      }
+      if (leaf.type.name === "hard_break") return "\n";
+      if (leaf.type.name === "image") return `[image: ${leaf.attrs.src}]`;
+      if (leaf.type.name === "xref") {
+        return anchors.get(leaf.attrs.target)?.label ?? DANGLING_LABEL;
+      }
+      return "";
+    });
+    if (node.type.name === "horizontal_rule") {
+      blocks.push("---");
+    } else if (node.type.name === "math_display") {
+      blocks.push(`$$${node.attrs.content}$$`);
+    } else if (text) {
+      blocks.push(text);
+    }
+  });
+
+  if (notes.length > 0) {
+    blocks.push(notes.map((note, i) => `[${i + 1}] ${note}`).join("\n"));
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Replace the title text of a note document.
+ */
+function withTitle(content: unknown, title: string): unknown {
+  const doc = Node.fromJSON(schema, content);
+  const titleNode = schema.nodes.title.create(null, schema.text(title));
+  return doc.copy(doc.content.replaceChild(0, titleNode)).toJSON();
+}
+
+function formatDate(ts: number): string {
+  if (!ts) return "unknown   ";
+  const d = new Date(ts);
+  const month = (d.getMonth() + 1).toString().padStart(2, "0");
+  const day = d.getDate().toString().padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Run one command. Returns the process exit code.
+ */
+export async function runCli(
+  args: string[],
+  env: CliEnvironment,
+): Promise<number> {
+  const [command, dir, ...rest] = args;
+
+  if (!command || command === "help" || command === "--help") {
+    env.stdout(USAGE);
+    return command ? 0 : 1;
+  }
+  if (!dir) {
+    env.stderr(USAGE);
+    return 1;
+  }
+
+  const fs = env.createProvider(dir);
+
+  try {
+    const notebook = await openNotebook(fs);
+
+    switch (command) {
+      case "list": {
+        const notes = await listNotes(fs, notebook);
+        for (const note of notes) {
+          env.stdout(
+            `${note.path}\t${formatDate(note.created)}\t${note.title}\n`,
+          );
+        }
+        return 0;
+      }
+
+      case "show": {
+        const [path] = rest;
+        if (!path) {
+          env.stderr("show: missing note path\n");
+          return 1;
+        }
+        const note = await loadNote(fs, notebook, path);
+        env.stdout(noteToPlainText(note.content));
+        return 0;
+      }
+
+      case "new": {
+        const note = await createNote(fs, notebook);
+        const title = rest.join(" ").trim();
+        if (title) {
+          note.content = withTitle(note.content, title);
+          await saveNote(fs, notebook, note);
+        }
+        env.stdout(`${note.path}\n`);
+        return 0;
+      }
+
+      case "export": {
+        const out = rest[0] ?? `${notebook.name}.zip`;
+        const archive = await exportNotebookArchive(fs, notebook);
+        await env.writeFile(out, archive);
+        env.stdout(`${out}\n`);
+        return 0;
+      }
+
+      case "reindex": {
+        const entries = await rebuildNoteIndex(fs, notebook);
+        env.stdout(`Indexed ${entries.length} notes\n`);
+        return 0;
+      }
+
+      default:
+        env.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (e) {
+    env.stderr(`${e instanceof Error ? e.message : String(e)}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CommitScheduler } from "./commitScheduler";
+
+describe("CommitScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("commits an interval after the first schedule()", async () => {
+    const commit = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new CommitScheduler({ intervalMs: 60_000, commit });
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(40_000);
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(19_999);
+    expect(commit).not.toHaveBeenCalled();
+    expect(scheduler.isPending).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(scheduler.isPending).toBe(false);
+
+    // Nothing more without another schedule()
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits another interval for a schedule() while committing", async () => {
+    const resolvers: (() => void)[] = [];
+    const commit = vi.fn(
+      () => new Promise<void>((resolve) => resolvers.push(resolve)),
+    );
+    const scheduler = new CommitScheduler({ intervalMs: 60_000, commit });
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(60_000);
+    scheduler.schedule();
+    resolvers.shift()?.();
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(commit).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(commit).toHaveBeenCalledTimes(2);
+  });
+
+  it("commits right away on flush(), if a commit is due", async () => {
+    const commit = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new CommitScheduler({ intervalMs: 60_000, commit });
+
+    await scheduler.flush();
+    expect(commit).not.toHaveBeenCalled();
+
+    scheduler.schedule();
+    await scheduler.flush();
+    expect(commit).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the commit due on cancel()", async () => {
+    const commit = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new CommitScheduler({ intervalMs: 60_000, commit });
+
+    scheduler.schedule();
+    scheduler.cancel();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(commit).not.toHaveBeenCalled();
+    expect(scheduler.isPending).toBe(false);
+  });
+
+  it("reports errors", async () => {
+    const error = new Error("disk full");
+    const onError = vi.fn();
+    const scheduler = new CommitScheduler({
+      intervalMs: 60_000,
+      commit: vi.fn().mockRejectedValue(error),
+      onError,
+    });
+
+    scheduler.schedule();
+    await scheduler.flush();
+
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+});
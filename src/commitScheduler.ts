@@ -0,0 +1,106 @@
+/**
+ * CommitScheduler - commits a notebook's git history every so often
+ *
+ * schedule() (e.g. after each save) commits `intervalMs` later. Unlike
+ * autosave, further calls don't put the commit off, so a notebook edited
+ * all day is committed once per interval rather than never. Only one
+ * commit runs at a time: one scheduled while a commit runs waits another
+ * interval.
+ */
+
+export interface CommitSchedulerConfig {
+  /** Time from the first schedule() call to the commit, in milliseconds */
+  intervalMs: number;
+
+  /** Async function to perform the commit */
+  commit: () => Promise<void>;
+
+  /** Optional callback when a commit fails */
+  onError?: (error: unknown) => void;
+
+  /** Injectable timer functions for testing */
+  setTimeout?: typeof globalThis.setTimeout;
+  clearTimeout?: typeof globalThis.clearTimeout;
+}
+
+export class CommitScheduler {
+  private pending = false;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private commitPromise: Promise<void> | null = null;
+
+  private readonly interval: number;
+  private readonly commit: () => Promise<void>;
+  private readonly onError?: (error: unknown) => void;
+  private readonly _setTimeout: typeof globalThis.setTimeout;
+  private readonly _clearTimeout: typeof globalThis.clearTimeout;
+
+  constructor(config: CommitSchedulerConfig) {
+    this.interval = config.intervalMs;
+    this.commit = config.commit;
+    this.onError = config.onError;
+    // Bind to globalThis to avoid "Illegal invocation" when called as methods
+    this._setTimeout =
+      config.setTimeout ?? globalThis.setTimeout.bind(globalThis);
+    this._clearTimeout =
+      config.clearTimeout ?? globalThis.clearTimeout.bind(globalThis);
+  }
+
+  /** True while a commit is scheduled or running */
+  get isPending(): boolean {
+    return this.timeoutId !== null || this.commitPromise !== null;
+  }
+
+  /**
+   * Commit an interval from now, unless a commit is already due.
+   */
+  schedule(): void {
+    if (this.commitPromise) {
+      this.pending = true;
+      return;
+    }
+    if (this.timeoutId === null) this.startTimer();
+  }
+
+  /**
+   * Commit now if a commit is due, e.g. before closing the notebook.
+   * Resolves when done; errors go to onError.
+   */
+  flush(): Promise<void> {
+    if (this.timeoutId !== null) {
+      this.cancel();
+      return this.run();
+    }
+    return this.commitPromise ?? Promise.resolve();
+  }
+
+  /**
+   * Cancel the commit due, if any. A commit already running completes.
+   */
+  cancel(): void {
+    this.pending = false;
+    if (this.timeoutId !== null) {
+      this._clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  private run(): Promise<void> {
+    this.commitPromise = this.commit()
+      .catch((e) => this.onError?.(e))
+      .finally(() => {
+        this.commitPromise = null;
+        if (this.pending) {
+          this.pending = false;
+          this.startTimer();
+        }
+      });
+    return this.commitPromise;
+  }
+
+  private startTimer(): void {
+    this.timeoutId = this._setTimeout(() => {
+      this.timeoutId = null;
+      void this.run();
+    }, this.interval);
+  }
+}
@@ -0,0 +1,193 @@
+import { Node } from "prosemirror-model";
+import { EditorState, TextSelection } from "prosemirror-state";
+import type { DecorationSet } from "prosemirror-view";
+import { describe, expect, it } from "vitest";
+import {
+  anchorsById,
+  createAnchorPlugin,
+  findAnchorTargets,
+  insertCrossReference,
+  type XrefSpec,
+} from "./anchors";
+import { schema } from "./schema";
+
+const plugin = createAnchorPlugin();
+
+function stateWith(...blocks: unknown[]): EditorState {
+  const doc = Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: "Note" }] },
+      { type: "created", attrs: { timestamp: 0 } },
+      { type: "labels", attrs: { labels: [] } },
+      ...blocks,
+    ],
+  });
+  return EditorState.create({ schema, doc, plugins: [plugin] });
+}
+
+function section(level: number, text: string, id: string | null = null) {
+  return {
+    type: "section",
+    attrs: { level, id },
+    content: [{ type: "text", text }],
+  };
+}
+
+function equation(content: string, id: string | null = null) {
+  return { type: "math_display", attrs: { content, id } };
+}
+
+function paragraph(...content: unknown[]) {
+  return { type: "paragraph", content };
+}
+
+function xref(target: string) {
+  return { type: "xref", attrs: { target } };
+}
+
+/** The text each xref shows, in document order */
+function xrefLabels(state: EditorState): Array<string | null> {
+  const decorations = plugin.props.decorations?.call(
+    plugin,
+    state,
+  ) as DecorationSet;
+  return decorations
+    .find(undefined, undefined, (spec) => "xrefLabel" in spec)
+    .map((d) => (d.spec as XrefSpec).xrefLabel);
+}
+
+/** Index of the first body block, after title, created and labels */
+const FIRST_BLOCK = 3;
+
+/** Position of the `index`th body block */
+function blockPos(state: EditorState, index: number): number {
+  let pos = 0;
+  for (let i = 0; i < FIRST_BLOCK + index; i++) {
+    pos += state.doc.child(i).nodeSize;
+  }
+  return pos;
+}
+
+/** Position of the end of the last textblock */
+function endOfDoc(state: EditorState): number {
+  return TextSelection.atEnd(state.doc).from;
+}
+
+describe("findAnchorTargets", () => {
+  it("numbers sections by level and other targets by kind", () => {
+    const state = stateWith(
+      section(1, "Intro"),
+      equation("a"),
+      section(2, "Detail"),
+      section(2, "More"),
+      section(1, "Next"),
+      section(3, "Deep"),
+      equation("b"),
+      {
+        type: "table",
+        content: [
+          {
+            type: "table_row",
+            content: [
+              {
+                type: "table_header",
+                content: [{ type: "text", text: "Head" }],
+              },
+            ],
+          },
+        ],
+      },
+      paragraph({ type: "image", attrs: { src: "a.png", alt: "A cat" } }),
+    );
+    expect(findAnchorTargets(state.doc).map((t) => [t.label, t.text])).toEqual([
+      ["Section 1", "Intro"],
+      ["Equation (1)", "a"],
+      ["Section 1.1", "Detail"],
+      ["Section 1.2", "More"],
+      ["Section 2", "Next"],
+      ["Section 2.0.1", "Deep"],
+      ["Equation (2)", "b"],
+      ["Table 1", "Head"],
+      ["Figure 1", "A cat"],
+    ]);
+  });
+});
+
+describe("anchor plugin", () => {
+  it("labels references by their target's current number", () => {
+    let state = stateWith(
+      section(1, "One"),
+      section(1, "Two", "sec-two"),
+      paragraph({ type: "text", text: "See " }, xref("sec-two")),
+    );
+    expect(xrefLabels(state)).toEqual(["Section 2"]);
+
+    // Deleting the first section renumbers the target
+    const first = blockPos(state, 0);
+    state = state.apply(
+      state.tr.delete(first, first + state.doc.child(FIRST_BLOCK).nodeSize),
+    );
+    expect(state.doc.child(FIRST_BLOCK).attrs.id).toBe("sec-two");
+    expect(xrefLabels(state)).toEqual(["Section 1"]);
+  });
+
+  it("flags references whose target is gone", () => {
+    const state = stateWith(
+      section(1, "Other"),
+      paragraph(xref("sec-missing"), xref("eq-x")),
+      equation("x", "eq-x"),
+    );
+    expect(xrefLabels(state)).toEqual([null, "Equation (1)"]);
+  });
+
+  it("clears anchor IDs duplicated by a paste", () => {
+    let state = stateWith(section(1, "Kept", "sec-a"), paragraph());
+    // Paste a copy before the original
+    const copy = state.doc.child(FIRST_BLOCK);
+    state = state.apply(state.tr.insert(blockPos(state, 0), copy));
+
+    const ids = findAnchorTargets(state.doc).map((t) => [t.text, t.id]);
+    expect(ids).toEqual([
+      ["Kept", null],
+      ["Kept", "sec-a"],
+    ]);
+  });
+});
+
+describe("insertCrossReference", () => {
+  it("anchors the target and inserts a reference to it", () => {
+    let state = stateWith(equation("E=mc^2"), paragraph());
+    state = state.apply(
+      state.tr.setSelection(TextSelection.create(state.doc, endOfDoc(state))),
+    );
+    const target = findAnchorTargets(state.doc)[0];
+    expect(target.id).toBeNull();
+
+    insertCrossReference(target.pos)(state, (tr) => {
+      state = state.apply(tr);
+    });
+
+    const [anchored] = anchorsById(state.doc).values();
+    expect(anchored.id).toMatch(/^eq-/);
+    expect(state.doc.lastChild?.firstChild?.attrs.target).toBe(anchored.id);
+    expect(xrefLabels(state)).toEqual(["Equation (1)"]);
+  });
+
+  it("keeps an existing anchor ID", () => {
+    let state = stateWith(section(1, "S", "sec-s"), paragraph());
+    state = state.apply(
+      state.tr.setSelection(TextSelection.create(state.doc, endOfDoc(state))),
+    );
+    const [target] = findAnchorTargets(state.doc);
+    insertCrossReference(target.pos)(state, (tr) => {
+      state = state.apply(tr);
+    });
+    expect(state.doc.lastChild?.firstChild?.attrs.target).toBe("sec-s");
+  });
+
+  it("fails for positions that aren't targets", () => {
+    const state = stateWith(paragraph());
+    expect(insertCrossReference(0)(state)).toBe(false);
+  });
+});
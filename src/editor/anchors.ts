@@ -0,0 +1,271 @@
+/**
+ * Anchors and cross-references.
+ *
+ * Sections, display math, tables and images can be the target of an xref
+ * node. A target gets an anchor ID (its `id` attribute) the first time
+ * something refers to it, and keeps it as it moves. Numbers are never
+ * stored: like footnotes, they come from the target's position, counting
+ * every node of its kind in document order. Sections are numbered by
+ * level ("2.1" is the first level 2 section after the second level 1 one);
+ * equations, tables and figures count up from 1.
+ *
+ * The plugin renders each xref's text ("Section 2.1", "Equation (3)") and
+ * each anchored target's number through decorations, so both follow edits,
+ * undo and paste. An xref whose target is gone is flagged as dangling.
+ * It also keeps anchor IDs unique: when an edit duplicates one (pasting a
+ * copied section), the copy loses it.
+ */
+
+import type { Node } from "prosemirror-model";
+import { type Command, type EditorState, Plugin } from "prosemirror-state";
+import { Decoration, DecorationSet } from "prosemirror-view";
+import { schema } from "./schema";
+
+export type AnchorKind = "section" | "equation" | "table" | "figure";
+
+/** Node types that can be cross-reference targets */
+const ANCHOR_KINDS: Record<string, AnchorKind> = {
+  section: "section",
+  math_display: "equation",
+  table: "table",
+  image: "figure",
+};
+
+export interface AnchorTarget {
+  kind: AnchorKind;
+  /** Anchor ID, or null if nothing has referred to the target yet */
+  id: string | null;
+  pos: number;
+  /** "2.1" for sections, "3" for the rest */
+  number: string;
+  /** How references show the target, e.g. "Section 2.1" */
+  label: string;
+  /** The target's text, for telling targets apart */
+  text: string;
+}
+
+/** Decoration spec carrying an xref's text */
+export interface XrefSpec {
+  /** Label of the target, or null if the target is missing */
+  xrefLabel: string | null;
+  /** Text of the target */
+  xrefTitle: string;
+}
+
+/** Shown instead of the label when a reference's target is missing */
+export const DANGLING_LABEL = "??";
+
+export function anchorLabel(kind: AnchorKind, number: string): string {
+  switch (kind) {
+    case "section":
+      return `Section ${number}`;
+    case "equation":
+      return `Equation (${number})`;
+    case "table":
+      return `Table ${number}`;
+    case "figure":
+      return `Figure ${number}`;
+  }
+}
+
+function targetText(node: Node): string {
+  switch (node.type.name) {
+    case "math_display":
+      return node.attrs.content as string;
+    case "image":
+      return (node.attrs.alt as string | null) || (node.attrs.src as string);
+    case "table":
+      return (
+        node.firstChild?.textBetween(0, node.firstChild.content.size, " | ") ??
+        ""
+      );
+    default:
+      return node.textContent;
+  }
+}
+
+/**
+ * All possible cross-reference targets in the document, numbered, in
+ * document order.
+ */
+export function findAnchorTargets(doc: Node): AnchorTarget[] {
+  const targets: AnchorTarget[] = [];
+  // Section numbers at levels 1-4
+  const sections = [0, 0, 0, 0];
+  const counts: Record<AnchorKind, number> = {
+    section: 0,
+    equation: 0,
+    table: 0,
+    figure: 0,
+  };
+
+  doc.descendants((node, pos) => {
+    const kind = ANCHOR_KINDS[node.type.name];
+    if (!kind) return true;
+
+    let number: string;
+    if (kind === "section") {
+      const level = Math.min(Math.max(node.attrs.level as number, 1), 4);
+      sections[level - 1]++;
+      sections.fill(0, level);
+      number = sections.slice(0, level).join(".");
+    } else {
+      number = String(++counts[kind]);
+    }
+
+    targets.push({
+      kind,
+      id: node.attrs.id as string | null,
+      pos,
+      number,
+      label: anchorLabel(kind, number),
+      text: targetText(node),
+    });
+    // Tables hold images, which are figures too
+    return kind === "table";
+  });
+  return targets;
+}
+
+/** Anchored targets by ID (the first, should an ID appear twice) */
+export function anchorsById(doc: Node): Map<string, AnchorTarget> {
+  const anchors = new Map<string, AnchorTarget>();
+  for (const target of findAnchorTargets(doc)) {
+    if (target.id && !anchors.has(target.id)) anchors.set(target.id, target);
+  }
+  return anchors;
+}
+
+const ID_PREFIXES: Record<AnchorKind, string> = {
+  section: "sec",
+  equation: "eq",
+  table: "tab",
+  figure: "fig",
+};
+
+/** A new anchor ID, e.g. "sec-k2x9q1", not used in `doc` */
+export function createAnchorId(doc: Node, kind: AnchorKind): string {
+  const used = anchorsById(doc);
+  for (;;) {
+    const id = `${ID_PREFIXES[kind]}-${Math.random().toString(36).slice(2, 8)}`;
+    if (!used.has(id)) return id;
+  }
+}
+
+/**
+ * Insert a cross-reference to the target at `targetPos` in place of the
+ * selection, giving the target an anchor ID if it has none. Fails if the
+ * node there can't be referred to, or the selection can't hold an xref.
+ */
+export function insertCrossReference(targetPos: number): Command {
+  return (state, dispatch) => {
+    const target = state.doc.nodeAt(targetPos);
+    const kind = target && ANCHOR_KINDS[target.type.name];
+    if (!target || !kind) return false;
+
+    const { $from, $to } = state.selection;
+    const xref = schema.nodes.xref;
+    if (
+      !$from.sameParent($to) ||
+      !$from.parent.canReplaceWith($from.index(), $to.index(), xref)
+    ) {
+      return false;
+    }
+
+    if (dispatch) {
+      let id = target.attrs.id as string | null;
+      const tr = state.tr;
+      if (!id) {
+        id = createAnchorId(state.doc, kind);
+        tr.setNodeAttribute(targetPos, "id", id);
+      }
+      tr.replaceSelectionWith(xref.create({ target: id }), false);
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+function anchorDecorations(state: EditorState): DecorationSet {
+  const targets = findAnchorTargets(state.doc);
+  const anchors = new Map<string, AnchorTarget>();
+  const decorations: Decoration[] = [];
+
+  for (const target of targets) {
+    if (!target.id || anchors.has(target.id)) continue;
+    anchors.set(target.id, target);
+    const node = state.doc.nodeAt(target.pos);
+    if (node) {
+      decorations.push(
+        Decoration.node(target.pos, target.pos + node.nodeSize, {
+          "data-number": target.number,
+        }),
+      );
+    }
+  }
+
+  state.doc.descendants((node, pos) => {
+    if (node.type !== schema.nodes.xref) return true;
+    const target = anchors.get(node.attrs.target as string);
+    const spec: XrefSpec = {
+      xrefLabel: target?.label ?? null,
+      xrefTitle: target?.text ?? "",
+    };
+    const attrs = target ? {} : { class: "xref-dangling" };
+    decorations.push(Decoration.node(pos, pos + node.nodeSize, attrs, spec));
+    return false;
+  });
+
+  return DecorationSet.create(state.doc, decorations);
+}
+
+/**
+ * Clear anchor IDs duplicated by a transaction. The node that had the ID
+ * before keeps it; among new duplicates the first one does.
+ */
+function dedupeAnchorIds(
+  oldState: EditorState,
+  state: EditorState,
+  mapPos: (pos: number) => number,
+) {
+  const owners = new Map<string, number>();
+  for (const target of findAnchorTargets(oldState.doc)) {
+    if (target.id && !owners.has(target.id)) {
+      owners.set(target.id, mapPos(target.pos));
+    }
+  }
+
+  const seen = new Map<string, number>();
+  const duplicates: number[] = [];
+  for (const { id, pos } of findAnchorTargets(state.doc)) {
+    if (!id) continue;
+    const previous = seen.get(id);
+    if (previous === undefined) {
+      seen.set(id, pos);
+    } else if (owners.get(id) === pos) {
+      duplicates.push(previous);
+      seen.set(id, pos);
+    } else {
+      duplicates.push(pos);
+    }
+  }
+  if (duplicates.length === 0) return null;
+
+  const tr = state.tr;
+  for (const pos of duplicates) tr.setNodeAttribute(pos, "id", null);
+  return tr;
+}
+
+export function createAnchorPlugin(): Plugin {
+  return new Plugin({
+    props: {
+      decorations: anchorDecorations,
+    },
+    appendTransaction(transactions, oldState, state) {
+      if (!transactions.some((tr) => tr.docChanged)) return null;
+      return dedupeAnchorIds(oldState, state, (pos) =>
+        transactions.reduce((p, tr) => tr.mapping.map(p), pos),
+      );
+    },
+  });
+}
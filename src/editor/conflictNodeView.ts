@@ -0,0 +1,74 @@
+/**
+ * NodeView for the versions of a merge conflict (merge.ts): each version's
+ * blocks, editable, under a heading saying where it comes from, with a
+ * button that keeps it and drops the other.
+ */
+
+import type { Node } from "prosemirror-model";
+import type { EditorView, ViewMutationRecord } from "prosemirror-view";
+import { type ConflictSide, resolveConflict } from "./merge";
+
+const SIDE_LABELS: Record<ConflictSide, string> = {
+  local: "This device",
+  remote: "Other device",
+};
+
+export function createConflictVersionNodeView(
+  node: Node,
+  view: EditorView,
+  getPos: () => number | undefined,
+) {
+  const side = node.attrs.side as ConflictSide;
+
+  const dom = document.createElement("div");
+  dom.className = "conflict-version";
+  dom.dataset.side = side;
+
+  const header = document.createElement("div");
+  header.className = "conflict-header";
+  header.contentEditable = "false";
+
+  const label = document.createElement("span");
+  label.textContent = SIDE_LABELS[side] ?? side;
+
+  const keep = document.createElement("button");
+  keep.type = "button";
+  keep.textContent = "Keep This Version";
+
+  const contentDOM = document.createElement("div");
+  contentDOM.className = "conflict-content";
+
+  header.append(label, keep);
+  dom.append(header, contentDOM);
+
+  keep.addEventListener("mousedown", (event) => {
+    event.preventDefault();
+    const pos = getPos();
+    if (pos === undefined || !view.editable) return;
+    // The version's parent is the conflict
+    const conflict = view.state.doc.resolve(pos).before();
+    const tr = resolveConflict(view.state, conflict, side);
+    if (tr) view.dispatch(tr.scrollIntoView());
+    view.focus();
+  });
+
+  return {
+    dom,
+    contentDOM,
+
+    update(updated: Node) {
+      return updated.type === node.type && updated.attrs.side === side;
+    },
+
+    stopEvent(event: Event) {
+      return header.contains(event.target as globalThis.Node);
+    },
+
+    ignoreMutation(mutation: ViewMutationRecord) {
+      // The header is ours; the blocks are ProseMirror's
+      return (
+        mutation.type !== "selection" && !contentDOM.contains(mutation.target)
+      );
+    },
+  };
+}
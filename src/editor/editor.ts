@@ -18,25 +18,45 @@ import {
   NodeSelection,
   Plugin,
   Selection,
+  TextSelection,
   type Transaction,
 } from "prosemirror-state";
 import { tableEditing } from "prosemirror-tables";
 import { Decoration, DecorationSet, EditorView } from "prosemirror-view";
 import { isAllowedImageType } from "../storage/image";
+import {
+  type AnchorTarget,
+  createAnchorPlugin,
+  findAnchorTargets,
+  insertCrossReference as insertCrossReferenceCommand,
+} from "./anchors";
+import { createConflictVersionNodeView } from "./conflictNodeView";
+import { createFootnoteNodeView } from "./footnoteNodeView";
+import { createFootnotePlugin, insertFootnoteCommand } from "./footnotes";
 import { getImageManager } from "./ImageManager";
 import { createImageNodeView } from "./imageNodeView";
 import { categorizeImageSrc, type ImageSrcType } from "./imageUtils";
+import { setLabelSuggestions } from "./labels";
+import { createLabelsNodeView, focusLabels } from "./labelsNodeView";
 import { unlinkCommand } from "./linkUtils";
 import {
   createMathDisplayNodeView,
   createMathInlineNodeView,
 } from "./mathNodeView";
 import { createMathPlugin } from "./mathPlugin";
+import {
+  createNoteLinkPlugin,
+  onNoteLinkClick,
+  setNoteLinkSuggestions,
+} from "./noteLinks";
 import { parseHttpUrl, schema } from "./schema";
 import { normalizeTablesInSlice } from "./tableNormalize";
+import { createXrefNodeView } from "./xrefNodeView";
 
 // Re-export for backward compatibility
 export { categorizeImageSrc, type ImageSrcType };
+export { focusLabels, setLabelSuggestions };
+export { onNoteLinkClick, setNoteLinkSuggestions };
 
 /**
  * Check if current selection is non-empty and inline (doesn't cross block boundaries).
@@ -166,10 +186,14 @@ const markKeymap = keymap({
   },
 });
 
-// Tab navigation from title to first block (skipping created timestamp)
+// Index of the first block, after title, created timestamp and labels
+const FIRST_BLOCK_INDEX = 3;
+
+// Tab navigation from title to the labels field (skipping created timestamp)
 function tabNavigation(
   state: EditorState,
   dispatch?: (tr: Transaction) => void,
+  view?: EditorView,
 ) {
   const { $from } = state.selection;
   const grandparent = $from.node($from.depth - 1);
@@ -179,12 +203,15 @@ function tabNavigation(
     const pos = $from.before($from.depth);
     const nodeIndex = state.doc.resolve(pos).index();
 
-    // If in title (index 0), move to first block (index 2, skipping created at index 1)
-    if (nodeIndex === 0 && state.doc.childCount > 2) {
-      if (dispatch) {
-        // Calculate position of first block (after title and created)
-        const targetPos =
-          state.doc.child(0).nodeSize + state.doc.child(1).nodeSize;
+    // If in title (index 0), move to the labels field, which in turn moves
+    // on to the first block
+    if (nodeIndex === 0 && state.doc.childCount > FIRST_BLOCK_INDEX) {
+      if (dispatch && !(view && focusLabels(view))) {
+        // No labels field on screen: go straight to the first block
+        let targetPos = 0;
+        for (let i = 0; i < FIRST_BLOCK_INDEX; i++) {
+          targetPos += state.doc.child(i).nodeSize;
+        }
         const tr = state.tr.setSelection(
           Selection.near(state.doc.resolve(targetPos + 1)),
         );
@@ -204,13 +231,13 @@ function shiftTabNavigation(
   const { $from } = state.selection;
   const grandparent = $from.node($from.depth - 1);
 
-  // Check if we're in a block (direct child of doc, index >= 2)
+  // Check if we're in a block (direct child of doc, index >= 3)
   if (grandparent === state.doc) {
     const pos = $from.before($from.depth);
     const nodeIndex = state.doc.resolve(pos).index();
 
-    // If in first block (index 2) or later, move to title (index 0)
-    if (nodeIndex >= 2) {
+    // If in first block (index 3) or later, move to title (index 0)
+    if (nodeIndex >= FIRST_BLOCK_INDEX) {
       if (dispatch) {
         // Position inside title (after opening tag)
         const tr = state.tr.setSelection(Selection.near(state.doc.resolve(1)));
@@ -260,7 +287,10 @@ const placeholderPlugin = new Plugin({
 
 const plugins = [
   history(),
+  createNoteLinkPlugin(), // [[ picker keys, before Enter and Tab elsewhere
   markKeymap,
+  createFootnotePlugin(), // Numbering, endnotes; Enter/Escape leave a footnote
+  createAnchorPlugin(), // Cross-reference labels, unique anchor IDs
   tableEditing(), // Table editing (Tab navigation, row length fixes) - before listKeymap
   listKeymap,
   navigationKeymap,
@@ -280,6 +310,7 @@ export function mountEditor(host: HTMLElement): EditorView {
   const doc = schema.nodes.doc.create(null, [
     schema.nodes.title.create(),
     schema.nodes.created.create({ timestamp: Date.now() }),
+    schema.nodes.labels.create(),
     schema.nodes.paragraph.create(),
   ]);
   const state = EditorState.create({ schema, plugins, doc });
@@ -287,9 +318,13 @@ export function mountEditor(host: HTMLElement): EditorView {
   const view = new EditorView(host, {
     state,
     nodeViews: {
+      conflict_version: createConflictVersionNodeView,
+      footnote: createFootnoteNodeView,
       image: createImageNodeView,
+      labels: createLabelsNodeView,
       math_display: createMathDisplayNodeView,
       math_inline: createMathInlineNodeView,
+      xref: createXrefNodeView,
     },
     dispatchTransaction(tr) {
       const newState = view.state.apply(tr);
@@ -474,6 +509,13 @@ export function mountEditor(host: HTMLElement): EditorView {
   return view;
 }
 
+/**
+ * Make the editor read-only, or editable again.
+ */
+export function setEditable(view: EditorView, editable: boolean): void {
+  view.setProps({ editable: () => editable });
+}
+
 export function setContent(view: EditorView, content: unknown): void {
   let doc: Node;
   if (content) {
@@ -483,6 +525,7 @@ export function setContent(view: EditorView, content: unknown): void {
     doc = schema.nodes.doc.create(null, [
       schema.nodes.title.create(),
       schema.nodes.created.create({ timestamp: Date.now() }),
+      schema.nodes.labels.create(),
       schema.nodes.paragraph.create(),
     ]);
   }
@@ -502,6 +545,50 @@ export function focusAtEnd(view: EditorView): void {
   view.focus();
 }
 
+/**
+ * Select the first occurrence of `text` (case-insensitive) and scroll it
+ * into view. Math nodes and images match on their LaTeX source or alt text
+ * and are selected as a whole. Returns false if there is no match.
+ */
+export function revealText(view: EditorView, text: string): boolean {
+  const needle = text.toLowerCase();
+  if (!needle) return false;
+
+  const { doc } = view.state;
+  let selection: Selection | null = null;
+  doc.descendants((node, pos) => {
+    if (selection) return false;
+    if (node.isTextblock) {
+      // One character per leaf, so string offsets map to positions
+      const content = node.textBetween(
+        0,
+        node.content.size,
+        undefined,
+        "\ufffc",
+      );
+      const index = content.toLowerCase().indexOf(needle);
+      if (index !== -1) {
+        const from = pos + 1 + index;
+        selection = TextSelection.create(doc, from, from + needle.length);
+        return false;
+      }
+    }
+    const source = node.attrs.content ?? node.attrs.alt;
+    if (node.isAtom && typeof source === "string") {
+      if (source.toLowerCase().includes(needle)) {
+        selection = NodeSelection.create(doc, pos);
+      }
+      return false;
+    }
+    return true;
+  });
+
+  if (!selection) return false;
+  view.dispatch(view.state.tr.setSelection(selection).scrollIntoView());
+  view.focus();
+  return true;
+}
+
 export function doUndo(view: EditorView): boolean {
   return undo(view.state, view.dispatch);
 }
@@ -598,6 +685,23 @@ export function insertMathInline(view: EditorView): boolean {
   return true;
 }
 
+export function insertFootnote(view: EditorView): boolean {
+  return insertFootnoteCommand(view.state, view.dispatch);
+}
+
+/** Sections, equations, tables and figures a cross-reference can point to */
+export function listCrossReferenceTargets(view: EditorView): AnchorTarget[] {
+  return findAnchorTargets(view.state.doc);
+}
+
+/** Insert a cross-reference to the target at `targetPos` at the cursor */
+export function insertCrossReference(
+  view: EditorView,
+  targetPos: number,
+): boolean {
+  return insertCrossReferenceCommand(targetPos)(view.state, view.dispatch);
+}
+
 // Mark commands
 export function toggleStrong(view: EditorView): boolean {
   return toggleMark(schema.marks.strong)(view.state, view.dispatch);
@@ -638,6 +742,8 @@ export function getBlockTypeName(view: EditorView): string {
     switch (typeName) {
       case "title":
         return "Title";
+      case "footnote":
+        return "Footnote";
       case "paragraph":
         return "Paragraph";
       case "section": {
@@ -656,6 +762,8 @@ export function getBlockTypeName(view: EditorView): string {
         return "Horizontal Rule";
       case "created":
         return "Created";
+      case "labels":
+        return "Labels";
       case "bullet_list":
         return "Bullet List";
       case "ordered_list":
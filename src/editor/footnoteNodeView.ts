@@ -0,0 +1,87 @@
+/**
+ * NodeView for footnotes: the reference number in the text, followed by
+ * the editable body. The number comes from the footnote plugin's
+ * decoration (footnotes.ts); style.css places the body in the margin or,
+ * on narrow screens, hides it unless the cursor is in it.
+ *
+ * Clicking the number puts the cursor at the end of the body.
+ */
+
+import type { Node } from "prosemirror-model";
+import { TextSelection } from "prosemirror-state";
+import type {
+  Decoration,
+  EditorView,
+  ViewMutationRecord,
+} from "prosemirror-view";
+import type { FootnoteSpec } from "./footnotes";
+
+function footnoteNumber(decorations: readonly Decoration[]): string {
+  for (const decoration of decorations) {
+    const spec = decoration.spec as Partial<FootnoteSpec>;
+    if (spec.footnoteNumber) return String(spec.footnoteNumber);
+  }
+  return "";
+}
+
+export function createFootnoteNodeView(
+  node: Node,
+  view: EditorView,
+  getPos: () => number | undefined,
+  decorations: readonly Decoration[],
+) {
+  const dom = document.createElement("span");
+  dom.className = "footnote";
+
+  const ref = document.createElement("sup");
+  ref.className = "footnote-ref";
+  ref.contentEditable = "false";
+  ref.title = "Edit footnote";
+
+  const contentDOM = document.createElement("span");
+  contentDOM.className = "footnote-body";
+
+  dom.append(ref, contentDOM);
+
+  let current = node;
+  function setNumber(decorations: readonly Decoration[]) {
+    const number = footnoteNumber(decorations);
+    ref.textContent = number;
+    contentDOM.dataset.number = number;
+  }
+  setNumber(decorations);
+
+  ref.addEventListener("mousedown", (event) => {
+    event.preventDefault();
+    const pos = getPos();
+    if (pos === undefined) return;
+    const end = pos + current.nodeSize - 1;
+    view.dispatch(
+      view.state.tr.setSelection(TextSelection.create(view.state.doc, end)),
+    );
+    view.focus();
+  });
+
+  return {
+    dom,
+    contentDOM,
+
+    update(updated: Node, decorations: readonly Decoration[]) {
+      if (updated.type !== current.type) return false;
+      current = updated;
+      setNumber(decorations);
+      return true;
+    },
+
+    stopEvent(event: Event) {
+      return event.target === ref;
+    },
+
+    ignoreMutation(mutation: ViewMutationRecord) {
+      // The number is ours; everything in the body is ProseMirror's
+      return (
+        mutation.type !== "selection" && !contentDOM.contains(mutation.target)
+      );
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { history, undo } from "prosemirror-history";
+import { Node } from "prosemirror-model";
+import { EditorState, TextSelection } from "prosemirror-state";
+import type { DecorationSet } from "prosemirror-view";
+import { describe, expect, it } from "vitest";
+import {
+  createFootnotePlugin,
+  findFootnotes,
+  insertFootnoteCommand,
+} from "./footnotes";
+import { schema } from "./schema";
+
+const plugin = createFootnotePlugin();
+
+function stateWith(...blocks: unknown[]): EditorState {
+  const doc = Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: "Note" }] },
+      { type: "created", attrs: { timestamp: 0 } },
+      { type: "labels", attrs: { labels: [] } },
+      ...blocks,
+    ],
+  });
+  return EditorState.create({ schema, doc, plugins: [history(), plugin] });
+}
+
+function paragraph(...content: unknown[]) {
+  return { type: "paragraph", content };
+}
+
+function footnote(text: string) {
+  return { type: "footnote", content: [{ type: "text", text }] };
+}
+
+/** Footnote texts with the numbers their decorations carry */
+function numbered(state: EditorState): Array<[string, number]> {
+  const decorations = plugin.props.decorations?.call(
+    plugin,
+    state,
+  ) as DecorationSet;
+  return decorations
+    .find(undefined, undefined, (spec) => "footnoteNumber" in spec)
+    .map((d) => [
+      state.doc.nodeAt(d.from)?.textContent ?? "",
+      d.spec.footnoteNumber,
+    ]);
+}
+
+/** Position of the first occurrence of `text` */
+function posOf(state: EditorState, text: string): number {
+  let found = -1;
+  state.doc.descendants((node, pos) => {
+    if (found === -1 && node.isText && node.text?.includes(text)) {
+      found = pos + (node.text?.indexOf(text) ?? 0);
+    }
+  });
+  return found;
+}
+
+function apply(
+  state: EditorState,
+  command: typeof insertFootnoteCommand,
+): EditorState {
+  let next = state;
+  command(state, (tr) => {
+    next = state.apply(tr);
+  });
+  return next;
+}
+
+describe("footnotes", () => {
+  it("finds footnotes in document order", () => {
+    const state = stateWith(
+      paragraph({ type: "text", text: "a" }, footnote("one")),
+      { type: "blockquote", content: [paragraph(footnote("two"))] },
+    );
+    expect(findFootnotes(state.doc).map((f) => f.node.textContent)).toEqual([
+      "one",
+      "two",
+    ]);
+  });
+
+  it("numbers footnotes by position, through inserts and undo", () => {
+    let state = stateWith(
+      paragraph(
+        { type: "text", text: "first " },
+        footnote("a"),
+        { type: "text", text: " second" },
+        footnote("b"),
+      ),
+    );
+    expect(numbered(state)).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+
+    // A new footnote before both renumbers them
+    const at = posOf(state, "first");
+    state = state.apply(
+      state.tr.setSelection(TextSelection.create(state.doc, at)),
+    );
+    state = apply(state, insertFootnoteCommand);
+    state = state.apply(state.tr.insertText("new"));
+    expect(numbered(state)).toEqual([
+      ["new", 1],
+      ["a", 2],
+      ["b", 3],
+    ]);
+
+    state = apply(state, undo);
+    state = apply(state, undo);
+    expect(numbered(state)).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+
+  it("puts the cursor in an inserted footnote", () => {
+    let state = stateWith(paragraph({ type: "text", text: "text" }));
+    const end = posOf(state, "text") + 4;
+    state = state.apply(
+      state.tr.setSelection(TextSelection.create(state.doc, end)),
+    );
+    state = apply(state, insertFootnoteCommand);
+    expect(state.selection.$from.parent.type.name).toBe("footnote");
+  });
+
+  it("doesn't insert footnotes in the title or another footnote", () => {
+    let state = stateWith(paragraph(footnote("note")));
+    state = state.apply(
+      state.tr.setSelection(TextSelection.create(state.doc, 2)),
+    );
+    expect(insertFootnoteCommand(state)).toBe(false);
+
+    state = state.apply(
+      state.tr.setSelection(
+        TextSelection.create(state.doc, posOf(state, "note") + 1),
+      ),
+    );
+    expect(insertFootnoteCommand(state)).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Footnotes.
+ *
+ * A footnote is an inline node in the text it annotates; its content is the
+ * note's body. Footnotes aren't numbered in the document: a footnote's
+ * number is its position among the document's footnotes, recomputed from
+ * the document for every state, so numbering follows edits, undo and paste
+ * without any bookkeeping.
+ *
+ * The plugin here passes each footnote its number as a decoration (read by
+ * footnoteNodeView.ts) and adds an endnotes list after the last block. CSS
+ * decides which to show: bodies as sidenotes in the margin on wide screens,
+ * the endnotes on narrow ones.
+ *
+ * Mod-Alt-f inserts a footnote. Keys inside a footnote:
+ * - Enter or Escape moves the cursor back to the text after the footnote
+ * - Backspace in an empty footnote deletes it
+ */
+
+import { keydownHandler } from "prosemirror-keymap";
+import type { Node } from "prosemirror-model";
+import {
+  type Command,
+  type EditorState,
+  Plugin,
+  TextSelection,
+} from "prosemirror-state";
+import { Decoration, DecorationSet, type EditorView } from "prosemirror-view";
+import { schema } from "./schema";
+
+export interface FootnoteSpec {
+  footnoteNumber: number;
+}
+
+/** The document's footnotes in document order, with their positions */
+export function findFootnotes(doc: Node): Array<{ node: Node; pos: number }> {
+  const footnotes: Array<{ node: Node; pos: number }> = [];
+  doc.descendants((node, pos) => {
+    if (node.type === schema.nodes.footnote) {
+      footnotes.push({ node, pos });
+      return false;
+    }
+    return true;
+  });
+  return footnotes;
+}
+
+/** Position of the footnote containing the selection, if any */
+function footnoteAtSelection(state: EditorState): number | null {
+  const { $from, $to } = state.selection;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    if ($from.node(depth).type === schema.nodes.footnote) {
+      return $to.end(depth) <= $from.end(depth) ? $from.before(depth) : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Insert an empty footnote at the cursor (replacing the selection) and put
+ * the cursor in it. Fails where footnotes aren't allowed, e.g. in the
+ * title, code blocks or another footnote.
+ */
+export const insertFootnoteCommand: Command = (state, dispatch) => {
+  const { $from, $to, from, to } = state.selection;
+  const footnote = schema.nodes.footnote;
+  if (
+    !$from.sameParent($to) ||
+    !$from.parent.canReplaceWith($from.index(), $to.index(), footnote)
+  ) {
+    return false;
+  }
+
+  if (dispatch) {
+    const tr = state.tr.replaceRangeWith(from, to, footnote.create());
+    // Inside the footnote: one past its opening position
+    tr.setSelection(TextSelection.create(tr.doc, from + 1));
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+/** Move the cursor from inside a footnote to just after it */
+const leaveFootnote: Command = (state, dispatch) => {
+  const pos = footnoteAtSelection(state);
+  if (pos === null) return false;
+  if (dispatch) {
+    const after = pos + (state.doc.nodeAt(pos)?.nodeSize ?? 0);
+    dispatch(state.tr.setSelection(TextSelection.create(state.doc, after)));
+  }
+  return true;
+};
+
+/** Delete the footnote the cursor is in if it's empty */
+const deleteEmptyFootnote: Command = (state, dispatch) => {
+  const pos = footnoteAtSelection(state);
+  if (pos === null) return false;
+  const node = state.doc.nodeAt(pos);
+  if (!node || node.content.size > 0) return false;
+  if (dispatch) dispatch(state.tr.delete(pos, pos + node.nodeSize));
+  return true;
+};
+
+/** Put the cursor at the end of the nth (1-based) footnote */
+function focusFootnote(view: EditorView, number: number): void {
+  const footnote = findFootnotes(view.state.doc)[number - 1];
+  if (!footnote) return;
+  const end = footnote.pos + footnote.node.nodeSize - 1;
+  view.dispatch(
+    view.state.tr
+      .setSelection(TextSelection.create(view.state.doc, end))
+      .scrollIntoView(),
+  );
+  view.focus();
+}
+
+function renderEndnotes(view: EditorView, bodies: string[]): HTMLElement {
+  const section = document.createElement("section");
+  section.className = "endnotes";
+  section.contentEditable = "false";
+
+  const list = document.createElement("ol");
+  bodies.forEach((body, i) => {
+    const item = document.createElement("li");
+    item.textContent = body;
+    item.title = "Edit footnote";
+    item.addEventListener("mousedown", (event) => {
+      event.preventDefault();
+      focusFootnote(view, i + 1);
+    });
+    list.appendChild(item);
+  });
+  section.appendChild(list);
+  return section;
+}
+
+function footnoteDecorations(state: EditorState): DecorationSet {
+  const footnotes = findFootnotes(state.doc);
+  if (footnotes.length === 0) return DecorationSet.empty;
+
+  const editing = footnoteAtSelection(state);
+  const decorations = footnotes.map(({ node, pos }, i) => {
+    const spec: FootnoteSpec = { footnoteNumber: i + 1 };
+    const attrs = pos === editing ? { class: "footnote-editing" } : {};
+    return Decoration.node(pos, pos + node.nodeSize, attrs, spec);
+  });
+
+  // The endnotes are only redrawn when a footnote's text changes
+  const bodies = footnotes.map(({ node }) => node.textContent);
+  decorations.push(
+    Decoration.widget(
+      state.doc.content.size,
+      (view) => renderEndnotes(view, bodies),
+      {
+        key: `endnotes:${JSON.stringify(bodies)}`,
+        side: 1,
+        ignoreSelection: true,
+      },
+    ),
+  );
+  return DecorationSet.create(state.doc, decorations);
+}
+
+export function createFootnotePlugin(): Plugin {
+  return new Plugin({
+    props: {
+      decorations: footnoteDecorations,
+      handleKeyDown: keydownHandler({
+        Enter: leaveFootnote,
+        Escape: leaveFootnote,
+        Backspace: deleteEmptyFootnote,
+        "Mod-Alt-f": insertFootnoteCommand,
+      }),
+    },
+  });
+}
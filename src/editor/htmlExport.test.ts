@@ -0,0 +1,257 @@
+import { Node } from "prosemirror-model";
+import { describe, expect, it, vi } from "vitest";
+import { renderNoteHtml } from "./htmlExport";
+import { schema } from "./schema";
+
+function docWith(
+  blocks: unknown[],
+  title = "Note",
+  labels: string[] = [],
+): Node {
+  return Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp: 1707350400000 } },
+      { type: "labels", attrs: { labels } },
+      ...blocks,
+    ],
+  });
+}
+
+function text(value: string, ...marks: string[]) {
+  return { type: "text", text: value, marks: marks.map((type) => ({ type })) };
+}
+
+/** Rendered content of the exported page, without head and styles */
+async function article(doc: Node, resolveImage = async (src: string) => src) {
+  const html = await renderNoteHtml(doc, resolveImage);
+  return html.slice(html.indexOf("<article>") + 9, html.indexOf("</article>"));
+}
+
+describe("renderNoteHtml", () => {
+  it("produces a complete page titled after the note", async () => {
+    const html = await renderNoteHtml(docWith([], "A & B"), async (s) => s);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<title>A &amp; B</title>");
+    expect(html).toContain('<meta charset="utf-8">');
+  });
+
+  it("embeds print styles and no external fonts", async () => {
+    const html = await renderNoteHtml(docWith([]), async (s) => s);
+    expect(html).toContain("@media print");
+    expect(html).not.toContain("@font-face");
+  });
+
+  it("embeds KaTeX's fonts in pages with math", async () => {
+    const html = await renderNoteHtml(
+      docWith([{ type: "math_display", attrs: { content: "x^2" } }]),
+      async (s) => s,
+    );
+
+    expect(html).toMatch(
+      /@font-face\{[^}]*font-family:KaTeX_Main;[^}]*src:url\(data:font\/woff2;base64,/,
+    );
+    expect(html).toContain("font-family:KaTeX_Math;");
+    expect(html).not.toContain("url(fonts/");
+  });
+
+  it("renders nodes through their toDOM specs", async () => {
+    const html = await article(
+      docWith([
+        { type: "section", attrs: { level: 2 }, content: [text("Part")] },
+        { type: "paragraph", content: [text("a < b")] },
+        { type: "horizontal_rule" },
+      ]),
+    );
+    expect(html).toContain("<h1>Note</h1>");
+    expect(html).toContain(
+      '<time class="doc-created" data-timestamp="1707350400000"',
+    );
+    expect(html).toContain("<h3>Part</h3><p>a &lt; b</p><hr>");
+  });
+
+  it("renders labels as a list", async () => {
+    const html = await article(docWith([], "Note", ["work", "R&D"]));
+    expect(html).toContain(
+      '<ul class="doc-labels"><li class="doc-label">work</li><li class="doc-label">R&amp;D</li></ul>',
+    );
+  });
+
+  it("shares marks across adjacent text", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "paragraph",
+          content: [text("a", "strong"), text("b", "strong", "em"), text("c")],
+        },
+      ]),
+    );
+    expect(html).toContain("<p><strong>a<em>b</em></strong>c</p>");
+  });
+
+  it("escapes attribute values", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "paragraph",
+          content: [
+            {
+              type: "text",
+              text: "link",
+              marks: [
+                { type: "link", attrs: { href: 'https://e.com/?a="1"&b' } },
+              ],
+            },
+          ],
+        },
+      ]),
+    );
+    expect(html).toContain(
+      '<a href="https://e.com/?a=&quot;1&quot;&amp;b">link</a>',
+    );
+  });
+
+  it("links notes where the resolver says, or leaves them as text", async () => {
+    const doc = docWith([
+      {
+        type: "paragraph",
+        content: [
+          {
+            type: "text",
+            text: "other",
+            marks: [{ type: "link", attrs: { href: "note:2026/01/02/3" } }],
+          },
+        ],
+      },
+    ]);
+    expect(await article(doc)).toContain("<p>other</p>");
+
+    const html = await renderNoteHtml(
+      doc,
+      async (src) => src,
+      [],
+      (path) => (path === "2026/01/02/3" ? "../3/index.html" : null),
+    );
+    expect(html).toContain('<p><a href="../3/index.html">other</a></p>');
+  });
+
+  it("renders footnotes as sidenotes and numbered endnotes", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "paragraph",
+          content: [
+            text("A"),
+            { type: "footnote", content: [text("first", "em")] },
+            text("B"),
+            { type: "footnote", content: [text("x < y")] },
+          ],
+        },
+      ]),
+    );
+    expect(html).toContain(
+      '<p>A<sup class="footnote-ref" id="fnref-1"><a href="#fn-1">1</a></sup>' +
+        '<span class="sidenote"><sup>1</sup> <em>first</em></span>B' +
+        '<sup class="footnote-ref" id="fnref-2"><a href="#fn-2">2</a></sup>',
+    );
+    expect(html).toContain(
+      '<section class="footnotes"><ol>' +
+        '<li id="fn-1"><em>first</em> <a href="#fnref-1" class="footnote-back">↩</a></li>' +
+        '<li id="fn-2">x &lt; y <a href="#fnref-2" class="footnote-back">↩</a></li>' +
+        "</ol></section>",
+    );
+  });
+
+  it("numbers anchored targets and links cross-references", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "section",
+          attrs: { level: 1, id: "sec-a" },
+          content: [text("Intro")],
+        },
+        {
+          type: "paragraph",
+          content: [
+            { type: "xref", attrs: { target: "sec-a" } },
+            { type: "xref", attrs: { target: "gone" } },
+          ],
+        },
+      ]),
+    );
+    expect(html).toContain('<h2 id="sec-a" data-number="1">Intro</h2>');
+    expect(html).toContain(
+      '<p><a class="xref" href="#sec-a" title="Intro">Section 1</a>' +
+        '<a class="xref xref-dangling" href="#gone">??</a></p>',
+    );
+  });
+
+  it("pre-renders math with KaTeX", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "paragraph",
+          content: [{ type: "math_inline", attrs: { content: "x^2" } }],
+        },
+        { type: "math_display", attrs: { content: "E = mc^2" } },
+      ]),
+    );
+    expect(html).toMatch(
+      /<span class="math-inline" data-latex="x\^2"><span class="katex">/,
+    );
+    expect(html).toMatch(
+      /<div class="math-display" data-latex="E = mc\^2"><span class="katex-display">/,
+    );
+  });
+
+  it("inlines images through the resolver, once per path", async () => {
+    const image = { type: "image", attrs: { src: "01ABC.png", alt: "pic" } };
+    const resolveImage = vi.fn(async () => "data:image/png;base64,AAAA");
+    const html = await article(
+      docWith([{ type: "paragraph", content: [image, image] }]),
+      resolveImage,
+    );
+    expect(resolveImage).toHaveBeenCalledTimes(1);
+    expect(resolveImage).toHaveBeenCalledWith("01ABC.png");
+    expect(html).toContain(
+      '<img src="data:image/png;base64,AAAA" class="pm-image" alt="pic">',
+    );
+  });
+
+  it("keeps the original src when an image can't be read", async () => {
+    const html = await article(
+      docWith([
+        {
+          type: "paragraph",
+          content: [{ type: "image", attrs: { src: "missing.png" } }],
+        },
+      ]),
+      async () => {
+        throw new Error("not found");
+      },
+    );
+    expect(html).toContain('<img src="missing.png" class="pm-image">');
+  });
+
+  it("renders tables", async () => {
+    const cell = (type: string, value: string) => ({
+      type,
+      content: [text(value)],
+    });
+    const html = await article(
+      docWith([
+        {
+          type: "table",
+          content: [
+            { type: "table_row", content: [cell("table_header", "H")] },
+            { type: "table_row", content: [cell("table_cell", "C")] },
+          ],
+        },
+      ]),
+    );
+    expect(html).toContain(
+      "<table><tbody><tr><th>H</th></tr><tr><td>C</td></tr></tbody></table>",
+    );
+  });
+});
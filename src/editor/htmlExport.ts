@@ -0,0 +1,487 @@
+/**
+ * Standalone HTML export.
+ *
+ * Serializes a note through the schema's toDOM specs into a single HTML
+ * file that can be opened without the app: images are inlined as data URLs,
+ * math is pre-rendered with KaTeX (its fonts inlined too), and the
+ * stylesheet (including print rules) is embedded. Footnotes are written
+ * twice, as sidenotes next to the text and as endnotes after it; the
+ * stylesheet shows the sidenotes when there is room for them in the margin
+ * and the endnotes otherwise.
+ * Cross-references are links to their targets' IDs, showing the targets'
+ * numbers as in the editor. Links to other notes point wherever the caller
+ * says those notes are; without a page to go to they're left as text.
+ *
+ * toDOM specs are rendered to a string directly rather than through
+ * DOMSerializer, so export doesn't need a live document.
+ */
+
+import katex from "katex";
+import katexCss from "katex/dist/katex.min.css?raw";
+import type { DOMOutputSpec, Mark, Node } from "prosemirror-model";
+import { type AnchorTarget, anchorsById, DANGLING_LABEL } from "./anchors";
+import { parseNoteHref } from "./schema";
+
+/**
+ * Resolve an image src (relative path within the note directory) to a URL
+ * that works outside the notebook, typically a data URL.
+ */
+export type ImageResolver = (src: string) => Promise<string>;
+
+/**
+ * Resolve the path of a linked note to the URL of its page, or null if
+ * the note has no page.
+ */
+export type NoteLinkResolver = (path: string) => string | null;
+
+/** A navigation link shown above the note, e.g. back to a site's index */
+export interface PageLink {
+  href: string;
+  text: string;
+  rel?: string;
+}
+
+const VOID_ELEMENTS = new Set(["br", "hr", "img"]);
+
+interface RenderContext {
+  /** Resolved image URLs by src */
+  images: Map<string, string>;
+  /** Rendered footnote bodies, in document order */
+  footnotes: string[];
+  /** Cross-reference targets by anchor ID */
+  anchors: Map<string, AnchorTarget>;
+  resolveNoteLink: NoteLinkResolver;
+}
+
+/** Styles for the exported page. Mirrors the editor's look in style.css. */
+const STYLES = `
+body {
+  font-family: system-ui, sans-serif;
+  line-height: 1.5;
+  color: #222;
+  max-width: 46em;
+  margin: 2em auto;
+  padding: 0 1em;
+}
+h1 {
+  font-size: 2em;
+  margin: 0 0 0.25em 0;
+  border-bottom: 1px solid #ddd;
+  padding-bottom: 0.25em;
+}
+.doc-created {
+  display: block;
+  font-size: 0.75em;
+  color: #888;
+  margin-bottom: 1.5em;
+}
+.doc-labels {
+  list-style: none;
+  padding: 0;
+  margin: -1em 0 1.5em 0;
+  font-size: 0.85em;
+}
+.doc-labels:empty { display: none; }
+.doc-label {
+  display: inline-block;
+  padding: 0.1em 0.6em;
+  margin-right: 0.25em;
+  border-radius: 1em;
+  background: #e8eef7;
+  color: #345;
+}
+h2, h3, h4, h5 { margin: 1em 0 0.5em 0; }
+h2 { font-size: 1.5em; }
+h3 { font-size: 1.25em; }
+h4 { font-size: 1.1em; }
+h5 { font-size: 1em; }
+blockquote {
+  margin: 0.5em 0;
+  padding-left: 1em;
+  border-left: 3px solid #ccc;
+  color: #555;
+}
+pre {
+  background: #f5f5f5;
+  padding: 0.75em 1em;
+  border-radius: 4px;
+  overflow-x: auto;
+}
+img { max-width: 100%; height: auto; }
+table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+th, td {
+  border: 1px solid #ccc;
+  padding: 8px 12px;
+  text-align: left;
+  vertical-align: top;
+}
+th { background: #f5f5f5; }
+.math-display { margin: 1em 0; text-align: center; overflow-x: auto; }
+.footnote-ref { font-size: 0.75em; line-height: 0; }
+.footnote-ref a { text-decoration: none; }
+.sidenote { display: none; }
+.footnotes {
+  margin-top: 2em;
+  border-top: 1px solid #ddd;
+  font-size: 0.85em;
+  color: #555;
+}
+.footnote-back { text-decoration: none; }
+.xref { text-decoration: none; }
+.xref-dangling { color: #c00; }
+:is(h2, h3, h4, h5)[data-number]::before { content: attr(data-number) " "; color: #888; }
+.math-display[data-number] { position: relative; }
+.math-display[data-number]::after {
+  content: "(" attr(data-number) ")";
+  position: absolute;
+  right: 0;
+  top: 50%;
+  transform: translateY(-50%);
+}
+table[data-number]::after {
+  content: "Table " attr(data-number);
+  display: table-caption;
+  caption-side: bottom;
+  text-align: center;
+  font-size: 0.85em;
+  color: #555;
+}
+@media (min-width: 80em) {
+  .sidenote {
+    display: block;
+    float: right;
+    clear: right;
+    width: 14em;
+    margin: 0 -17em 0.5em 0;
+    font-size: 0.85em;
+    line-height: 1.4;
+    color: #555;
+  }
+  .footnotes { display: none; }
+}
+nav { display: flex; gap: 1.5em; margin-bottom: 2em; font-size: 0.9em; }
+.note-index { list-style: none; padding: 0; }
+.note-index li { display: flex; justify-content: space-between; gap: 1em; padding: 0.25em 0; }
+.note-index time { color: #888; white-space: nowrap; }
+@media print {
+  nav { display: none; }
+  body { max-width: none; margin: 0; padding: 0; color: #000; font-size: 11pt; }
+  a { color: inherit; }
+  a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.8em; }
+  h1, h2, h3, h4, h5 { break-after: avoid; }
+  pre, blockquote, table, img, .math-display { break-inside: avoid; }
+  .sidenote { display: none; }
+  .footnotes { display: block; }
+  th { background: none; }
+}
+`;
+
+// KaTeX's stylesheet refers to its fonts by relative URLs that don't exist
+// next to an exported file, so its @font-face rules are kept apart and
+// pointed at the fonts wherever the export puts them (katexFontFaces).
+const FONT_FACE = /@font-face\{[^}]*\}/g;
+const KATEX_STYLES = katexCss.replace(FONT_FACE, "");
+const KATEX_FONT_FACE_RULES = katexCss.match(FONT_FACE) ?? [];
+
+/**
+ * Load KaTeX's fonts as data URLs by file name (see katexFonts.ts), or
+ * none if they can't be loaded, e.g. offline: math then falls back to the
+ * system's serif font.
+ */
+export async function loadKatexFonts(): Promise<Record<string, string>> {
+  try {
+    return (await import("./katexFonts")).KATEX_FONTS;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * KaTeX's @font-face rules, with the woff2 font files at the URLs
+ * `fontUrl` gives for their names. Fonts it has no URL for are left out.
+ */
+export function katexFontFaces(
+  fontUrl: (file: string) => string | undefined,
+): string {
+  return KATEX_FONT_FACE_RULES.map((rule) => {
+    const file = /url\(fonts\/([\w-]+\.woff2)\)/.exec(rule)?.[1];
+    const url = file && fontUrl(file);
+    return url
+      ? rule.replace(/src:[^;}]*/, `src:url(${url}) format("woff2")`)
+      : "";
+  }).join("");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render a toDOM spec as HTML. `content` is the already rendered HTML that
+ * goes in the spec's hole (0).
+ */
+function renderSpec(spec: DOMOutputSpec, content = ""): string {
+  if (typeof spec === "string") return escapeHtml(spec);
+  if (!Array.isArray(spec)) {
+    throw new Error("toDOM specs returning DOM nodes are not supported");
+  }
+
+  const [tag, ...rest] = spec as [string, ...unknown[]];
+  let attrs = "";
+  let children = rest;
+  const first = rest[0];
+  if (first && typeof first === "object" && !Array.isArray(first)) {
+    for (const [name, value] of Object.entries(first)) {
+      if (value === null || value === undefined) continue;
+      attrs += ` ${name}="${escapeHtml(String(value))}"`;
+    }
+    children = rest.slice(1);
+  }
+
+  if (VOID_ELEMENTS.has(tag)) return `<${tag}${attrs}>`;
+
+  const inner = children
+    .map((child) =>
+      child === 0 ? content : renderSpec(child as DOMOutputSpec, content),
+    )
+    .join("");
+  return `<${tag}${attrs}>${inner}</${tag}>`;
+}
+
+/**
+ * A node's toDOM spec, with the number of an anchored cross-reference
+ * target as `data-number` on its outer element.
+ */
+function specWithNumber(node: Node, context: RenderContext): DOMOutputSpec {
+  const spec = node.type.spec.toDOM?.(node) as DOMOutputSpec;
+  const id = node.attrs.id as string | null | undefined;
+  const target = id ? context.anchors.get(id) : undefined;
+  if (!target || !Array.isArray(spec)) return spec;
+
+  const [tag, attrs, ...rest] = spec as [string, ...unknown[]];
+  return attrs && typeof attrs === "object" && !Array.isArray(attrs)
+    ? [tag, { ...attrs, "data-number": target.number }, ...rest]
+    : [tag, { "data-number": target.number }, attrs, ...rest];
+}
+
+function renderMath(node: Node, context: RenderContext): string {
+  const displayMode = node.type.name === "math_display";
+  const math = katex.renderToString(node.attrs.content as string, {
+    displayMode,
+    throwOnError: false,
+    errorColor: "#c00",
+  });
+  const [tag, attrs] = specWithNumber(node, context) as [string, object];
+  return renderSpec([tag, attrs, 0], math);
+}
+
+function renderXref(node: Node, context: RenderContext): string {
+  const target = node.attrs.target as string;
+  const anchor = context.anchors.get(target);
+  return renderSpec([
+    "a",
+    {
+      class: anchor ? "xref" : "xref xref-dangling",
+      href: `#${target}`,
+      title: anchor?.text,
+    },
+    anchor?.label ?? DANGLING_LABEL,
+  ]);
+}
+
+/**
+ * A footnote's reference number linking to its endnote, followed by the
+ * body as a sidenote. The body is kept for the endnotes.
+ */
+function renderFootnote(node: Node, context: RenderContext): string {
+  const body = renderContent(node, context);
+  const number = context.footnotes.push(body);
+  const ref = renderSpec([
+    "sup",
+    { class: "footnote-ref", id: `fnref-${number}` },
+    ["a", { href: `#fn-${number}` }, String(number)],
+  ]);
+  return `${ref}<span class="sidenote"><sup>${number}</sup> ${body}</span>`;
+}
+
+function renderEndnotes(footnotes: string[]): string {
+  if (footnotes.length === 0) return "";
+  const items = footnotes.map((body, i) => {
+    const back = renderSpec([
+      "a",
+      { href: `#fnref-${i + 1}`, class: "footnote-back" },
+      "↩",
+    ]);
+    return `<li id="fn-${i + 1}">${body} ${back}</li>`;
+  });
+  return `<section class="footnotes"><ol>${items.join("")}</ol></section>`;
+}
+
+function renderNode(node: Node, context: RenderContext): string {
+  if (node.isText) return escapeHtml(node.text ?? "");
+
+  if (node.type.name === "math_display" || node.type.name === "math_inline") {
+    return renderMath(node, context);
+  }
+  if (node.type.name === "xref") {
+    return renderXref(node, context);
+  }
+  if (node.type.name === "footnote") {
+    return renderFootnote(node, context);
+  }
+  if (node.type.name === "image") {
+    const src = node.attrs.src as string;
+    node = node.type.create(
+      { ...node.attrs, src: context.images.get(src) ?? src },
+      null,
+      node.marks,
+    );
+  }
+
+  if (!node.type.spec.toDOM) return renderContent(node, context);
+  return renderSpec(
+    specWithNumber(node, context),
+    renderContent(node, context),
+  );
+}
+
+/** Wrap rendered HTML in a mark's element */
+function renderMark(mark: Mark, inner: string, context: RenderContext): string {
+  const toDOM = mark.type.spec.toDOM;
+  if (!toDOM) return inner;
+
+  const path =
+    mark.type.name === "link" ? parseNoteHref(mark.attrs.href as string) : null;
+  if (path !== null) {
+    const href = context.resolveNoteLink(path);
+    if (href === null) return inner;
+    mark = mark.type.create({ ...mark.attrs, href });
+  }
+  return renderSpec(toDOM(mark, true), inner);
+}
+
+/**
+ * Render a node's children. Marks shared by adjacent inline nodes are
+ * rendered once around all of them, as DOMSerializer does.
+ */
+function renderContent(parent: Node, context: RenderContext): string {
+  let html = "";
+  // Open marks, outermost first, with the HTML rendered inside each so far
+  const open: Array<{ mark: Mark; html: string }> = [];
+
+  const closeTo = (depth: number) => {
+    while (open.length > depth) {
+      const { mark, html: inner } = open.pop() as { mark: Mark; html: string };
+      const rendered = renderMark(mark, inner, context);
+      if (open.length > 0) open[open.length - 1].html += rendered;
+      else html += rendered;
+    }
+  };
+
+  parent.forEach((child) => {
+    let keep = 0;
+    while (
+      keep < open.length &&
+      keep < child.marks.length &&
+      open[keep].mark.eq(child.marks[keep])
+    ) {
+      keep++;
+    }
+    closeTo(keep);
+    for (const mark of child.marks.slice(keep)) {
+      open.push({ mark, html: "" });
+    }
+
+    const rendered = renderNode(child, context);
+    if (open.length > 0) open[open.length - 1].html += rendered;
+    else html += rendered;
+  });
+  closeTo(0);
+
+  return html;
+}
+
+/**
+ * Wrap rendered HTML in a complete page with the embedded stylesheet.
+ * `head` is added to the page's head, e.g. KaTeX's fonts.
+ */
+export function renderHtmlPage(title: string, body: string, head = ""): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${head}<style>${KATEX_STYLES}</style>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a note document as a complete, self-contained HTML page.
+ * Images whose src can't be resolved keep their original src; links to
+ * notes that resolveNoteLink has no page for become plain text. A page
+ * with math embeds KaTeX's fonts, or links `fontStylesheet` if given
+ * (a stylesheet of katexFontFaces shared by several pages).
+ */
+export async function renderNoteHtml(
+  doc: Node,
+  resolveImage: ImageResolver,
+  links: PageLink[] = [],
+  resolveNoteLink: NoteLinkResolver = () => null,
+  fontStylesheet?: string,
+): Promise<string> {
+  const images = new Map<string, string>();
+  const sources = new Set<string>();
+  doc.descendants((node) => {
+    if (node.type.name === "image") sources.add(node.attrs.src as string);
+  });
+  for (const src of sources) {
+    try {
+      images.set(src, await resolveImage(src));
+    } catch {
+      // Leave the image pointing at its original path
+    }
+  }
+
+  const nav =
+    links.length > 0
+      ? `<nav>${links
+          .map((link) =>
+            renderSpec(["a", { href: link.href, rel: link.rel }, link.text]),
+          )
+          .join("")}</nav>\n`
+      : "";
+  const title = doc.firstChild?.textContent.trim() || "Untitled";
+  const context: RenderContext = {
+    images,
+    footnotes: [],
+    anchors: anchorsById(doc),
+    resolveNoteLink,
+  };
+  const content = renderContent(doc, context);
+
+  let head = "";
+  if (content.includes('class="katex')) {
+    if (fontStylesheet) {
+      head = `<link rel="stylesheet" href="${escapeHtml(fontStylesheet)}">\n`;
+    } else {
+      const fonts = await loadKatexFonts();
+      head = `<style>${katexFontFaces((file) => fonts[file])}</style>\n`;
+    }
+  }
+  return renderHtmlPage(
+    title,
+    `${nav}<article>${content}${renderEndnotes(context.footnotes)}</article>`,
+    head,
+  );
+}
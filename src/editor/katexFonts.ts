@@ -0,0 +1,19 @@
+/**
+ * KaTeX's fonts for exported pages with math (woff2 only, which every
+ * browser that runs the app reads), as data URLs by file name, e.g.
+ * "KaTeX_Main-Regular.woff2".
+ *
+ * Being large, this module is only ever imported dynamically (see
+ * loadKatexFonts in htmlExport.ts), so its chunk stays out of the app and
+ * out of the service worker's precache.
+ */
+
+export const KATEX_FONTS: Record<string, string> = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>("/node_modules/katex/dist/fonts/*.woff2", {
+      query: "?url&inline",
+      import: "default",
+      eager: true,
+    }),
+  ).map(([path, url]) => [path.slice(path.lastIndexOf("/") + 1), url]),
+);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  addLabel,
+  hasLabel,
+  normalizeLabel,
+  normalizeLabels,
+  removeLabel,
+} from "./labels";
+
+describe("normalizeLabel", () => {
+  it("trims, collapses whitespace and drops commas", () => {
+    expect(normalizeLabel("  to \t do,later ")).toBe("to do later");
+    expect(normalizeLabel(" , ")).toBe("");
+  });
+});
+
+describe("addLabel", () => {
+  it("appends new labels", () => {
+    expect(addLabel(["a"], " b ")).toEqual(["a", "b"]);
+  });
+
+  it("ignores empty labels and labels already present in any case", () => {
+    const labels = ["Work"];
+    expect(addLabel(labels, "  ")).toEqual(["Work"]);
+    expect(addLabel(labels, "work")).toEqual(["Work"]);
+  });
+});
+
+describe("removeLabel", () => {
+  it("removes a label regardless of case", () => {
+    expect(removeLabel(["a", "Work", "b"], "WORK")).toEqual(["a", "b"]);
+  });
+});
+
+describe("normalizeLabels", () => {
+  it("cleans up and de-duplicates, keeping the first spelling", () => {
+    expect(normalizeLabels(["Work", " ideas", "work", ""])).toEqual([
+      "Work",
+      "ideas",
+    ]);
+    expect(hasLabel(["Work"], "WORK")).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Note labels: the strings stored in the document's labels node.
+ *
+ * Labels are compared case-insensitively, so "Work" and "work" are the same
+ * label; the spelling used first is kept.
+ */
+
+import type { EditorView } from "prosemirror-view";
+
+/**
+ * Clean up label text typed or imported by the user: trim, collapse runs of
+ * whitespace and drop commas (which separate labels when typing).
+ * Returns "" if nothing is left.
+ */
+export function normalizeLabel(text: string): string {
+  return text.replace(/,/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Key for comparing labels */
+export function labelKey(label: string): string {
+  return label.toLowerCase();
+}
+
+export function hasLabel(labels: readonly string[], label: string): boolean {
+  const key = labelKey(label);
+  return labels.some((l) => labelKey(l) === key);
+}
+
+/**
+ * Add a label (normalized) unless it is empty or already present.
+ * Returns a new array.
+ */
+export function addLabel(labels: readonly string[], text: string): string[] {
+  const label = normalizeLabel(text);
+  if (!label || hasLabel(labels, label)) return [...labels];
+  return [...labels, label];
+}
+
+/**
+ * Remove a label. Returns a new array.
+ */
+export function removeLabel(
+  labels: readonly string[],
+  label: string,
+): string[] {
+  const key = labelKey(label);
+  return labels.filter((l) => labelKey(l) !== key);
+}
+
+/**
+ * Normalize and de-duplicate a list of labels, keeping the first spelling.
+ */
+export function normalizeLabels(labels: readonly string[]): string[] {
+  return labels.reduce<string[]>((all, label) => addLabel(all, label), []);
+}
+
+/** Provides the labels used elsewhere in the notebook */
+export type LabelSuggestions = () => Promise<readonly string[]>;
+
+// Completions offered while typing a label, per view
+const suggestions = new WeakMap<EditorView, LabelSuggestions>();
+
+/**
+ * Set where a view's labels editor gets its completions from. Called each
+ * time the labels field is focused, so it can reflect other notes' edits.
+ */
+export function setLabelSuggestions(
+  view: EditorView,
+  provider: LabelSuggestions,
+): void {
+  suggestions.set(view, provider);
+}
+
+export async function getLabelSuggestions(view: EditorView): Promise<string[]> {
+  const provider = suggestions.get(view);
+  return provider ? normalizeLabels(await provider()) : [];
+}
@@ -0,0 +1,175 @@
+/**
+ * NodeView for the labels node: one chip per label, plus a text field for
+ * adding labels with completions from the rest of the notebook.
+ *
+ * Keys in the text field:
+ * - Enter or comma adds the typed label
+ * - Backspace in an empty field removes the last label
+ * - Enter in an empty field, Tab or Escape moves on to the note body
+ * - Shift-Tab goes back to the title
+ */
+
+import type { Node } from "prosemirror-model";
+import { Selection } from "prosemirror-state";
+import type { EditorView } from "prosemirror-view";
+import { addLabel, getLabelSuggestions, hasLabel, removeLabel } from "./labels";
+
+// Each view's field needs its own <datalist> id
+let nextListId = 1;
+
+export function createLabelsNodeView(
+  node: Node,
+  view: EditorView,
+  getPos: () => number | undefined,
+) {
+  const dom = document.createElement("div");
+  dom.className = "doc-labels";
+  dom.contentEditable = "false";
+
+  const chips = document.createElement("span");
+  chips.className = "doc-labels-chips";
+
+  const input = document.createElement("input");
+  input.className = "doc-labels-input";
+  input.type = "text";
+  input.placeholder = "Add label";
+  input.setAttribute("aria-label", "Add label");
+
+  const datalist = document.createElement("datalist");
+  datalist.id = `doc-labels-suggestions-${nextListId++}`;
+  input.setAttribute("list", datalist.id);
+
+  dom.append(chips, input, datalist);
+
+  let labels = node.attrs.labels as string[];
+  // Completions, fetched when the field is focused
+  let suggestions: string[] = [];
+
+  function render() {
+    chips.replaceChildren(
+      ...labels.map((label) => {
+        const chip = document.createElement("span");
+        chip.className = "doc-label";
+        chip.textContent = label;
+
+        const remove = document.createElement("button");
+        remove.type = "button";
+        remove.className = "doc-label-remove";
+        remove.textContent = "×";
+        remove.title = `Remove label "${label}"`;
+        remove.addEventListener("click", () => {
+          setLabels(removeLabel(labels, label));
+        });
+
+        chip.append(remove);
+        return chip;
+      }),
+    );
+  }
+
+  function setLabels(updated: string[]) {
+    const pos = getPos();
+    if (pos === undefined) return;
+    view.dispatch(view.state.tr.setNodeMarkup(pos, null, { labels: updated }));
+  }
+
+  function commitInput(): boolean {
+    const text = input.value;
+    input.value = "";
+    const updated = addLabel(labels, text);
+    if (updated.length === labels.length) return false;
+    setLabels(updated);
+    return true;
+  }
+
+  // Move the cursor into the document, before or after the labels
+  function leave(forward: boolean) {
+    const pos = getPos();
+    if (pos === undefined) return;
+    const { doc } = view.state;
+    const target = forward
+      ? Selection.near(doc.resolve(pos + node.nodeSize), 1)
+      : Selection.near(doc.resolve(1));
+    view.dispatch(view.state.tr.setSelection(target).scrollIntoView());
+    view.focus();
+  }
+
+  input.addEventListener("focus", async () => {
+    try {
+      suggestions = await getLabelSuggestions(view);
+    } catch {
+      // No completions, but labels can still be typed
+      suggestions = [];
+    }
+    datalist.replaceChildren(
+      ...suggestions
+        .filter((label) => !hasLabel(labels, label))
+        .map((label) => {
+          const option = document.createElement("option");
+          option.value = label;
+          return option;
+        }),
+    );
+  });
+
+  input.addEventListener("keydown", (e) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (!commitInput() && e.key === "Enter" && !input.value) leave(true);
+    } else if (e.key === "Backspace" && !input.value && labels.length > 0) {
+      e.preventDefault();
+      setLabels(labels.slice(0, -1));
+    } else if (e.key === "Tab" || e.key === "Escape") {
+      e.preventDefault();
+      commitInput();
+      leave(!e.shiftKey);
+    }
+  });
+
+  // Picking a completion fires input without a keydown (a plain Event, or
+  // an InputEvent replacing the text, depending on the browser)
+  input.addEventListener("input", (e) => {
+    const picked =
+      !(e instanceof InputEvent) || e.inputType === "insertReplacementText";
+    if (picked && suggestions.includes(input.value)) {
+      commitInput();
+    }
+  });
+
+  input.addEventListener("blur", () => {
+    commitInput();
+  });
+
+  render();
+
+  return {
+    dom,
+    update(updatedNode: Node) {
+      if (updatedNode.type.name !== "labels") return false;
+      node = updatedNode;
+      if (updatedNode.attrs.labels !== labels) {
+        labels = updatedNode.attrs.labels as string[];
+        render();
+      }
+      return true;
+    },
+    // The text field and buttons handle their own events
+    stopEvent(event: Event) {
+      return dom.contains(event.target as globalThis.Node);
+    },
+    ignoreMutation() {
+      return true;
+    },
+  };
+}
+
+/**
+ * Focus the labels field of the document shown in a view.
+ * Returns false if the document has no labels node on screen.
+ */
+export function focusLabels(view: EditorView): boolean {
+  const input = view.dom.querySelector<HTMLInputElement>(".doc-labels-input");
+  if (!input) return false;
+  input.focus();
+  return true;
+}
@@ -0,0 +1,478 @@
+import { Node } from "prosemirror-model";
+import { describe, expect, it } from "vitest";
+import { markdownToNote, noteToMarkdown } from "./markdown";
+import { schema } from "./schema";
+
+function docWith(
+  blocks: unknown[],
+  title = "Note",
+  timestamp = 0,
+  labels: string[] = [],
+): Node {
+  return Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp } },
+      { type: "labels", attrs: { labels } },
+      ...blocks,
+    ],
+  });
+}
+
+function paragraph(...content: unknown[]) {
+  return { type: "paragraph", content };
+}
+
+function footnote(...content: unknown[]) {
+  return { type: "footnote", content };
+}
+
+function text(value: string, ...marks: string[]) {
+  return marks.length > 0
+    ? { type: "text", text: value, marks: marks.map((type) => ({ type })) }
+    : { type: "text", text: value };
+}
+
+/** Body of the Markdown output, after the title line */
+function body(doc: Node): string {
+  return noteToMarkdown(doc).split("# Note\n\n")[1];
+}
+
+describe("noteToMarkdown", () => {
+  it("writes created as front matter and title as h1", () => {
+    const md = noteToMarkdown(
+      docWith([paragraph(text("Hi"))], "My Note", 1707350400000),
+    );
+    expect(md).toBe(
+      "---\ncreated: 2024-02-08T00:00:00.000Z\n---\n\n# My Note\n\nHi\n",
+    );
+  });
+
+  it("writes labels as front matter, quoting where needed", () => {
+    const md = noteToMarkdown(
+      docWith([paragraph()], "Note", 0, ["work", "to do", "a: b", 'say "hi"']),
+    );
+    expect(md).toMatch(
+      /^---\nlabels: \[work, to do, "a: b", "say \\"hi\\""\]\n---\n/,
+    );
+  });
+
+  it("omits front matter when there is no timestamp", () => {
+    expect(noteToMarkdown(docWith([paragraph()]))).toMatch(/^# Note\n/);
+  });
+
+  it("maps section levels to ## through #####", () => {
+    const doc = docWith(
+      [1, 2, 3, 4].map((level) => ({
+        type: "section",
+        attrs: { level },
+        content: [{ type: "text", text: `L${level}` }],
+      })),
+    );
+    expect(body(doc)).toBe("## L1\n\n### L2\n\n#### L3\n\n##### L4\n");
+  });
+
+  it("writes marks, including strikethrough", () => {
+    const doc = docWith([
+      paragraph(
+        text("a", "strong"),
+        text(" "),
+        text("b", "em"),
+        text(" "),
+        text("c", "code"),
+        text(" "),
+        text("d", "strikethrough"),
+      ),
+    ]);
+    expect(body(doc)).toBe("**a** *b* `c` ~~d~~\n");
+  });
+
+  it("writes links", () => {
+    const doc = docWith([
+      paragraph({
+        type: "text",
+        text: "site",
+        marks: [{ type: "link", attrs: { href: "https://example.com" } }],
+      }),
+    ]);
+    expect(body(doc)).toBe("[site](https://example.com)\n");
+  });
+
+  it("writes inline and display math", () => {
+    const doc = docWith([
+      paragraph(text("Let "), {
+        type: "math_inline",
+        attrs: { content: "x^2" },
+      }),
+      { type: "math_display", attrs: { content: "E = mc^2" } },
+    ]);
+    expect(body(doc)).toBe("Let $x^2$\n\n$$\nE = mc^2\n$$\n");
+  });
+
+  it("escapes dollar signs and pipes in text", () => {
+    const doc = docWith([paragraph(text("$5 | $6"))]);
+    expect(body(doc)).toBe("\\$5 \\| \\$6\n");
+  });
+
+  it("writes images with relative paths", () => {
+    const doc = docWith([
+      paragraph({
+        type: "image",
+        attrs: { src: "01ABC-photo.png", alt: "A photo", title: "Caption" },
+      }),
+    ]);
+    expect(body(doc)).toBe('![A photo](01ABC-photo.png "Caption")\n');
+  });
+
+  it("writes GFM tables with the first row as header", () => {
+    const cell = (type: string, value: string) => ({
+      type,
+      content: value ? [{ type: "text", text: value }] : [],
+    });
+    const doc = docWith([
+      {
+        type: "table",
+        content: [
+          {
+            type: "table_row",
+            content: [cell("table_header", "A"), cell("table_header", "B")],
+          },
+          {
+            type: "table_row",
+            content: [cell("table_cell", "1|2"), cell("table_cell", "")],
+          },
+        ],
+      },
+    ]);
+    expect(body(doc)).toBe("| A | B |\n| --- | --- |\n| 1\\|2 |  |\n");
+  });
+
+  it("writes hard breaks in table cells as <br>", () => {
+    const doc = docWith([
+      {
+        type: "table",
+        content: [
+          {
+            type: "table_row",
+            content: [
+              {
+                type: "table_header",
+                content: [text("a"), { type: "hard_break" }, text("b")],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(body(doc)).toBe("| a<br>b |\n| --- |\n");
+  });
+
+  it("writes lists, code blocks, quotes and rules", () => {
+    const doc = docWith([
+      {
+        type: "bullet_list",
+        content: [{ type: "list_item", content: [paragraph(text("one"))] }],
+      },
+      {
+        type: "ordered_list",
+        content: [{ type: "list_item", content: [paragraph(text("two"))] }],
+      },
+      { type: "code_block", content: [text("let x = 1;")] },
+      { type: "blockquote", content: [paragraph(text("quoted"))] },
+      { type: "horizontal_rule" },
+    ]);
+    expect(body(doc)).toBe(
+      "* one\n\n1. two\n\n```\nlet x = 1;\n```\n\n> quoted\n\n---\n",
+    );
+  });
+
+  it("numbers footnotes in document order, definitions last", () => {
+    const doc = docWith([
+      paragraph(text("One"), footnote(text("first", "em"))),
+      {
+        type: "table",
+        content: [
+          {
+            type: "table_row",
+            content: [
+              {
+                type: "table_header",
+                content: [text("Two"), footnote(text("second"))],
+              },
+            ],
+          },
+        ],
+      },
+      paragraph(
+        text("Three"),
+        footnote(text("a"), { type: "hard_break" }, text("b")),
+      ),
+    ]);
+    expect(body(doc)).toBe(
+      "One[^1]\n\n| Two[^2] |\n| --- |\n\nThree[^3]\n\n" +
+        "[^1]: *first*\n[^2]: second\n[^3]: a\\\n    b\n",
+    );
+  });
+
+  it("writes anchor IDs and cross-references", () => {
+    const doc = docWith([
+      {
+        type: "section",
+        attrs: { level: 1, id: "sec-a" },
+        content: [text("Intro")],
+      },
+      { type: "math_display", attrs: { content: "x", id: "eq-1" } },
+      paragraph(
+        text("See "),
+        { type: "xref", attrs: { target: "sec-a" } },
+        text(", "),
+        { type: "xref", attrs: { target: "eq-1" } },
+        text(" and "),
+        { type: "xref", attrs: { target: "gone" } },
+      ),
+    ]);
+    expect(body(doc)).toBe(
+      "## Intro {#sec-a}\n\n$$\nx\n$$ {#eq-1}\n\n" +
+        "See [Section 1](#sec-a), [Equation (1)](#eq-1) and [??](#gone)\n",
+    );
+  });
+
+  it("writes merge conflicts between conflict markers", () => {
+    const doc = docWith([
+      {
+        type: "conflict",
+        content: [
+          {
+            type: "conflict_version",
+            attrs: { side: "local" },
+            content: [paragraph(text("mine"))],
+          },
+          { type: "conflict_version", attrs: { side: "remote" } },
+        ],
+      },
+      paragraph(text("after")),
+    ]);
+    expect(body(doc)).toBe(
+      "<<<<<<< This device\nmine\n\n=======\n>>>>>>> Other device\n\nafter\n",
+    );
+  });
+});
+
+describe("markdownToNote", () => {
+  /** Top-level blocks after title, created and labels, as JSON */
+  function blocks(markdown: string) {
+    return markdownToNote(markdown, 0).toJSON().content.slice(3);
+  }
+
+  it("reads title from a leading # and created from front matter", () => {
+    const doc = markdownToNote(
+      "---\ncreated: 2024-02-08T00:00:00.000Z\ntags: [a]\n---\n\n# My Note\n\nHi\n",
+      1,
+    );
+    expect(doc.child(0).textContent).toBe("My Note");
+    expect(doc.child(1).attrs.timestamp).toBe(1707350400000);
+    expect(doc.child(2).attrs.labels).toEqual(["a"]);
+    expect(doc.child(3).textContent).toBe("Hi");
+  });
+
+  it("keeps math, images and breaks in the title as text", () => {
+    const title = (markdown: string) =>
+      markdownToNote(markdown, 0).child(0).textContent;
+    expect(title("# Energy $E=mc^2$ notes\n\nbody")).toBe(
+      "Energy $E=mc^2$ notes",
+    );
+    expect(title("# A ![cat](cat.png) and **me**")).toBe("A cat and me");
+    expect(title("# One<br>two")).toBe("One two");
+  });
+
+  it("reads labels from front matter", () => {
+    const labels = (markdown: string) =>
+      markdownToNote(`---\n${markdown}\n---\nHi`, 0).child(2).attrs.labels;
+    expect(labels("labels: [work, \"a, b\", 'c', Work]")).toEqual([
+      "work",
+      "a b",
+      "c",
+    ]);
+    expect(labels("labels: one, two")).toEqual(["one", "two"]);
+    expect(labels("created: 2024-02-08")).toEqual([]);
+  });
+
+  it("uses the fallback timestamp without front matter", () => {
+    const doc = markdownToNote("Hi", 42);
+    expect(doc.child(0).textContent).toBe("");
+    expect(doc.child(1).attrs.timestamp).toBe(42);
+  });
+
+  it("uses the fallback timestamp when created is not a date", () => {
+    const doc = markdownToNote("---\ncreated: someday\n---\nHi", 42);
+    expect(doc.child(1).attrs.timestamp).toBe(42);
+  });
+
+  it("produces a valid document from empty input", () => {
+    const doc = markdownToNote("", 0);
+    expect(() => doc.check()).not.toThrow();
+    expect(doc.childCount).toBe(4);
+  });
+
+  it("maps headings to sections, clamping levels", () => {
+    expect(blocks("## a\n\n##### b\n\n###### c\n\n# d")).toEqual(
+      [
+        ["a", 1],
+        ["b", 4],
+        ["c", 4],
+        ["d", 1],
+      ].map(([text, level]) => ({
+        type: "section",
+        attrs: { level, id: null },
+        content: [{ type: "text", text }],
+      })),
+    );
+  });
+
+  it("parses inline and display math", () => {
+    expect(blocks("Let $x^2$ be\n\n$$\nE = mc^2\n$$\n\n$$a+b$$")).toEqual([
+      paragraph(
+        text("Let "),
+        { type: "math_inline", attrs: { content: "x^2" } },
+        text(" be"),
+      ),
+      { type: "math_display", attrs: { content: "E = mc^2", id: null } },
+      { type: "math_display", attrs: { content: "a+b", id: null } },
+    ]);
+  });
+
+  it("leaves dollar amounts as text", () => {
+    expect(blocks("costs $5 and $6")).toEqual([
+      paragraph(text("costs $5 and $6")),
+    ]);
+    expect(blocks("\\$x$")).toEqual([paragraph(text("$x$"))]);
+  });
+
+  it("parses strikethrough", () => {
+    expect(blocks("~~gone~~")).toEqual([
+      paragraph(text("gone", "strikethrough")),
+    ]);
+  });
+
+  it("parses GFM tables, including <br> in cells", () => {
+    const [table] = blocks("| A | B |\n| --- | --- |\n| 1\\|2 | a<br>b |");
+    expect(table.type).toBe("table");
+    expect(
+      table.content.map((row: { content: unknown[] }) => row.content.length),
+    ).toEqual([2, 2]);
+    expect(table.content[0].content[0].type).toBe("table_header");
+    expect(table.content[1].content[0]).toMatchObject({
+      type: "table_cell",
+      content: [text("1|2")],
+    });
+    expect(table.content[1].content[1].content).toEqual([
+      text("a"),
+      { type: "hard_break" },
+      text("b"),
+    ]);
+  });
+
+  it("parses footnote references and definitions", () => {
+    expect(
+      blocks(
+        "A[^x] and B[^2] and [^missing].\n\n[^2]: *two*\n    more\n[^x]: one [^2]\n",
+      ),
+    ).toEqual([
+      paragraph(
+        text("A"),
+        footnote(text("one [^2]")),
+        text(" and B"),
+        footnote(text("two", "em"), text(" more")),
+        text(" and [^missing]."),
+      ),
+    ]);
+  });
+
+  it("keeps links to other notes", () => {
+    expect(blocks("See [Plans](note:2026/01/26/1).")).toEqual([
+      paragraph(
+        text("See "),
+        {
+          type: "text",
+          text: "Plans",
+          marks: [
+            {
+              type: "link",
+              attrs: { href: "note:2026/01/26/1", title: null },
+            },
+          ],
+        },
+        text("."),
+      ),
+    ]);
+  });
+
+  it("parses anchor IDs and in-note links as cross-references", () => {
+    expect(
+      blocks(
+        "## Intro {#sec-a}\n\n$$\nx\n$$ {#eq-1}\n\n" +
+          "See [Section 1](#sec-a) and [elsewhere](https://e.com/#x)\n",
+      ),
+    ).toEqual([
+      {
+        type: "section",
+        attrs: { level: 1, id: "sec-a" },
+        content: [text("Intro")],
+      },
+      { type: "math_display", attrs: { content: "x", id: "eq-1" } },
+      paragraph(
+        text("See "),
+        { type: "xref", attrs: { target: "sec-a" } },
+        text(" and "),
+        {
+          type: "text",
+          text: "elsewhere",
+          marks: [
+            {
+              type: "link",
+              attrs: { href: "https://e.com/#x", title: null },
+            },
+          ],
+        },
+      ),
+    ]);
+  });
+
+  it("keeps image paths", () => {
+    expect(blocks('![A](images/a.png "T")')).toEqual([
+      paragraph({
+        type: "image",
+        attrs: { src: "images/a.png", alt: "A", title: "T", id: null },
+      }),
+    ]);
+  });
+
+  it("round-trips noteToMarkdown output", () => {
+    const doc = docWith(
+      [
+        { type: "section", attrs: { level: 2 }, content: [text("Part")] },
+        paragraph(text("$5 "), text("bold", "strong"), text(" "), {
+          type: "math_inline",
+          attrs: { content: "a|b" },
+        }),
+        { type: "math_display", attrs: { content: "x\ny" } },
+        paragraph(
+          text("Noted"),
+          footnote(text("see "), text("this", "strong")),
+          text(" twice"),
+          footnote(text("a"), { type: "hard_break" }, text("b")),
+        ),
+        {
+          type: "bullet_list",
+          content: [{ type: "list_item", content: [paragraph(text("one"))] }],
+        },
+      ],
+      "Title",
+      1707350400000,
+    );
+    expect(markdownToNote(noteToMarkdown(doc), 0).toJSON()).toEqual(
+      doc.toJSON(),
+    );
+  });
+});
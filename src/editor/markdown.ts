@@ -0,0 +1,601 @@
+/**
+ * Markdown (GitHub Flavored Markdown) conversion for note documents.
+ *
+ * The schema is designed to stay close to GFM, so the mapping is direct:
+ * - title → `# …`, section level n → n+1 `#`s (`##`–`#####`)
+ * - created → `created:` in YAML front matter
+ * - labels → `labels: [a, b]` in YAML front matter (`tags:` is read too)
+ * - math_inline → `$…$`, math_display → `$$` fenced block
+ * - tables → GFM pipe tables (first row is the header row)
+ * - strikethrough → `~~…~~`
+ * - footnotes → `[^n]` references, numbered in document order, with the
+ *   `[^n]: …` definitions after the last block
+ * - anchor IDs of sections and display math → `{#id}` after the heading or
+ *   closing `$$` (Pandoc's attribute syntax); those of tables and images
+ *   aren't kept
+ * - xref → a link to the anchor with the reference's text, `[Section 2](#id)`;
+ *   any link to `#id` is read back as a cross-reference
+ * - images keep their relative paths, so note.md works next to note.json
+ * - a merge conflict → both versions between Git's conflict markers, read
+ *   back as plain text
+ *
+ * Parsing (markdownToNote) is the inverse. Headings that don't fit the
+ * schema are clamped: a later `#` becomes a level 1 section, `######` a
+ * level 4 one. Footnote definitions nobody refers to are dropped.
+ */
+
+import MarkdownIt, {
+  type StateBlock,
+  type StateCore,
+  type StateInline,
+  type Token,
+} from "markdown-it";
+import {
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+  MarkdownParser,
+  MarkdownSerializer,
+  type MarkdownSerializerState,
+} from "prosemirror-markdown";
+import type { Node } from "prosemirror-model";
+import { anchorsById, DANGLING_LABEL } from "./anchors";
+import { normalizeLabels } from "./labels";
+import { schema } from "./schema";
+
+const defaultNodes = defaultMarkdownSerializer.nodes;
+const defaultMarks = defaultMarkdownSerializer.marks;
+
+/** Render a node's inline content as Markdown */
+function renderInline(node: Node): string {
+  // serialize() renders its argument's children as blocks, so the
+  // paragraph needs a parent (which doesn't need to be a valid note)
+  const paragraph = schema.nodes.paragraph.create(null, node.content);
+  const doc = schema.nodes.doc.create(null, paragraph);
+  return markdownSerializer.serialize(doc).trim();
+}
+
+/**
+ * Render a table cell's inline content as a single line of Markdown.
+ * Pipes are already escaped by the serializer; hard breaks become <br>.
+ */
+function renderCell(cell: Node): string {
+  return renderInline(cell).replace(/\\\n/g, "<br>").replace(/\n/g, " ");
+}
+
+// State of the noteToMarkdown call in progress
+const serializing = {
+  /** Bodies of the footnotes met so far, in document order */
+  footnotes: [] as string[],
+  /** Cross-reference text by anchor ID */
+  labels: new Map<string, string>(),
+};
+
+/** ` {#id}` after an anchored block, or nothing */
+function anchorSuffix(node: Node): string {
+  return node.attrs.id ? ` {#${node.attrs.id}}` : "";
+}
+
+function renderTable(state: MarkdownSerializerState, node: Node) {
+  const rows: string[][] = [];
+  node.forEach((row) => {
+    const cells: string[] = [];
+    row.forEach((cell) => {
+      cells.push(renderCell(cell));
+    });
+    rows.push(cells);
+  });
+
+  // Column count is defined by the header row (GFM semantics)
+  const columns = rows[0]?.length ?? 0;
+  const line = (cells: string[]) => {
+    const padded = Array.from({ length: columns }, (_, i) => cells[i] ?? "");
+    return `| ${padded.join(" | ")} |`;
+  };
+
+  state.write(line(rows[0] ?? []));
+  state.ensureNewLine();
+  state.write(line(Array(columns).fill("---")));
+  for (const row of rows.slice(1)) {
+    state.ensureNewLine();
+    state.write(line(row));
+  }
+  state.closeBlock(node);
+}
+
+export const markdownSerializer: MarkdownSerializer = new MarkdownSerializer(
+  {
+    ...defaultNodes,
+    title(state, node) {
+      state.write("# ");
+      state.renderInline(node);
+      state.closeBlock(node);
+    },
+    // Written as front matter by noteToMarkdown
+    created() {},
+    labels() {},
+    section(state, node) {
+      state.write(`${state.repeat("#", (node.attrs.level as number) + 1)} `);
+      state.renderInline(node);
+      state.write(anchorSuffix(node));
+      state.closeBlock(node);
+    },
+    math_display(state, node) {
+      state.write("$$\n");
+      state.text(node.attrs.content as string, false);
+      state.ensureNewLine();
+      state.write(`$$${anchorSuffix(node)}`);
+      state.closeBlock(node);
+    },
+    math_inline(state, node) {
+      state.write(`$${node.attrs.content}$`);
+    },
+    footnote(state, node) {
+      // Continuation lines of a definition are indented
+      const { footnotes } = serializing;
+      footnotes.push(renderInline(node).replace(/\n/g, "\n    "));
+      state.write(`[^${footnotes.length}]`);
+    },
+    xref(state, node) {
+      const target = node.attrs.target as string;
+      const label = serializing.labels.get(target) ?? DANGLING_LABEL;
+      state.write(`[${label}](#${target})`);
+    },
+    table: renderTable,
+    // Marked like a Git merge conflict
+    conflict(state, node) {
+      state.write("<<<<<<< This device");
+      state.ensureNewLine();
+      state.renderContent(node.child(0));
+      state.write("=======");
+      state.ensureNewLine();
+      state.renderContent(node.child(1));
+      state.write(">>>>>>> Other device");
+      state.closeBlock(node);
+    },
+  },
+  {
+    ...defaultMarks,
+    strikethrough: {
+      open: "~~",
+      close: "~~",
+      mixable: true,
+      expelEnclosingWhitespace: true,
+    },
+  },
+  {
+    // $ starts math, | separates table cells
+    escapeExtraCharacters: /[$|]/g,
+  },
+);
+
+/** A YAML flow scalar, quoted only when it has to be */
+function yamlString(value: string): string {
+  return /^[\p{L}\p{N}_][\p{L}\p{N}_ .-]*$/u.test(value) &&
+    !/[ .-]$/.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+/**
+ * Serialize a note document as GFM with YAML front matter.
+ */
+export function noteToMarkdown(doc: Node): string {
+  const lines: string[] = [];
+  doc.forEach((node) => {
+    if (node.type.name === "created" && node.attrs.timestamp) {
+      const ts = node.attrs.timestamp as number;
+      lines.push(`created: ${new Date(ts).toISOString()}`);
+    }
+    if (node.type.name === "labels" && node.attrs.labels.length > 0) {
+      const labels = (node.attrs.labels as string[]).map(yamlString);
+      lines.push(`labels: [${labels.join(", ")}]`);
+    }
+  });
+
+  const frontMatter =
+    lines.length > 0 ? `---\n${lines.join("\n")}\n---\n\n` : "";
+
+  serializing.footnotes = [];
+  serializing.labels = new Map(
+    Array.from(anchorsById(doc), ([id, target]) => [id, target.label]),
+  );
+  const body = markdownSerializer.serialize(doc);
+  const definitions = serializing.footnotes.map(
+    (text, i) => `[^${i + 1}]: ${text}\n`,
+  );
+  serializing.footnotes = [];
+
+  const notes = definitions.length > 0 ? `\n${definitions.join("")}` : "";
+  return `${frontMatter}${body}\n${notes}`;
+}
+
+// Parsing
+
+/** Anchor ID syntax, `{#id}` */
+const ANCHOR_ATTRIBUTE = /\s*\{#([\w:.-]+)\}\s*$/;
+
+/** Closing `$$` of display math, optionally followed by an anchor ID */
+const MATH_DISPLAY_END = /^(.*)\$\$(?:\s*\{#([\w:.-]+)\})?\s*$/;
+
+/**
+ * markdown-it block rule for display math: `$$` on its own line up to the
+ * next line ending in `$$`, or `$$…$$` on a single line. An anchor ID may
+ * follow the closing `$$`.
+ */
+function mathDisplayRule(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean,
+): boolean {
+  // Indented 4+ spaces is a code block
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const first = state.src.slice(start, state.eMarks[startLine]).trim();
+  if (!first.startsWith("$$")) return false;
+  if (silent) return true;
+
+  let content: string;
+  let id: string | undefined;
+  let nextLine = startLine;
+  const single = MATH_DISPLAY_END.exec(first.slice(2));
+  if (first.length > 4 && single) {
+    content = single[1];
+    id = single[2];
+  } else {
+    const lines = [first.slice(2)];
+    while (++nextLine < endLine) {
+      const lineStart = state.bMarks[nextLine] + state.tShift[nextLine];
+      const line = state.src.slice(lineStart, state.eMarks[nextLine]).trim();
+      const end = MATH_DISPLAY_END.exec(line);
+      if (end) {
+        lines.push(end[1]);
+        id = end[2];
+        break;
+      }
+      lines.push(line);
+    }
+    content = lines.join("\n");
+  }
+
+  state.line = Math.min(nextLine + 1, endLine);
+  const token = state.push("math_display", "math", 0);
+  if (id) token.attrSet("id", id);
+  token.content = content.trim();
+  token.map = [startLine, state.line];
+  return true;
+}
+
+/**
+ * markdown-it inline rule for `$…$`. Like Pandoc, the opening `$` must not
+ * be followed by a space and the closing `$` must not be preceded by one or
+ * followed by a digit, so prices such as "$5 and $6" stay text.
+ */
+function mathInlineRule(state: StateInline, silent: boolean): boolean {
+  const { src, pos, posMax } = state;
+  if (src[pos] !== "$" || src[pos + 1] === "$") return false;
+  if (pos + 1 >= posMax || /\s/.test(src[pos + 1])) return false;
+
+  let end = pos + 1;
+  while (end < posMax) {
+    if (src[end] === "\\") {
+      end += 2;
+      continue;
+    }
+    if (src[end] === "$") break;
+    end++;
+  }
+  if (end >= posMax) return false;
+  if (/\s/.test(src[end - 1]) || /\d/.test(src[end + 1] ?? "")) return false;
+
+  if (!silent) {
+    const token = state.push("math_inline", "math", 0);
+    token.content = src.slice(pos + 1, end);
+  }
+  state.pos = end + 1;
+  return true;
+}
+
+/**
+ * markdown-it inline rule turning `<br>` into a hard break, which is how
+ * line breaks inside table cells are written. Other HTML stays text.
+ */
+function breakTagRule(state: StateInline, silent: boolean): boolean {
+  const match = /^<br\s*\/?>/i.exec(state.src.slice(state.pos, state.posMax));
+  if (!match) return false;
+  if (!silent) state.push("hardbreak", "br", 0);
+  state.pos += match[0].length;
+  return true;
+}
+
+/**
+ * markdown-it block rule for footnote definitions, `[^label]: text`, with
+ * indented continuation lines. Definitions produce no tokens; their text
+ * is kept in the parse environment for footnoteRefRule.
+ */
+function footnoteDefinitionRule(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean,
+): boolean {
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const first = state.src.slice(start, state.eMarks[startLine]);
+  const match = /^\[\^([^\]\s]+)\]:[ \t]*/.exec(first);
+  if (!match) return false;
+  if (silent) return true;
+
+  const lines = [first.slice(match[0].length)];
+  let nextLine = startLine + 1;
+  while (
+    nextLine < endLine &&
+    !state.isEmpty(nextLine) &&
+    state.sCount[nextLine] > state.blkIndent
+  ) {
+    const lineStart = state.bMarks[nextLine] + state.tShift[nextLine];
+    lines.push(state.src.slice(lineStart, state.eMarks[nextLine]));
+    nextLine++;
+  }
+
+  state.env.footnotes ??= {};
+  // The first definition of a label wins, as for link references
+  state.env.footnotes[match[1]] ??= lines.join("\n");
+  state.line = nextLine;
+  return true;
+}
+
+/**
+ * markdown-it inline rule for footnote references, `[^label]`. The
+ * definition's text is parsed in place, between footnote_open and
+ * footnote_close. References without a definition stay text.
+ */
+function footnoteRefRule(state: StateInline, silent: boolean): boolean {
+  const match = /^\[\^([^\]\s]+)\]/.exec(
+    state.src.slice(state.pos, state.posMax),
+  );
+  const text: string | undefined = match && state.env.footnotes?.[match[1]];
+  if (!match || text === undefined) return false;
+
+  if (!silent) {
+    // Footnotes can't nest: references inside a definition stay text
+    const children: Token[] = [];
+    state.md.inline.parse(
+      text,
+      state.md,
+      { ...state.env, footnotes: {} },
+      children,
+    );
+    state.push("footnote_open", "", 1);
+    const inline = state.push("inline", "", 0);
+    inline.content = text;
+    inline.children = children;
+    state.push("footnote_close", "", -1);
+  }
+  state.pos += match[0].length;
+  return true;
+}
+
+/**
+ * markdown-it core rule for anchors: moves a trailing `{#id}` in a section
+ * heading into its attributes, and turns links to `#id` into xref tokens.
+ */
+function anchorsRule(state: StateCore): void {
+  const { tokens } = state;
+  tokens.forEach((token, i) => {
+    const inline = tokens[i + 1];
+    if (token.type !== "heading_open" || token.tag === "h1") return;
+    if (inline?.type !== "inline") return;
+    const last = inline.children?.at(-1);
+    const match = last?.type === "text" && ANCHOR_ATTRIBUTE.exec(last.content);
+    if (last && match) {
+      last.content = last.content.slice(0, match.index);
+      token.attrSet("id", match[1]);
+    }
+  });
+
+  const convertLinks = (children: Token[]): Token[] => {
+    const converted: Token[] = [];
+    for (let i = 0; i < children.length; i++) {
+      const token = children[i];
+      const href = token.type === "link_open" ? token.attrGet("href") : null;
+      if (href?.startsWith("#")) {
+        const xref = new state.Token("xref", "", 0);
+        xref.meta = href.slice(1);
+        converted.push(xref);
+        // The link text is the reference's label, rendered from the target
+        while (i < children.length && children[i].type !== "link_close") i++;
+        continue;
+      }
+      if (token.children) token.children = convertLinks(token.children);
+      converted.push(token);
+    }
+    return converted;
+  };
+  for (const token of tokens) {
+    if (token.children) token.children = convertLinks(token.children);
+  }
+}
+
+/** Inline tokens that can go in the title: text, and marks on it */
+const TITLE_TOKENS =
+  /^(?:text|code_inline|(?:strong|em|s|link)_(?:open|close))$/;
+
+/**
+ * A title's inline tokens, with the ones only text can stand for in it
+ * flattened: math as its `$…$` source, images as their alt text, breaks as
+ * spaces. Footnotes are dropped.
+ */
+function titleTokens(state: StateCore, children: Token[]): Token[] {
+  const result: Token[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const token = children[i];
+    if (TITLE_TOKENS.test(token.type)) {
+      result.push(token);
+      continue;
+    }
+    if (token.type === "footnote_open") {
+      while (i < children.length && children[i].type !== "footnote_close") i++;
+      continue;
+    }
+    let text = "";
+    if (token.type === "math_inline") text = `$${token.content}$`;
+    else if (token.type === "image") text = token.content;
+    else if (token.type === "hardbreak" || token.type === "softbreak") {
+      text = " ";
+    }
+    if (!text) continue;
+    const flat = new state.Token("text", "", 0);
+    flat.content = text;
+    result.push(flat);
+  }
+  return result;
+}
+
+const tokenizer = new MarkdownIt("default", { html: false })
+  .use((md: MarkdownIt) => {
+    md.block.ruler.before("fence", "math_display", mathDisplayRule, {
+      alt: ["paragraph", "reference", "blockquote", "list"],
+    });
+    md.inline.ruler.after("escape", "math_inline", mathInlineRule);
+    md.inline.ruler.after("escape", "br_tag", breakTagRule);
+    // Before links and link references, which would read `[^1]` as theirs
+    md.block.ruler.before(
+      "reference",
+      "footnote_definition",
+      footnoteDefinitionRule,
+      {
+        alt: ["paragraph", "reference"],
+      },
+    );
+    md.inline.ruler.before("link", "footnote_ref", footnoteRefRule);
+    md.core.ruler.after("inline", "anchors", anchorsRule);
+  })
+  .use((md: MarkdownIt) => {
+    // A leading level 1 heading is the note title. The created and labels
+    // nodes follow it, with their values passed in the parse environment.
+    md.core.ruler.push("note_header", (state) => {
+      const { tokens } = state;
+      const [open, inline, close] = tokens;
+      let index = 0;
+      if (open?.type === "heading_open" && open.tag === "h1") {
+        open.type = "title_open";
+        close.type = "title_close";
+        inline.children = titleTokens(state, inline.children ?? []);
+        index = 3;
+      }
+      const created = new state.Token("created", "", 0);
+      created.meta = state.env.created;
+      const labels = new state.Token("labels", "", 0);
+      labels.meta = state.env.labels;
+      tokens.splice(index, 0, created, labels);
+    });
+  });
+
+export const markdownParser: MarkdownParser = new MarkdownParser(
+  schema,
+  tokenizer,
+  {
+    ...defaultMarkdownParser.tokens,
+    title: { block: "title" },
+    created: {
+      node: "created",
+      getAttrs: (tok) => ({ timestamp: tok.meta }),
+    },
+    labels: {
+      node: "labels",
+      getAttrs: (tok) => ({ labels: tok.meta }),
+    },
+    heading: {
+      block: "section",
+      getAttrs: (tok) => ({
+        level: Math.min(Math.max(Number(tok.tag.slice(1)) - 1, 1), 4),
+        id: tok.attrGet("id"),
+      }),
+    },
+    math_display: {
+      node: "math_display",
+      getAttrs: (tok) => ({ content: tok.content, id: tok.attrGet("id") }),
+    },
+    xref: {
+      node: "xref",
+      getAttrs: (tok) => ({ target: tok.meta }),
+    },
+    math_inline: {
+      node: "math_inline",
+      getAttrs: (tok) => ({ content: tok.content }),
+    },
+    footnote: { block: "footnote" },
+    table: { block: "table" },
+    thead: { ignore: true },
+    tbody: { ignore: true },
+    tr: { block: "table_row" },
+    th: { block: "table_header" },
+    td: { block: "table_cell" },
+    s: { mark: "strikethrough" },
+  },
+);
+
+/**
+ * Split YAML front matter from the body. Only flat `key: value` pairs are
+ * read; anything else in the front matter is ignored.
+ */
+function splitFrontMatter(markdown: string): {
+  fields: Record<string, string>;
+  body: string;
+} {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(markdown);
+  if (!match) return { fields: {}, body: markdown };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return { fields, body: markdown.slice(match[0].length) };
+}
+
+/**
+ * Parse a YAML flow sequence (`[a, "b, c"]`) or a comma-separated list.
+ */
+function parseYamlList(value: string): string[] {
+  const inner = value.replace(/^\[(.*)\]$/, "$1");
+  const items =
+    inner.match(/(?<=^|,)\s*(?:"(?:[^"\\]|\\.)*"|'[^']*'|[^,]+)/g) ?? [];
+  return items.map((item) => {
+    const trimmed = item.trim();
+    if (trimmed.startsWith('"')) {
+      try {
+        return JSON.parse(trimmed) as string;
+      } catch {
+        return trimmed.slice(1, -1);
+      }
+    }
+    return trimmed.replace(/^'(.*)'$/, "$1");
+  });
+}
+
+/**
+ * Parse GFM (as written by noteToMarkdown, or by other tools) into a note
+ * document. The created timestamp comes from the `created` front matter
+ * field, or `fallbackCreated` if it is missing or not a date. Labels come
+ * from `labels` or, as other tools write it, `tags`.
+ */
+export function markdownToNote(
+  markdown: string,
+  fallbackCreated: number,
+): Node {
+  const { fields, body } = splitFrontMatter(markdown);
+  const parsed = Date.parse(fields.created ?? "");
+  const timestamp = Number.isNaN(parsed) ? fallbackCreated : parsed;
+  const labels = normalizeLabels(
+    parseYamlList(fields.labels ?? fields.tags ?? ""),
+  );
+
+  // An empty title is filled in when the Markdown doesn't start with one
+  return markdownParser.parse(body, { created: timestamp, labels });
+}
@@ -0,0 +1,237 @@
+import { Node } from "prosemirror-model";
+import { EditorState } from "prosemirror-state";
+import { describe, expect, it } from "vitest";
+import { mergeDocs, resolveConflict } from "./merge";
+import { schema } from "./schema";
+
+function doc(title: string, labels: string[], ...blocks: unknown[]): Node {
+  return Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp: 0 } },
+      { type: "labels", attrs: { labels } },
+      ...blocks,
+    ],
+  });
+}
+
+function p(text: string) {
+  if (!text) return { type: "paragraph" };
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
+function list(...items: string[]) {
+  return {
+    type: "bullet_list",
+    content: items.map((text) => ({ type: "list_item", content: [p(text)] })),
+  };
+}
+
+function quote(...blocks: unknown[]) {
+  return { type: "blockquote", content: blocks };
+}
+
+/** The body as text: one entry per block, conflicts as `<local|remote>` */
+function body(node: Node): string[] {
+  const blocks: string[] = [];
+  node.forEach((child, _, i) => {
+    if (i < 3) return;
+    if (child.type.name !== "conflict") {
+      blocks.push(child.textContent);
+      return;
+    }
+    const [local, remote] = [child.child(0), child.child(1)];
+    blocks.push(`<${local.textContent}|${remote.textContent}>`);
+  });
+  return blocks;
+}
+
+describe("mergeDocs", () => {
+  it("keeps edits to different blocks from both sides", () => {
+    const base = doc("T", [], p("one"), p("two"), p("three"));
+    const local = doc("T", [], p("one!"), p("two"), p("three"), p("four"));
+    const remote = doc("T", [], p("zero"), p("one"), p("two!"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, remote);
+
+    expect(conflicts).toBe(0);
+    expect(body(merged)).toEqual(["zero", "one!", "two!", "four"]);
+  });
+
+  it("merges edits to neighbouring blocks", () => {
+    const base = doc("T", [], p("one"), p("two"));
+    const local = doc("T", [], p("one!"), p("two"));
+    const remote = doc("T", [], p("one"), p("two!"));
+
+    expect(body(mergeDocs(base, local, remote).doc)).toEqual(["one!", "two!"]);
+  });
+
+  it("takes the same edit on both sides once", () => {
+    const base = doc("T", [], p("one"), p("two"));
+    const local = doc("T", [], p("one!"), p("two"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, local);
+
+    expect(conflicts).toBe(0);
+    expect(merged.eq(local)).toBe(true);
+  });
+
+  it("marks blocks changed differently on both sides as a conflict", () => {
+    const base = doc("T", [], p("one"), p("two"));
+    const local = doc("T", [], p("one"), p("mine"));
+    const remote = doc("T", [], p("one"), p("theirs"), p("more"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, remote);
+
+    expect(conflicts).toBe(1);
+    expect(body(merged)).toEqual(["one", "<mine|theirsmore>"]);
+  });
+
+  it("makes text added at the same spot on both sides a conflict", () => {
+    const base = doc("T", [], p("one"));
+    const local = doc("T", [], p("one"), p("mine"));
+    const remote = doc("T", [], p("one"), p("theirs"));
+
+    expect(body(mergeDocs(base, local, remote).doc)).toEqual([
+      "one",
+      "<mine|theirs>",
+    ]);
+  });
+
+  it("makes a block edited on one side and deleted on the other a conflict", () => {
+    const base = doc("T", [], p("one"), p("two"));
+    const local = doc("T", [], p("one"), p("two!"));
+    const remote = doc("T", [], p("one"));
+
+    expect(body(mergeDocs(base, local, remote).doc)).toEqual([
+      "one",
+      "<two!|>",
+    ]);
+  });
+
+  it("merges inside quotes and list items", () => {
+    const base = doc("T", [], quote(p("a"), p("b")), list("x", "y"));
+    const local = doc("T", [], quote(p("a!"), p("b")), list("x!", "y"));
+    const remote = doc("T", [], quote(p("a"), p("b!")), list("x", "y!"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, remote);
+
+    expect(conflicts).toBe(0);
+    expect(merged.child(3).toJSON()).toEqual(quote(p("a!"), p("b!")));
+    expect(merged.child(4).toJSON()).toEqual(list("x!", "y!"));
+  });
+
+  it("puts a conflict inside a list item, not among the items", () => {
+    const base = doc("T", [], list("x"));
+    const local = doc("T", [], list("mine"));
+    const remote = doc("T", [], list("theirs"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, remote);
+
+    expect(conflicts).toBe(1);
+    const item = merged.child(3).child(0);
+    expect(item.child(0).type.name).toBe("conflict");
+  });
+
+  it("merges titles and labels", () => {
+    const base = doc("T", ["a", "b"], p("x"));
+    const local = doc("T", ["a", "b", "mine"], p("x"));
+    const remote = doc("New", ["b", "theirs"], p("x"));
+
+    const { doc: merged } = mergeDocs(base, local, remote);
+
+    expect(merged.child(0).textContent).toBe("New");
+    expect(merged.child(2).attrs.labels).toEqual(["b", "mine", "theirs"]);
+  });
+
+  it("puts a title changed on both sides in a conflict at the top", () => {
+    const base = doc("T", [], p("x"));
+    const local = doc("Mine", [], p("x"));
+    const remote = doc("Theirs", [], p("x"));
+
+    const { doc: merged, conflicts } = mergeDocs(base, local, remote);
+
+    expect(conflicts).toBe(1);
+    expect(merged.child(0).textContent).toBe("Mine");
+    expect(merged.child(3).attrs.title).toBe(true);
+    expect(body(merged)).toEqual(["<Mine|Theirs>", "x"]);
+  });
+
+  it("leaves a valid document when both sides delete everything", () => {
+    const base = doc("T", [], p("x"));
+    const local = doc("T", [], p(""));
+    const remote = doc("T", [], p(""));
+
+    expect(() => mergeDocs(base, local, remote).doc.check()).not.toThrow();
+  });
+});
+
+describe("resolveConflict", () => {
+  function conflicted(base: Node, local: Node, remote: Node) {
+    const { doc } = mergeDocs(base, local, remote);
+    let pos = -1;
+    doc.descendants((node, at) => {
+      if (node.type.name === "conflict" && pos === -1) pos = at;
+    });
+    return { state: EditorState.create({ schema, doc }), pos };
+  }
+
+  it("replaces the conflict with the version kept", () => {
+    const { state, pos } = conflicted(
+      doc("T", [], p("one")),
+      doc("T", [], p("mine")),
+      doc("T", [], p("theirs"), p("more")),
+    );
+
+    const tr = resolveConflict(state, pos, "remote");
+
+    expect(tr && body(tr.doc)).toEqual(["theirs", "more"]);
+  });
+
+  it("keeps the document valid when the version kept is empty", () => {
+    const conflict = {
+      type: "conflict",
+      content: [
+        {
+          type: "conflict_version",
+          attrs: { side: "local" },
+          content: [p("x")],
+        },
+        { type: "conflict_version", attrs: { side: "remote" } },
+      ],
+    };
+    const state = EditorState.create({
+      schema,
+      doc: doc("T", [], conflict),
+    });
+
+    const tr = resolveConflict(
+      state,
+      state.doc.child(0).nodeSize + 2,
+      "remote",
+    );
+
+    expect(tr && body(tr.doc)).toEqual([""]);
+    expect(() => tr?.doc.check()).not.toThrow();
+  });
+
+  it("sets the title from a title conflict", () => {
+    const { state, pos } = conflicted(
+      doc("T", [], p("x")),
+      doc("Mine", [], p("x")),
+      doc("Theirs", [], p("x")),
+    );
+
+    const tr = resolveConflict(state, pos, "remote");
+
+    expect(tr?.doc.child(0).textContent).toBe("Theirs");
+    expect(tr && body(tr.doc)).toEqual(["x"]);
+  });
+
+  it("does nothing outside a conflict", () => {
+    const state = EditorState.create({ schema, doc: doc("T", [], p("x")) });
+
+    expect(resolveConflict(state, 0, "local")).toBeNull();
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Three-way merge of two versions of a note edited apart.
+ *
+ * Both versions are diffed against the version they started from (the
+ * base) block by block, with the same longest common subsequence as
+ * revisionDiff.ts. Edits to different blocks are all kept: a block changed
+ * on one side only takes that side's version, blocks added on either side
+ * are inserted, blocks deleted on either side go. Where both sides changed
+ * the same blocks:
+ *
+ * - the same way: taken once
+ * - block for block, of the same kinds: merged one by one, and blocks
+ *   holding blocks (a quote, a list, a list item) the same way, recursively
+ * - otherwise: a conflict node with both versions, which the user resolves
+ *   in the editor by keeping one (resolveConflict)
+ *
+ * The title is taken from the side that changed it, or becomes a conflict
+ * at the top of the body. Labels are merged one by one. The created node
+ * is the local one. The result is checked against the schema.
+ */
+
+import { Fragment, type Node } from "prosemirror-model";
+import type { EditorState, Transaction } from "prosemirror-state";
+import { matchBlocks } from "./revisionDiff";
+import { schema } from "./schema";
+
+/** Which version a conflict_version holds */
+export type ConflictSide = "local" | "remote";
+
+/**
+ * A merged document, and the number of conflicts left in it.
+ */
+export interface MergeResult {
+  doc: Node;
+  conflicts: number;
+}
+
+/** Blocks of `base` replaced by `nodes` on one side */
+interface Hunk {
+  start: number;
+  end: number;
+  nodes: Node[];
+}
+
+function sameNodes(a: readonly Node[], b: readonly Node[]): boolean {
+  return a.length === b.length && a.every((node, i) => node.eq(b[i]));
+}
+
+function sameAttrs(a: Node, b: Node): boolean {
+  return JSON.stringify(a.attrs) === JSON.stringify(b.attrs);
+}
+
+function childList(node: Node): Node[] {
+  const nodes: Node[] = [];
+  node.forEach((child) => {
+    nodes.push(child);
+  });
+  return nodes;
+}
+
+/** What one side did to `base`, as hunks in document order */
+function hunks(base: readonly Node[], side: readonly Node[]): Hunk[] {
+  const matches = matchBlocks(base, side);
+  const result: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  for (let next = 0; next <= base.length; next++) {
+    if (next < base.length && matches[next] === -1) continue;
+    const to = next < base.length ? matches[next] : side.length;
+    if (next > i || to > j) {
+      result.push({ start: i, end: next, nodes: side.slice(j, to) });
+    }
+    i = next + 1;
+    j = to + 1;
+  }
+  return result;
+}
+
+/**
+ * Whether hunk `a` comes wholly before `b`. Insertions at the same spot
+ * don't, as their order is unknown.
+ */
+function isBefore(a: Hunk, b: Hunk): boolean {
+  const inserts = a.start === a.end && b.start === b.end;
+  return a.end <= b.start && !(inserts && a.start === b.start);
+}
+
+/** `base[start..end]` with the side's hunks inside it applied */
+function applyHunks(
+  base: readonly Node[],
+  start: number,
+  end: number,
+  changes: readonly Hunk[],
+): Node[] {
+  const nodes: Node[] = [];
+  let pos = start;
+  for (const hunk of changes) {
+    nodes.push(...base.slice(pos, hunk.start), ...hunk.nodes);
+    pos = hunk.end;
+  }
+  nodes.push(...base.slice(pos, end));
+  return nodes;
+}
+
+function conflictNode(
+  local: readonly Node[],
+  remote: readonly Node[],
+  title = false,
+): Node {
+  const { conflict, conflict_version } = schema.nodes;
+  return conflict.create({ title }, [
+    conflict_version.create({ side: "local" }, local),
+    conflict_version.create({ side: "remote" }, remote),
+  ]);
+}
+
+/**
+ * Merge one node changed on both sides, by merging its children. Null if
+ * it has no blocks to merge, or the sides changed its attributes apart.
+ */
+function mergeNode(base: Node, local: Node, remote: Node): Node | null {
+  const { type } = base;
+  if (
+    local.type !== type ||
+    remote.type !== type ||
+    type.isTextblock ||
+    type.isLeaf
+  ) {
+    return null;
+  }
+
+  let attrs = local.attrs;
+  if (sameAttrs(local, base)) attrs = remote.attrs;
+  else if (!sameAttrs(remote, base) && !sameAttrs(local, remote)) return null;
+
+  const content = Fragment.from(
+    mergeBlocks(childList(base), childList(local), childList(remote)),
+  );
+  // E.g. a conflict among a list's items
+  if (!type.validContent(content)) return null;
+  return type.create(attrs, content, local.marks);
+}
+
+/** Blocks changed on both sides */
+function mergeOverlap(
+  base: readonly Node[],
+  local: Node[],
+  remote: Node[],
+): Node[] {
+  if (sameNodes(local, base)) return remote;
+  if (sameNodes(remote, base) || sameNodes(local, remote)) return local;
+  // Blocks changed in place, e.g. a list and the quote after it: merged
+  // one by one
+  const inPlace =
+    base.length > 0 &&
+    local.length === base.length &&
+    remote.length === base.length &&
+    base.every(
+      (node, i) => local[i].type === node.type && remote[i].type === node.type,
+    );
+  if (inPlace && base.length > 1) {
+    return base.flatMap((node, i) =>
+      mergeOverlap([node], [local[i]], [remote[i]]),
+    );
+  }
+  if (inPlace) {
+    const merged = mergeNode(base[0], local[0], remote[0]);
+    if (merged) return [merged];
+  }
+  return [conflictNode(local, remote)];
+}
+
+/**
+ * Merge two versions of a list of blocks, given the list they both
+ * started from.
+ */
+export function mergeBlocks(
+  base: readonly Node[],
+  local: readonly Node[],
+  remote: readonly Node[],
+): Node[] {
+  const ours = hunks(base, local);
+  const theirs = hunks(base, remote);
+  const merged: Node[] = [];
+  let pos = 0;
+  let o = 0;
+  let t = 0;
+
+  while (o < ours.length || t < theirs.length) {
+    const a = ours[o];
+    const b = theirs[t];
+    if (!b || (a && isBefore(a, b))) {
+      merged.push(...base.slice(pos, a.start), ...a.nodes);
+      pos = a.end;
+      o++;
+    } else if (!a || isBefore(b, a)) {
+      merged.push(...base.slice(pos, b.start), ...b.nodes);
+      pos = b.end;
+      t++;
+    } else {
+      // Take every hunk on either side overlapping the ones so far
+      const span: Hunk = {
+        start: Math.min(a.start, b.start),
+        end: Math.max(a.end, b.end),
+        nodes: [],
+      };
+      const oFrom = o;
+      const tFrom = t;
+      for (;;) {
+        const next =
+          o < ours.length && !isBefore(span, ours[o])
+            ? ours[o++]
+            : t < theirs.length && !isBefore(span, theirs[t])
+              ? theirs[t++]
+              : null;
+        if (!next) break;
+        span.start = Math.min(span.start, next.start);
+        span.end = Math.max(span.end, next.end);
+      }
+      merged.push(
+        ...base.slice(pos, span.start),
+        ...mergeOverlap(
+          base.slice(span.start, span.end),
+          applyHunks(base, span.start, span.end, ours.slice(oFrom, o)),
+          applyHunks(base, span.start, span.end, theirs.slice(tFrom, t)),
+        ),
+      );
+      pos = span.end;
+    }
+  }
+  merged.push(...base.slice(pos));
+  return merged;
+}
+
+/** Labels added on either side, less those removed on either side */
+function mergeLabels(base: Node, local: Node, remote: Node): Node {
+  const was = new Set(base.attrs.labels as string[]);
+  const ours = local.attrs.labels as string[];
+  const theirs = remote.attrs.labels as string[];
+  const labels = [
+    ...ours.filter((label) => !was.has(label) || theirs.includes(label)),
+    ...theirs.filter((label) => !was.has(label) && !ours.includes(label)),
+  ];
+  return local.type.create({ labels });
+}
+
+function countConflicts(doc: Node): number {
+  let conflicts = 0;
+  doc.descendants((node) => {
+    if (node.type === schema.nodes.conflict) conflicts++;
+  });
+  return conflicts;
+}
+
+/**
+ * Merge two versions of a note, given the version they both started from.
+ * Throws if the result isn't a valid note (not expected).
+ */
+export function mergeDocs(base: Node, local: Node, remote: Node): MergeResult {
+  const [baseTitle, , baseLabels, ...baseBody] = childList(base);
+  const [localTitle, created, localLabels, ...localBody] = childList(local);
+  const [remoteTitle, , remoteLabels, ...remoteBody] = childList(remote);
+
+  const body = mergeBlocks(baseBody, localBody, remoteBody);
+  let title = localTitle;
+  if (localTitle.eq(baseTitle)) {
+    title = remoteTitle;
+  } else if (!remoteTitle.eq(baseTitle) && !remoteTitle.eq(localTitle)) {
+    const { paragraph } = schema.nodes;
+    body.unshift(
+      conflictNode(
+        [paragraph.create(null, localTitle.content)],
+        [paragraph.create(null, remoteTitle.content)],
+        true,
+      ),
+    );
+  }
+  if (body.length === 0) body.push(schema.nodes.paragraph.create());
+
+  const labels = mergeLabels(baseLabels, localLabels, remoteLabels);
+  const doc = schema.nodes.doc.create(null, [title, created, labels, ...body]);
+  doc.check();
+  return { doc, conflicts: countConflicts(doc) };
+}
+
+/**
+ * Resolve the conflict at `pos` by keeping one of its versions. The title
+ * conflict sets the title to the text of the version kept.
+ */
+export function resolveConflict(
+  state: EditorState,
+  pos: number,
+  side: ConflictSide,
+): Transaction | null {
+  const conflict = state.doc.nodeAt(pos);
+  if (conflict?.type !== schema.nodes.conflict) return null;
+  let version: Node | null = null;
+  conflict.forEach((child) => {
+    if (child.attrs.side === side) version = child;
+  });
+  if (!version) return null;
+  const kept: Node = version;
+
+  const tr = state.tr;
+  if (conflict.attrs.title) {
+    tr.delete(pos, pos + conflict.nodeSize);
+    // Only text can go in the title
+    const text: Node[] = [];
+    kept.firstChild?.forEach((node) => {
+      if (node.isText) text.push(node);
+    });
+    const title = tr.doc.firstChild;
+    if (title) tr.replaceWith(1, title.nodeSize - 1, text);
+  } else {
+    tr.replaceWith(pos, pos + conflict.nodeSize, kept.content);
+  }
+  // The document needs a block after the labels
+  if (tr.doc.childCount === 3) {
+    tr.insert(tr.doc.content.size, schema.nodes.paragraph.create());
+  }
+  return tr;
+}
@@ -0,0 +1,115 @@
+import { Node } from "prosemirror-model";
+import { EditorState, TextSelection } from "prosemirror-state";
+import { describe, expect, it } from "vitest";
+import {
+  findNoteLinkQuery,
+  insertNoteLink,
+  matchNoteLinkTargets,
+  type NoteLinkTarget,
+} from "./noteLinks";
+import { schema } from "./schema";
+
+/** State with one paragraph of `content` and the cursor at its end */
+function stateWith(...content: unknown[]): EditorState {
+  const doc = Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: "Note" }] },
+      { type: "created", attrs: { timestamp: 0 } },
+      { type: "labels", attrs: { labels: [] } },
+      { type: "paragraph", content },
+    ],
+  });
+  const state = EditorState.create({ schema, doc });
+  return state.apply(state.tr.setSelection(TextSelection.atEnd(state.doc)));
+}
+
+function text(value: string, ...marks: string[]) {
+  return { type: "text", text: value, marks: marks.map((type) => ({ type })) };
+}
+
+const notes: NoteLinkTarget[] = [
+  { path: "2026/01/01/1", title: "Project plans" },
+  { path: "2026/01/02/1", title: "Reading list" },
+  { path: "2026/01/03/1", title: "Plans for the garden" },
+];
+
+describe("findNoteLinkQuery", () => {
+  it("finds the [[ before the cursor and the text after it", () => {
+    const state = stateWith(text("See [[pla"));
+    const query = findNoteLinkQuery(state);
+    expect(query?.query).toBe("pla");
+    expect(state.doc.textBetween(query?.from ?? 0, query?.to ?? 0)).toBe(
+      "[[pla",
+    );
+  });
+
+  it("finds an empty query right after [[", () => {
+    expect(findNoteLinkQuery(stateWith(text("[[")))?.query).toBe("");
+  });
+
+  it("ignores closed brackets and text without [[", () => {
+    expect(findNoteLinkQuery(stateWith(text("[[done]] and")))).toBeNull();
+    expect(findNoteLinkQuery(stateWith(text("[single")))).toBeNull();
+  });
+
+  it("ignores [[ in code blocks, which can't hold links", () => {
+    const doc = Node.fromJSON(schema, {
+      type: "doc",
+      content: [
+        { type: "title" },
+        { type: "created", attrs: { timestamp: 0 } },
+        { type: "labels", attrs: { labels: [] } },
+        { type: "code_block", content: [{ type: "text", text: "a[[b" }] },
+      ],
+    });
+    const state = EditorState.create({
+      schema,
+      doc,
+      selection: TextSelection.atEnd(doc),
+    });
+    expect(findNoteLinkQuery(state)).toBeNull();
+  });
+});
+
+describe("matchNoteLinkTargets", () => {
+  it("matches every word of the query, ignoring case", () => {
+    expect(matchNoteLinkTargets(notes, "PLANS").map((n) => n.title)).toEqual([
+      "Project plans",
+      "Plans for the garden",
+    ]);
+    expect(
+      matchNoteLinkTargets(notes, "garden plans").map((n) => n.title),
+    ).toEqual(["Plans for the garden"]);
+  });
+
+  it("offers every note for an empty query, up to a limit", () => {
+    expect(matchNoteLinkTargets(notes, "")).toHaveLength(3);
+    const many = Array.from({ length: 20 }, (_, i) => ({
+      path: `2026/01/01/${i + 1}`,
+      title: `Note ${i}`,
+    }));
+    expect(matchNoteLinkTargets(many, "note")).toHaveLength(8);
+  });
+});
+
+describe("insertNoteLink", () => {
+  it("replaces the query with the note's title, linked", () => {
+    let state = stateWith(text("See "), text("[[pro", "em"));
+    const query = findNoteLinkQuery(state);
+    if (!query) throw new Error("no query");
+
+    insertNoteLink(query, notes[0])(state, (tr) => {
+      state = state.apply(tr);
+    });
+
+    const paragraph = state.doc.lastChild;
+    expect(paragraph?.textContent).toBe("See Project plans");
+    const linked = paragraph?.lastChild;
+    expect(linked?.marks.map((m) => m.type.name)).toEqual(["link", "em"]);
+    expect(linked?.marks[0].attrs.href).toBe("note:2026/01/01/1");
+    // Typing on doesn't extend the link
+    state = state.apply(state.tr.insertText("!"));
+    expect(state.doc.lastChild?.lastChild?.text).toBe("!");
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Links between notes.
+ *
+ * A link to another note is an ordinary link mark whose href is the note's
+ * path in the `note:` scheme (noteHref in schema.ts), so it survives copy,
+ * paste and Markdown like any other link.
+ *
+ * Typing `[[` opens a picker listing the notebook's notes, narrowed down by
+ * what is typed after it. Arrow keys move through the list; Enter or Tab
+ * replaces the `[[…` with the picked note's title, linked to the note;
+ * Escape closes the picker until the next `[[`.
+ *
+ * Clicking a note link calls the handler set with onNoteLinkClick, which
+ * opens the note.
+ */
+
+import {
+  type Command,
+  type EditorState,
+  Plugin,
+  PluginKey,
+} from "prosemirror-state";
+import type { EditorView } from "prosemirror-view";
+import { noteHref, parseNoteHref, schema } from "./schema";
+
+/** A note that can be linked to */
+export interface NoteLinkTarget {
+  path: string;
+  title: string;
+}
+
+/** Provides the notes offered by the picker */
+export type NoteLinkSuggestions = () => Promise<readonly NoteLinkTarget[]>;
+
+/** Opens the note at `path` */
+export type NoteLinkHandler = (path: string) => void;
+
+// Notes offered by the picker, per view
+const suggestions = new WeakMap<EditorView, NoteLinkSuggestions>();
+
+// What clicking a note link does, per view
+const clickHandlers = new WeakMap<EditorView, NoteLinkHandler>();
+
+/**
+ * Set where a view's `[[` picker gets its notes from. Called each time the
+ * picker opens, so the list reflects notes created since.
+ */
+export function setNoteLinkSuggestions(
+  view: EditorView,
+  provider: NoteLinkSuggestions,
+): void {
+  suggestions.set(view, provider);
+}
+
+/** Set what happens when a note link in the view is clicked */
+export function onNoteLinkClick(
+  view: EditorView,
+  handler: NoteLinkHandler,
+): void {
+  clickHandlers.set(view, handler);
+}
+
+/** The `[[…` being typed before the cursor */
+export interface NoteLinkQuery {
+  /** Position of the `[[` */
+  from: number;
+  /** Position of the cursor */
+  to: number;
+  /** Text typed after the `[[` */
+  query: string;
+}
+
+// `[[` and what follows it up to the cursor, on one line
+const QUERY_PATTERN = /\[\[([^[\]\n\ufffc]*)$/;
+
+/** Longest query the picker stays open for */
+const MAX_QUERY_LENGTH = 60;
+
+/** Most notes listed by the picker */
+const MAX_MATCHES = 8;
+
+/**
+ * Find the `[[…` typed before the cursor, if the cursor is somewhere a link
+ * can go.
+ */
+export function findNoteLinkQuery(state: EditorState): NoteLinkQuery | null {
+  const { selection } = state;
+  if (!selection.empty) return null;
+  const { $from } = selection;
+  const parent = $from.parent;
+  if (!parent.isTextblock || !parent.type.allowsMarkType(schema.marks.link)) {
+    return null;
+  }
+
+  const start = Math.max(0, $from.parentOffset - MAX_QUERY_LENGTH - 2);
+  const before = parent.textBetween(start, $from.parentOffset, "\n", "\ufffc");
+  const match = QUERY_PATTERN.exec(before);
+  if (!match) return null;
+  return { from: $from.pos - match[0].length, to: $from.pos, query: match[1] };
+}
+
+/**
+ * Notes whose titles contain every word of the query (ignoring case), in
+ * the order given, at most MAX_MATCHES of them.
+ */
+export function matchNoteLinkTargets(
+  targets: readonly NoteLinkTarget[],
+  query: string,
+): NoteLinkTarget[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return targets
+    .filter((target) => {
+      const title = target.title.toLowerCase();
+      return words.every((word) => title.includes(word));
+    })
+    .slice(0, MAX_MATCHES);
+}
+
+/**
+ * Replace a `[[…` query with the title of `target`, linked to it.
+ */
+export function insertNoteLink(
+  query: NoteLinkQuery,
+  target: NoteLinkTarget,
+): Command {
+  return (state, dispatch) => {
+    const link = schema.marks.link.create({ href: noteHref(target.path) });
+    const marks = link.addToSet(state.doc.resolve(query.to).marks());
+    if (dispatch) {
+      const tr = state.tr.replaceWith(
+        query.from,
+        query.to,
+        schema.text(target.title, marks),
+      );
+      // Text typed next shouldn't join the link
+      tr.removeStoredMark(schema.marks.link);
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+interface NoteLinkPluginState {
+  /** Position of a `[[` whose picker was closed with Escape */
+  dismissed: number | null;
+}
+
+const noteLinkPluginKey = new PluginKey<NoteLinkPluginState>("noteLinks");
+
+/** The query the picker should be open for, if any */
+function activeQuery(state: EditorState): NoteLinkQuery | null {
+  const query = findNoteLinkQuery(state);
+  const dismissed = noteLinkPluginKey.getState(state)?.dismissed;
+  return query && query.from !== dismissed ? query : null;
+}
+
+/** Path of the note a link element points to, or null */
+function noteLinkAt(target: EventTarget | null): string | null {
+  if (!(target instanceof Element)) return null;
+  const href = target.closest("a[href]")?.getAttribute("href");
+  return href ? parseNoteHref(href) : null;
+}
+
+export function createNoteLinkPlugin(): Plugin<NoteLinkPluginState> {
+  // Picker DOM, created once per view
+  let picker: HTMLUListElement | null = null;
+  let editorView: EditorView | null = null;
+
+  // Query the picker is open for, the notes it lists and the highlighted one
+  let open: NoteLinkQuery | null = null;
+  let targets: readonly NoteLinkTarget[] = [];
+  let matches: NoteLinkTarget[] = [];
+  let selected = 0;
+
+  function render() {
+    if (!picker || !editorView) return;
+    if (!open || matches.length === 0) {
+      picker.style.display = "none";
+      return;
+    }
+
+    picker.replaceChildren(
+      ...matches.map((target, i) => {
+        const item = document.createElement("li");
+        item.className = "note-link-option";
+        item.classList.toggle("selected", i === selected);
+        item.textContent = target.title;
+        item.title = target.path;
+        // mousedown, so the editor doesn't lose its selection first
+        item.addEventListener("mousedown", (event) => {
+          event.preventDefault();
+          pick(target);
+        });
+        return item;
+      }),
+    );
+
+    // Fixed to viewport coordinates, like the math popover
+    const coords = editorView.coordsAtPos(open.from);
+    picker.style.left = `${coords.left}px`;
+    picker.style.top = `${coords.bottom + 4}px`;
+    picker.style.display = "block";
+  }
+
+  function update(view: EditorView) {
+    const query = activeQuery(view.state);
+    if (!query) {
+      open = null;
+      render();
+      return;
+    }
+
+    const opening = open?.from !== query.from;
+    open = query;
+    if (opening) {
+      targets = [];
+      selected = 0;
+      const provider = suggestions.get(view);
+      provider?.()
+        .then((notes) => {
+          // Ignore notes for a picker that has closed since
+          if (open?.from !== query.from) return;
+          targets = notes;
+          matches = matchNoteLinkTargets(targets, open.query);
+          render();
+        })
+        .catch(() => {
+          // No notes to offer; the text stays as typed
+        });
+    }
+    matches = matchNoteLinkTargets(targets, query.query);
+    selected = Math.min(selected, Math.max(matches.length - 1, 0));
+    render();
+  }
+
+  function pick(target: NoteLinkTarget) {
+    if (!open || !editorView) return;
+    const query = open;
+    open = null;
+    insertNoteLink(query, target)(editorView.state, editorView.dispatch);
+    editorView.focus();
+  }
+
+  return new Plugin<NoteLinkPluginState>({
+    key: noteLinkPluginKey,
+
+    state: {
+      init(): NoteLinkPluginState {
+        return { dismissed: null };
+      },
+      apply(tr, value): NoteLinkPluginState {
+        const dismissed = tr.getMeta(noteLinkPluginKey) as number | undefined;
+        if (dismissed !== undefined) return { dismissed };
+        if (value.dismissed === null || !tr.docChanged) return value;
+        return { dismissed: tr.mapping.map(value.dismissed) };
+      },
+    },
+
+    props: {
+      handleKeyDown(view, event): boolean {
+        if (!open || matches.length === 0) return false;
+
+        switch (event.key) {
+          case "ArrowDown":
+            selected = (selected + 1) % matches.length;
+            render();
+            return true;
+          case "ArrowUp":
+            selected = (selected + matches.length - 1) % matches.length;
+            render();
+            return true;
+          case "Enter":
+          case "Tab":
+            pick(matches[selected]);
+            return true;
+          case "Escape":
+            view.dispatch(view.state.tr.setMeta(noteLinkPluginKey, open.from));
+            return true;
+          default:
+            return false;
+        }
+      },
+
+      handleClick(view, _pos, event): boolean {
+        const path = noteLinkAt(event.target);
+        const handler = clickHandlers.get(view);
+        if (path === null || !handler) return false;
+        event.preventDefault();
+        handler(path);
+        return true;
+      },
+    },
+
+    view(view) {
+      editorView = view;
+      picker = document.createElement("ul");
+      picker.className = "note-link-picker";
+      picker.style.display = "none";
+      view.dom.parentElement?.appendChild(picker);
+
+      return {
+        update,
+        destroy() {
+          picker?.remove();
+          picker = null;
+          editorView = null;
+          open = null;
+        },
+      };
+    },
+  });
+}
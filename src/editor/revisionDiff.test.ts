@@ -0,0 +1,83 @@
+import { Node } from "prosemirror-model";
+import { describe, expect, it } from "vitest";
+import { diffBlocks } from "./revisionDiff";
+import { schema } from "./schema";
+
+function doc(title: string, ...blocks: unknown[]): Node {
+  return Node.fromJSON(schema, {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp: 0 } },
+      { type: "labels", attrs: { labels: [] } },
+      ...blocks,
+    ],
+  });
+}
+
+function paragraph(text: string) {
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
+function section(text: string) {
+  return {
+    type: "section",
+    attrs: { level: 1, id: null },
+    content: [{ type: "text", text }],
+  };
+}
+
+/** Kind and text of each row, as `kind:before|after` */
+function rows(before: Node, after: Node): string[] {
+  return diffBlocks(before, after).map(
+    (c) =>
+      `${c.kind}:${c.before?.textContent ?? ""}|${c.after?.textContent ?? ""}`,
+  );
+}
+
+describe("diffBlocks", () => {
+  it("matches unchanged blocks and skips the created node", () => {
+    const a = doc("T", paragraph("one"), paragraph("two"));
+    expect(rows(a, a)).toEqual([
+      "same:T|T",
+      "same:|",
+      "same:one|one",
+      "same:two|two",
+    ]);
+  });
+
+  it("finds added and removed blocks", () => {
+    const a = doc("T", paragraph("one"), paragraph("two"), paragraph("three"));
+    const b = doc("T", paragraph("one"), paragraph("three"), section("four"));
+    expect(rows(a, b)).toEqual([
+      "same:T|T",
+      "same:|",
+      "same:one|one",
+      "removed:two|",
+      "same:three|three",
+      "added:|four",
+    ]);
+  });
+
+  it("pairs blocks of the same type edited in place", () => {
+    const a = doc("Old", paragraph("one"), paragraph("two"));
+    const b = doc("New", section("uno"), paragraph("two"));
+    expect(rows(a, b)).toEqual([
+      "changed:Old|New",
+      "same:|",
+      "removed:one|",
+      "added:|uno",
+      "same:two|two",
+    ]);
+  });
+
+  it("tells apart blocks that differ only in attributes", () => {
+    const a = doc("T", section("x"));
+    const b = doc("T", {
+      type: "section",
+      attrs: { level: 2, id: null },
+      content: [{ type: "text", text: "x" }],
+    });
+    expect(rows(a, b).slice(2)).toEqual(["changed:x|x"]);
+  });
+});
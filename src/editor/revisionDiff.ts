@@ -0,0 +1,117 @@
+/**
+ * Structural diff between two versions of a note.
+ *
+ * Compares the top-level nodes of two documents (title, labels, and each
+ * paragraph, section, list, table, … of the body) rather than characters,
+ * so the result can be shown block by block, side by side. Blocks are
+ * matched with a longest common subsequence; an unmatched block on each
+ * side at the same spot, of the same type, counts as one changed block.
+ */
+
+import type { Node } from "prosemirror-model";
+
+export type BlockChangeKind = "same" | "changed" | "removed" | "added";
+
+/**
+ * One row of a side-by-side diff.
+ */
+export interface BlockChange {
+  kind: BlockChangeKind;
+  /** The block in the older document, null if it was added */
+  before: Node | null;
+  /** The block in the newer document, null if it was removed */
+  after: Node | null;
+}
+
+function children(doc: Node): Node[] {
+  const nodes: Node[] = [];
+  doc.forEach((node) => {
+    // Never changes, and would only clutter the diff
+    if (node.type.name !== "created") nodes.push(node);
+  });
+  return nodes;
+}
+
+/** lcs[i][j]: length of the longest common subsequence of a[i..], b[j..] */
+function lcsTable(a: readonly Node[], b: readonly Node[]): number[][] {
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].eq(b[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  return lcs;
+}
+
+/**
+ * Match equal nodes of two lists with a longest common subsequence. The
+ * result has, for each node of `a`, the index of its match in `b`, or -1.
+ */
+export function matchBlocks(a: readonly Node[], b: readonly Node[]): number[] {
+  const lcs = lcsTable(a, b);
+  const matches = new Array<number>(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].eq(b[j])) {
+      matches[i++] = j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Diff the blocks of two documents, in document order.
+ */
+export function diffBlocks(before: Node, after: Node): BlockChange[] {
+  const a = children(before);
+  const b = children(after);
+  const lcs = lcsTable(a, b);
+
+  const changes: BlockChange[] = [];
+  // Unmatched blocks since the last matched one
+  let removed: Node[] = [];
+  let added: Node[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const old = removed[k] ?? null;
+      const next = added[k] ?? null;
+      if (old && next && old.type === next.type) {
+        changes.push({ kind: "changed", before: old, after: next });
+      } else {
+        if (old) changes.push({ kind: "removed", before: old, after: null });
+        if (next) changes.push({ kind: "added", before: null, after: next });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].eq(b[j])) {
+      flush();
+      changes.push({ kind: "same", before: a[i], after: b[j] });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return changes;
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { formatTimestamp } from "./schema";
+import { formatTimestamp, isSafeHref, noteHref, parseNoteHref } from "./schema";
 
 describe("formatTimestamp", () => {
   // Note: Intl.DateTimeFormat output can vary by locale/environment.
@@ -59,3 +59,23 @@ describe("formatTimestamp", () => {
     expect(result).toContain("1969");
   });
 });
+
+describe("note links", () => {
+  it("round-trips note paths through hrefs", () => {
+    expect(noteHref("2026/01/26/1")).toBe("note:2026/01/26/1");
+    expect(parseNoteHref(noteHref("2026/01/26/12"))).toBe("2026/01/26/12");
+  });
+
+  it("rejects hrefs that aren't note paths", () => {
+    expect(parseNoteHref("https://example.com/")).toBeNull();
+    expect(parseNoteHref("note:2026/01/26")).toBeNull();
+    expect(parseNoteHref("note:../secret")).toBeNull();
+    expect(parseNoteHref("note:2026/01/26/0")).toBeNull();
+  });
+
+  it("counts as a safe href", () => {
+    expect(isSafeHref("note:2026/01/26/1")).toBe(true);
+    expect(isSafeHref("note:javascript")).toBe(false);
+    expect(isSafeHref("javascript:alert(1)")).toBe(false);
+  });
+});
@@ -3,12 +3,33 @@ import { marks, nodes } from "prosemirror-schema-basic";
 import { bulletList, listItem, orderedList } from "prosemirror-schema-list";
 import { tableNodes } from "prosemirror-tables";
 
+/** Scheme of links to other notes in the notebook, e.g. "note:2026/01/26/1" */
+export const NOTE_LINK_SCHEME = "note:";
+
+/** A note path as made by generateNotePath: yyyy/mm/dd/n */
+const NOTE_PATH = /^\d{4}\/\d{2}\/\d{2}\/[1-9]\d*$/;
+
+/** Link href for the note at `path` */
+export function noteHref(path: string): string {
+  return `${NOTE_LINK_SCHEME}${path}`;
+}
+
+/**
+ * Note path a link points to, or null if the href isn't a link to a note.
+ */
+export function parseNoteHref(href: string): string | null {
+  if (!href.startsWith(NOTE_LINK_SCHEME)) return null;
+  const path = href.slice(NOTE_LINK_SCHEME.length);
+  return NOTE_PATH.test(path) ? path : null;
+}
+
 /**
  * Validate that an href is safe for use in links.
- * Accepts http, https, and mailto URLs only.
+ * Accepts http, https, and mailto URLs, and links to notes.
  * Used by parseDOM for <a> tags and paste sanitization.
  */
 export function isSafeHref(href: string): boolean {
+  if (parseNoteHref(href) !== null) return true;
   try {
     const url = new URL(href);
     return (
@@ -51,6 +72,17 @@ const tableNodeSpecs = tableNodes({
   cellAttributes: {},
 });
 
+/**
+ * Anchor ID of a cross-reference target (section, math_display, table,
+ * image). Null until something refers to the node; see anchors.ts.
+ */
+const anchorId = { default: null, validate: "string|null" };
+
+/** Read an anchor ID from parsed HTML */
+function parseAnchorId(dom: HTMLElement): string | null {
+  return dom.getAttribute("id") || null;
+}
+
 export function formatTimestamp(ts: number): string {
   const date = new Date(ts);
   return new Intl.DateTimeFormat("en-US", {
@@ -67,7 +99,7 @@ export function formatTimestamp(ts: number): string {
 export const schema = new Schema({
   nodes: {
     doc: {
-      content: "title created block+",
+      content: "title created labels block+",
     },
     title: {
       // text_content excludes images (image is "inline" but not "text_content")
@@ -104,6 +136,44 @@ export const schema = new Schema({
         ];
       },
     },
+    // Labels are plain strings in an attribute, edited as chips by the
+    // labels NodeView (labelsNodeView.ts) rather than as document content
+    labels: {
+      attrs: {
+        labels: {
+          default: [],
+          validate(value) {
+            if (
+              !Array.isArray(value) ||
+              value.some((label) => typeof label !== "string")
+            ) {
+              throw new RangeError("labels must be an array of strings");
+            }
+          },
+        },
+      },
+      atom: true,
+      selectable: false,
+      parseDOM: [
+        {
+          tag: "ul.doc-labels",
+          getAttrs(dom) {
+            const items = (dom as HTMLElement).querySelectorAll("li");
+            return {
+              labels: Array.from(items, (li) => li.textContent || ""),
+            };
+          },
+        },
+      ],
+      toDOM(node) {
+        const labels = node.attrs.labels as string[];
+        return [
+          "ul",
+          { class: "doc-labels" },
+          ...labels.map((label) => ["li", { class: "doc-label" }, label]),
+        ];
+      },
+    },
     // Paragraph must come first in block group to be the default
     paragraph: {
       ...nodes.paragraph,
@@ -111,17 +181,18 @@ export const schema = new Schema({
     },
     // Section headings: level 1=Section (h2), 2=Subsection (h3), 3=Subsubsection (h4)
     section: {
-      attrs: { level: { default: 1, validate: "number" } },
+      attrs: { level: { default: 1, validate: "number" }, id: anchorId },
       content: "inline*",
       group: "block",
-      parseDOM: [
-        { tag: "h2", attrs: { level: 1 } },
-        { tag: "h3", attrs: { level: 2 } },
-        { tag: "h4", attrs: { level: 3 } },
-        { tag: "h5", attrs: { level: 4 } },
-      ],
+      parseDOM: [2, 3, 4, 5].map((h) => ({
+        tag: `h${h}`,
+        getAttrs: (dom: HTMLElement) => ({
+          level: h - 1,
+          id: parseAnchorId(dom),
+        }),
+      })),
       toDOM(node) {
-        return [`h${node.attrs.level + 1}`, 0];
+        return [`h${node.attrs.level + 1}`, { id: node.attrs.id }, 0];
       },
     },
     code_block: {
@@ -140,6 +211,7 @@ export const schema = new Schema({
       atom: true,
       attrs: {
         content: { default: "", validate: "string" },
+        id: anchorId,
       },
       group: "block",
       selectable: true,
@@ -149,7 +221,10 @@ export const schema = new Schema({
           tag: "div.math-display",
           getAttrs(dom) {
             const el = dom as HTMLElement;
-            return { content: el.getAttribute("data-latex") || "" };
+            return {
+              content: el.getAttribute("data-latex") || "",
+              id: parseAnchorId(el),
+            };
           },
         },
       ],
@@ -158,6 +233,7 @@ export const schema = new Schema({
           "div",
           {
             class: "math-display",
+            id: node.attrs.id,
             "data-latex": node.attrs.content,
           },
         ];
@@ -201,8 +277,46 @@ export const schema = new Schema({
       ...listItem,
       content: "block+",
     },
+    // Edits to a note on two devices that couldn't be merged (merge.ts):
+    // the version from this device and the other one, until the user keeps
+    // one. A conflict over the title holds each title as a paragraph.
+    conflict: {
+      attrs: { title: { default: false, validate: "boolean" } },
+      content: "conflict_version conflict_version",
+      group: "block",
+      defining: true,
+      selectable: false,
+      toDOM() {
+        return ["div", { class: "conflict" }, 0];
+      },
+    },
+    conflict_version: {
+      attrs: { side: { default: "local", validate: "string" } },
+      content: "block*",
+      defining: true,
+      isolating: true,
+      toDOM(node) {
+        return [
+          "div",
+          { class: "conflict-version", "data-side": node.attrs.side },
+          0,
+        ];
+      },
+    },
     // Table nodes from prosemirror-tables
-    table: tableNodeSpecs.table,
+    table: {
+      ...tableNodeSpecs.table,
+      attrs: { id: anchorId },
+      parseDOM: [
+        {
+          tag: "table",
+          getAttrs: (dom) => ({ id: parseAnchorId(dom as HTMLElement) }),
+        },
+      ],
+      toDOM(node) {
+        return ["table", { id: node.attrs.id }, ["tbody", 0]];
+      },
+    },
     table_row: tableNodeSpecs.table_row,
     table_cell: tableNodeSpecs.table_cell,
     table_header: tableNodeSpecs.table_header,
@@ -215,6 +329,40 @@ export const schema = new Schema({
       ...nodes.text,
       group: "inline text_content",
     },
+    // A footnote's body is inline content edited in place; its number is
+    // its position among the document's footnotes (see footnotes.ts)
+    footnote: {
+      inline: true,
+      group: "inline",
+      content: "(text | hard_break | math_inline | image)*",
+      parseDOM: [{ tag: "span.footnote" }],
+      toDOM() {
+        return ["span", { class: "footnote" }, 0];
+      },
+    },
+    // A cross-reference to the section, equation, table or figure whose
+    // anchor ID is `target`. Its text ("Section 2.1") depends on where the
+    // target is, so it is rendered from the document (see anchors.ts).
+    xref: {
+      inline: true,
+      atom: true,
+      attrs: { target: { validate: "string" } },
+      group: "inline",
+      parseDOM: [
+        {
+          tag: "a.xref[href]",
+          // Ahead of the link mark's a[href]
+          priority: 60,
+          getAttrs(dom) {
+            const href = (dom as HTMLElement).getAttribute("href") || "";
+            return href.startsWith("#") ? { target: href.slice(1) } : false;
+          },
+        },
+      ],
+      toDOM(node) {
+        return ["a", { class: "xref", href: `#${node.attrs.target}` }];
+      },
+    },
     image: {
       inline: true,
       atom: true,
@@ -222,6 +370,7 @@ export const schema = new Schema({
         src: { validate: "string" },
         alt: { default: null, validate: "string|null" },
         title: { default: null, validate: "string|null" },
+        id: anchorId,
       },
       group: "inline",
       draggable: true,
@@ -234,15 +383,17 @@ export const schema = new Schema({
               src: el.getAttribute("src"),
               alt: el.getAttribute("alt"),
               title: el.getAttribute("title"),
+              id: parseAnchorId(el),
             };
           },
         },
       ],
       toDOM(node) {
-        const { src, alt, title } = node.attrs;
+        const { src, alt, title, id } = node.attrs;
         const attrs: Record<string, string> = { src, class: "pm-image" };
         if (alt) attrs.alt = alt;
         if (title) attrs.title = title;
+        if (id) attrs.id = id;
 
         // If image has a link mark, wrap in <a>
         const linkMark = node.marks.find((m) => m.type.name === "link");
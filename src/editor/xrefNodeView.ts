@@ -0,0 +1,66 @@
+/**
+ * NodeView for cross-references: the target's label, from the anchor
+ * plugin's decoration (anchors.ts), or "??" if the target is gone.
+ *
+ * Clicking a reference scrolls to its target.
+ */
+
+import type { Node } from "prosemirror-model";
+import type { Decoration, EditorView } from "prosemirror-view";
+import { anchorsById, DANGLING_LABEL, type XrefSpec } from "./anchors";
+
+function xrefSpec(decorations: readonly Decoration[]): XrefSpec | null {
+  for (const decoration of decorations) {
+    const spec = decoration.spec as Partial<XrefSpec>;
+    if (spec.xrefLabel !== undefined) return spec as XrefSpec;
+  }
+  return null;
+}
+
+/** Scroll the node with anchor ID `id` into view */
+function revealAnchor(view: EditorView, id: string): void {
+  const target = anchorsById(view.state.doc).get(id);
+  if (!target) return;
+  const dom = view.nodeDOM(target.pos);
+  if (dom instanceof HTMLElement) {
+    dom.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+}
+
+export function createXrefNodeView(
+  node: Node,
+  view: EditorView,
+  _getPos: () => number | undefined,
+  decorations: readonly Decoration[],
+) {
+  const dom = document.createElement("a");
+  dom.className = "xref";
+  dom.contentEditable = "false";
+
+  let target = node.attrs.target as string;
+  function render(decorations: readonly Decoration[]) {
+    const spec = xrefSpec(decorations);
+    dom.href = `#${target}`;
+    dom.textContent = spec?.xrefLabel ?? DANGLING_LABEL;
+    dom.title = spec?.xrefLabel
+      ? spec.xrefTitle
+      : "The target of this cross-reference has been deleted";
+  }
+  render(decorations);
+
+  dom.addEventListener("click", (event) => {
+    event.preventDefault();
+    revealAnchor(view, target);
+  });
+
+  return {
+    dom,
+
+    update(updated: Node, decorations: readonly Decoration[]) {
+      if (updated.type !== node.type) return false;
+      target = updated.attrs.target as string;
+      render(decorations);
+      return true;
+    },
+  };
+}
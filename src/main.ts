@@ -2,6 +2,7 @@ import "./style.css";
 import "prosemirror-view/style/prosemirror.css";
 import "katex/dist/katex.min.css";
 import { registerSW } from "virtual:pwa-register";
+import { DOMSerializer } from "prosemirror-model";
 import {
   type AppState,
   canSaveNote,
@@ -12,10 +13,63 @@ import {
   transition,
 } from "./appState";
 import { AutosaveManager } from "./autosave";
+import {
+  adjacentDay,
+  calendarMonth,
+  countNotesByDay,
+  noteForDay,
+} from "./calendar";
+import { CommitScheduler } from "./commitScheduler";
 import * as Editor from "./editor/editor";
 import { ImageManager, setImageManager } from "./editor/ImageManager";
+import { normalizeLabel } from "./editor/labels";
+import { type BlockChange, diffBlocks } from "./editor/revisionDiff";
 import { schema } from "./editor/schema";
-import { LocalFileSystemProvider } from "./storage/filesystem";
+import { exportNotebookArchive } from "./storage/archive";
+import { NOTEBOOK_FILE, TEMPLATES_DIR, TRASH_DIR } from "./storage/constants";
+import {
+  type FileSystemProvider,
+  isDirectoryPickerSupported,
+  LocalFileSystemProvider,
+} from "./storage/filesystem";
+import {
+  commitNotebook,
+  copyNoteFromCommit,
+  type GitCommit,
+  initGitRepository,
+  isGitRepository,
+  listNoteCommits,
+  loadNoteAtCommit,
+} from "./storage/git";
+import {
+  listRevisions,
+  loadRevision,
+  type Revision,
+  recordRevision,
+  restoreRevision,
+} from "./storage/history";
+import { noteDay, openJournal } from "./storage/journal";
+import { rebuildNoteIndex, refreshNoteIndexEntry } from "./storage/noteIndex";
+import { OpfsFileSystemProvider } from "./storage/opfsFilesystem";
+import { S3FileSystemProvider, type S3Location } from "./storage/s3Filesystem";
+import {
+  buildSearchIndex,
+  type SearchIndex,
+  type SearchResult,
+} from "./storage/search";
+import { type SyncResult, type SyncTarget, syncNotebook } from "./storage/sync";
+import {
+  createNoteFromTemplate,
+  listTemplates,
+  saveNoteAsTemplate,
+  templateName,
+} from "./storage/templates";
+import {
+  WebDavFileSystemProvider,
+  type WebDavLocation,
+} from "./storage/webdavFilesystem";
+import { SyncScheduler } from "./syncScheduler";
+import { type NoteAccess, TAB_CHANNEL, TabCoordinator } from "./tabs";
 
 // Register service worker and handle updates
 const updateSW = registerSW({
@@ -45,22 +99,142 @@ function showUpdateBanner() {
 
 import {
   createNote,
+  datePath,
+  deleteNote,
+  emptyTrash,
+  exportNoteMarkdown,
   extractTitle,
+  InvalidNoteError,
+  importMarkdownNote,
+  listBacklinks,
+  listLabels,
   listNotes,
+  listTrash,
   loadNote,
   loadNoteOrCreateDefault,
+  moveNote,
+  type Note,
+  NoteConflictError,
+  type NoteInfo,
+  onNoteRemoved,
+  onNoteSaved,
+  restoreNote,
   saveNote,
 } from "./storage/note";
 import {
   createNotebook,
+  importNotebook,
+  type Notebook,
+  onNotebookMetaSaved,
   openNotebook,
+  type RestoreResult,
   reconnectNotebook,
   restoreNotebook,
   saveNotebookMeta,
 } from "./storage/notebook";
 
-// File system provider
-const fs = new LocalFileSystemProvider();
+/**
+ * Ask for a notebook name (OPFS has no directory picker).
+ */
+async function promptForNotebookName(
+  existing: string[],
+): Promise<string | null> {
+  const list =
+    existing.length > 0
+      ? `Existing notebooks:\n${existing.join("\n")}\n\n`
+      : "";
+  return prompt(`${list}Notebook name:`, existing[0] ?? "Notebook");
+}
+
+/**
+ * Show the location dialog `#<name>-dialog` until the user connects or
+ * cancels. Resolves with what `read` makes of the form's fields, or null.
+ */
+function chooseLocation<T>(
+  name: string,
+  read: (field: (id: string) => string) => T,
+): Promise<T | null> {
+  const dialog = document.querySelector(`#${name}-dialog`);
+  const form = document.querySelector<HTMLFormElement>(`#${name}-form`);
+  const cancel = document.querySelector(`#${name}-cancel`);
+  if (!dialog || !form || !cancel) return Promise.resolve(null);
+
+  const field = (id: string) =>
+    document.querySelector<HTMLInputElement>(`#${name}-${id}`)?.value ?? "";
+
+  dialog.classList.remove("hidden");
+  form.querySelector("input")?.focus();
+  return new Promise((resolve) => {
+    const done = (location: T | null) => {
+      form.removeEventListener("submit", submit);
+      cancel.removeEventListener("click", close);
+      dialog.classList.add("hidden");
+      resolve(location);
+    };
+    const submit = (e: Event) => {
+      e.preventDefault();
+      done(read(field));
+    };
+    const close = () => done(null);
+    form.addEventListener("submit", submit);
+    cancel.addEventListener("click", close);
+  });
+}
+
+function chooseWebDavLocation(): Promise<WebDavLocation | null> {
+  return chooseLocation("webdav", (field) => ({
+    url: field("url").trim(),
+    username: field("username"),
+    password: field("password"),
+  }));
+}
+
+function chooseS3Location(): Promise<S3Location | null> {
+  return chooseLocation("s3", (field) => ({
+    endpoint: field("endpoint").trim(),
+    region: field("region").trim() || "us-east-1",
+    bucket: field("bucket").trim(),
+    prefix: field("prefix").trim(),
+    accessKeyId: field("access-key").trim(),
+    secretAccessKey: field("secret-key"),
+  }));
+}
+
+// Local file system provider: the user's own folders where the browser
+// allows it, otherwise the origin private file system
+const localFs: FileSystemProvider = isDirectoryPickerSupported()
+  ? new LocalFileSystemProvider()
+  : new OpfsFileSystemProvider(promptForNotebookName);
+
+// Notebooks on a WebDAV server (Nextcloud and the like)
+const webdavFs = new WebDavFileSystemProvider({
+  chooseLocation: chooseWebDavLocation,
+});
+
+// Notebooks in an S3 bucket (AWS, MinIO and the like)
+const s3Fs = new S3FileSystemProvider({ chooseLocation: chooseS3Location });
+
+// Which provider holds the open notebook, by name
+const PROVIDER_STORAGE_KEY = "notebook-provider";
+const providers: Record<string, FileSystemProvider> = {
+  local: localFs,
+  webdav: webdavFs,
+  s3: s3Fs,
+};
+
+let fs: FileSystemProvider =
+  providers[localStorage.getItem(PROVIDER_STORAGE_KEY) ?? "local"] ?? localFs;
+
+/**
+ * Make `provider` the one the open notebook lives in, also on the next visit.
+ */
+function useProvider(provider: FileSystemProvider) {
+  fs = provider;
+  const name = Object.keys(providers).find(
+    (key) => providers[key] === provider,
+  );
+  localStorage.setItem(PROVIDER_STORAGE_KEY, name ?? "local");
+}
 
 // Application state - explicit state machine
 let appState: AppState = initialState();
@@ -79,10 +253,38 @@ app.innerHTML = `
         File
         <div class="menu-dropdown">
           <div class="menu-item" id="file-new-note">New Note</div>
+          <div class="menu-item" id="file-new-from-template">New Note from Template...</div>
           <div class="menu-item" id="file-open-note">Open Note...</div>
+          <div class="menu-item" id="file-journal">Today's Journal</div>
+          <div class="menu-item" id="file-export-markdown">Export as Markdown</div>
+          <div class="menu-item" id="file-import-markdown">Import Markdown...</div>
+          <div class="menu-item" id="file-export-html">Export as HTML...</div>
+          <div class="menu-separator"></div>
+          <div class="menu-item" id="file-move-note">Move Note...</div>
+          <div class="menu-item" id="file-delete-note">Delete Note</div>
+          <div class="menu-item" id="file-history">Note History...</div>
+          <div class="menu-item" id="file-git-history">Git History of Note...</div>
+          <div class="menu-item" id="file-save-template">Save as Template...</div>
+          <div class="menu-item" id="file-restore-note">Restore from Trash...</div>
+          <div class="menu-item" id="file-empty-trash">Empty Trash...</div>
+          <div class="menu-item" id="file-rebuild-index">Rebuild Note Index</div>
           <div class="menu-separator"></div>
           <div class="menu-item" id="file-new-notebook">New Notebook...</div>
           <div class="menu-item" id="file-open-notebook">Open Notebook...</div>
+          <div class="menu-item" id="file-new-webdav-notebook">New WebDAV Notebook...</div>
+          <div class="menu-item" id="file-open-webdav-notebook">Open WebDAV Notebook...</div>
+          <div class="menu-item" id="file-new-s3-notebook">New S3 Notebook...</div>
+          <div class="menu-item" id="file-open-s3-notebook">Open S3 Notebook...</div>
+          <div class="menu-separator"></div>
+          <div class="menu-item" id="file-sync-webdav">Sync with WebDAV...</div>
+          <div class="menu-item" id="file-sync-s3">Sync with S3...</div>
+          <div class="menu-item" id="file-sync-now">Sync Now</div>
+          <div class="menu-item" id="file-sync-stop">Stop Syncing</div>
+          <div class="menu-item" id="file-git-interval">Git Commit Interval...</div>
+          <div class="menu-separator"></div>
+          <div class="menu-item" id="file-export-notebook">Export Notebook...</div>
+          <div class="menu-item" id="file-export-site">Export as Website...</div>
+          <div class="menu-item" id="file-import-notebook">Import Notebook...</div>
         </div>
       </div>
       <div class="menu">
@@ -90,6 +292,8 @@ app.innerHTML = `
         <div class="menu-dropdown">
           <div class="menu-item" id="edit-undo">Undo</div>
           <div class="menu-item" id="edit-redo">Redo</div>
+          <div class="menu-separator"></div>
+          <div class="menu-item" id="edit-labels">Edit Labels</div>
         </div>
       </div>
       <div class="menu">
@@ -103,6 +307,8 @@ app.innerHTML = `
               <div class="menu-item" id="format-code">Code</div>
               <div class="menu-item" id="format-strikethrough">Strikethrough</div>
               <div class="menu-item" id="format-link">Link...</div>
+              <div class="menu-item" id="format-footnote">Footnote</div>
+              <div class="menu-item" id="format-xref">Cross-reference...</div>
             </div>
           </div>
           <div class="menu-item has-submenu">
@@ -123,7 +329,14 @@ app.innerHTML = `
           </div>
         </div>
       </div>
-      <div class="menu">View</div>
+      <div class="menu">
+        View
+        <div class="menu-dropdown">
+          <div class="menu-item" id="view-search">Search Notes</div>
+          <div class="menu-item" id="view-backlinks">Backlinks</div>
+          <div class="menu-item" id="view-calendar">Calendar</div>
+        </div>
+      </div>
       <div class="menu">Preferences</div>
       <div class="menu">Help</div>
     </header>
@@ -139,6 +352,7 @@ app.innerHTML = `
          tb-hard-break: corner-down-left
          tb-image: photo
          tb-math-inline: math
+         tb-footnote: superscript
          tb-paragraph: pilcrow
          tb-h1: custom (seriffed H, not Tabler's h-1 which has the digit)
          tb-h2: h-3
@@ -186,6 +400,9 @@ app.innerHTML = `
         <button class="toolbar-btn" id="tb-math-inline" title="Inline Math">
           <svg viewBox="0 0 24 24"><path d="M19 5h-7l-4 14l-3 -6h-2"/><path d="M14 13l6 6"/><path d="M14 19l6 -6"/></svg>
         </button>
+        <button class="toolbar-btn" id="tb-footnote" title="Footnote">
+          <svg viewBox="0 0 24 24"><path d="M5 7l8 10m-8 0l8 -10"/><path d="M21 11h-4l3.5 -4a1.73 1.73 0 0 0 -3.5 -2"/></svg>
+        </button>
       </div>
       <div class="toolbar-separator"></div>
       <div class="toolbar-group">
@@ -231,11 +448,40 @@ app.innerHTML = `
     <div class="body">
       <aside class="sidebar hidden" id="sidebar">
         <div class="sidebar-title">Notebook</div>
+        <input type="search" class="search-input" id="search-input" placeholder="Search notes">
+        <ul class="search-results" id="search-results"></ul>
+      </aside>
+
+      <aside class="sidebar calendar hidden" id="calendar">
+        <div class="calendar-header">
+          <button class="calendar-nav" id="calendar-prev" title="Previous month">&lsaquo;</button>
+          <div class="sidebar-title" id="calendar-month"></div>
+          <button class="calendar-nav" id="calendar-next" title="Next month">&rsaquo;</button>
+        </div>
+        <div class="calendar-grid" id="calendar-grid" tabindex="0"></div>
+        <div class="calendar-hint">Alt+PageUp / Alt+PageDown: previous / next day with notes</div>
       </aside>
 
       <main class="editor-host">
+        <div class="tab-banner hidden" id="tab-banner">
+          <span id="tab-banner-text"></span>
+          <button id="tab-take-over">Edit Here</button>
+        </div>
+        <div class="tab-banner hidden" id="sync-banner">
+          <span id="sync-banner-text"></span>
+          <button id="sync-banner-dismiss">Dismiss</button>
+        </div>
+        <div class="tab-banner hidden" id="git-banner">
+          <span id="git-banner-text"></span>
+          <button id="git-banner-dismiss">Dismiss</button>
+        </div>
         <div id="editor"></div>
       </main>
+
+      <aside class="sidebar backlinks hidden" id="backlinks">
+        <div class="sidebar-title">Linked from</div>
+        <ul class="search-results" id="backlinks-list"></ul>
+      </aside>
     </div>
   </div>
 
@@ -246,10 +492,115 @@ app.innerHTML = `
       <div class="welcome-buttons">
         <button id="welcome-new">New Notebook</button>
         <button id="welcome-open">Open Notebook</button>
+        <button id="welcome-import">Import Notebook</button>
+      </div>
+      <p class="welcome-remote">Or keep it on a WebDAV server such as Nextcloud
+        (<a href="#" id="welcome-new-webdav">new</a> or
+        <a href="#" id="welcome-open-webdav">open</a>) or in an S3 bucket
+        (<a href="#" id="welcome-new-s3">new</a> or
+        <a href="#" id="welcome-open-s3">open</a>)</p>
+    </div>
+  </div>
+
+  <div class="welcome-dialog hidden" id="recovery-dialog">
+    <div class="welcome-content recovery-content">
+      <h1>Note Can't Be Opened</h1>
+      <p id="recovery-message"></p>
+      <p>The file has not been changed. Its contents are below so you can
+        save a copy and recover what you need.</p>
+      <textarea id="recovery-text" readonly spellcheck="false"></textarea>
+      <div class="welcome-buttons">
+        <button id="recovery-download">Download note.json</button>
+        <button id="recovery-close">Close</button>
+      </div>
+    </div>
+  </div>
+
+  <div class="welcome-dialog hidden" id="history-dialog">
+    <div class="welcome-content history-content">
+      <h1>Note History</h1>
+      <div class="history-versions">
+        <select id="history-before" aria-label="Older version"></select>
+        <select id="history-after" aria-label="Newer version"></select>
+      </div>
+      <div class="history-diff" id="history-diff"></div>
+      <div class="welcome-buttons">
+        <button id="history-restore">Restore This Version</button>
+        <button id="history-close">Close</button>
+      </div>
+    </div>
+  </div>
+
+  <div class="welcome-dialog hidden" id="git-history-dialog">
+    <div class="welcome-content history-content">
+      <h1>Git History of Note</h1>
+      <div class="history-versions">
+        <select id="git-history-commit" aria-label="Commit"></select>
+        <div>Current version</div>
+      </div>
+      <div class="history-diff" id="git-history-diff"></div>
+      <div class="welcome-buttons">
+        <button id="git-history-copy">Open as New Note</button>
+        <button id="git-history-close">Close</button>
       </div>
     </div>
   </div>
 
+  <div class="welcome-dialog hidden" id="conflict-dialog">
+    <div class="welcome-content history-content">
+      <h1>Note Changed Elsewhere</h1>
+      <p>This note was changed by another program, device or tab since you opened it.
+        Keep your version or take theirs; the other one stays in the note's history.</p>
+      <div class="hidden" id="conflict-compare">
+        <div class="history-versions">
+          <div>Theirs</div>
+          <div>Yours</div>
+        </div>
+        <div class="history-diff" id="conflict-diff"></div>
+      </div>
+      <div class="welcome-buttons">
+        <button id="conflict-keep-mine">Keep Mine</button>
+        <button id="conflict-take-theirs">Take Theirs</button>
+        <button id="conflict-view-diff">View Differences</button>
+      </div>
+    </div>
+  </div>
+
+  <div class="welcome-dialog hidden" id="webdav-dialog">
+    <form class="welcome-content location-content" id="webdav-form">
+      <h1>WebDAV Notebook</h1>
+      <p>The notebook's folder on the server, e.g.
+        https://cloud.example.com/remote.php/dav/files/me/Notes. Use an app
+        password if the server has them.</p>
+      <label>URL <input type="url" id="webdav-url" required></label>
+      <label>User name <input type="text" id="webdav-username" autocomplete="username"></label>
+      <label>Password <input type="password" id="webdav-password" autocomplete="current-password"></label>
+      <div class="welcome-buttons">
+        <button type="submit">Connect</button>
+        <button type="button" id="webdav-cancel">Cancel</button>
+      </div>
+    </form>
+  </div>
+
+  <div class="welcome-dialog hidden" id="s3-dialog">
+    <form class="welcome-content location-content" id="s3-form">
+      <h1>S3 Notebook</h1>
+      <p>The bucket and key prefix the notebook is kept under. Use an access
+        key that only reaches this bucket.</p>
+      <label>Endpoint <input type="url" id="s3-endpoint" required
+        placeholder="https://s3.eu-central-1.amazonaws.com"></label>
+      <label>Region <input type="text" id="s3-region" placeholder="us-east-1"></label>
+      <label>Bucket <input type="text" id="s3-bucket" required></label>
+      <label>Prefix <input type="text" id="s3-prefix" placeholder="notebooks/work"></label>
+      <label>Access key <input type="text" id="s3-access-key" required></label>
+      <label>Secret key <input type="password" id="s3-secret-key" required></label>
+      <div class="welcome-buttons">
+        <button type="submit">Connect</button>
+        <button type="button" id="s3-cancel">Cancel</button>
+      </div>
+    </form>
+  </div>
+
   <div class="welcome-dialog hidden" id="reconnect-dialog">
     <div class="welcome-content">
       <h1>Reconnect to Notebook</h1>
@@ -271,6 +622,26 @@ const view = Editor.mountEditor(editor);
 // Set up copy handler for proper image clipboard handling
 Editor.setupCopyHandler(view);
 
+// Offer labels from the rest of the notebook when labelling a note
+Editor.setLabelSuggestions(view, async () => {
+  const notebook = getNotebook(appState);
+  if (!notebook) return [];
+  return (await listLabels(fs, notebook)).map((l) => l.label);
+});
+
+// Offer the notebook's other notes when linking with [[
+Editor.setNoteLinkSuggestions(view, async () => {
+  const notebook = getNotebook(appState);
+  if (!notebook) return [];
+  const current = getNote(appState)?.path;
+  return (await listNotes(fs, notebook)).filter((n) => n.path !== current);
+});
+
+// Clicking a link to another note opens it
+Editor.onNoteLinkClick(view, (path) => {
+  handleNoteLink(path);
+});
+
 // Click in empty space below content should focus and move cursor to end
 editor.addEventListener("click", (e) => {
   if (e.target === editor) {
@@ -288,6 +659,10 @@ document.querySelector("#edit-redo")?.addEventListener("click", () => {
   view.focus();
 });
 
+document.querySelector("#edit-labels")?.addEventListener("click", () => {
+  if (!Editor.focusLabels(view)) view.focus();
+});
+
 // Format menu - block types
 document.querySelector("#format-paragraph")?.addEventListener("click", () => {
   Editor.setParagraph(view);
@@ -376,6 +751,35 @@ document.querySelector("#format-link")?.addEventListener("click", () => {
   view.focus();
 });
 
+document.querySelector("#format-footnote")?.addEventListener("click", () => {
+  Editor.insertFootnote(view);
+  view.focus();
+});
+
+document.querySelector("#format-xref")?.addEventListener("click", () => {
+  const targets = Editor.listCrossReferenceTargets(view);
+  if (targets.length === 0) {
+    alert("This note has no sections, equations, tables or figures.");
+    return;
+  }
+
+  const choices = targets
+    .map((t, i) => `${i + 1}. ${t.label}${t.text ? `: ${t.text}` : ""}`)
+    .join("\n");
+  const choice = prompt(`Refer to:\n${choices}\n\nEnter number:`);
+  if (!choice) return;
+
+  const target = targets[parseInt(choice, 10) - 1];
+  if (!target) {
+    alert("Invalid choice.");
+    return;
+  }
+  if (!Editor.insertCrossReference(view, target.pos)) {
+    alert("A cross-reference can't be inserted here.");
+  }
+  view.focus();
+});
+
 // Toolbar - inline marks
 document.querySelector("#tb-bold")?.addEventListener("click", () => {
   Editor.toggleStrong(view);
@@ -474,6 +878,11 @@ document.querySelector("#tb-math-inline")?.addEventListener("click", () => {
   view.focus();
 });
 
+document.querySelector("#tb-footnote")?.addEventListener("click", () => {
+  Editor.insertFootnote(view);
+  view.focus();
+});
+
 // Toolbar - history
 document.querySelector("#tb-undo")?.addEventListener("click", () => {
   Editor.doUndo(view);
@@ -508,21 +917,102 @@ async function handleNewNote() {
 
   // Load into editor
   setupImageManager();
+  setupTabs();
   Editor.setContent(view, note.content);
   updateTitle();
+  refreshBacklinks();
+  refreshCalendar();
   view.focus();
 }
 
-async function handleOpenNote() {
+async function handleNewNoteFromTemplate() {
   const notebook = getNotebook(appState);
   if (!notebook) return;
 
-  const notes = await listNotes(fs, notebook);
-  if (notes.length === 0) {
-    alert("No notes in this notebook.");
+  const templates = await listTemplates(fs, notebook);
+  if (templates.length === 0) {
+    alert(
+      "No templates in this notebook. Use File > Save as Template... to make one.",
+    );
+    return;
+  }
+
+  const choices = templates
+    .map((t, i) => `${i + 1}. ${t.name} (${t.title})`)
+    .join("\n");
+  const choice = prompt(`New note from template:\n${choices}\n\nEnter number:`);
+  if (!choice) return;
+
+  const index = parseInt(choice, 10) - 1;
+  if (index < 0 || index >= templates.length) {
+    alert("Invalid choice.");
+    return;
+  }
+
+  // Flush any pending autosave before switching notes
+  await autosaveManager.flush();
+
+  let note: Note;
+  try {
+    note = await createNoteFromTemplate(fs, notebook, templates[index].name);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+
+  const newState = transition(appState, { type: "switch_note", note });
+  if (!newState) return;
+  appState = newState;
+
+  notebook.meta.lastOpenedNote = note.path;
+  await saveNotebookMeta(fs, notebook);
+
+  setupImageManager();
+  setupTabs();
+  Editor.setContent(view, note.content);
+  updateTitle();
+  refreshBacklinks();
+  refreshCalendar();
+  view.focus();
+}
+
+async function handleSaveAsTemplate() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  const name = prompt("Template name:");
+  if (!name) return;
+
+  const existing = await listTemplates(fs, notebook);
+  if (
+    existing.some((t) => t.name === templateName(name)) &&
+    !confirm(`Replace the template "${templateName(name)}"?`)
+  ) {
     return;
   }
 
+  try {
+    const template = await saveNoteAsTemplate(
+      fs,
+      notebook,
+      { path: note.path, content: view.state.doc.toJSON() },
+      name,
+    );
+    alert(`Saved as template "${template.name}"`);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleOpenNote() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
   // Format note list for display
   const formatDate = (ts: number) => {
     if (!ts) return "Unknown date";
@@ -533,18 +1023,51 @@ async function handleOpenNote() {
     });
   };
 
-  const choices = notes
-    .map((e, i) => {
-      const title =
-        e.title === "Untitled"
-          ? `Untitled - ${formatDate(e.created)}`
-          : e.title;
-      return `${i + 1}. ${title}`;
-    })
-    .join("\n");
+  // List the open note's latest labels too
+  await autosaveManager.flush();
 
-  const choice = prompt(`Open note:\n${choices}\n\nEnter number:`);
-  if (!choice) return;
+  // "#label" at the prompt shows only notes with that label, "#" all notes
+  let label: string | undefined;
+  let notes: NoteInfo[];
+  let choice: string | null;
+  for (;;) {
+    notes = await listNotes(fs, notebook, label);
+    if (notes.length === 0) {
+      if (!label) {
+        alert("No notes in this notebook.");
+        return;
+      }
+      alert(`No notes labelled "${label}".`);
+      label = undefined;
+      continue;
+    }
+
+    const choices = notes
+      .map((e, i) => {
+        const title =
+          e.title === "Untitled"
+            ? `Untitled - ${formatDate(e.created)}`
+            : e.title;
+        const labels = e.labels.length > 0 ? ` [${e.labels.join(", ")}]` : "";
+        return `${i + 1}. ${title}${labels}`;
+      })
+      .join("\n");
+
+    const labels = await listLabels(fs, notebook);
+    const labelList =
+      labels.length > 0
+        ? `\nLabels: ${labels.map((l) => `${l.label} (${l.count})`).join(", ")}\n`
+        : "";
+    const heading = label ? `Open note labelled "${label}":` : "Open note:";
+    const hint = labels.length > 0 ? ", or #label to filter" : "";
+
+    choice = prompt(
+      `${heading}\n${choices}\n${labelList}\nEnter number${hint}:`,
+    );
+    if (!choice) return;
+    if (!choice.startsWith("#")) break;
+    label = normalizeLabel(choice.slice(1)) || undefined;
+  }
 
   const index = parseInt(choice, 10) - 1;
   if (index < 0 || index >= notes.length) {
@@ -552,12 +1075,28 @@ async function handleOpenNote() {
     return;
   }
 
+  await switchToNote(notebook, notes[index].path);
+  view.focus();
+}
+
+/**
+ * Load a note from the open notebook into the editor.
+ */
+async function switchToNote(notebook: Notebook, path: string) {
   // Flush any pending autosave before switching notes
   await autosaveManager.flush();
 
-  // Load selected note
-  const noteInfo = notes[index];
-  const note = await loadNote(fs, notebook, noteInfo.path);
+  // Load selected note; a damaged one opens in the recovery dialog instead
+  let note: Note;
+  try {
+    note = await loadNote(fs, notebook, path);
+  } catch (e) {
+    if (e instanceof InvalidNoteError) {
+      showRecoveryDialog(e);
+      return;
+    }
+    throw e;
+  }
 
   // Transition state
   const newState = transition(appState, { type: "switch_note", note });
@@ -570,31 +1109,22 @@ async function handleOpenNote() {
 
   // Load into editor
   setupImageManager();
+  setupTabs();
   Editor.setContent(view, note.content);
   updateTitle();
-  view.focus();
+  refreshBacklinks();
+  refreshCalendar();
 }
 
-async function handleNewNotebook() {
-  try {
-    // Flush any pending autosave before switching notebooks
-    await autosaveManager.flush();
-
-    const { notebook, note } = await createNotebook(fs);
-
-    // Transition state
-    const newState = transition(appState, {
-      type: "open_notebook",
-      notebook,
-      note,
-    });
-    if (!newState) return;
-    appState = newState;
+async function handleOpenJournal() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
 
-    setupImageManager();
-    Editor.setContent(view, note.content);
-    updateTitle();
-    hideWelcomeDialog();
+  // Flush any pending autosave before switching notes
+  await autosaveManager.flush();
+  try {
+    const { note } = await openJournal(fs, notebook);
+    await switchToNote(notebook, note.path);
     view.focus();
   } catch (e) {
     if (e instanceof Error) {
@@ -603,39 +1133,20 @@ async function handleNewNotebook() {
   }
 }
 
-async function handleOpenNotebook() {
-  try {
-    // Flush any pending autosave before switching notebooks
-    await autosaveManager.flush();
-
-    const notebook = await openNotebook(fs);
-
-    // Load last opened note, or create a new one
-    const { note, didCreate } = await loadNoteOrCreateDefault(
-      fs,
-      notebook,
-      notebook.meta.lastOpenedNote,
-    );
-
-    // Transition state
-    const newState = transition(appState, {
-      type: "open_notebook",
-      notebook,
-      note,
-    });
-    if (!newState) return;
-    appState = newState;
+async function handleMoveNote() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note || isNoteReadOnly()) return;
 
-    if (didCreate) {
-      notebook.meta.lastOpenedNote = note.path;
-      await saveNotebookMeta(fs, notebook);
-    }
+  const to = prompt("Move note to (yyyy/mm/dd/n):", note.path);
+  if (!to || to === note.path) return;
 
-    setupImageManager();
-    Editor.setContent(view, note.content);
-    updateTitle();
-    hideWelcomeDialog();
-    view.focus();
+  // Move what's on screen, not the last autosave
+  await autosaveManager.flush();
+  try {
+    const moved = await moveNote(fs, notebook, note.path, to);
+    // Reload from disk: links in the note to itself may have changed
+    await switchToNote(notebook, moved.path);
   } catch (e) {
     if (e instanceof Error) {
       alert(e.message);
@@ -643,21 +1154,1332 @@ async function handleOpenNotebook() {
   }
 }
 
-async function saveCurrentNote() {
-  if (!canSaveNote(appState)) return;
-
+async function handleDeleteNote() {
   const notebook = getNotebook(appState);
   const note = getNote(appState);
-  if (!notebook || !note) return;
+  if (!notebook || !note || isNoteReadOnly()) return;
 
-  note.content = view.state.doc.toJSON();
-  await saveNote(fs, notebook, note);
-}
+  const title = extractTitle(view.state.doc.toJSON());
+  if (!confirm(`Move "${title}" to the trash?`)) return;
 
-// Current ImageManager for the loaded note
-let imageManager: ImageManager | null = null;
+  await autosaveManager.flush();
+  try {
+    await deleteNote(fs, notebook, note.path);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
 
-/**
+  // Open the newest remaining note, or a new one if none are left
+  const [next] = await listNotes(fs, notebook);
+  if (next) {
+    await switchToNote(notebook, next.path);
+  } else {
+    await handleNewNote();
+  }
+}
+
+async function handleRestoreNote() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  const trash = await listTrash(fs, notebook);
+  if (trash.length === 0) {
+    alert("The trash is empty.");
+    return;
+  }
+
+  const choices = trash
+    .map((t, i) => {
+      const deleted = new Date(t.deleted).toLocaleString();
+      return `${i + 1}. ${t.title} (deleted ${deleted})`;
+    })
+    .join("\n");
+  const choice = prompt(`Restore note:\n${choices}\n\nEnter number:`);
+  if (!choice) return;
+
+  const index = parseInt(choice, 10) - 1;
+  if (index < 0 || index >= trash.length) {
+    alert("Invalid choice.");
+    return;
+  }
+
+  await autosaveManager.flush();
+  try {
+    const note = await restoreNote(fs, notebook, trash[index].id);
+    await switchToNote(notebook, note.path);
+    view.focus();
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleEmptyTrash() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  const trash = await listTrash(fs, notebook);
+  if (trash.length === 0) {
+    alert("The trash is empty.");
+    return;
+  }
+  const count = trash.length === 1 ? "1 note" : `${trash.length} notes`;
+  if (!confirm(`Permanently delete ${count} in the trash?`)) return;
+
+  try {
+    await emptyTrash(fs, notebook);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+/** Read every note again, for note lists gone stale after outside edits */
+async function handleRebuildIndex() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  try {
+    await autosaveManager.flush();
+    const entries = await rebuildNoteIndex(fs, notebook);
+    if (search?.notebook === notebook) {
+      search.dispose();
+      search = null;
+    }
+    refreshBacklinks();
+    refreshCalendar();
+    alert(`Indexed ${entries.length} notes`);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleExportMarkdown() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  try {
+    // Export what's on screen, not what was last autosaved
+    await autosaveManager.flush();
+    note.content = view.state.doc.toJSON();
+
+    const path = await exportNoteMarkdown(fs, notebook, note);
+    alert(`Exported to ${path}`);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+  view.focus();
+}
+
+async function handleImportMarkdown() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  // Images can't be read from a path on disk, so the user selects them
+  // together with the Markdown file; they are matched by file name.
+  const files = await chooseFiles(
+    ".md,.markdown,text/markdown,image/png,image/jpeg,image/gif",
+    true,
+  );
+  const markdownFile = files.find((f) => /\.(md|markdown)$/i.test(f.name));
+  if (!markdownFile) {
+    if (files.length > 0) alert("Select a .md file to import.");
+    return;
+  }
+  const images = new Map(files.map((f) => [f.name, f]));
+
+  try {
+    // Flush any pending autosave before switching notes
+    await autosaveManager.flush();
+
+    const { note, missingImages } = await importMarkdownNote(
+      fs,
+      notebook,
+      await markdownFile.text(),
+      async (path) => images.get(path.split("/").pop() ?? path) ?? null,
+    );
+
+    // Transition state
+    const newState = transition(appState, { type: "switch_note", note });
+    if (!newState) return;
+    appState = newState;
+
+    // Update notebook meta
+    notebook.meta.lastOpenedNote = note.path;
+    await saveNotebookMeta(fs, notebook);
+
+    // Load into editor
+    setupImageManager();
+    setupTabs();
+    Editor.setContent(view, note.content);
+    updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+
+    if (missingImages.length > 0) {
+      alert(`Some images were not imported:\n${missingImages.join("\n")}`);
+    }
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+  view.focus();
+}
+
+async function handleExportHtml() {
+  const note = getNote(appState);
+  const manager = imageManager;
+  if (!note || !manager) return;
+
+  try {
+    // Export code and its fonts are loaded on first use, not with the app
+    const { renderNoteHtml } = await import("./editor/htmlExport");
+    const html = await renderNoteHtml(view.state.doc, (src) =>
+      manager.getDataUrl(src),
+    );
+    // Keep the file name portable across operating systems
+    const title = extractTitle(view.state.doc.toJSON());
+    downloadBlob(
+      new Blob([html], { type: "text/html" }),
+      `${title.replace(/[\\/:*?"<>|]/g, "-")}.html`,
+    );
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleNewNotebook(provider: FileSystemProvider) {
+  try {
+    // Flush any pending autosave before switching notebooks
+    await autosaveManager.flush();
+
+    const { notebook, note } = await createNotebook(provider);
+
+    // Transition state
+    const newState = transition(appState, {
+      type: "open_notebook",
+      notebook,
+      note,
+    });
+    if (!newState) return;
+    appState = newState;
+    useProvider(provider);
+
+    setupImageManager();
+    setupTabs();
+    setupSync();
+    setupGit();
+    Editor.setContent(view, note.content);
+    updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+    hideWelcomeDialog();
+    view.focus();
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleOpenNotebook(provider: FileSystemProvider) {
+  try {
+    // Flush any pending autosave before switching notebooks
+    await autosaveManager.flush();
+
+    const notebook = await openNotebook(provider);
+
+    // Load last opened note, or create a new one
+    const { note, didCreate, invalidNote } = await loadNoteOrCreateDefault(
+      provider,
+      notebook,
+      notebook.meta.lastOpenedNote,
+    );
+
+    // Transition state
+    const newState = transition(appState, {
+      type: "open_notebook",
+      notebook,
+      note,
+    });
+    if (!newState) return;
+    appState = newState;
+    useProvider(provider);
+
+    if (didCreate) {
+      notebook.meta.lastOpenedNote = note.path;
+      await saveNotebookMeta(fs, notebook);
+    }
+
+    setupImageManager();
+    setupTabs();
+    setupSync();
+    setupGit();
+    Editor.setContent(view, note.content);
+    updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+    if (invalidNote) showRecoveryDialog(invalidNote);
+    hideWelcomeDialog();
+    view.focus();
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+/**
+ * Offer data to the user as a file download.
+ */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the user choose one or more files from disk.
+ */
+function chooseFiles(accept: string, multiple: boolean): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.multiple = multiple;
+    input.addEventListener("change", () => {
+      resolve(Array.from(input.files ?? []));
+    });
+    input.click();
+  });
+}
+
+/**
+ * Let the user choose a file from disk. Resolves null if nothing is chosen.
+ */
+async function chooseFile(accept: string): Promise<File | null> {
+  const [file] = await chooseFiles(accept, false);
+  return file ?? null;
+}
+
+async function handleExportNotebook() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  try {
+    // Make sure the archive has the latest edits
+    await autosaveManager.flush();
+
+    const archive = await exportNotebookArchive(fs, notebook);
+    downloadBlob(
+      new Blob([archive as Uint8Array<ArrayBuffer>], {
+        type: "application/zip",
+      }),
+      `${notebook.name}.zip`,
+    );
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleExportSite() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  // Without a directory picker the site could only go to private storage
+  if (!isDirectoryPickerSupported()) {
+    alert("Exporting a website needs a browser that can write to folders.");
+    return;
+  }
+
+  try {
+    // Make sure the site has the latest edits
+    await autosaveManager.flush();
+
+    const target = await fs.pickDirectory();
+    const { exportNotebookSite } = await import("./storage/siteExport");
+    const { pages, skipped } = await exportNotebookSite(fs, notebook, target);
+    alert(
+      skipped.length > 0
+        ? `Exported ${pages} notes to ${target.name}. These notes can't be opened and were left out:\n${skipped.join("\n")}`
+        : `Exported ${pages} notes to ${target.name}`,
+    );
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleImportNotebook() {
+  const file = await chooseFile(".zip,application/zip");
+  if (!file) return;
+
+  try {
+    // Flush any pending autosave before switching notebooks
+    await autosaveManager.flush();
+
+    const archive = new Uint8Array(await file.arrayBuffer());
+    const notebook = await importNotebook(fs, archive);
+
+    // Load last opened note, or create a new one
+    const { note, didCreate, invalidNote } = await loadNoteOrCreateDefault(
+      fs,
+      notebook,
+      notebook.meta.lastOpenedNote,
+    );
+
+    // Transition state
+    const newState = transition(appState, {
+      type: "open_notebook",
+      notebook,
+      note,
+    });
+    if (!newState) return;
+    appState = newState;
+
+    if (didCreate) {
+      notebook.meta.lastOpenedNote = note.path;
+      await saveNotebookMeta(fs, notebook);
+    }
+
+    setupImageManager();
+    setupTabs();
+    setupSync();
+    setupGit();
+    Editor.setContent(view, note.content);
+    updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+    if (invalidNote) showRecoveryDialog(invalidNote);
+    hideWelcomeDialog();
+    view.focus();
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function saveCurrentNote() {
+  if (!canSaveNote(appState)) return;
+
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  // Nothing is saved until the user settles the conflict, while another
+  // tab is the one editing the note, or once the note is gone
+  if (conflict || isNoteReadOnly()) return;
+
+  note.content = view.state.doc.toJSON();
+  try {
+    await saveNote(fs, notebook, note);
+  } catch (e) {
+    if (e instanceof NoteConflictError) {
+      showConflictDialog(e);
+      return;
+    }
+    throw e;
+  }
+
+  // Throttled to one snapshot per HISTORY_INTERVAL_MS; the save itself
+  // has succeeded, so a failed snapshot isn't reported
+  await recordRevision(fs, notebook, note).catch(() => {});
+}
+
+// Search sidebar
+
+// Index for the open notebook, built on first search
+let search: {
+  notebook: Notebook;
+  index: Promise<SearchIndex>;
+  dispose: () => void;
+} | null = null;
+
+function getSearchIndex(notebook: Notebook): Promise<SearchIndex> {
+  if (search?.notebook !== notebook) {
+    search?.dispose();
+    const built = buildSearchIndex(fs, notebook);
+    const entry = {
+      notebook,
+      index: built.then((b) => b.index),
+      dispose: () => {
+        built.then((b) => b.dispose());
+      },
+    };
+    // Retry on the next search if building failed
+    entry.index.catch(() => {
+      if (search === entry) search = null;
+    });
+    search = entry;
+  }
+  return search.index;
+}
+
+function toggleSearch() {
+  const sidebar = document.querySelector("#sidebar");
+  const input = document.querySelector<HTMLInputElement>("#search-input");
+  if (!sidebar || !input) return;
+
+  const hidden = sidebar.classList.toggle("hidden");
+  if (hidden) {
+    view.focus();
+  } else {
+    input.focus();
+    input.select();
+  }
+}
+
+function renderSearchResults(results: SearchResult[], query: string) {
+  const list = document.querySelector("#search-results");
+  if (!list) return;
+  list.replaceChildren();
+
+  if (query.trim() && results.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "search-empty";
+    empty.textContent = "No matches";
+    list.append(empty);
+    return;
+  }
+
+  for (const result of results) {
+    const item = document.createElement("li");
+    item.className = "search-result";
+
+    const title = document.createElement("div");
+    title.className = "search-result-title";
+    title.textContent = result.title;
+
+    // Snippet with matched words wrapped in <mark>
+    const snippet = document.createElement("div");
+    snippet.className = "search-result-snippet";
+    let last = 0;
+    for (const [start, end] of result.highlights) {
+      const mark = document.createElement("mark");
+      mark.textContent = result.snippet.slice(start, end);
+      snippet.append(result.snippet.slice(last, start), mark);
+      last = end;
+    }
+    snippet.append(result.snippet.slice(last));
+
+    item.append(title, snippet);
+    item.addEventListener("click", () => handleSearchResult(result));
+    list.append(item);
+  }
+}
+
+async function handleSearchInput() {
+  const notebook = getNotebook(appState);
+  const input = document.querySelector<HTMLInputElement>("#search-input");
+  if (!notebook || !input) return;
+
+  const query = input.value;
+  try {
+    const index = await getSearchIndex(notebook);
+    // Ignore results for a query the user has typed past
+    if (input.value !== query) return;
+    renderSearchResults(index.search(query), query);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleSearchResult(result: SearchResult) {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  try {
+    if (getNote(appState)?.path !== result.path) {
+      await switchToNote(notebook, result.path);
+    }
+    if (!Editor.revealText(view, result.match)) {
+      view.focus();
+    }
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+document.querySelector("#view-search")?.addEventListener("click", toggleSearch);
+document
+  .querySelector("#search-input")
+  ?.addEventListener("input", handleSearchInput);
+document.querySelector("#search-input")?.addEventListener("keydown", (e) => {
+  if ((e as KeyboardEvent).key === "Escape") toggleSearch();
+});
+
+async function handleNoteLink(path: string) {
+  const notebook = getNotebook(appState);
+  if (!notebook || getNote(appState)?.path === path) return;
+
+  try {
+    await switchToNote(notebook, path);
+    view.focus();
+  } catch {
+    alert("The linked note can't be found. It may have been deleted.");
+  }
+}
+
+// Backlinks panel
+
+function toggleBacklinks() {
+  const panel = document.querySelector("#backlinks");
+  if (!panel) return;
+  if (!panel.classList.toggle("hidden")) refreshBacklinks();
+  view.focus();
+}
+
+/** List the notes linking to the open note, if the panel is showing */
+async function refreshBacklinks() {
+  const panel = document.querySelector("#backlinks");
+  const list = document.querySelector("#backlinks-list");
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!panel || !list || panel.classList.contains("hidden")) return;
+  if (!notebook || !note) return;
+
+  let backlinks: NoteInfo[];
+  try {
+    backlinks = await listBacklinks(fs, notebook, note.path);
+  } catch {
+    backlinks = [];
+  }
+  // Ignore results for a note that has been switched away from
+  if (getNote(appState) !== note) return;
+
+  list.replaceChildren();
+  if (backlinks.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "search-empty";
+    empty.textContent = "No notes link here";
+    list.append(empty);
+    return;
+  }
+  for (const backlink of backlinks) {
+    const item = document.createElement("li");
+    item.className = "search-result";
+    const title = document.createElement("div");
+    title.className = "search-result-title";
+    title.textContent = backlink.title;
+    item.append(title);
+    item.addEventListener("click", () => handleNoteLink(backlink.path));
+    list.append(item);
+  }
+}
+
+document
+  .querySelector("#view-backlinks")
+  ?.addEventListener("click", toggleBacklinks);
+
+// Calendar sidebar
+
+// Month shown in the calendar, month counted from 0 as in Date
+let calendarShown = { year: 0, month: 0 };
+
+/** The day of the open note, or today if no note is open */
+function currentDay(): string {
+  const note = getNote(appState);
+  return note ? noteDay(note.path) : datePath(new Date());
+}
+
+function showCalendarMonth(day: string) {
+  const [year, month] = day.split("/").map(Number);
+  calendarShown = { year, month: month - 1 };
+}
+
+function toggleCalendar() {
+  const panel = document.querySelector("#calendar");
+  if (!panel) return;
+  if (panel.classList.toggle("hidden")) {
+    view.focus();
+    return;
+  }
+  showCalendarMonth(currentDay());
+  refreshCalendar();
+  document.querySelector<HTMLElement>("#calendar-grid")?.focus();
+}
+
+/** Draw the shown month, marking days with notes, if the panel is showing */
+async function refreshCalendar() {
+  const panel = document.querySelector("#calendar");
+  const grid = document.querySelector("#calendar-grid");
+  const heading = document.querySelector("#calendar-month");
+  const notebook = getNotebook(appState);
+  if (!panel || !grid || !heading || panel.classList.contains("hidden")) {
+    return;
+  }
+  if (!notebook) return;
+
+  let notes: NoteInfo[];
+  try {
+    notes = await listNotes(fs, notebook);
+  } catch {
+    notes = [];
+  }
+
+  const { year, month } = calendarShown;
+  heading.textContent = new Date(year, month, 1).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+  });
+
+  const selected = currentDay();
+  const weeks = calendarMonth(
+    year,
+    month,
+    countNotesByDay(notes),
+    datePath(new Date()),
+  );
+  grid.replaceChildren();
+  for (const name of ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"]) {
+    const cell = document.createElement("div");
+    cell.className = "calendar-weekday";
+    cell.textContent = name;
+    grid.append(cell);
+  }
+  for (const day of weeks.flat()) {
+    const cell = document.createElement("div");
+    cell.className = "calendar-day";
+    cell.classList.toggle("outside", !day.inMonth);
+    cell.classList.toggle("has-notes", day.notes > 0);
+    cell.classList.toggle("today", day.today);
+    cell.classList.toggle("selected", day.day === selected);
+    cell.textContent = String(day.date);
+    if (day.notes > 0) {
+      cell.title = day.notes === 1 ? "1 note" : `${day.notes} notes`;
+      cell.addEventListener("click", () => openDay(day.day));
+    }
+    grid.append(cell);
+  }
+}
+
+/** Open the journal note of a day, or else its newest note */
+async function openDay(day: string) {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  const note = noteForDay(
+    await listNotes(fs, notebook),
+    day,
+    notebook.meta.journal,
+  );
+  if (!note) return;
+  showCalendarMonth(day);
+  await switchToNote(notebook, note.path);
+}
+
+/** Go to the previous (-1) or next (1) day that has notes */
+async function goToAdjacentDay(direction: -1 | 1) {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  const day = adjacentDay(
+    await listNotes(fs, notebook),
+    currentDay(),
+    direction,
+  );
+  if (day) await openDay(day);
+}
+
+function changeCalendarMonth(delta: number) {
+  const { year, month } = calendarShown;
+  const first = new Date(year, month + delta, 1);
+  calendarShown = { year: first.getFullYear(), month: first.getMonth() };
+  refreshCalendar();
+}
+
+document
+  .querySelector("#view-calendar")
+  ?.addEventListener("click", toggleCalendar);
+document
+  .querySelector("#calendar-prev")
+  ?.addEventListener("click", () => changeCalendarMonth(-1));
+document
+  .querySelector("#calendar-next")
+  ?.addEventListener("click", () => changeCalendarMonth(1));
+document.querySelector("#calendar-grid")?.addEventListener("keydown", (e) => {
+  const key = (e as KeyboardEvent).key;
+  if (key === "ArrowLeft" || key === "ArrowRight") {
+    e.preventDefault();
+    goToAdjacentDay(key === "ArrowLeft" ? -1 : 1);
+  } else if (key === "Escape") {
+    toggleCalendar();
+  }
+});
+document.addEventListener("keydown", (e) => {
+  if (!e.altKey || (e.key !== "PageUp" && e.key !== "PageDown")) return;
+  e.preventDefault();
+  goToAdjacentDay(e.key === "PageUp" ? -1 : 1);
+});
+
+// Other tabs with the same notebook open
+
+// Coordinator for the open notebook, with the listeners that feed it
+let tabs: {
+  notebook: Notebook;
+  coordinator: TabCoordinator;
+  dispose: () => void;
+} | null = null;
+// The open note, once it was moved or deleted elsewhere: it stays on
+// screen, read-only, until another note is opened
+let removedNote: Note | null = null;
+
+function isNoteRemoved(): boolean {
+  return removedNote !== null && removedNote === getNote(appState);
+}
+
+/**
+ * True if the open note can't be changed from this tab: another tab is
+ * editing it, or it's gone.
+ */
+function isNoteReadOnly(): boolean {
+  return tabs?.coordinator.access === "read_only" || isNoteRemoved();
+}
+
+/**
+ * Set up tab coordination for the current note: take its write lock, or
+ * show it read-only while another tab has it.
+ * Must be called after loading/creating a note.
+ */
+function setupTabs() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  if (tabs?.notebook !== notebook) {
+    tabs?.dispose();
+    const coordinator = new TabCoordinator({
+      notebook: notebook.meta.id,
+      onNoteSaved: (path) => handleOtherTabChange(notebook, path, false),
+      onNoteRemoved: (path) => handleOtherTabChange(notebook, path, true),
+      onMetaSaved: (meta) => {
+        notebook.meta = meta;
+      },
+      onAccessChanged: (access) => {
+        showNoteAccess(access);
+        // Catch up with the other tab's last save before editing
+        if (access === "writable") reloadCurrentNote();
+      },
+    });
+    const unsubscribe = [
+      onNoteSaved(notebook, (saved) =>
+        coordinator.noteSaved(saved.path, saved.modified),
+      ),
+      onNoteRemoved(notebook, (path) => coordinator.noteRemoved(path)),
+      onNotebookMetaSaved(notebook, (meta) => coordinator.metaSaved(meta)),
+    ];
+    tabs = {
+      notebook,
+      coordinator,
+      dispose: () => {
+        for (const stop of unsubscribe) stop();
+        coordinator.dispose();
+      },
+    };
+  }
+  tabs.coordinator.openNote(note.path).then(showNoteAccess);
+}
+
+/**
+ * Make the editor and the commands that change the note read-only, with a
+ * banner saying why, or editable.
+ */
+function showNoteAccess(access: NoteAccess) {
+  const removed = isNoteRemoved();
+  const readOnly = access === "read_only" || removed;
+  Editor.setEditable(view, !readOnly);
+  for (const id of ["#file-move-note", "#file-delete-note"]) {
+    document.querySelector(id)?.classList.toggle("disabled", readOnly);
+  }
+  const restore = document.querySelector<HTMLButtonElement>("#history-restore");
+  if (restore) restore.disabled = readOnly;
+  document.querySelector("#tab-banner")?.classList.toggle("hidden", !readOnly);
+  document.querySelector("#tab-take-over")?.classList.toggle("hidden", removed);
+  const text = document.querySelector("#tab-banner-text");
+  if (text) {
+    text.textContent = removed
+      ? "This note was moved or deleted elsewhere."
+      : "This note is being edited in another tab. It's read-only here.";
+  }
+}
+
+/** The open note was moved or deleted elsewhere: stop saving it */
+function markNoteRemoved() {
+  removedNote = getNote(appState);
+  autosaveManager.cancel();
+  showNoteAccess(tabs?.coordinator.access ?? "writable");
+}
+
+/** Another tab saved or removed a note of the notebook */
+async function handleOtherTabChange(
+  notebook: Notebook,
+  path: string,
+  removed: boolean,
+) {
+  // The cached note index and search index no longer match the files.
+  // The other tab has written index.json; only this note's entry is stale.
+  await refreshNoteIndexEntry(fs, notebook, path);
+  if (committing?.notebook === notebook) committing.changed?.add(path);
+  if (search?.notebook === notebook) {
+    search.dispose();
+    search = null;
+  }
+  refreshCalendar();
+
+  if (getNotebook(appState) !== notebook || getNote(appState)?.path !== path) {
+    return;
+  }
+  if (removed) {
+    markNoteRemoved();
+  } else if (tabs?.coordinator.access === "read_only") {
+    await reloadCurrentNote();
+  }
+}
+
+/** Load the open note again if it was saved elsewhere since it was loaded */
+async function reloadCurrentNote() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  let fresh: Note;
+  try {
+    fresh = await loadNote(fs, notebook, note.path);
+  } catch {
+    return;
+  }
+  if (getNote(appState) !== note || fresh.modified === note.modified) return;
+
+  const newState = transition(appState, { type: "switch_note", note: fresh });
+  if (!newState) return;
+  appState = newState;
+
+  setupImageManager();
+  Editor.setContent(view, fresh.content);
+  updateTitle();
+  refreshBacklinks();
+}
+
+document.querySelector("#tab-take-over")?.addEventListener("click", () => {
+  tabs?.coordinator.takeOver();
+});
+
+/**
+ * Run `task` holding the notebook-wide Web Lock `name`, so tabs with the
+ * notebook open take turns at it rather than racing. Browsers without Web
+ * Locks just run it.
+ */
+async function withNotebookLock(
+  notebook: Notebook,
+  name: string,
+  task: () => Promise<void>,
+): Promise<void> {
+  const locks = globalThis.navigator?.locks;
+  if (!locks) return task();
+  await locks.request(`${TAB_CHANNEL}:${notebook.meta.id}:${name}`, task);
+}
+
+// Background sync of the open notebook with a copy on a server
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const SYNC_DELAY_MS = 30 * 1000;
+
+// Where the sync remote of each notebook is kept: the provider's name and
+// the remote's id in localStorage, the handle by the provider itself
+const SYNC_STORAGE_KEY = "sync";
+const SYNC_HANDLE_KEY = "sync-handle";
+
+type SyncProvider = "webdav" | "s3";
+
+// Scheduler syncing the open notebook, if it's synced
+let syncing: {
+  notebook: Notebook;
+  scheduler: SyncScheduler;
+} | null = null;
+
+/**
+ * Start syncing the open notebook if it was synced before, and stop
+ * syncing the previous one.
+ * Must be called after opening a notebook.
+ */
+async function setupSync() {
+  const notebook = getNotebook(appState);
+  if (!notebook || syncing?.notebook === notebook) return;
+  stopSync();
+
+  let saved: { provider: SyncProvider; id: string } | null;
+  try {
+    saved = JSON.parse(
+      localStorage.getItem(`${SYNC_STORAGE_KEY}:${notebook.name}`) ?? "null",
+    );
+  } catch {
+    return;
+  }
+  const provider = saved && providers[saved.provider];
+  if (!saved || !provider) return;
+  const restored = await provider.getPersistedHandle(
+    `${SYNC_HANDLE_KEY}:${notebook.name}`,
+  );
+  if (!restored || getNotebook(appState) !== notebook) return;
+  startSync(notebook, { fs: provider, handle: restored.handle, id: saved.id });
+}
+
+function startSync(notebook: Notebook, remote: SyncTarget): Promise<void> {
+  const scheduler = new SyncScheduler({
+    intervalMs: SYNC_INTERVAL_MS,
+    delayMs: SYNC_DELAY_MS,
+    // One tab at a time: two syncing at once would both upload and
+    // download the same changes, and write the manifest over each other
+    sync: () =>
+      withNotebookLock(notebook, "sync", async () => {
+        // Sync what's in the editor too
+        await autosaveManager.flush();
+        const result = await syncNotebook(fs, notebook, remote);
+        await handleSynced(notebook, result);
+      }),
+    onError: (e) => {
+      if (e instanceof Error) showSyncStatus(`Sync failed: ${e.message}`);
+    },
+  });
+  syncing = { notebook, scheduler };
+  return scheduler.start();
+}
+
+function stopSync() {
+  syncing?.scheduler.stop();
+  syncing = null;
+}
+
+/** Bring the app up to date with what a sync changed */
+async function handleSynced(notebook: Notebook, result: SyncResult) {
+  for (const path of result.changedNotes) {
+    await handleOtherTabChange(notebook, path, false);
+  }
+  for (const path of result.removedNotes) {
+    await handleOtherTabChange(notebook, path, true);
+  }
+  if (getNotebook(appState) !== notebook) return;
+
+  // Unsaved edits aren't replaced: saving them shows the conflict dialog
+  const path = getNote(appState)?.path;
+  if (
+    path &&
+    result.changedNotes.includes(path) &&
+    !autosaveManager.isPending
+  ) {
+    await reloadCurrentNote();
+  }
+  if (result.metaChanged) refreshCalendar();
+
+  const marked = result.conflicts.filter((c) => c.blocks > 0).length;
+  const kept = result.conflicts.length - marked;
+  const notes = (count: number) =>
+    count === 1 ? "A note was" : `${count} notes were`;
+  const messages = [];
+  if (marked > 0) {
+    messages.push(
+      `${notes(marked)} changed both here and on another device. Where the changes clash, both versions are shown; keep one of each.`,
+    );
+  }
+  if (kept > 0) {
+    messages.push(
+      `${notes(kept)} changed both here and on another device. The version here was kept; the other one is in the note's history.`,
+    );
+  }
+  if (messages.length > 0) showSyncStatus(messages.join(" "));
+}
+
+/** Show a sync message above the editor, or hide it */
+function showSyncStatus(message: string | null) {
+  document
+    .querySelector("#sync-banner")
+    ?.classList.toggle("hidden", message === null);
+  const text = document.querySelector("#sync-banner-text");
+  if (text) text.textContent = message;
+}
+
+/** Ask for a server location to sync with, creating it if need be */
+async function chooseSyncRemote(
+  provider: SyncProvider,
+): Promise<SyncTarget | null> {
+  if (provider === "webdav") {
+    const location = await chooseWebDavLocation();
+    if (!location) return null;
+    const remoteFs = new WebDavFileSystemProvider({
+      chooseLocation: async () => location,
+    });
+    const handle = await remoteFs.pickDirectory();
+    return { fs: remoteFs, handle, id: `webdav:${location.url}` };
+  }
+  const location = await chooseS3Location();
+  if (!location) return null;
+  const remoteFs = new S3FileSystemProvider({
+    chooseLocation: async () => location,
+  });
+  const handle = await remoteFs.pickDirectory();
+  const { endpoint, bucket, prefix } = location;
+  return { fs: remoteFs, handle, id: `s3:${endpoint}/${bucket}/${prefix}` };
+}
+
+async function handleSyncWith(provider: SyncProvider) {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  try {
+    const remote = await chooseSyncRemote(provider);
+    if (!remote || getNotebook(appState) !== notebook) return;
+
+    await remote.fs.persistHandle(
+      `${SYNC_HANDLE_KEY}:${notebook.name}`,
+      remote.handle,
+    );
+    localStorage.setItem(
+      `${SYNC_STORAGE_KEY}:${notebook.name}`,
+      JSON.stringify({ provider, id: remote.id }),
+    );
+    stopSync();
+    showSyncStatus(null);
+    await startSync(notebook, remote);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
+}
+
+async function handleSyncNow() {
+  if (!syncing) {
+    alert("This notebook isn't synced. Choose Sync with WebDAV or S3 first.");
+    return;
+  }
+  showSyncStatus(null);
+  await syncing.scheduler.syncNow();
+}
+
+function handleStopSyncing() {
+  const notebook = syncing?.notebook;
+  if (!notebook) return;
+  stopSync();
+  showSyncStatus(null);
+  localStorage.removeItem(`${SYNC_STORAGE_KEY}:${notebook.name}`);
+  // The WebDAV and S3 providers keep handles, logins included, in
+  // localStorage
+  localStorage.removeItem(`${SYNC_HANDLE_KEY}:${notebook.name}`);
+}
+
+document
+  .querySelector("#sync-banner-dismiss")
+  ?.addEventListener("click", () => {
+    showSyncStatus(null);
+  });
+
+// Git history of the open notebook, committed in the background
+
+// Minutes between commits of each notebook, in localStorage; committing is
+// off for notebooks without
+const GIT_INTERVAL_KEY = "git-commit-minutes";
+const DEFAULT_GIT_INTERVAL_MINUTES = 10;
+
+// Besides notes, what can change without a note being saved or removed
+const GIT_ALWAYS_CHANGED = [NOTEBOOK_FILE, TEMPLATES_DIR, TRASH_DIR];
+
+interface GitCommitting {
+  notebook: Notebook;
+  scheduler: CommitScheduler;
+  /**
+   * Notes saved or removed since the last commit. Null until the first
+   * commit, which compares everything, as the notebook may have changed
+   * while the app was closed.
+   */
+  changed: Set<string> | null;
+  dispose: () => void;
+}
+
+// Scheduler committing the open notebook, if it's committed
+let committing: GitCommitting | null = null;
+
+function gitIntervalMinutes(notebook: Notebook): number {
+  return Number(localStorage.getItem(`${GIT_INTERVAL_KEY}:${notebook.name}`));
+}
+
+/**
+ * Start committing the open notebook if it's a git repository with an
+ * interval set, and stop committing the previous one.
+ * Must be called after opening a notebook.
+ */
+async function setupGit() {
+  const notebook = getNotebook(appState);
+  if (!notebook || committing?.notebook === notebook) return;
+  await stopGit();
+
+  const minutes = gitIntervalMinutes(notebook);
+  if (!(minutes > 0)) return;
+  const isRepository = await isGitRepository(fs, notebook).catch(() => false);
+  if (!isRepository || getNotebook(appState) !== notebook || committing) {
+    return;
+  }
+  startGit(notebook, minutes);
+}
+
+function startGit(notebook: Notebook, minutes: number) {
+  // The notebook's provider, even once another notebook is open
+  const notebookFs = fs;
+  const unsubscribe = [
+    onNoteSaved(notebook, (note) => {
+      state.changed?.add(note.path);
+    }),
+    onNoteRemoved(notebook, (path) => {
+      state.changed?.add(path);
+    }),
+  ];
+  const state: GitCommitting = {
+    notebook,
+    scheduler: new CommitScheduler({
+      intervalMs: minutes * 60 * 1000,
+      // One tab at a time, or both would move the branch from the same
+      // parent and one of the commits would be lost
+      commit: () =>
+        withNotebookLock(notebook, "git", () =>
+          commitChanges(notebookFs, state),
+        ),
+      onError: (e) => {
+        if (e instanceof Error) {
+          showGitStatus(`Git commit failed: ${e.message}`);
+        }
+      },
+    }),
+    changed: null,
+    dispose: () => {
+      for (const stop of unsubscribe) stop();
+    },
+  };
+  committing = state;
+}
+
+/** Commit what changed since the last commit */
+async function commitChanges(
+  notebookFs: FileSystemProvider,
+  state: GitCommitting,
+) {
+  const notes = state.changed;
+  state.changed = new Set();
+  try {
+    await commitNotebook(notebookFs, state.notebook, {
+      message: commitMessage(notes),
+      changed: notes ? [...notes, ...GIT_ALWAYS_CHANGED] : undefined,
+    });
+  } catch (e) {
+    // Left for the next commit
+    state.changed = notes && new Set([...notes, ...state.changed]);
+    throw e;
+  }
+}
+
+/**
+ * Stop committing. A commit that's due is made right away, so that the
+ * last edits aren't left out.
+ */
+async function stopGit() {
+  const stopping = committing;
+  if (!stopping) return;
+  committing = null;
+  stopping.dispose();
+  await stopping.scheduler.flush();
+}
+
+function commitMessage(notes: Set<string> | null): string {
+  if (!notes) return "Update notebook";
+  if (notes.size === 1) return `Update ${[...notes][0]}`;
+  return `Update ${notes.size} notes`;
+}
+
+/** Show a git message above the editor, or hide it */
+function showGitStatus(message: string | null) {
+  document
+    .querySelector("#git-banner")
+    ?.classList.toggle("hidden", message === null);
+  const text = document.querySelector("#git-banner-text");
+  if (text) text.textContent = message;
+}
+
+async function handleGitInterval() {
+  const notebook = getNotebook(appState);
+  if (!notebook) return;
+
+  const current = gitIntervalMinutes(notebook) || DEFAULT_GIT_INTERVAL_MINUTES;
+  const answer = prompt(
+    "Commit the notebook to its git repository every how many minutes after a save? 0 turns committing off.",
+    String(current),
+  );
+  if (answer === null) return;
+  const minutes = Number(answer.trim());
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    alert("Enter a number of minutes.");
+    return;
+  }
+
+  try {
+    if (minutes > 0 && !(await isGitRepository(fs, notebook))) {
+      if (!confirm(`${notebook.name} isn't a git repository. Make it one?`)) {
+        return;
+      }
+      await initGitRepository(fs, notebook);
+    }
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+  if (minutes > 0) {
+    localStorage.setItem(`${GIT_INTERVAL_KEY}:${notebook.name}`, answer.trim());
+  } else {
+    localStorage.removeItem(`${GIT_INTERVAL_KEY}:${notebook.name}`);
+  }
+  await stopGit();
+  showGitStatus(null);
+  await setupGit();
+
+  // Commit what's there now, e.g. the first commit of a new repository
+  if (committing?.notebook === notebook) {
+    await autosaveManager.flush();
+    committing.scheduler.schedule();
+    await committing.scheduler.flush();
+  }
+}
+
+document.querySelector("#git-banner-dismiss")?.addEventListener("click", () => {
+  showGitStatus(null);
+});
+
+// Current ImageManager for the loaded note
+let imageManager: ImageManager | null = null;
+
+/**
  * Set up ImageManager for the current note.
  * Disposes the previous ImageManager if one exists.
  * Must be called after loading/creating a note.
@@ -680,23 +2502,121 @@ function setupImageManager() {
 document
   .querySelector("#file-new-note")
   ?.addEventListener("click", handleNewNote);
+document
+  .querySelector("#file-new-from-template")
+  ?.addEventListener("click", handleNewNoteFromTemplate);
 document
   .querySelector("#file-open-note")
   ?.addEventListener("click", handleOpenNote);
+document
+  .querySelector("#file-journal")
+  ?.addEventListener("click", handleOpenJournal);
+document
+  .querySelector("#file-export-markdown")
+  ?.addEventListener("click", handleExportMarkdown);
+document
+  .querySelector("#file-import-markdown")
+  ?.addEventListener("click", handleImportMarkdown);
+document
+  .querySelector("#file-export-html")
+  ?.addEventListener("click", handleExportHtml);
+document
+  .querySelector("#file-move-note")
+  ?.addEventListener("click", handleMoveNote);
+document
+  .querySelector("#file-delete-note")
+  ?.addEventListener("click", handleDeleteNote);
+document
+  .querySelector("#file-restore-note")
+  ?.addEventListener("click", handleRestoreNote);
+document
+  .querySelector("#file-empty-trash")
+  ?.addEventListener("click", handleEmptyTrash);
+document
+  .querySelector("#file-history")
+  ?.addEventListener("click", showHistoryDialog);
+document
+  .querySelector("#file-git-history")
+  ?.addEventListener("click", showGitHistoryDialog);
+document
+  .querySelector("#file-save-template")
+  ?.addEventListener("click", handleSaveAsTemplate);
 document
   .querySelector("#file-new-notebook")
-  ?.addEventListener("click", handleNewNotebook);
+  ?.addEventListener("click", () => handleNewNotebook(localFs));
 document
   .querySelector("#file-open-notebook")
-  ?.addEventListener("click", handleOpenNotebook);
+  ?.addEventListener("click", () => handleOpenNotebook(localFs));
+document
+  .querySelector("#file-new-webdav-notebook")
+  ?.addEventListener("click", () => handleNewNotebook(webdavFs));
+document
+  .querySelector("#file-open-webdav-notebook")
+  ?.addEventListener("click", () => handleOpenNotebook(webdavFs));
+document
+  .querySelector("#file-new-s3-notebook")
+  ?.addEventListener("click", () => handleNewNotebook(s3Fs));
+document
+  .querySelector("#file-open-s3-notebook")
+  ?.addEventListener("click", () => handleOpenNotebook(s3Fs));
+document
+  .querySelector("#file-sync-webdav")
+  ?.addEventListener("click", () => handleSyncWith("webdav"));
+document
+  .querySelector("#file-sync-s3")
+  ?.addEventListener("click", () => handleSyncWith("s3"));
+document
+  .querySelector("#file-sync-now")
+  ?.addEventListener("click", handleSyncNow);
+document
+  .querySelector("#file-sync-stop")
+  ?.addEventListener("click", handleStopSyncing);
+document
+  .querySelector("#file-git-interval")
+  ?.addEventListener("click", handleGitInterval);
+document
+  .querySelector("#file-rebuild-index")
+  ?.addEventListener("click", handleRebuildIndex);
+document
+  .querySelector("#file-export-notebook")
+  ?.addEventListener("click", handleExportNotebook);
+document
+  .querySelector("#file-export-site")
+  ?.addEventListener("click", handleExportSite);
+document
+  .querySelector("#file-import-notebook")
+  ?.addEventListener("click", handleImportNotebook);
 
 // Welcome dialog handlers
 document
   .querySelector("#welcome-new")
-  ?.addEventListener("click", handleNewNotebook);
+  ?.addEventListener("click", () => handleNewNotebook(localFs));
 document
   .querySelector("#welcome-open")
-  ?.addEventListener("click", handleOpenNotebook);
+  ?.addEventListener("click", () => handleOpenNotebook(localFs));
+document
+  .querySelector("#welcome-new-webdav")
+  ?.addEventListener("click", (e) => {
+    e.preventDefault();
+    handleNewNotebook(webdavFs);
+  });
+document
+  .querySelector("#welcome-open-webdav")
+  ?.addEventListener("click", (e) => {
+    e.preventDefault();
+    handleOpenNotebook(webdavFs);
+  });
+document.querySelector("#welcome-new-s3")?.addEventListener("click", (e) => {
+  e.preventDefault();
+  handleNewNotebook(s3Fs);
+});
+document.querySelector("#welcome-open-s3")?.addEventListener("click", (e) => {
+  e.preventDefault();
+  handleOpenNotebook(s3Fs);
+});
+document
+  .querySelector("#welcome-import")
+  ?.addEventListener("click", handleImportNotebook);
 
 // Reconnect dialog handlers
 document
@@ -706,6 +2626,50 @@ document
   .querySelector("#reconnect-different")
   ?.addEventListener("click", handleReconnectDifferent);
 
+// Recovery dialog handlers
+document
+  .querySelector("#recovery-download")
+  ?.addEventListener("click", handleRecoveryDownload);
+document
+  .querySelector("#recovery-close")
+  ?.addEventListener("click", hideRecoveryDialog);
+
+// History dialog handlers
+document
+  .querySelector("#history-before")
+  ?.addEventListener("change", renderHistoryDiff);
+document
+  .querySelector("#history-after")
+  ?.addEventListener("change", renderHistoryDiff);
+document
+  .querySelector("#history-restore")
+  ?.addEventListener("click", handleRestoreRevision);
+document
+  .querySelector("#history-close")
+  ?.addEventListener("click", hideHistoryDialog);
+
+// Git history dialog handlers
+document
+  .querySelector("#git-history-commit")
+  ?.addEventListener("change", renderGitHistoryDiff);
+document
+  .querySelector("#git-history-copy")
+  ?.addEventListener("click", handleCopyFromCommit);
+document
+  .querySelector("#git-history-close")
+  ?.addEventListener("click", hideGitHistoryDialog);
+
+// Conflict dialog handlers
+document
+  .querySelector("#conflict-keep-mine")
+  ?.addEventListener("click", handleKeepMine);
+document
+  .querySelector("#conflict-take-theirs")
+  ?.addEventListener("click", handleTakeTheirs);
+document
+  .querySelector("#conflict-view-diff")
+  ?.addEventListener("click", toggleConflictDiff);
+
 function showWelcomeDialog() {
   document.querySelector("#welcome-dialog")?.classList.remove("hidden");
 }
@@ -714,6 +2678,355 @@ function hideWelcomeDialog() {
   document.querySelector("#welcome-dialog")?.classList.add("hidden");
 }
 
+// Note shown in the recovery dialog
+let recoveringNote: InvalidNoteError | null = null;
+
+function showRecoveryDialog(error: InvalidNoteError) {
+  recoveringNote = error;
+  const message = document.querySelector("#recovery-message");
+  if (message) message.textContent = error.message;
+  const text = document.querySelector<HTMLTextAreaElement>("#recovery-text");
+  if (text) text.value = error.text;
+  document.querySelector("#recovery-dialog")?.classList.remove("hidden");
+}
+
+function hideRecoveryDialog() {
+  recoveringNote = null;
+  document.querySelector("#recovery-dialog")?.classList.add("hidden");
+  view.focus();
+}
+
+function handleRecoveryDownload() {
+  if (!recoveringNote) return;
+  const name = `${recoveringNote.path.replaceAll("/", "-")}-note.json`;
+  downloadBlob(
+    new Blob([recoveringNote.text], { type: "application/json" }),
+    name,
+  );
+}
+
+// History dialog
+
+// Bumped on each render, so a slow render doesn't overwrite a newer one
+let historyRender = 0;
+
+async function showHistoryDialog() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  // The current version is what's on screen, so have it saved too
+  await autosaveManager.flush();
+  const revisions = await listRevisions(fs, notebook, note.path);
+  if (revisions.length === 0) {
+    alert("This note has no earlier versions yet.");
+    return;
+  }
+
+  const option = (revision: Revision | null) => {
+    const item = document.createElement("option");
+    item.value = revision?.id ?? "";
+    item.textContent = revision
+      ? new Date(revision.saved).toLocaleString()
+      : "Current version";
+    return item;
+  };
+  const before = document.querySelector<HTMLSelectElement>("#history-before");
+  const after = document.querySelector<HTMLSelectElement>("#history-after");
+  if (!before || !after) return;
+  before.replaceChildren(...revisions.map(option));
+  after.replaceChildren(option(null), ...revisions.map(option));
+  before.value = revisions[0].id;
+  after.value = "";
+
+  document.querySelector("#history-dialog")?.classList.remove("hidden");
+  await renderHistoryDiff();
+}
+
+function hideHistoryDialog() {
+  historyRender++;
+  document.querySelector("#history-dialog")?.classList.add("hidden");
+  view.focus();
+}
+
+/** Render the two versions picked in the history dialog side by side */
+async function renderHistoryDiff() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  const container = document.querySelector("#history-diff");
+  const before = document.querySelector<HTMLSelectElement>("#history-before");
+  const after = document.querySelector<HTMLSelectElement>("#history-after");
+  if (!notebook || !note || !container || !before || !after) return;
+
+  const render = ++historyRender;
+  // "" is the current version
+  const version = async (id: string) =>
+    schema.nodeFromJSON(
+      id
+        ? await loadRevision(fs, notebook, note.path, id)
+        : view.state.doc.toJSON(),
+    );
+
+  let changes: BlockChange[];
+  try {
+    changes = diffBlocks(
+      await version(before.value),
+      await version(after.value),
+    );
+  } catch (e) {
+    if (render !== historyRender) return;
+    container.textContent =
+      e instanceof Error ? e.message : "This version can't be shown.";
+    return;
+  }
+  if (render !== historyRender) return;
+
+  renderBlockChanges(container, changes);
+}
+
+/** Show a block diff in two columns, older version on the left */
+function renderBlockChanges(container: Element, changes: BlockChange[]) {
+  const serializer = DOMSerializer.fromSchema(schema);
+  // An empty cell stands for the missing side of an added or removed block
+  const cell = (block: BlockChange["before"], kind: string) => {
+    const div = document.createElement("div");
+    div.className = `history-block history-${block ? kind : "empty"}`;
+    if (block) div.append(serializer.serializeNode(block));
+    return div;
+  };
+  container.replaceChildren(
+    ...changes.map((change) => {
+      const row = document.createElement("div");
+      row.className = "history-row";
+      row.append(
+        cell(change.before, change.kind),
+        cell(change.after, change.kind),
+      );
+      return row;
+    }),
+  );
+}
+
+/** Restore the older of the two versions picked in the history dialog */
+async function handleRestoreRevision() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  const before = document.querySelector<HTMLSelectElement>("#history-before");
+  if (!notebook || !note || !before?.value || isNoteReadOnly()) return;
+
+  if (
+    !confirm(
+      "Replace the note with the version on the left? The current version is kept in the history.",
+    )
+  ) {
+    return;
+  }
+
+  await autosaveManager.flush();
+  try {
+    await restoreRevision(fs, notebook, note.path, before.value);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+  hideHistoryDialog();
+  await switchToNote(notebook, note.path);
+}
+
+// Git history dialog
+
+// Bumped on each render, so a slow render doesn't overwrite a newer one
+let gitHistoryRender = 0;
+
+async function showGitHistoryDialog() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!notebook || !note) return;
+
+  let commits: GitCommit[];
+  try {
+    if (!(await isGitRepository(fs, notebook))) {
+      alert(
+        "This notebook isn't a git repository. Choose Git Commit Interval... to make it one.",
+      );
+      return;
+    }
+    commits = await listNoteCommits(fs, notebook, note.path);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+  if (commits.length === 0) {
+    alert("This note hasn't been committed yet.");
+    return;
+  }
+
+  const select = document.querySelector<HTMLSelectElement>(
+    "#git-history-commit",
+  );
+  if (!select) return;
+  select.replaceChildren(
+    ...commits.map((commit) => {
+      const item = document.createElement("option");
+      item.value = commit.id;
+      const [summary] = commit.message.split("\n");
+      item.textContent = `${new Date(commit.time).toLocaleString()} – ${summary}`;
+      return item;
+    }),
+  );
+  select.value = commits[0].id;
+
+  document.querySelector("#git-history-dialog")?.classList.remove("hidden");
+  await renderGitHistoryDiff();
+}
+
+function hideGitHistoryDialog() {
+  gitHistoryRender++;
+  document.querySelector("#git-history-dialog")?.classList.add("hidden");
+  view.focus();
+}
+
+/** Render the note as committed next to what's on screen */
+async function renderGitHistoryDiff() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  const container = document.querySelector("#git-history-diff");
+  const select = document.querySelector<HTMLSelectElement>(
+    "#git-history-commit",
+  );
+  if (!notebook || !note || !container || !select?.value) return;
+
+  const render = ++gitHistoryRender;
+  let changes: BlockChange[];
+  try {
+    const committed = await loadNoteAtCommit(
+      fs,
+      notebook,
+      note.path,
+      select.value,
+    );
+    changes = diffBlocks(schema.nodeFromJSON(committed), view.state.doc);
+  } catch (e) {
+    if (render !== gitHistoryRender) return;
+    container.textContent =
+      e instanceof Error ? e.message : "This version can't be shown.";
+    return;
+  }
+  if (render !== gitHistoryRender) return;
+
+  renderBlockChanges(container, changes);
+}
+
+/** Open the version picked in the git history dialog as a new note */
+async function handleCopyFromCommit() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  const select = document.querySelector<HTMLSelectElement>(
+    "#git-history-commit",
+  );
+  if (!notebook || !note || !select?.value) return;
+
+  let copy: Note;
+  try {
+    copy = await copyNoteFromCommit(fs, notebook, note.path, select.value);
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+  hideGitHistoryDialog();
+  refreshCalendar();
+  await switchToNote(notebook, copy.path);
+}
+
+// Conflict dialog
+
+// Save that found the note changed elsewhere, until the user settles it
+let conflict: NoteConflictError | null = null;
+
+function showConflictDialog(error: NoteConflictError) {
+  conflict = error;
+  document.querySelector("#conflict-compare")?.classList.add("hidden");
+  document.querySelector("#conflict-dialog")?.classList.remove("hidden");
+}
+
+function hideConflictDialog() {
+  conflict = null;
+  document.querySelector("#conflict-dialog")?.classList.add("hidden");
+  view.focus();
+}
+
+/** Show or hide their version next to what's on screen */
+function toggleConflictDiff() {
+  const compare = document.querySelector("#conflict-compare");
+  const container = document.querySelector("#conflict-diff");
+  if (!conflict || !compare || !container) return;
+
+  if (compare.classList.toggle("hidden")) return;
+  if (!conflict.theirs) {
+    container.textContent =
+      "Their version was deleted or moved, or can't be read as a note.";
+    return;
+  }
+  try {
+    renderBlockChanges(
+      container,
+      diffBlocks(schema.nodeFromJSON(conflict.theirs.content), view.state.doc),
+    );
+  } catch (e) {
+    container.textContent =
+      e instanceof Error ? e.message : "Their version can't be shown.";
+  }
+}
+
+/** Overwrite their version with what's on screen */
+async function handleKeepMine() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!conflict || !notebook || !note) return;
+
+  const { theirs } = conflict;
+  if (theirs) {
+    await recordRevision(fs, notebook, theirs, { force: true }).catch(() => {});
+  }
+  note.content = view.state.doc.toJSON();
+  try {
+    await saveNote(fs, notebook, note, { force: true });
+  } catch (e) {
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+    return;
+  }
+  hideConflictDialog();
+  await recordRevision(fs, notebook, note).catch(() => {});
+}
+
+/** Replace what's on screen with their version */
+async function handleTakeTheirs() {
+  const notebook = getNotebook(appState);
+  const note = getNote(appState);
+  if (!conflict || !notebook || !note) return;
+
+  autosaveManager.cancel();
+  // Theirs may be no note at all, deleted or moved elsewhere: what's on
+  // screen stays there, read-only, with nowhere to go in the history
+  if (!(await fs.exists(notebook.handle, `${note.path}/note.json`))) {
+    hideConflictDialog();
+    markNoteRemoved();
+    return;
+  }
+  note.content = view.state.doc.toJSON();
+  await recordRevision(fs, notebook, note, { force: true }).catch(() => {});
+  hideConflictDialog();
+  await switchToNote(notebook, note.path);
+}
+
 function showReconnectDialog(name: string) {
   const nameEl = document.querySelector("#reconnect-name");
   if (nameEl) nameEl.textContent = name;
@@ -737,7 +3050,7 @@ async function handleReconnect() {
     }
 
     // Load last opened note, or create a new one
-    const { note, didCreate } = await loadNoteOrCreateDefault(
+    const { note, didCreate, invalidNote } = await loadNoteOrCreateDefault(
       fs,
       notebook,
       notebook.meta.lastOpenedNote,
@@ -758,8 +3071,14 @@ async function handleReconnect() {
     }
 
     setupImageManager();
+    setupTabs();
+    setupSync();
+    setupGit();
     Editor.setContent(view, note.content);
     updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+    if (invalidNote) showRecoveryDialog(invalidNote);
     hideReconnectDialog();
     view.focus();
   } catch (e) {
@@ -776,7 +3095,7 @@ async function handleReconnectDifferent() {
     appState = newState;
   }
   hideReconnectDialog();
-  await handleOpenNotebook();
+  await handleOpenNotebook(localFs);
 }
 
 // Autosave: explicit state machine for debounced saves
@@ -788,6 +3107,8 @@ const autosaveManager = new AutosaveManager({
   onAfterSave: () => {
     // Update title in case it changed
     updateTitle();
+    syncing?.scheduler.schedule();
+    committing?.scheduler.schedule();
   },
 });
 
@@ -853,7 +3174,15 @@ updateToolbarState();
 
 // Startup: try to restore previous notebook
 async function startup() {
-  const result = await restoreNotebook(fs);
+  let result: RestoreResult | null = null;
+  try {
+    result = await restoreNotebook(fs);
+  } catch (e) {
+    // E.g. a notebook saved by a newer version of the app
+    if (e instanceof Error) {
+      alert(e.message);
+    }
+  }
 
   if (result) {
     const { notebook, needsPermission } = result;
@@ -875,7 +3204,7 @@ async function startup() {
 
     // Permission granted - load normally
     // Load last opened note, or create a new one
-    const { note, didCreate } = await loadNoteOrCreateDefault(
+    const { note, didCreate, invalidNote } = await loadNoteOrCreateDefault(
       fs,
       notebook,
       notebook.meta.lastOpenedNote,
@@ -896,8 +3225,14 @@ async function startup() {
     }
 
     setupImageManager();
+    setupTabs();
+    setupSync();
+    setupGit();
     Editor.setContent(view, note.content);
     updateTitle();
+    refreshBacklinks();
+    refreshCalendar();
+    if (invalidNote) showRecoveryDialog(invalidNote);
     view.focus();
     return;
   }
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { exportNotebookArchive, importNotebookArchive } from "./archive";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { listNotes } from "./note";
+import { createNotebook, importNotebook } from "./notebook";
+import { createZip } from "./zip";
+
+const encode = (s: string) => new TextEncoder().encode(s);
+
+describe("notebook archives", () => {
+  it("exports and re-imports a notebook with notes and images", async () => {
+    const source = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(source);
+    await source.writeBinaryFile(
+      notebook.handle,
+      `${note.path}/img.png`,
+      new Uint8Array([137, 80, 78, 71]).buffer,
+    );
+
+    const archive = await exportNotebookArchive(source, notebook);
+
+    const target = new MemoryFileSystemProvider({
+      onPickDirectory: () => Promise.resolve("imported"),
+    });
+    const imported = await importNotebook(target, archive);
+
+    expect(imported.name).toBe("imported");
+    expect(imported.meta.lastOpenedNote).toBe(note.path);
+    expect(imported.meta.id).not.toBe(notebook.meta.id);
+    expect(await listNotes(target, imported)).toHaveLength(1);
+    const image = await target.readBinaryFile(
+      imported.handle,
+      `${note.path}/img.png`,
+    );
+    expect([...new Uint8Array(image)]).toEqual([137, 80, 78, 71]);
+  });
+
+  it("accepts archives with the notebook inside a top-level folder", async () => {
+    const archive = await createZip([
+      { path: "My Notes/notebook.json", data: encode('{"version":1}') },
+      { path: "My Notes/2026/01/02/1/note.json", data: encode("{}") },
+    ]);
+    const fs = new MemoryFileSystemProvider();
+    const dir = fs.directory("target");
+
+    await importNotebookArchive(fs, dir, archive);
+
+    expect(await fs.exists(dir, "notebook.json")).toBe(true);
+    expect(await fs.exists(dir, "2026/01/02/1/note.json")).toBe(true);
+  });
+
+  it("rejects archives without notebook.json", async () => {
+    const archive = await createZip([{ path: "readme.txt", data: encode("") }]);
+    const fs = new MemoryFileSystemProvider();
+
+    await expect(
+      importNotebookArchive(fs, fs.directory("target"), archive),
+    ).rejects.toThrow(/missing notebook.json/);
+  });
+
+  it("rejects paths that escape the target directory", async () => {
+    const archive = await createZip([
+      { path: "notebook.json", data: encode("{}") },
+      { path: "../evil.txt", data: encode("") },
+    ]);
+    const fs = new MemoryFileSystemProvider();
+    const target = fs.directory("target");
+
+    await expect(importNotebookArchive(fs, target, archive)).rejects.toThrow(
+      /Invalid path/,
+    );
+    expect(await fs.listDir(target)).toEqual([]);
+  });
+
+  it("refuses to import over an existing notebook", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+    const archive = await exportNotebookArchive(fs, notebook);
+
+    await expect(importNotebook(fs, archive)).rejects.toThrow(
+      /already a notebook/,
+    );
+  });
+});
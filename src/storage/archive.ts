@@ -0,0 +1,91 @@
+import { NOTEBOOK_FILE } from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import type { Notebook } from "./notebook";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+/**
+ * Recursively collect every file below a directory.
+ * Paths are relative to `dir`.
+ */
+async function collectFiles(
+  fs: FileSystemProvider,
+  dir: FileSystemDirectoryHandle,
+  prefix: string,
+  out: ZipEntry[],
+): Promise<void> {
+  const entries = await fs.listDir(dir);
+  for (const entry of entries) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory) {
+      const child = await fs.mkdir(dir, entry.name);
+      await collectFiles(fs, child, path, out);
+    } else {
+      const data = await fs.readBinaryFile(dir, entry.name);
+      out.push({ path, data: new Uint8Array(data) });
+    }
+  }
+}
+
+/**
+ * Export the whole notebook directory (notebook.json, notes, images)
+ * as a zip archive.
+ */
+export async function exportNotebookArchive(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<Uint8Array> {
+  const files: ZipEntry[] = [];
+  await collectFiles(fs, notebook.handle, "", files);
+  return createZip(files);
+}
+
+/**
+ * Reject paths that could escape the target directory.
+ */
+function isSafeArchivePath(path: string): boolean {
+  if (path.startsWith("/") || path.includes("\\")) return false;
+  return path
+    .split("/")
+    .every((part) => part !== "" && part !== "." && part !== "..");
+}
+
+/**
+ * Unpack a notebook archive into a directory.
+ *
+ * Accepts archives with notebook.json at the root, or inside a single
+ * top-level folder (as produced by zipping the notebook folder itself).
+ * Throws if the archive doesn't contain a notebook.
+ */
+export async function importNotebookArchive(
+  fs: FileSystemProvider,
+  handle: FileSystemDirectoryHandle,
+  data: Uint8Array,
+): Promise<void> {
+  const entries = await readZip(data);
+
+  let prefix = "";
+  if (!entries.some((e) => e.path === NOTEBOOK_FILE)) {
+    const nested = entries.find((e) => /^[^/]+\/notebook\.json$/.test(e.path));
+    if (!nested) {
+      throw new Error("Not a notebook archive (missing notebook.json)");
+    }
+    prefix = nested.path.slice(0, -NOTEBOOK_FILE.length);
+  }
+
+  // Check every path before writing, so a bad entry can't leave half a notebook
+  const files = entries.filter((entry) => entry.path.startsWith(prefix));
+  for (const entry of files) {
+    if (!isSafeArchivePath(entry.path.slice(prefix.length))) {
+      throw new Error(`Invalid path in archive: ${entry.path}`);
+    }
+  }
+
+  for (const entry of files) {
+    const bytes = entry.data.slice();
+    await fs.writeBinaryFile(
+      handle,
+      entry.path.slice(prefix.length),
+      bytes.buffer,
+    );
+  }
+}
@@ -2,5 +2,22 @@
 
 export const NOTEBOOK_FILE = "notebook.json";
 export const NOTE_FILE = "note.json";
+export const MARKDOWN_FILE = "note.md";
+export const INDEX_FILE = "index.json";
+// Notes to start new notes from, see templates.ts
+export const TEMPLATES_DIR = "templates";
+// Snapshots of a note, inside its directory, see history.ts
+export const HISTORY_DIR = "history";
+// Deleted notes, one directory each, see deleteNote
+export const TRASH_DIR = ".trash";
+// Where a note in the trash came from
+export const TRASH_FILE = "trash.json";
+// Sync bookkeeping (manifest, remote state), see sync.ts
+export const SYNC_DIR = ".sync";
+// Git repository of the notebook's history, see git.ts
+export const GIT_DIR = ".git";
 export const HANDLE_STORAGE_KEY = "notebook-handle";
-export const NOTEBOOK_VERSION = 1;
+// notebook.json format, see migrations.ts
+export const NOTEBOOK_VERSION = 3;
+// note.json format, see migrations.ts
+export const NOTE_VERSION = 2;
@@ -44,6 +44,19 @@ export interface FileSystemProvider {
   /** Check if a file or directory exists at path */
   exists(dir: FileSystemDirectoryHandle, path: string): Promise<boolean>;
 
+  /** Remove the file or directory (with its contents) at path */
+  remove(dir: FileSystemDirectoryHandle, path: string): Promise<void>;
+
+  /**
+   * Move a file or directory from one path to another, both relative to dir
+   * (creates parent dirs of `to` as needed). Fails if `to` already exists.
+   */
+  rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void>;
+
   /** Store handle in IndexedDB for persistence across sessions */
   persistHandle(key: string, handle: FileSystemDirectoryHandle): Promise<void>;
 
@@ -57,6 +70,14 @@ export interface FileSystemProvider {
   requestPermission(handle: FileSystemDirectoryHandle): Promise<boolean>;
 }
 
+/**
+ * Check whether the browser can show a directory picker
+ * (File System Access API). Firefox and Safari can't.
+ */
+export function isDirectoryPickerSupported(): boolean {
+  return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
+
 /**
  * File System Access API implementation of FileSystemProvider.
  * Uses the local file system via browser's showDirectoryPicker API.
@@ -181,6 +202,45 @@ export class LocalFileSystemProvider implements FileSystemProvider {
     }
   }
 
+  async remove(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+    const parts = path.split("/").filter((p) => p.length > 0);
+    const name = parts.pop();
+    if (!name) {
+      throw new Error("Invalid path: empty filename");
+    }
+    const parent = await this.getDirHandle(dir, parts.join("/"));
+    await parent.removeEntry(name, { recursive: true });
+  }
+
+  async rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    const source = from.split("/").filter((p) => p.length > 0);
+    const target = to.split("/").filter((p) => p.length > 0);
+    const targetName = target.pop();
+    if (source.length === 0 || !targetName) {
+      throw new Error("Invalid path: empty filename");
+    }
+    if (`${target.join("/")}/`.startsWith(`${source.join("/")}/`)) {
+      throw new Error(`Can't move ${from} into itself`);
+    }
+    if (await this.exists(dir, to)) {
+      throw new DOMException(
+        `Already exists: ${to}`,
+        "InvalidModificationError",
+      );
+    }
+
+    // There is no portable move for directories, so copy, then remove
+    const sourceName = source.pop() as string;
+    const sourceParent = await this.getDirHandle(dir, source.join("/"));
+    const targetParent = await this.mkdir(dir, target.join("/"));
+    await this.copyEntry(sourceParent, sourceName, targetParent, targetName);
+    await sourceParent.removeEntry(sourceName, { recursive: true });
+  }
+
   async persistHandle(
     key: string,
     handle: FileSystemDirectoryHandle,
@@ -199,17 +259,7 @@ export class LocalFileSystemProvider implements FileSystemProvider {
     handle: FileSystemDirectoryHandle;
     needsPermission: boolean;
   } | null> {
-    const db = await this.openDB();
-    const handle = await new Promise<FileSystemDirectoryHandle | undefined>(
-      (resolve, reject) => {
-        const tx = db.transaction(this.storeName, "readonly");
-        const store = tx.objectStore(this.storeName);
-        const request = store.get(key);
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      },
-    );
-
+    const handle = await this.getStoredHandle(key);
     if (!handle) return null;
 
     // Check if we already have permission
@@ -233,6 +283,20 @@ export class LocalFileSystemProvider implements FileSystemProvider {
     }
   }
 
+  // Helper: read a handle stored by persistHandle
+  protected async getStoredHandle(
+    key: string,
+  ): Promise<FileSystemDirectoryHandle | undefined> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, "readonly");
+      const store = tx.objectStore(this.storeName);
+      const request = store.get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Helper: navigate to a file handle at a path
   private async getFileHandle(
     dir: FileSystemDirectoryHandle,
@@ -267,6 +331,27 @@ export class LocalFileSystemProvider implements FileSystemProvider {
     return current;
   }
 
+  // Helper: copy a file or directory (recursively) between directories
+  private async copyEntry(
+    fromDir: FileSystemDirectoryHandle,
+    name: string,
+    toDir: FileSystemDirectoryHandle,
+    newName: string,
+  ): Promise<void> {
+    const file = await fromDir.getFileHandle(name).catch(() => null);
+    if (file) {
+      const data = await (await file.getFile()).arrayBuffer();
+      await this.writeBinaryFile(toDir, newName, data);
+      return;
+    }
+
+    const source = await fromDir.getDirectoryHandle(name);
+    const target = await toDir.getDirectoryHandle(newName, { create: true });
+    for (const entry of await this.listDir(source)) {
+      await this.copyEntry(source, entry.name, target, entry.name);
+    }
+  }
+
   // Helper: open IndexedDB
   private openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
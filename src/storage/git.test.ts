@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import {
+  commitNotebook,
+  copyNoteFromCommit,
+  DEFAULT_AUTHOR,
+  hashObject,
+  initGitRepository,
+  isGitRepository,
+  listNoteCommits,
+  loadNoteAtCommit,
+  parseGitignore,
+} from "./git";
+import { recordRevision } from "./history";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { loadNote, saveNote } from "./note";
+import { createNotebook } from "./notebook";
+import { titled } from "./testing";
+
+const encoder = new TextEncoder();
+
+async function setup() {
+  const fs = new MemoryFileSystemProvider();
+  const { notebook, note } = await createNotebook(fs);
+  await initGitRepository(fs, notebook);
+  return { fs, notebook, note };
+}
+
+describe("hashObject", () => {
+  it("gives the ids git gives", async () => {
+    expect(await hashObject("blob", new Uint8Array())).toBe(
+      "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391",
+    );
+    expect(await hashObject("blob", encoder.encode("hello\n"))).toBe(
+      "ce013625030ba8dba906f756967f9e9ca394464a",
+    );
+  });
+});
+
+describe("commitNotebook", () => {
+  it("commits the notebook, and nothing when nothing changed", async () => {
+    const { fs, notebook } = await setup();
+    expect(await isGitRepository(fs, notebook)).toBe(true);
+
+    const id = await commitNotebook(fs, notebook, { message: "First" });
+
+    expect(id).toMatch(/^[0-9a-f]{40}$/);
+    expect(
+      (await fs.readTextFile(notebook.handle, ".git/refs/heads/main")).trim(),
+    ).toBe(id);
+    expect(await fs.exists(notebook.handle, ".git/index")).toBe(true);
+    expect(await commitNotebook(fs, notebook, { message: "Again" })).toBeNull();
+  });
+
+  it("throws for a notebook that isn't a repository", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+
+    await expect(
+      commitNotebook(fs, notebook, { message: "First" }),
+    ).rejects.toThrow("isn't a git repository");
+  });
+
+  it("leaves out index.json, .sync and ignored files", async () => {
+    const { fs, notebook } = await setup();
+    await fs.writeTextFile(notebook.handle, ".gitignore", "*.tmp\n");
+    await commitNotebook(fs, notebook, { message: "First" });
+
+    await fs.writeTextFile(notebook.handle, "index.json", "{}");
+    await fs.writeTextFile(notebook.handle, ".sync/manifest.json", "{}");
+    await fs.writeTextFile(notebook.handle, "2026/draft.tmp", "x");
+
+    expect(await commitNotebook(fs, notebook, { message: "More" })).toBeNull();
+  });
+
+  it("takes paths not said to have changed from the last commit", async () => {
+    const { fs, notebook, note } = await setup();
+    await commitNotebook(fs, notebook, { message: "First" });
+    await fs.writeTextFile(notebook.handle, "elsewhere.txt", "x");
+    await saveNote(fs, notebook, titled(note, "Edited"));
+
+    const id = await commitNotebook(fs, notebook, {
+      message: "Edited",
+      changed: [note.path],
+    });
+    const unchanged = await commitNotebook(fs, notebook, {
+      message: "Nothing",
+      changed: [note.path],
+    });
+    // A file new at the top is found anyway; everything is, without `changed`
+    await fs.writeTextFile(notebook.handle, "2026/other.txt", "x");
+    const skipped = await commitNotebook(fs, notebook, {
+      message: "Other",
+      changed: [],
+    });
+    const all = await commitNotebook(fs, notebook, { message: "All" });
+
+    expect(id).not.toBeNull();
+    expect(unchanged).toBeNull();
+    expect(skipped).toBeNull();
+    expect(all).not.toBeNull();
+  });
+
+  it("signs commits as the user in the repository's config", async () => {
+    const { fs, notebook, note } = await setup();
+    await commitNotebook(fs, notebook, { message: "Default", now: 1000 });
+    const config = await fs.readTextFile(notebook.handle, ".git/config");
+    await fs.writeTextFile(
+      notebook.handle,
+      ".git/config",
+      `${config}[user]\n\tname = Ann\n\temail = ann@example.com\n`,
+    );
+    await saveNote(fs, notebook, titled(note, "Edited"));
+    await commitNotebook(fs, notebook, { message: "Ann's", now: 2000 });
+
+    const commits = await listNoteCommits(fs, notebook, note.path);
+
+    expect(commits.map((c) => [c.message, c.author, c.time])).toEqual([
+      ["Ann's", "Ann <ann@example.com>", 2000],
+      ["Default", `${DEFAULT_AUTHOR.name} <${DEFAULT_AUTHOR.email}>`, 1000],
+    ]);
+  });
+});
+
+describe("listNoteCommits", () => {
+  it("lists the commits that changed a note, newest first", async () => {
+    const { fs, notebook, note } = await setup();
+    await commitNotebook(fs, notebook, { message: "Made" });
+    const one = titled(note, "One");
+    await saveNote(fs, notebook, one);
+    await commitNotebook(fs, notebook, { message: "One" });
+    await fs.writeTextFile(notebook.handle, "other.txt", "x");
+    await commitNotebook(fs, notebook, { message: "Other" });
+    await saveNote(fs, notebook, titled(one, "Two"));
+    await commitNotebook(fs, notebook, { message: "Two" });
+
+    const commits = await listNoteCommits(fs, notebook, note.path);
+
+    expect(commits.map((c) => c.message)).toEqual(["Two", "One", "Made"]);
+    expect(
+      (await listNoteCommits(fs, notebook, note.path, 2)).map((c) => c.id),
+    ).toEqual(commits.slice(0, 2).map((c) => c.id));
+    expect(await listNoteCommits(fs, notebook, "2000/01/01/1")).toEqual([]);
+  });
+
+  it("is empty before the first commit", async () => {
+    const { fs, notebook, note } = await setup();
+
+    expect(await listNoteCommits(fs, notebook, note.path)).toEqual([]);
+  });
+});
+
+describe("loadNoteAtCommit and copyNoteFromCommit", () => {
+  it("copy a note as it was into a new note, with its images", async () => {
+    const { fs, notebook, note } = await setup();
+    const old = titled(note, "Old");
+    await saveNote(fs, notebook, old);
+    await recordRevision(fs, notebook, old);
+    await fs.writeBinaryFile(
+      notebook.handle,
+      `${note.path}/images/a.png`,
+      new Uint8Array([1, 2, 3]).buffer,
+    );
+    const id = (await commitNotebook(fs, notebook, { message: "Old" })) ?? "";
+    await saveNote(fs, notebook, titled(old, "New"));
+    await commitNotebook(fs, notebook, { message: "New" });
+
+    expect(await loadNoteAtCommit(fs, notebook, note.path, id)).toEqual(
+      old.content,
+    );
+    const copy = await copyNoteFromCommit(fs, notebook, note.path, id);
+
+    expect(copy.path).not.toBe(note.path);
+    expect((await loadNote(fs, notebook, copy.path)).content).toEqual(
+      old.content,
+    );
+    expect((await loadNote(fs, notebook, note.path)).content).toEqual(
+      titled(old, "New").content,
+    );
+    const image = await fs.readBinaryFile(
+      notebook.handle,
+      `${copy.path}/images/a.png`,
+    );
+    expect([...new Uint8Array(image)]).toEqual([1, 2, 3]);
+    expect(await fs.exists(notebook.handle, `${copy.path}/history`)).toBe(
+      false,
+    );
+  });
+
+  it("throw for a note the commit doesn't have", async () => {
+    const { fs, notebook } = await setup();
+    const id = (await commitNotebook(fs, notebook, { message: "First" })) ?? "";
+
+    await expect(
+      loadNoteAtCommit(fs, notebook, "2000/01/01/1", id),
+    ).rejects.toThrow("isn't in commit");
+  });
+});
+
+describe("parseGitignore", () => {
+  it("matches like git", () => {
+    const ignored = parseGitignore(
+      "# comment\n*.tmp\n/build/\ndocs/**/draft?.md\n!keep.tmp\n",
+    );
+
+    expect(ignored("a.tmp", false)).toBe(true);
+    expect(ignored("2026/a.tmp", false)).toBe(true);
+    expect(ignored("keep.tmp", false)).toBe(false);
+    expect(ignored("build", true)).toBe(true);
+    expect(ignored("build", false)).toBe(false);
+    expect(ignored("src/build", true)).toBe(false);
+    expect(ignored("docs/draft1.md", false)).toBe(true);
+    expect(ignored("docs/a/b/draft2.md", false)).toBe(true);
+    expect(ignored("docs/draft10.md", false)).toBe(false);
+  });
+});
@@ -0,0 +1,990 @@
+/**
+ * Git history of a notebook.
+ *
+ * A notebook directory can be a git repository (initGitRepository).
+ * commitNotebook commits the notebook as it is on disk, so the app can
+ * list the commits that changed a note (listNoteCommits) and copy a note
+ * out of one (copyNoteFromCommit), and git itself can browse the history
+ * too. The repository is plain git, read and written by this module on
+ * any FileSystemProvider, without a library or a git binary:
+ *
+ * - objects are written loose, zlib-compressed with the platform's
+ *   CompressionStream, and read loose or from packs (e.g. after `git gc`)
+ * - a commit advances the branch HEAD is on (`main` in a repository made
+ *   here) and rewrites the index to match it, so `git status` shows a
+ *   clean work tree afterwards
+ * - nothing is pushed or fetched; other branches, merges and the like are
+ *   left to git
+ *
+ * index.json (a cache), `.sync/` (kept by each device) and whatever the
+ * root .gitignore ignores aren't committed. So that a commit needn't read
+ * the whole notebook, it can be told which paths changed since the last
+ * one; everything else is taken from that commit as is.
+ */
+
+import { Node } from "prosemirror-model";
+import { schema } from "../editor/schema";
+import {
+  GIT_DIR,
+  HISTORY_DIR,
+  INDEX_FILE,
+  NOTE_FILE,
+  SYNC_DIR,
+} from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { migrateNoteFile } from "./migrations";
+import { createNote, InvalidNoteError, type Note, saveNote } from "./note";
+import type { Notebook } from "./notebook";
+import { transform } from "./zip";
+
+/**
+ * Who a commit is by.
+ */
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+/** Author of commits when the repository's config names no user */
+export const DEFAULT_AUTHOR: GitAuthor = {
+  name: "Reflection Notes",
+  email: "notes@localhost",
+};
+
+/** Branch of a repository made by initGitRepository */
+export const DEFAULT_BRANCH = "main";
+
+/**
+ * A commit, as read from the repository.
+ */
+export interface GitCommit {
+  id: string;
+  /** Id of the commit's tree */
+  tree: string;
+  parents: string[];
+  /** Author's name and email, e.g. "Ann <ann@example.com>" */
+  author: string;
+  /** When the commit was authored */
+  time: number;
+  message: string;
+}
+
+type ObjectType = "blob" | "tree" | "commit" | "tag";
+
+interface GitObject {
+  type: ObjectType;
+  data: Uint8Array;
+}
+
+interface TreeEntry {
+  /** Octal, as git writes it: "100644", "40000", ... */
+  mode: string;
+  name: string;
+  id: string;
+}
+
+/** An opened pack of objects: its index, and its data once needed */
+interface Pack {
+  path: string;
+  /** Object ids, sorted */
+  ids: string[];
+  /** Offset of each object in the pack data */
+  offsets: number[];
+  data: Uint8Array | null;
+  /** Where each object's data ends, by offset */
+  ends: Map<number, number>;
+}
+
+const FILE_MODE = "100644";
+const TREE_MODE = "40000";
+const SYMLINK_MODE = "120000";
+const SUBMODULE_MODE = "160000";
+
+/** Never committed, at the notebook root */
+const UNTRACKED = new Set([GIT_DIR, INDEX_FILE, SYNC_DIR]);
+
+/** Object types in packs; 6 and 7 are deltas */
+const PACK_TYPES: Record<number, ObjectType> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Objects never change, so trees and commits read or written once are kept
+const MAX_CACHED = 10_000;
+const trees = new Map<string, TreeEntry[]>();
+const commits = new Map<string, GitCommit>();
+const packs = new WeakMap<FileSystemDirectoryHandle, Pack[]>();
+
+function cache<T>(map: Map<string, T>, id: string, value: T): T {
+  if (map.size >= MAX_CACHED) map.clear();
+  map.set(id, value);
+  return value;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function sha1(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    data as Uint8Array<ArrayBuffer>,
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream("deflate"));
+}
+
+async function readText(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<string | null> {
+  if (!(await fs.exists(notebook.handle, path))) return null;
+  return fs.readTextFile(notebook.handle, path);
+}
+
+// --- Objects ---
+
+function objectPath(id: string): string {
+  return `${GIT_DIR}/objects/${id.slice(0, 2)}/${id.slice(2)}`;
+}
+
+/** An object as git hashes and stores it: header, then data */
+function encodeObject(type: ObjectType, data: Uint8Array): Uint8Array {
+  return concat([encoder.encode(`${type} ${data.length}\0`), data]);
+}
+
+/**
+ * The id git gives an object, e.g. a file's contents as a blob.
+ */
+export async function hashObject(
+  type: ObjectType,
+  data: Uint8Array,
+): Promise<string> {
+  return sha1(encodeObject(type, data));
+}
+
+async function storeObject(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+  raw: Uint8Array,
+): Promise<void> {
+  const path = objectPath(id);
+  if (await fs.exists(notebook.handle, path)) return;
+  const compressed = await transform(raw, new CompressionStream("deflate"));
+  await fs.writeBinaryFile(notebook.handle, path, compressed.buffer);
+}
+
+async function writeObject(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  type: ObjectType,
+  data: Uint8Array,
+): Promise<string> {
+  const raw = encodeObject(type, data);
+  const id = await sha1(raw);
+  await storeObject(fs, notebook, id, raw);
+  return id;
+}
+
+async function readObject(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+): Promise<GitObject> {
+  let compressed: ArrayBuffer | null = null;
+  try {
+    compressed = await fs.readBinaryFile(notebook.handle, objectPath(id));
+  } catch {
+    // Not loose, so packed
+  }
+  if (!compressed) {
+    const object = await readPackedObject(fs, notebook, id);
+    if (!object) throw new Error(`Git object ${id} is missing`);
+    return object;
+  }
+
+  const raw = await inflate(new Uint8Array(compressed));
+  const space = raw.indexOf(0x20);
+  const end = raw.indexOf(0, space);
+  return {
+    type: decoder.decode(raw.subarray(0, space)) as ObjectType,
+    data: raw.subarray(end + 1),
+  };
+}
+
+// --- Packs ---
+
+function parsePackIndex(idx: Uint8Array, path: string): Pack {
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+  // Version 2: magic "\xfftOc", version, fan-out table, then the ids, their
+  // CRCs and their offsets (large ones in a table of their own)
+  if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+    throw new Error(`Unsupported git pack index: ${path}`);
+  }
+  const count = view.getUint32(8 + 255 * 4);
+  const idsAt = 8 + 256 * 4;
+  const offsetsAt = idsAt + count * 24;
+  const largeOffsetsAt = offsetsAt + count * 4;
+
+  const ids: string[] = [];
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push(toHex(idx.subarray(idsAt + i * 20, idsAt + i * 20 + 20)));
+    let offset = view.getUint32(offsetsAt + i * 4);
+    if (offset >= 0x80000000) {
+      const at = largeOffsetsAt + (offset - 0x80000000) * 8;
+      offset = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+    }
+    offsets.push(offset);
+  }
+  return {
+    path: path.replace(/\.idx$/, ".pack"),
+    ids,
+    offsets,
+    data: null,
+    ends: new Map(),
+  };
+}
+
+async function loadPacks(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<Pack[]> {
+  const dir = `${GIT_DIR}/objects/pack`;
+  const loaded: Pack[] = [];
+  if (await fs.exists(notebook.handle, dir)) {
+    for (const entry of await fs.listDir(
+      await fs.mkdir(notebook.handle, dir),
+    )) {
+      if (entry.isDirectory || !entry.name.endsWith(".idx")) continue;
+      const path = `${dir}/${entry.name}`;
+      const idx = await fs.readBinaryFile(notebook.handle, path);
+      loaded.push(parsePackIndex(new Uint8Array(idx), path));
+    }
+  }
+  packs.set(notebook.handle, loaded);
+  return loaded;
+}
+
+function findInPack(pack: Pack, id: string): number {
+  let low = 0;
+  let high = pack.ids.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pack.ids[mid] === id) return pack.offsets[mid];
+    if (pack.ids[mid] < id) low = mid + 1;
+    else high = mid - 1;
+  }
+  return -1;
+}
+
+async function readPackedObject(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+): Promise<GitObject | null> {
+  const cached = packs.get(notebook.handle);
+  // Packs made since they were loaded are looked for before giving up
+  for (const opened of cached ? [cached, null] : [null]) {
+    for (const pack of opened ?? (await loadPacks(fs, notebook))) {
+      const offset = findInPack(pack, id);
+      if (offset !== -1) return readPackEntry(fs, notebook, pack, offset);
+    }
+  }
+  return null;
+}
+
+async function packData(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  pack: Pack,
+): Promise<Uint8Array> {
+  if (!pack.data) {
+    const data = new Uint8Array(
+      await fs.readBinaryFile(notebook.handle, pack.path),
+    );
+    // An object's data runs up to the next object, or the pack's checksum
+    const sorted = [...pack.offsets].sort((a, b) => a - b);
+    sorted.forEach((offset, i) => {
+      pack.ends.set(offset, sorted[i + 1] ?? data.length - 20);
+    });
+    pack.data = data;
+  }
+  return pack.data;
+}
+
+async function readPackEntry(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  pack: Pack,
+  offset: number,
+): Promise<GitObject> {
+  const data = await packData(fs, notebook, pack);
+  let pos = offset;
+  let byte = data[pos++];
+  const kind = (byte >> 4) & 7;
+  // The size follows; the inflated data has it anyway
+  while (byte & 0x80) byte = data[pos++];
+
+  let base: GitObject | null = null;
+  if (kind === OFS_DELTA) {
+    byte = data[pos++];
+    let distance = byte & 0x7f;
+    while (byte & 0x80) {
+      byte = data[pos++];
+      distance = (distance + 1) * 128 + (byte & 0x7f);
+    }
+    base = await readPackEntry(fs, notebook, pack, offset - distance);
+  } else if (kind === REF_DELTA) {
+    base = await readObject(fs, notebook, toHex(data.subarray(pos, pos + 20)));
+    pos += 20;
+  }
+
+  const inflated = await inflate(data.subarray(pos, pack.ends.get(offset)));
+  if (base) return { type: base.type, data: applyDelta(base.data, inflated) };
+  const type = PACK_TYPES[kind];
+  if (!type) throw new Error(`Unsupported git object in ${pack.path}`);
+  return { type, data: inflated };
+}
+
+/** Rebuild an object from the one it's a delta of */
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let pos = 0;
+  const size = () => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[pos++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  size(); // Of the base
+  const result = new Uint8Array(size());
+
+  let at = 0;
+  while (pos < delta.length) {
+    const op = delta[pos++];
+    if (op & 0x80) {
+      // Copy from the base; the bits say which offset and size bytes follow
+      let offset = 0;
+      let length = 0;
+      for (let i = 0; i < 4; i++) {
+        if (op & (1 << i)) offset += delta[pos++] * 2 ** (8 * i);
+      }
+      for (let i = 0; i < 3; i++) {
+        if (op & (0x10 << i)) length += delta[pos++] << (8 * i);
+      }
+      if (length === 0) length = 0x10000;
+      result.set(base.subarray(offset, offset + length), at);
+      at += length;
+    } else if (op) {
+      // Insert the next `op` bytes
+      result.set(delta.subarray(pos, pos + op), at);
+      pos += op;
+      at += op;
+    } else {
+      throw new Error("Invalid git delta");
+    }
+  }
+  return result;
+}
+
+// --- Trees and commits ---
+
+function parseTree(data: Uint8Array): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const end = data.indexOf(0, space);
+    entries.push({
+      mode: decoder.decode(data.subarray(pos, space)),
+      name: decoder.decode(data.subarray(space + 1, end)),
+      id: toHex(data.subarray(end + 1, end + 21)),
+    });
+    pos = end + 21;
+  }
+  return entries;
+}
+
+/** Git's order: by name, directories as if their names ended in "/" */
+function compareEntries(a: TreeEntry, b: TreeEntry): number {
+  const key = (entry: TreeEntry) =>
+    encoder.encode(entry.mode === TREE_MODE ? `${entry.name}/` : entry.name);
+  const x = key(a);
+  const y = key(b);
+  for (let i = 0; i < Math.min(x.length, y.length); i++) {
+    if (x[i] !== y[i]) return x[i] - y[i];
+  }
+  return x.length - y.length;
+}
+
+function encodeTree(entries: TreeEntry[]): Uint8Array {
+  return concat(
+    entries.flatMap((entry) => [
+      encoder.encode(`${entry.mode} ${entry.name}\0`),
+      fromHex(entry.id),
+    ]),
+  );
+}
+
+async function readTree(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+): Promise<TreeEntry[]> {
+  const cached = trees.get(id);
+  if (cached) return cached;
+  const object = await readObject(fs, notebook, id);
+  if (object.type !== "tree") throw new Error(`Git object ${id} isn't a tree`);
+  return cache(trees, id, parseTree(object.data));
+}
+
+function parseCommit(id: string, data: Uint8Array): GitCommit {
+  const text = decoder.decode(data);
+  const split = text.indexOf("\n\n");
+  const commit: GitCommit = {
+    id,
+    tree: "",
+    parents: [],
+    author: "",
+    time: 0,
+    message: split === -1 ? "" : text.slice(split + 2).trimEnd(),
+  };
+  for (const line of text
+    .slice(0, split === -1 ? undefined : split)
+    .split("\n")) {
+    const space = line.indexOf(" ");
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === "tree") commit.tree = value;
+    if (key === "parent") commit.parents.push(value);
+    const author = key === "author" && /^(.*) (\d+) [+-]\d{4}$/.exec(value);
+    if (author) {
+      commit.author = author[1];
+      commit.time = Number(author[2]) * 1000;
+    }
+  }
+  return commit;
+}
+
+async function readCommit(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+): Promise<GitCommit> {
+  const cached = commits.get(id);
+  if (cached) return cached;
+  const object = await readObject(fs, notebook, id);
+  if (object.type !== "commit") {
+    throw new Error(`Git object ${id} isn't a commit`);
+  }
+  return cache(commits, id, parseCommit(id, object.data));
+}
+
+/** Id of the object at `path` in a tree, or null if there's none */
+async function findInTree(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  tree: string,
+  path: string,
+): Promise<string | null> {
+  let id = tree;
+  for (const name of path.split("/")) {
+    const entry = (await readTree(fs, notebook, id)).find(
+      (e) => e.name === name,
+    );
+    if (!entry) return null;
+    id = entry.id;
+  }
+  return id;
+}
+
+/** A commit's author or committer line */
+function signature(author: GitAuthor, now: number): string {
+  const offset = -new Date(now).getTimezoneOffset();
+  const minutes = Math.abs(offset);
+  const zone = `${offset < 0 ? "-" : "+"}${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}`;
+  return `${author.name} <${author.email}> ${Math.floor(now / 1000)} ${zone}`;
+}
+
+// --- Repository ---
+
+/**
+ * Whether the notebook is a git repository.
+ */
+export async function isGitRepository(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<boolean> {
+  return fs.exists(notebook.handle, `${GIT_DIR}/HEAD`);
+}
+
+/**
+ * Make the notebook a git repository, with no commits yet. Does nothing if
+ * it is one already.
+ */
+export async function initGitRepository(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<void> {
+  if (await isGitRepository(fs, notebook)) return;
+  await fs.mkdir(notebook.handle, `${GIT_DIR}/objects`);
+  await fs.mkdir(notebook.handle, `${GIT_DIR}/refs/heads`);
+  await fs.mkdir(notebook.handle, `${GIT_DIR}/refs/tags`);
+  await fs.writeTextFile(
+    notebook.handle,
+    `${GIT_DIR}/config`,
+    "[core]\n\trepositoryformatversion = 0\n\tfilemode = false\n\tbare = false\n",
+  );
+  // So that git doesn't list them as untracked
+  await fs.writeTextFile(
+    notebook.handle,
+    `${GIT_DIR}/info/exclude`,
+    `/${INDEX_FILE}\n/${SYNC_DIR}/\n`,
+  );
+  await fs.writeTextFile(
+    notebook.handle,
+    `${GIT_DIR}/HEAD`,
+    `ref: refs/heads/${DEFAULT_BRANCH}\n`,
+  );
+}
+
+/**
+ * The branch HEAD is on (null if detached) and the commit HEAD is at (null
+ * before the first commit).
+ */
+async function readHead(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<{ ref: string | null; commit: string | null }> {
+  const head = (
+    await fs.readTextFile(notebook.handle, `${GIT_DIR}/HEAD`)
+  ).trim();
+  const match = /^ref: (.+)$/.exec(head);
+  if (!match) return { ref: null, commit: head };
+
+  const ref = match[1];
+  const loose = await readText(fs, notebook, `${GIT_DIR}/${ref}`);
+  if (loose !== null) return { ref, commit: loose.trim() };
+  const packed = await readText(fs, notebook, `${GIT_DIR}/packed-refs`);
+  for (const line of packed?.split("\n") ?? []) {
+    const [id, name] = line.trim().split(" ");
+    if (name === ref) return { ref, commit: id };
+  }
+  return { ref, commit: null };
+}
+
+/** The user in the repository's config, if it names one */
+async function configAuthor(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<GitAuthor | null> {
+  const text = await readText(fs, notebook, `${GIT_DIR}/config`);
+  let section = "";
+  const user: Partial<GitAuthor> = {};
+  for (const line of text?.split("\n") ?? []) {
+    const header = /^\s*\[\s*([\w.-]+)/.exec(line);
+    const setting = /^\s*(\w+)\s*=\s*"?(.*?)"?\s*$/.exec(line);
+    if (header) section = header[1].toLowerCase();
+    else if (section === "user" && setting) {
+      const key = setting[1].toLowerCase();
+      if (key === "name" || key === "email") user[key] = setting[2];
+    }
+  }
+  return user.name && user.email
+    ? { name: user.name, email: user.email }
+    : null;
+}
+
+/**
+ * Matcher for the root .gitignore: blank lines, comments, negation,
+ * anchored and directory-only patterns, and `*`, `**` and `?` wildcards.
+ */
+export function parseGitignore(
+  text: string,
+): (path: string, isDirectory: boolean) => boolean {
+  const rules = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negate = line.startsWith("!");
+      let pattern = negate ? line.slice(1) : line;
+      const directoryOnly = pattern.endsWith("/");
+      if (directoryOnly) pattern = pattern.slice(0, -1);
+      // A slash anywhere but at the end anchors the pattern to the root
+      const anchored = pattern.includes("/");
+      if (pattern.startsWith("/")) pattern = pattern.slice(1);
+      const source = pattern
+        .split(/(\/\*\*\/|\*\*\/|\/\*\*|\*|\?)/)
+        .map((part) => {
+          if (part === "/**/") return "/(?:.*/)?";
+          if (part === "**/") return "(?:.*/)?";
+          if (part === "/**") return "/.*";
+          if (part === "*") return "[^/]*";
+          if (part === "?") return "[^/]";
+          return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("");
+      return {
+        negate,
+        directoryOnly,
+        regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      };
+    });
+
+  return (path, isDirectory) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(path)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+}
+
+/** Whether `path` changed: all of it, some of what's in it, or none */
+function changeOf(
+  changed: readonly string[] | null,
+  path: string,
+): "all" | "some" | "none" {
+  if (!changed) return "all";
+  let change: "some" | "none" = "none";
+  for (const other of changed) {
+    if (other === path || path.startsWith(`${other}/`)) return "all";
+    if (other.startsWith(`${path}/`)) change = "some";
+  }
+  return change;
+}
+
+interface TreeWriter {
+  fs: FileSystemProvider;
+  notebook: Notebook;
+  ignored: (path: string, isDirectory: boolean) => boolean;
+}
+
+/**
+ * Write the tree of a directory as it is on disk, reusing the entries of
+ * its tree in the last commit (`previous`) that didn't change. Returns
+ * null for a directory with nothing to commit, which git doesn't keep.
+ */
+async function writeTree(
+  writer: TreeWriter,
+  dir: FileSystemDirectoryHandle,
+  path: string,
+  previous: string | null,
+  changed: readonly string[] | null,
+): Promise<string | null> {
+  const { fs, notebook } = writer;
+  const old = new Map<string, TreeEntry>();
+  for (const entry of previous ? await readTree(fs, notebook, previous) : []) {
+    old.set(entry.name, entry);
+  }
+
+  const entries: TreeEntry[] = [];
+  for (const { name, isDirectory } of await fs.listDir(dir)) {
+    const child = path ? `${path}/${name}` : name;
+    const was = old.get(name);
+    if (!path && UNTRACKED.has(name)) continue;
+    // Like git, files committed before stay committed once ignored
+    if (!was && writer.ignored(child, isDirectory)) continue;
+
+    const change = changeOf(changed, child);
+    const sameKind = was && (was.mode === TREE_MODE) === isDirectory;
+    // Git keeps symlinks and submodules as such, which can't be told apart
+    // from what they point at here
+    if (
+      was &&
+      ((sameKind && change === "none") ||
+        was.mode === SYMLINK_MODE ||
+        was.mode === SUBMODULE_MODE)
+    ) {
+      entries.push(was);
+    } else if (isDirectory) {
+      const id = await writeTree(
+        writer,
+        await fs.mkdir(dir, name),
+        child,
+        was?.mode === TREE_MODE ? was.id : null,
+        change === "some" ? changed : null,
+      );
+      if (id) entries.push({ mode: TREE_MODE, name, id });
+    } else {
+      const raw = encodeObject(
+        "blob",
+        new Uint8Array(await fs.readBinaryFile(dir, name)),
+      );
+      const id = await sha1(raw);
+      if (id !== was?.id) await storeObject(fs, notebook, id, raw);
+      const mode = sameKind ? (was?.mode ?? FILE_MODE) : FILE_MODE;
+      entries.push({ mode, name, id });
+    }
+  }
+
+  if (entries.length === 0 && path) return null;
+  entries.sort(compareEntries);
+  const id = await writeObject(fs, notebook, "tree", encodeTree(entries));
+  cache(trees, id, entries);
+  return id;
+}
+
+/**
+ * Rewrite the index (`.git/index`, version 2) to list the files of a
+ * tree. Git compares the files to it by size and time first, which are
+ * left out, so it rereads them once and then finds them unchanged.
+ */
+async function writeIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  tree: string,
+): Promise<void> {
+  const entries: Uint8Array[] = [];
+  const add = async (id: string, prefix: string) => {
+    for (const entry of await readTree(fs, notebook, id)) {
+      if (entry.mode === TREE_MODE) {
+        await add(entry.id, `${prefix}${entry.name}/`);
+        continue;
+      }
+      const name = encoder.encode(prefix + entry.name);
+      // Fixed fields, then the name, padded with NULs to a multiple of 8
+      const header = new Uint8Array(62);
+      const view = new DataView(header.buffer);
+      view.setUint32(24, Number.parseInt(entry.mode, 8));
+      header.set(fromHex(entry.id), 40);
+      view.setUint16(60, Math.min(name.length, 0xfff));
+      const padding = new Uint8Array(8 - ((62 + name.length) % 8));
+      entries.push(header, name, padding);
+    }
+  };
+  await add(tree, "");
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(encoder.encode("DIRC"));
+  view.setUint32(4, 2);
+  view.setUint32(8, entries.length / 3);
+  const body = concat([header, ...entries]);
+  const index = concat([body, fromHex(await sha1(body))]);
+  await fs.writeBinaryFile(notebook.handle, `${GIT_DIR}/index`, index.buffer);
+}
+
+/**
+ * Options for commitNotebook.
+ */
+export interface CommitOptions {
+  message: string;
+  /**
+   * Paths of files or directories that may have changed since the last
+   * commit; the rest of the notebook is taken from it as is. If omitted,
+   * every file is compared.
+   */
+  changed?: Iterable<string>;
+  /** Defaults to the user in the repository's config, else DEFAULT_AUTHOR */
+  author?: GitAuthor;
+  /** Current time, for tests */
+  now?: number;
+}
+
+/**
+ * Commit the notebook as it is on disk to the branch HEAD is on.
+ * Returns the id of the new commit, or null if nothing changed since the
+ * last commit. Throws if the notebook isn't a git repository.
+ */
+export async function commitNotebook(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  options: CommitOptions,
+): Promise<string | null> {
+  if (!(await isGitRepository(fs, notebook))) {
+    throw new Error(`${notebook.name} isn't a git repository`);
+  }
+  const head = await readHead(fs, notebook);
+  const parent = head.commit
+    ? await readCommit(fs, notebook, head.commit)
+    : null;
+  const gitignore = await readText(fs, notebook, ".gitignore");
+  const writer: TreeWriter = {
+    fs,
+    notebook,
+    ignored: parseGitignore(gitignore ?? ""),
+  };
+
+  const changed = parent && options.changed ? [...options.changed] : null;
+  const tree = await writeTree(
+    writer,
+    notebook.handle,
+    "",
+    parent?.tree ?? null,
+    changed,
+  );
+  if (!tree || tree === parent?.tree) return null;
+
+  const now = options.now ?? Date.now();
+  const author = signature(
+    options.author ?? (await configAuthor(fs, notebook)) ?? DEFAULT_AUTHOR,
+    now,
+  );
+  const message = options.message.endsWith("\n")
+    ? options.message
+    : `${options.message}\n`;
+  const lines = [
+    `tree ${tree}`,
+    ...(parent ? [`parent ${parent.id}`] : []),
+    `author ${author}`,
+    `committer ${author}`,
+  ];
+  const id = await writeObject(
+    fs,
+    notebook,
+    "commit",
+    encoder.encode(`${lines.join("\n")}\n\n${message}`),
+  );
+
+  await fs.writeTextFile(
+    notebook.handle,
+    `${GIT_DIR}/${head.ref ?? "HEAD"}`,
+    `${id}\n`,
+  );
+  await writeIndex(fs, notebook, tree);
+  return id;
+}
+
+/**
+ * The commits that changed a note, newest first, following HEAD's first
+ * parents back to where the note was made (or moved to its path), at most
+ * `limit` of them.
+ */
+export async function listNoteCommits(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  limit = 100,
+): Promise<GitCommit[]> {
+  const file = `${path}/${NOTE_FILE}`;
+  const found: GitCommit[] = [];
+  const { commit: head } = await readHead(fs, notebook);
+  let commit = head ? await readCommit(fs, notebook, head) : null;
+  let blob = commit ? await findInTree(fs, notebook, commit.tree, file) : null;
+
+  while (commit && blob && found.length < limit) {
+    const [first] = commit.parents;
+    const parent = first ? await readCommit(fs, notebook, first) : null;
+    const before = parent
+      ? await findInTree(fs, notebook, parent.tree, file)
+      : null;
+    if (before !== blob) found.push(commit);
+    commit = parent;
+    blob = before;
+  }
+  return found;
+}
+
+/**
+ * Load the document of a note as it was in a commit, upgraded to the
+ * current format. Throws if the commit has no such note, and
+ * InvalidNoteError if it can't be read as a note.
+ */
+export async function loadNoteAtCommit(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  commitId: string,
+): Promise<unknown> {
+  const commit = await readCommit(fs, notebook, commitId);
+  const blob = await findInTree(
+    fs,
+    notebook,
+    commit.tree,
+    `${path}/${NOTE_FILE}`,
+  );
+  if (!blob) {
+    throw new Error(`Note ${path} isn't in commit ${commitId.slice(0, 7)}`);
+  }
+
+  const text = decoder.decode((await readObject(fs, notebook, blob)).data);
+  try {
+    const content = migrateNoteFile(JSON.parse(text));
+    Node.fromJSON(schema, content).check();
+    return content;
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new InvalidNoteError(path, text, reason);
+  }
+}
+
+/**
+ * Make a new note out of a note as it was in a commit, with the images and
+ * other files it had then (but not its history). The note it came from is
+ * left as it is. Returns the new note.
+ */
+export async function copyNoteFromCommit(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  commitId: string,
+): Promise<Note> {
+  const content = await loadNoteAtCommit(fs, notebook, path, commitId);
+  const commit = await readCommit(fs, notebook, commitId);
+  const dir = await findInTree(fs, notebook, commit.tree, path);
+
+  const note = await createNote(fs, notebook);
+  const copy = async (tree: string, prefix: string) => {
+    for (const entry of await readTree(fs, notebook, tree)) {
+      const name = `${prefix}${entry.name}`;
+      if (name === NOTE_FILE || name === HISTORY_DIR) continue;
+      if (entry.mode === TREE_MODE) {
+        await copy(entry.id, `${name}/`);
+      } else {
+        const { data } = await readObject(fs, notebook, entry.id);
+        await fs.writeBinaryFile(
+          notebook.handle,
+          `${note.path}/${name}`,
+          data.slice().buffer,
+        );
+      }
+    }
+  };
+  if (dir) await copy(dir, "");
+
+  note.content = content;
+  await saveNote(fs, notebook, note);
+  return note;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  HISTORY_INTERVAL_MS,
+  listRevisions,
+  loadRevision,
+  MAX_REVISIONS,
+  recordRevision,
+  restoreRevision,
+} from "./history";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { loadNote, moveNote } from "./note";
+import { createNotebook } from "./notebook";
+import { titled } from "./testing";
+
+async function setup() {
+  const fs = new MemoryFileSystemProvider();
+  const { notebook, note } = await createNotebook(fs);
+  return { fs, notebook, note };
+}
+
+describe("recordRevision", () => {
+  it("takes at most one snapshot per interval", async () => {
+    const { fs, notebook, note } = await setup();
+
+    const first = await recordRevision(fs, notebook, titled(note, "a"), {
+      now: 1000,
+    });
+    const skipped = await recordRevision(fs, notebook, titled(note, "b"), {
+      now: 1000 + HISTORY_INTERVAL_MS - 1,
+    });
+    const second = await recordRevision(fs, notebook, titled(note, "c"), {
+      now: 1000 + HISTORY_INTERVAL_MS,
+    });
+
+    expect(first).toEqual({ id: "1000", saved: 1000 });
+    expect(skipped).toBeNull();
+    expect(second?.saved).toBe(1000 + HISTORY_INTERVAL_MS);
+    expect(await listRevisions(fs, notebook, note.path)).toEqual([
+      second,
+      first,
+    ]);
+    expect(await loadRevision(fs, notebook, note.path, "1000")).toEqual(
+      titled(note, "a").content,
+    );
+  });
+
+  it("skips snapshots identical to the last one, even when forced", async () => {
+    const { fs, notebook, note } = await setup();
+    await recordRevision(fs, notebook, note, { now: 1 });
+
+    const again = await recordRevision(fs, notebook, note, {
+      now: 1 + HISTORY_INTERVAL_MS,
+      force: true,
+    });
+
+    expect(again).toBeNull();
+  });
+
+  it("keeps only the newest MAX_REVISIONS", async () => {
+    const { fs, notebook, note } = await setup();
+    for (let i = 0; i <= MAX_REVISIONS; i++) {
+      await recordRevision(fs, notebook, titled(note, `v${i}`), {
+        now: 5,
+        force: true,
+      });
+    }
+
+    const revisions = await listRevisions(fs, notebook, note.path);
+    expect(revisions).toHaveLength(MAX_REVISIONS);
+    // Same-millisecond snapshots still get distinct, ordered names
+    expect(revisions.at(-1)?.saved).toBe(6);
+    expect(revisions[0]?.saved).toBe(5 + MAX_REVISIONS);
+  });
+});
+
+describe("restoreRevision", () => {
+  it("restores a snapshot and keeps the replaced content", async () => {
+    const { fs, notebook, note } = await setup();
+    const old = await recordRevision(fs, notebook, titled(note, "old"));
+
+    const restored = await restoreRevision(
+      fs,
+      notebook,
+      note.path,
+      old?.id ?? "",
+    );
+
+    expect(restored.content).toEqual(titled(note, "old").content);
+    expect(await loadNote(fs, notebook, note.path)).toEqual(restored);
+    const [latest] = await listRevisions(fs, notebook, note.path);
+    expect(await loadRevision(fs, notebook, note.path, latest.id)).toEqual(
+      note.content,
+    );
+  });
+
+  it("travels with the note when it moves", async () => {
+    const { fs, notebook, note } = await setup();
+    await recordRevision(fs, notebook, titled(note, "old"));
+
+    const moved = await moveNote(fs, notebook, note.path, "2020/01/01/1");
+
+    expect(await listRevisions(fs, notebook, moved.path)).toHaveLength(1);
+  });
+});
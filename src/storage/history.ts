@@ -0,0 +1,158 @@
+/**
+ * Revision history of notes.
+ *
+ * saveNote overwrites note.json, so earlier versions of a note are kept as
+ * snapshots in the note's `history/` folder, one file per revision named
+ * after the time it was taken:
+ *
+ *   2026/01/26/1/history/1769420000000.json
+ *
+ * Snapshots use the note.json format (see migrations.ts) and move, trash
+ * and restore with the note directory. Autosave writes a note every few
+ * seconds while typing, so recordRevision keeps at most one snapshot per
+ * HISTORY_INTERVAL_MS, and only the newest MAX_REVISIONS.
+ */
+
+import { Node } from "prosemirror-model";
+import { schema } from "../editor/schema";
+import { HISTORY_DIR } from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { encodeNoteFile, migrateNoteFile } from "./migrations";
+import { InvalidNoteError, loadNote, type Note, saveNote } from "./note";
+import type { Notebook } from "./notebook";
+
+/** Shortest time between two snapshots of a note taken by autosave */
+export const HISTORY_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Snapshots kept per note; older ones are deleted */
+export const MAX_REVISIONS = 50;
+
+/**
+ * A snapshot of a note.
+ */
+export interface Revision {
+  /** Name of the snapshot in the note's history folder, without .json */
+  id: string;
+  /** When the snapshot was taken */
+  saved: number;
+}
+
+function revisionFile(path: string, id: string): string {
+  return `${path}/${HISTORY_DIR}/${id}.json`;
+}
+
+/**
+ * List the snapshots of a note, newest first.
+ */
+export async function listRevisions(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<Revision[]> {
+  const dir = `${path}/${HISTORY_DIR}`;
+  if (!(await fs.exists(notebook.handle, dir))) return [];
+
+  const revisions: Revision[] = [];
+  for (const entry of await fs.listDir(await fs.mkdir(notebook.handle, dir))) {
+    const match = /^(\d+)\.json$/.exec(entry.name);
+    if (entry.isDirectory || !match) continue;
+    revisions.push({ id: match[1], saved: Number(match[1]) });
+  }
+  return revisions.sort((a, b) => b.saved - a.saved);
+}
+
+/**
+ * Load the document of a snapshot, upgraded to the current format.
+ * Throws InvalidNoteError if the snapshot can't be read as a note.
+ */
+export async function loadRevision(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  id: string,
+): Promise<unknown> {
+  const text = await fs.readTextFile(notebook.handle, revisionFile(path, id));
+  try {
+    const content = migrateNoteFile(JSON.parse(text));
+    Node.fromJSON(schema, content).check();
+    return content;
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new InvalidNoteError(path, text, reason);
+  }
+}
+
+/**
+ * Options for recordRevision.
+ */
+export interface RecordRevisionOptions {
+  /** Take the snapshot even if the last one is recent */
+  force?: boolean;
+  /** Current time, for tests */
+  now?: number;
+}
+
+/**
+ * Take a snapshot of a note as it is now, unless the newest snapshot is
+ * less than HISTORY_INTERVAL_MS old or has the same content. Deletes the
+ * snapshots beyond MAX_REVISIONS.
+ * Returns the new snapshot, or null if none was taken.
+ */
+export async function recordRevision(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+  options: RecordRevisionOptions = {},
+): Promise<Revision | null> {
+  const now = options.now ?? Date.now();
+  const revisions = await listRevisions(fs, notebook, note.path);
+  const [latest] = revisions;
+
+  if (latest) {
+    if (!options.force && now - latest.saved < HISTORY_INTERVAL_MS) {
+      return null;
+    }
+    try {
+      const content = await loadRevision(fs, notebook, note.path, latest.id);
+      if (JSON.stringify(content) === JSON.stringify(note.content)) {
+        return null;
+      }
+    } catch {
+      // A damaged snapshot is no reason not to take a new one
+    }
+  }
+
+  // Keep names unique and in order, even for snapshots in the same ms
+  const saved = latest ? Math.max(now, latest.saved + 1) : now;
+  const revision = { id: String(saved), saved };
+  await fs.writeTextFile(
+    notebook.handle,
+    revisionFile(note.path, revision.id),
+    encodeNoteFile(note.content),
+  );
+
+  for (const old of revisions.slice(MAX_REVISIONS - 1)) {
+    await fs.remove(notebook.handle, revisionFile(note.path, old.id));
+  }
+  return revision;
+}
+
+/**
+ * Replace a note's content with that of one of its snapshots. The content
+ * being replaced is snapshotted first, so the restore can be undone.
+ * Returns the note with the restored content.
+ */
+export async function restoreRevision(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  id: string,
+): Promise<Note> {
+  const content = await loadRevision(fs, notebook, path, id);
+  const current = await loadNote(fs, notebook, path);
+  await recordRevision(fs, notebook, current, { force: true });
+
+  const note = { ...current, content };
+  await saveNote(fs, notebook, note);
+  return note;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { openJournal } from "./journal";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { encodeNoteFile } from "./migrations";
+import {
+  createBlankDocument,
+  deleteNote,
+  extractTitle,
+  moveNote,
+} from "./note";
+import { createNotebook } from "./notebook";
+
+// Monday 26 January 2026, 08:30 local time
+const NOW = new Date(2026, 0, 26, 8, 30);
+
+async function setup() {
+  const fs = new MemoryFileSystemProvider();
+  const { notebook } = await createNotebook(fs);
+  return { fs, notebook };
+}
+
+describe("openJournal", () => {
+  it("creates the day's journal note once", async () => {
+    const { fs, notebook } = await setup();
+
+    const first = await openJournal(fs, notebook, NOW);
+    const again = await openJournal(fs, notebook, NOW);
+
+    expect(first.didCreate).toBe(true);
+    expect(first.note.path).toBe("2026/01/26/1");
+    expect(extractTitle(first.note.content)).toBe("Monday, 2026-01-26");
+    expect(again).toEqual({ note: first.note, didCreate: false });
+
+    const meta = JSON.parse(
+      await fs.readTextFile(notebook.handle, "notebook.json"),
+    );
+    expect(meta.journal).toEqual({ "2026/01/26": "2026/01/26/1" });
+  });
+
+  it("uses the journal template if there is one", async () => {
+    const { fs, notebook } = await setup();
+    const template = createBlankDocument(0) as { content: unknown[] };
+    template.content[0] = {
+      type: "title",
+      content: [{ type: "text", text: "Log {{date}}" }],
+    };
+    await fs.writeTextFile(
+      notebook.handle,
+      "templates/journal/note.json",
+      encodeNoteFile(template),
+    );
+
+    const { note } = await openJournal(fs, notebook, NOW);
+
+    expect(extractTitle(note.content)).toBe("Log 2026-01-26");
+  });
+
+  it("creates a new journal note if the old one was deleted", async () => {
+    const { fs, notebook } = await setup();
+    const { note } = await openJournal(fs, notebook, NOW);
+
+    await deleteNote(fs, notebook, note.path);
+    expect(notebook.meta.journal).toEqual({});
+    const next = await openJournal(fs, notebook, NOW);
+
+    expect(next.didCreate).toBe(true);
+  });
+
+  it("throws if the journal note can't be read", async () => {
+    const { fs, notebook } = await setup();
+    const { note } = await openJournal(fs, notebook, NOW);
+    const denied = new DOMException("Denied", "NotAllowedError");
+    vi.spyOn(fs, "readTextFile").mockRejectedValueOnce(denied);
+
+    await expect(openJournal(fs, notebook, NOW)).rejects.toBe(denied);
+    expect(notebook.meta.journal).toEqual({ "2026/01/26": note.path });
+  });
+
+  it("follows the journal note when it moves", async () => {
+    const { fs, notebook } = await setup();
+    const { note } = await openJournal(fs, notebook, NOW);
+
+    await moveNote(fs, notebook, note.path, "2026/01/26/7");
+
+    expect(notebook.meta.journal).toEqual({ "2026/01/26": "2026/01/26/7" });
+    expect((await openJournal(fs, notebook, NOW)).note.path).toBe(
+      "2026/01/26/7",
+    );
+  });
+});
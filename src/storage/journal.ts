@@ -0,0 +1,80 @@
+/**
+ * Daily journal.
+ *
+ * Notes are filed by the day they were created (yyyy/mm/dd/n), so a day can
+ * hold any number of notes. One of them can be the day's journal note:
+ * notebook.json maps days to their journal notes (`journal`), so the journal
+ * needn't be the day's first note. openJournal opens today's, creating it
+ * from the "journal" template if there is one.
+ */
+
+import type { FileSystemProvider } from "./filesystem";
+import { createNote, datePath, loadNote, type Note, saveNote } from "./note";
+import { type Notebook, saveNotebookMeta } from "./notebook";
+import {
+  createNoteFromTemplate,
+  listTemplates,
+  templateValues,
+} from "./templates";
+
+/** Name of the template journal notes are created from, if it exists */
+export const JOURNAL_TEMPLATE = "journal";
+
+/**
+ * The day (yyyy/mm/dd) a note is filed under, from its path.
+ */
+export function noteDay(path: string): string {
+  return path.split("/").slice(0, 3).join("/");
+}
+
+/**
+ * Result of openJournal.
+ */
+export interface JournalResult {
+  note: Note;
+  /** True if the journal note was created just now */
+  didCreate: boolean;
+}
+
+/**
+ * Open the journal note for the day of `now`, creating it if the day has
+ * none (or its journal note has been deleted). Throws InvalidNoteError if the
+ * journal note exists but is damaged, and the file system's error if it
+ * can't be read.
+ */
+export async function openJournal(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  now: Date = new Date(),
+): Promise<JournalResult> {
+  const day = datePath(now);
+  const existing = notebook.meta.journal[day];
+  if (existing) {
+    try {
+      return { note: await loadNote(fs, notebook, existing), didCreate: false };
+    } catch (e) {
+      // Gone: start a new one. Anything else (damaged, unreadable) is
+      // reported rather than papered over with a second journal note.
+      if (!(e instanceof DOMException && e.name === "NotFoundError")) throw e;
+    }
+  }
+
+  const templates = await listTemplates(fs, notebook);
+  let note: Note;
+  if (templates.some((t) => t.name === JOURNAL_TEMPLATE)) {
+    note = await createNoteFromTemplate(fs, notebook, JOURNAL_TEMPLATE, now);
+  } else {
+    note = await createNote(fs, notebook, now);
+    const { weekday, date } = templateValues(now);
+    const content = note.content as { content: unknown[] };
+    content.content[0] = {
+      type: "title",
+      content: [{ type: "text", text: `${weekday}, ${date}` }],
+    };
+    await saveNote(fs, notebook, note);
+  }
+
+  notebook.meta.journal[day] = note.path;
+  await saveNotebookMeta(fs, notebook);
+  return { note, didCreate: true };
+}
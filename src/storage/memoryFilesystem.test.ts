@@ -0,0 +1,316 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import {
+  createNote,
+  extractTitle,
+  listNotes,
+  loadNote,
+  saveNote,
+} from "./note";
+import {
+  createNotebook,
+  openNotebook,
+  reconnectNotebook,
+  restoreNotebook,
+} from "./notebook";
+
+describe("MemoryFileSystemProvider", () => {
+  describe("files", () => {
+    it("round-trips text files", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+
+      await fs.writeTextFile(dir, "a/b/c.txt", "hello");
+
+      expect(await fs.readTextFile(dir, "a/b/c.txt")).toBe("hello");
+    });
+
+    it("round-trips binary files", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      const bytes = new Uint8Array([1, 2, 3, 255]);
+
+      await fs.writeBinaryFile(dir, "img.png", bytes.buffer);
+
+      const read = new Uint8Array(await fs.readBinaryFile(dir, "img.png"));
+      expect([...read]).toEqual([1, 2, 3, 255]);
+    });
+
+    it("does not share bytes with the caller", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      const bytes = new Uint8Array([1, 2, 3]);
+
+      await fs.writeBinaryFile(dir, "f.bin", bytes.buffer);
+      bytes[0] = 9;
+      const read = new Uint8Array(await fs.readBinaryFile(dir, "f.bin"));
+      read[1] = 9;
+
+      const again = new Uint8Array(await fs.readBinaryFile(dir, "f.bin"));
+      expect([...again]).toEqual([1, 2, 3]);
+    });
+
+    it("reads text written as binary and vice versa", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+
+      await fs.writeBinaryFile(
+        dir,
+        "t.txt",
+        new TextEncoder().encode("héllo").buffer,
+      );
+
+      expect(await fs.readTextFile(dir, "t.txt")).toBe("héllo");
+    });
+
+    it("rejects with NotFoundError for missing files", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+
+      await expect(fs.readTextFile(dir, "missing.txt")).rejects.toMatchObject({
+        name: "NotFoundError",
+      });
+    });
+
+    it("rejects reading a directory as a file", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.mkdir(dir, "sub");
+
+      await expect(fs.readTextFile(dir, "sub")).rejects.toMatchObject({
+        name: "TypeMismatchError",
+      });
+    });
+  });
+
+  describe("directories", () => {
+    it("mkdir returns the same handle for the same directory", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+
+      const a = await fs.mkdir(dir, "2026/01/02");
+      const b = await fs.mkdir(dir, "2026/01/02");
+
+      expect(a).toBe(b);
+      expect(a.name).toBe("02");
+    });
+
+    it("lists immediate children in insertion order", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.mkdir(dir, "b");
+      await fs.writeTextFile(dir, "a.txt", "");
+      await fs.writeTextFile(dir, "b/inner.txt", "");
+
+      expect(await fs.listDir(dir)).toEqual([
+        { name: "b", isDirectory: true },
+        { name: "a.txt", isDirectory: false },
+      ]);
+    });
+
+    it("checks existence of files and directories", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.writeTextFile(dir, "x/y.txt", "");
+
+      expect(await fs.exists(dir, "x")).toBe(true);
+      expect(await fs.exists(dir, "x/y.txt")).toBe(true);
+      expect(await fs.exists(dir, "x/z.txt")).toBe(false);
+      expect(await fs.exists(dir, "x/y.txt/z")).toBe(false);
+    });
+
+    it("removes files and directories with their contents", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.writeTextFile(dir, "x/y/z.txt", "");
+      await fs.writeTextFile(dir, "a.txt", "");
+
+      await fs.remove(dir, "x");
+      await fs.remove(dir, "a.txt");
+
+      expect(await fs.listDir(dir)).toEqual([]);
+      await expect(fs.remove(dir, "x")).rejects.toMatchObject({
+        name: "NotFoundError",
+      });
+    });
+
+    it("renames directories, creating parents of the target", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.writeTextFile(dir, "a/b/c.txt", "hi");
+
+      await fs.rename(dir, "a/b", "d/e");
+
+      expect(await fs.exists(dir, "a/b")).toBe(false);
+      expect(await fs.readTextFile(dir, "d/e/c.txt")).toBe("hi");
+      expect(await fs.listDir(await fs.mkdir(dir, "d"))).toEqual([
+        { name: "e", isDirectory: true },
+      ]);
+    });
+
+    it("refuses to rename over an existing entry or into itself", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const dir = fs.directory("nb");
+      await fs.writeTextFile(dir, "a/c.txt", "");
+      await fs.writeTextFile(dir, "b.txt", "");
+
+      await expect(fs.rename(dir, "b.txt", "a/c.txt")).rejects.toMatchObject({
+        name: "InvalidModificationError",
+      });
+      await expect(fs.rename(dir, "a", "a/inner")).rejects.toThrow(
+        "into itself",
+      );
+      await expect(fs.rename(dir, "missing", "m")).rejects.toMatchObject({
+        name: "NotFoundError",
+      });
+      expect(await fs.exists(dir, "b.txt")).toBe(true);
+      expect(await fs.exists(dir, "a/inner")).toBe(false);
+    });
+
+    it("rejects handles from another provider", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const other = new MemoryFileSystemProvider().directory("nb");
+
+      await expect(fs.listDir(other)).rejects.toThrow(TypeError);
+    });
+  });
+
+  describe("picker and persistence", () => {
+    it("picks the directory chosen by onPickDirectory", async () => {
+      const fs = new MemoryFileSystemProvider({
+        onPickDirectory: () => Promise.resolve("work/notes"),
+      });
+
+      const handle = await fs.pickDirectory();
+
+      expect(handle).toBe(fs.directory("work/notes"));
+    });
+
+    it("rejects with AbortError when picking is cancelled", async () => {
+      const fs = new MemoryFileSystemProvider({
+        onPickDirectory: () => Promise.resolve(null),
+      });
+
+      await expect(fs.pickDirectory()).rejects.toMatchObject({
+        name: "AbortError",
+      });
+    });
+
+    it("returns null for unknown persisted keys", async () => {
+      const fs = new MemoryFileSystemProvider();
+      expect(await fs.getPersistedHandle("nope")).toBeNull();
+    });
+
+    it("requires permission after revokePermissions", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const handle = fs.directory("nb");
+      await fs.persistHandle("key", handle);
+
+      fs.revokePermissions();
+
+      expect(await fs.getPersistedHandle("key")).toEqual({
+        handle,
+        needsPermission: true,
+      });
+      await expect(fs.listDir(handle)).rejects.toMatchObject({
+        name: "NotAllowedError",
+      });
+    });
+
+    it("applies permission to subdirectories", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const handle = fs.directory("nb");
+      const sub = await fs.mkdir(handle, "2026");
+
+      fs.setPermission(handle, "prompt");
+
+      await expect(fs.listDir(sub)).rejects.toMatchObject({
+        name: "NotAllowedError",
+      });
+    });
+
+    it("grants prompt permission on request", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const handle = fs.directory("nb");
+      fs.setPermission(handle, "prompt");
+
+      expect(await fs.requestPermission(handle)).toBe(true);
+      expect(await fs.listDir(handle)).toEqual([]);
+    });
+
+    it("can simulate the user refusing permission", async () => {
+      const fs = new MemoryFileSystemProvider({ grantOnRequest: false });
+      const handle = fs.directory("nb");
+      fs.setPermission(handle, "prompt");
+
+      expect(await fs.requestPermission(handle)).toBe(false);
+    });
+
+    it("never grants denied handles", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const handle = fs.directory("nb");
+      fs.setPermission(handle, "denied");
+
+      expect(await fs.requestPermission(handle)).toBe(false);
+    });
+  });
+
+  describe("with notebook and note storage", () => {
+    it("creates, saves, lists and reloads notes", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const { notebook, note } = await createNotebook(fs);
+
+      const content = note.content as {
+        content: Array<{ type: string; content?: unknown[] }>;
+      };
+      content.content[0].content = [{ type: "text", text: "Hello" }];
+      await saveNote(fs, notebook, note);
+      await createNote(fs, notebook);
+
+      const notes = await listNotes(fs, notebook);
+      expect(notes).toHaveLength(2);
+      expect(notes.map((n) => n.title)).toContain("Hello");
+
+      const reloaded = await loadNote(fs, notebook, note.path);
+      expect(extractTitle(reloaded.content)).toBe("Hello");
+    });
+
+    it("restores a persisted notebook and reconnects after revocation", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const { notebook } = await createNotebook(fs);
+
+      const opened = await openNotebook(fs);
+      expect(opened.meta.lastOpenedNote).toBe(notebook.meta.lastOpenedNote);
+
+      fs.revokePermissions();
+      const restored = await restoreNotebook(fs);
+      expect(restored?.needsPermission).toBe(true);
+
+      const reconnected = await reconnectNotebook(
+        fs,
+        restored?.notebook.handle as FileSystemDirectoryHandle,
+      );
+      expect(reconnected?.meta.lastOpenedNote).toBe(
+        notebook.meta.lastOpenedNote,
+      );
+    });
+
+    it("keeps the id it gives a notebook from before ids", async () => {
+      const fs = new MemoryFileSystemProvider();
+      const { notebook } = await createNotebook(fs);
+      const { id: _, ...old } = { ...notebook.meta, version: 2 };
+      await fs.writeTextFile(
+        notebook.handle,
+        "notebook.json",
+        JSON.stringify(old),
+      );
+
+      const opened = await openNotebook(fs);
+      const reopened = await openNotebook(fs);
+
+      expect(opened.meta.id).toEqual(expect.any(String));
+      expect(opened.meta.id).not.toBe(notebook.meta.id);
+      expect(reopened.meta.id).toBe(opened.meta.id);
+    });
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * In-memory implementation of FileSystemProvider.
+ *
+ * Holds a virtual directory tree of text and binary files. Used by unit
+ * tests, demos, and the scratch notebook that works without picking a
+ * folder. Nothing survives a page reload.
+ *
+ * Handles are plain objects typed as FileSystemDirectoryHandle; the provider
+ * maps each one back to its directory node. Only `kind` and `name` are
+ * meaningful on them, so they must not be passed to the File System Access
+ * API.
+ */
+
+import type { FileSystemProvider } from "./filesystem";
+
+/** Permission state of a handle, mirroring the File System Access API */
+export type MemoryPermissionState = "granted" | "prompt" | "denied";
+
+interface MemoryDirectory {
+  kind: "directory";
+  name: string;
+  parent: MemoryDirectory | null;
+  children: Map<string, MemoryEntry>;
+}
+
+interface MemoryFile {
+  kind: "file";
+  name: string;
+  data: Uint8Array;
+}
+
+type MemoryEntry = MemoryDirectory | MemoryFile;
+
+export interface MemoryFileSystemOptions {
+  /**
+   * Called by pickDirectory() to choose a directory, as a path from the
+   * virtual volume root. Return null to simulate the user cancelling.
+   * Defaults to always picking "notebook".
+   */
+  onPickDirectory?: () => Promise<string | null>;
+
+  /** Whether requestPermission() grants "prompt" handles (default true) */
+  grantOnRequest?: boolean;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function notFound(path: string): DOMException {
+  return new DOMException(`Not found: ${path}`, "NotFoundError");
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((p) => p.length > 0);
+}
+
+export class MemoryFileSystemProvider implements FileSystemProvider {
+  private volume: MemoryDirectory = {
+    kind: "directory",
+    name: "",
+    parent: null,
+    children: new Map(),
+  };
+  private dirs = new WeakMap<FileSystemDirectoryHandle, MemoryDirectory>();
+  private handles = new WeakMap<MemoryDirectory, FileSystemDirectoryHandle>();
+  private permissions = new WeakMap<MemoryDirectory, MemoryPermissionState>();
+  private persisted = new Map<string, FileSystemDirectoryHandle>();
+
+  private readonly onPickDirectory: () => Promise<string | null>;
+  private readonly grantOnRequest: boolean;
+
+  constructor(options: MemoryFileSystemOptions = {}) {
+    this.onPickDirectory =
+      options.onPickDirectory ?? (() => Promise.resolve("notebook"));
+    this.grantOnRequest = options.grantOnRequest ?? true;
+  }
+
+  /**
+   * Get a handle for a directory below the virtual volume root,
+   * creating it if needed. Does not involve the picker.
+   */
+  directory(path: string): FileSystemDirectoryHandle {
+    let current = this.volume;
+    for (const part of splitPath(path)) {
+      current = this.childDir(current, part, true, path);
+    }
+    return this.handleFor(current);
+  }
+
+  /**
+   * Set the permission state of a directory handle.
+   * Operations on the handle and everything below it fail unless an
+   * ancestor (or the handle itself) is "granted", which is the default.
+   */
+  setPermission(
+    handle: FileSystemDirectoryHandle,
+    state: MemoryPermissionState,
+  ): void {
+    this.permissions.set(this.resolveDir(handle), state);
+  }
+
+  /**
+   * Simulate a new browser session: every persisted handle drops back to
+   * "prompt" until requestPermission() is called on it.
+   */
+  revokePermissions(): void {
+    for (const handle of this.persisted.values()) {
+      this.permissions.set(this.resolveDir(handle), "prompt");
+    }
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    const path = await this.onPickDirectory();
+    if (path === null) {
+      throw new DOMException("The user aborted a request.", "AbortError");
+    }
+    return this.directory(path);
+  }
+
+  async readTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<string> {
+    const file = this.getFile(dir, path);
+    return decoder.decode(file.data);
+  }
+
+  async writeTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    content: string,
+  ): Promise<void> {
+    this.putFile(dir, path, encoder.encode(content));
+  }
+
+  async readBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<ArrayBuffer> {
+    const file = this.getFile(dir, path);
+    // Return a copy so callers can't mutate the stored bytes
+    return file.data.slice().buffer;
+  }
+
+  async writeBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    data: ArrayBuffer,
+  ): Promise<void> {
+    this.putFile(dir, path, new Uint8Array(data.slice(0)));
+  }
+
+  async mkdir(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<FileSystemDirectoryHandle> {
+    let current = this.accessibleDir(dir);
+    for (const part of splitPath(path)) {
+      current = this.childDir(current, part, true, path);
+    }
+    return this.handleFor(current);
+  }
+
+  async listDir(
+    dir: FileSystemDirectoryHandle,
+  ): Promise<Array<{ name: string; isDirectory: boolean }>> {
+    const current = this.accessibleDir(dir);
+    return [...current.children.values()].map((entry) => ({
+      name: entry.name,
+      isDirectory: entry.kind === "directory",
+    }));
+  }
+
+  async exists(dir: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+    return this.lookup(this.accessibleDir(dir), path) !== null;
+  }
+
+  async remove(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+    const { parent, name } = this.locate(dir, path);
+    if (!parent.children.delete(name)) throw notFound(path);
+  }
+
+  async rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    const source = this.locate(dir, from);
+    const entry = source.parent.children.get(source.name);
+    if (!entry) throw notFound(from);
+
+    const parts = splitPath(to);
+    const name = parts.pop();
+    if (!name) {
+      throw new Error("Invalid path: empty filename");
+    }
+    if (`${parts.join("/")}/`.startsWith(`${splitPath(from).join("/")}/`)) {
+      throw new Error(`Can't move ${from} into itself`);
+    }
+    let parent = this.accessibleDir(dir);
+    for (const part of parts) {
+      parent = this.childDir(parent, part, true, to);
+    }
+    if (parent.children.has(name)) {
+      throw new DOMException(
+        `Already exists: ${to}`,
+        "InvalidModificationError",
+      );
+    }
+
+    source.parent.children.delete(source.name);
+    if (entry.kind === "directory") entry.parent = parent;
+    entry.name = name;
+    parent.children.set(name, entry);
+  }
+
+  async persistHandle(
+    key: string,
+    handle: FileSystemDirectoryHandle,
+  ): Promise<void> {
+    this.persisted.set(key, handle);
+  }
+
+  async getPersistedHandle(key: string): Promise<{
+    handle: FileSystemDirectoryHandle;
+    needsPermission: boolean;
+  } | null> {
+    const handle = this.persisted.get(key);
+    if (!handle) return null;
+    const needsPermission =
+      this.permissionOf(this.resolveDir(handle)) !== "granted";
+    return { handle, needsPermission };
+  }
+
+  async requestPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    const dir = this.resolveDir(handle);
+    const state = this.permissionOf(dir);
+    if (state === "prompt" && this.grantOnRequest) {
+      this.permissions.set(dir, "granted");
+      return true;
+    }
+    return state === "granted";
+  }
+
+  // Helper: get or create the handle object for a directory node
+  private handleFor(dir: MemoryDirectory): FileSystemDirectoryHandle {
+    let handle = this.handles.get(dir);
+    if (!handle) {
+      handle = {
+        kind: "directory",
+        name: dir.name,
+      } as unknown as FileSystemDirectoryHandle;
+      this.handles.set(dir, handle);
+      this.dirs.set(handle, dir);
+    }
+    return handle;
+  }
+
+  // Helper: map a handle back to its directory node
+  private resolveDir(handle: FileSystemDirectoryHandle): MemoryDirectory {
+    const dir = this.dirs.get(handle);
+    if (!dir) {
+      throw new TypeError("Handle does not belong to this provider");
+    }
+    return dir;
+  }
+
+  // Helper: nearest explicit permission state, walking up to the volume root
+  private permissionOf(dir: MemoryDirectory): MemoryPermissionState {
+    for (let d: MemoryDirectory | null = dir; d; d = d.parent) {
+      const state = this.permissions.get(d);
+      if (state) return state;
+    }
+    return "granted";
+  }
+
+  // Helper: resolve a handle and check that it may be used
+  private accessibleDir(handle: FileSystemDirectoryHandle): MemoryDirectory {
+    const dir = this.resolveDir(handle);
+    if (this.permissionOf(dir) !== "granted") {
+      throw new DOMException(
+        `Permission not granted for ${dir.name}`,
+        "NotAllowedError",
+      );
+    }
+    return dir;
+  }
+
+  // Helper: get (and optionally create) a child directory
+  private childDir(
+    parent: MemoryDirectory,
+    name: string,
+    create: boolean,
+    path: string,
+  ): MemoryDirectory {
+    const entry = parent.children.get(name);
+    if (entry?.kind === "directory") return entry;
+    if (entry) {
+      throw new DOMException(`Not a directory: ${path}`, "TypeMismatchError");
+    }
+    if (!create) throw notFound(path);
+
+    const child: MemoryDirectory = {
+      kind: "directory",
+      name,
+      parent,
+      children: new Map(),
+    };
+    parent.children.set(name, child);
+    return child;
+  }
+
+  // Helper: find the entry at a path, or null
+  private lookup(dir: MemoryDirectory, path: string): MemoryEntry | null {
+    let current: MemoryEntry = dir;
+    for (const part of splitPath(path)) {
+      if (current.kind !== "directory") return null;
+      const next = current.children.get(part);
+      if (!next) return null;
+      current = next;
+    }
+    return current;
+  }
+
+  // Helper: find the directory holding the entry at a path, and its name
+  private locate(
+    handle: FileSystemDirectoryHandle,
+    path: string,
+  ): { parent: MemoryDirectory; name: string } {
+    const parts = splitPath(path);
+    const name = parts.pop();
+    if (!name) {
+      throw new Error("Invalid path: empty filename");
+    }
+    const parent = this.lookup(this.accessibleDir(handle), parts.join("/"));
+    if (parent?.kind !== "directory") throw notFound(path);
+    return { parent, name };
+  }
+
+  // Helper: navigate to a file at a path
+  private getFile(handle: FileSystemDirectoryHandle, path: string): MemoryFile {
+    const entry = this.lookup(this.accessibleDir(handle), path);
+    if (!entry) throw notFound(path);
+    if (entry.kind !== "file") {
+      throw new DOMException(`Not a file: ${path}`, "TypeMismatchError");
+    }
+    return entry;
+  }
+
+  // Helper: write a file, creating parent directories as needed
+  private putFile(
+    handle: FileSystemDirectoryHandle,
+    path: string,
+    data: Uint8Array,
+  ): void {
+    const parts = splitPath(path);
+    const fileName = parts.pop();
+    if (!fileName) {
+      throw new Error("Invalid path: empty filename");
+    }
+    let current = this.accessibleDir(handle);
+    for (const part of parts) {
+      current = this.childDir(current, part, true, path);
+    }
+    if (current.children.get(fileName)?.kind === "directory") {
+      throw new DOMException(`Not a file: ${path}`, "TypeMismatchError");
+    }
+    current.children.set(fileName, { kind: "file", name: fileName, data });
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { NOTE_VERSION, NOTEBOOK_VERSION } from "./constants";
+import {
+  encodeNoteFile,
+  migrateNotebookMeta,
+  migrateNoteFile,
+  noteFileModified,
+} from "./migrations";
+
+const v1Doc = {
+  type: "doc",
+  content: [
+    { type: "title" },
+    { type: "created", attrs: { timestamp: 1 } },
+    { type: "paragraph" },
+  ],
+};
+
+const currentDoc = {
+  type: "doc",
+  content: [
+    { type: "title" },
+    { type: "created", attrs: { timestamp: 1 } },
+    { type: "labels", attrs: { labels: [] } },
+    { type: "paragraph" },
+  ],
+};
+
+describe("migrateNoteFile", () => {
+  it("migrates a bare version 1 document", () => {
+    expect(migrateNoteFile(v1Doc)).toEqual(currentDoc);
+  });
+
+  it("unwraps and migrates versioned notes", () => {
+    expect(migrateNoteFile({ version: 1, doc: v1Doc })).toEqual(currentDoc);
+    expect(migrateNoteFile({ version: NOTE_VERSION, doc: currentDoc })).toEqual(
+      currentDoc,
+    );
+  });
+
+  it("reads what encodeNoteFile writes", () => {
+    const text = encodeNoteFile(currentDoc);
+    expect(JSON.parse(text).version).toBe(NOTE_VERSION);
+    expect(migrateNoteFile(JSON.parse(text))).toEqual(currentDoc);
+  });
+
+  it("stamps the envelope with the modification time", () => {
+    const data = JSON.parse(encodeNoteFile(currentDoc, 1234));
+    expect(noteFileModified(data)).toBe(1234);
+    expect(migrateNoteFile(data)).toEqual(currentDoc);
+    expect(noteFileModified(JSON.parse(encodeNoteFile(currentDoc)))).toBe(
+      undefined,
+    );
+    expect(noteFileModified(v1Doc)).toBe(undefined);
+  });
+
+  it("rejects notes from a newer version", () => {
+    expect(() =>
+      migrateNoteFile({ version: NOTE_VERSION + 1, doc: currentDoc }),
+    ).toThrow(/newer version/);
+  });
+
+  it("rejects files that aren't notes", () => {
+    expect(() => migrateNoteFile(null)).toThrow(/not a JSON object/);
+    expect(() => migrateNoteFile({})).toThrow(/no document/);
+    expect(() => migrateNoteFile({ version: "x", doc: currentDoc })).toThrow(
+      /Invalid note version/,
+    );
+  });
+});
+
+describe("migrateNotebookMeta", () => {
+  it("treats a missing version as version 1", () => {
+    expect(migrateNotebookMeta({ lastOpenedNote: null })).toEqual({
+      version: NOTEBOOK_VERSION,
+      id: expect.any(String),
+      lastOpenedNote: null,
+      journal: {},
+    });
+  });
+
+  it("adds an empty journal to version 1 notebooks", () => {
+    const journal = { "2026/01/26": "2026/01/26/2" };
+    expect(
+      migrateNotebookMeta({ version: 1, lastOpenedNote: "2026/01/26/2" }),
+    ).toMatchObject({ lastOpenedNote: "2026/01/26/2", journal: {} });
+    expect(
+      migrateNotebookMeta({ version: 2, lastOpenedNote: null, journal }),
+    ).toMatchObject({ lastOpenedNote: null, journal });
+  });
+
+  it("gives version 2 notebooks an id of their own", () => {
+    const meta = { version: 2, lastOpenedNote: null, journal: {} };
+    const first = migrateNotebookMeta(meta);
+    const second = migrateNotebookMeta(meta);
+
+    expect(first).toEqual({ ...meta, version: 3, id: expect.any(String) });
+    expect(first.id).not.toBe(second.id);
+    expect(migrateNotebookMeta({ ...meta, id: "kept" }).id).toBe("kept");
+  });
+
+  it("rejects notebooks from a newer version", () => {
+    expect(() =>
+      migrateNotebookMeta({ version: NOTEBOOK_VERSION + 1 }),
+    ).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * File format versions and the migrations between them.
+ *
+ * note.json is an envelope around the ProseMirror document:
+ *
+ *   { "version": 2, "modified": 1769420000000, "doc": { "type": "doc", ... } }
+ *
+ * `modified` is when the app last wrote the file; saveNote compares it to
+ * tell whether the note was changed elsewhere since it was loaded. Files
+ * written before it was added lack it.
+ *
+ * Version 1 notes predate the envelope and are the bare document. Each
+ * migration takes a document from one version to the next, so a note of
+ * any older version is brought up to date by running the migrations after
+ * its version in order. notebook.json carries its own `version` and has a
+ * migration list of its own.
+ *
+ * Migrations work on plain JSON. They must not assume anything introduced
+ * by a later version, and must leave input they don't understand alone
+ * (validation against the schema happens after migrating).
+ */
+
+import { NOTE_VERSION, NOTEBOOK_VERSION } from "./constants";
+
+interface JsonNode {
+  type?: string;
+  attrs?: Record<string, unknown>;
+  content?: JsonNode[];
+}
+
+type NoteMigration = (doc: JsonNode) => JsonNode;
+
+type NotebookMigration = (
+  meta: Record<string, unknown>,
+) => Record<string, unknown>;
+
+/** 1 → 2: `title created block+` becomes `title created labels block+` */
+const addLabelsNode: NoteMigration = (doc) => {
+  const content = doc.content ?? [];
+  if (content.some((node) => node.type === "labels")) return doc;
+
+  const created = content.findIndex((node) => node.type === "created");
+  if (created === -1) return doc;
+
+  const labels: JsonNode = { type: "labels", attrs: { labels: [] } };
+  return {
+    ...doc,
+    content: [
+      ...content.slice(0, created + 1),
+      labels,
+      ...content.slice(created + 1),
+    ],
+  };
+};
+
+/** NOTE_MIGRATIONS[n] migrates a note from version n to n + 1 */
+const NOTE_MIGRATIONS: Record<number, NoteMigration> = {
+  1: addLabelsNode,
+};
+
+/** 1 → 2: notebooks remember the journal note of each day */
+const addJournal: NotebookMigration = (meta) =>
+  meta.journal && typeof meta.journal === "object"
+    ? meta
+    : { ...meta, journal: {} };
+
+/** 2 → 3: notebooks get an id that doesn't change with their folder name */
+const addId: NotebookMigration = (meta) =>
+  typeof meta.id === "string" && meta.id !== ""
+    ? meta
+    : { ...meta, id: crypto.randomUUID() };
+
+/** NOTEBOOK_MIGRATIONS[n] migrates notebook.json from version n to n + 1 */
+const NOTEBOOK_MIGRATIONS: Record<number, NotebookMigration> = {
+  1: addJournal,
+  2: addId,
+};
+
+/**
+ * Run the migrations from `version` up to `target`.
+ * Throws for versions newer than this app, or with a migration missing.
+ */
+function migrate<T>(
+  value: T,
+  version: number,
+  target: number,
+  migrations: Record<number, (value: T) => T>,
+  what: string,
+): T {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid ${what} version: ${version}`);
+  }
+  if (version > target) {
+    throw new Error(
+      `This ${what} was saved by a newer version of the app (format ${version})`,
+    );
+  }
+  let migrated = value;
+  for (let v = version; v < target; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`No migration for ${what} version ${v}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Read the contents of a note.json: unwrap the envelope (or take a bare
+ * version 1 document) and migrate the document to the current version.
+ * Throws if the data isn't a note or comes from a newer app.
+ */
+export function migrateNoteFile(data: unknown): unknown {
+  if (!data || typeof data !== "object") {
+    throw new Error("Note file is not a JSON object");
+  }
+
+  const envelope = data as { version?: unknown; doc?: unknown };
+  const bare = (data as JsonNode).type === "doc";
+  const version = bare ? 1 : Number(envelope.version);
+  const doc = bare ? data : envelope.doc;
+  if (!doc || typeof doc !== "object" || (doc as JsonNode).type !== "doc") {
+    throw new Error("Note file has no document");
+  }
+
+  return migrate(
+    doc as JsonNode,
+    version,
+    NOTE_VERSION,
+    NOTE_MIGRATIONS,
+    "note",
+  );
+}
+
+/**
+ * When a note.json was written, from its envelope. Undefined for files
+ * without a timestamp.
+ */
+export function noteFileModified(data: unknown): number | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  const { modified } = data as { modified?: unknown };
+  return typeof modified === "number" && Number.isFinite(modified)
+    ? modified
+    : undefined;
+}
+
+/**
+ * Serialize a note document (current version) as note.json contents,
+ * stamped with the time it was `modified` if given.
+ */
+export function encodeNoteFile(content: unknown, modified?: number): string {
+  return JSON.stringify(
+    { version: NOTE_VERSION, modified, doc: content },
+    null,
+    2,
+  );
+}
+
+/**
+ * Migrate parsed notebook.json contents to the current version. A missing
+ * version counts as version 1.
+ */
+export function migrateNotebookMeta(data: unknown): Record<string, unknown> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Notebook file is not a JSON object");
+  }
+  const meta = data as Record<string, unknown>;
+  const version = meta.version === undefined ? 1 : Number(meta.version);
+  const migrated = migrate(
+    meta,
+    version,
+    NOTEBOOK_VERSION,
+    NOTEBOOK_MIGRATIONS,
+    "notebook",
+  );
+  return { ...migrated, version: NOTEBOOK_VERSION };
+}
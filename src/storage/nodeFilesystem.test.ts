@@ -0,0 +1,89 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NodeFileSystemProvider } from "./nodeFilesystem";
+import { listNotes } from "./note";
+import { createNotebook, openNotebook } from "./notebook";
+
+describe("NodeFileSystemProvider", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "reflection-notes-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("round-trips text and binary files, creating parents", async () => {
+    const fs = new NodeFileSystemProvider();
+    const dir = fs.directory(root);
+
+    await fs.writeTextFile(dir, "a/b/c.txt", "héllo");
+    await fs.writeBinaryFile(dir, "a/img.png", new Uint8Array([1, 2]).buffer);
+
+    expect(await fs.readTextFile(dir, "a/b/c.txt")).toBe("héllo");
+    const bytes = new Uint8Array(await fs.readBinaryFile(dir, "a/img.png"));
+    expect([...bytes]).toEqual([1, 2]);
+  });
+
+  it("leaves no temporary files behind", async () => {
+    const fs = new NodeFileSystemProvider();
+    const dir = fs.directory(root);
+
+    await fs.writeTextFile(dir, "x.txt", "1");
+    await fs.writeTextFile(dir, "x.txt", "2");
+
+    expect(await readdir(root)).toEqual(["x.txt"]);
+  });
+
+  it("lists directories and checks existence", async () => {
+    const fs = new NodeFileSystemProvider();
+    const dir = fs.directory(root);
+    const sub = await fs.mkdir(dir, "2026/01");
+    await fs.writeTextFile(sub, "f.txt", "");
+
+    const entries = await fs.listDir(await fs.mkdir(dir, "2026"));
+
+    expect(entries).toEqual([{ name: "01", isDirectory: true }]);
+    expect(await fs.exists(dir, "2026/01/f.txt")).toBe(true);
+    expect(await fs.exists(dir, "2026/02")).toBe(false);
+  });
+
+  it("removes and renames directories", async () => {
+    const fs = new NodeFileSystemProvider();
+    const dir = fs.directory(root);
+    await fs.writeTextFile(dir, "a/b/c.txt", "hi");
+    await fs.writeTextFile(dir, "x/y.txt", "");
+
+    await fs.rename(dir, "a/b", "d/e");
+    await fs.remove(dir, "x");
+
+    expect(await fs.readTextFile(dir, "d/e/c.txt")).toBe("hi");
+    expect((await readdir(root)).sort()).toEqual(["a", "d"]);
+    await expect(fs.rename(dir, "d", "a")).rejects.toThrow("Already exists");
+  });
+
+  it("returns the same handle for the same directory", async () => {
+    const fs = new NodeFileSystemProvider();
+    const dir = fs.directory(root);
+    expect(await fs.mkdir(dir, "sub")).toBe(fs.directory(join(root, "sub")));
+  });
+
+  it("runs the notebook storage functions", async () => {
+    const fs = new NodeFileSystemProvider({ pickPath: root });
+    await createNotebook(fs);
+
+    const notebook = await openNotebook(fs);
+
+    expect(await listNotes(fs, notebook)).toHaveLength(1);
+  });
+
+  it("rejects pickDirectory without a configured path", async () => {
+    await expect(new NodeFileSystemProvider().pickDirectory()).rejects.toThrow(
+      /No notebook directory/,
+    );
+  });
+});
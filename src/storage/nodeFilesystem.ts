@@ -0,0 +1,181 @@
+/// <reference types="node" />
+/**
+ * Node.js implementation of FileSystemProvider, on top of fs/promises.
+ *
+ * Lets the storage functions in note.ts and notebook.ts run outside a
+ * browser (command-line tool, scripts, CI). Handles are plain objects typed
+ * as FileSystemDirectoryHandle that the provider maps back to absolute
+ * paths; they must not be passed to the File System Access API.
+ */
+
+import {
+  access,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { basename, dirname, resolve } from "node:path";
+import type { FileSystemProvider } from "./filesystem";
+
+export interface NodeFileSystemOptions {
+  /** Directory returned by pickDirectory(), e.g. from a command-line argument */
+  pickPath?: string;
+}
+
+export class NodeFileSystemProvider implements FileSystemProvider {
+  private paths = new WeakMap<FileSystemDirectoryHandle, string>();
+  private handles = new Map<string, FileSystemDirectoryHandle>();
+  private persisted = new Map<string, FileSystemDirectoryHandle>();
+  private readonly pickPath: string | null;
+
+  constructor(options: NodeFileSystemOptions = {}) {
+    this.pickPath = options.pickPath ?? null;
+  }
+
+  /**
+   * Get a handle for a directory on disk. The directory need not exist yet.
+   */
+  directory(path: string): FileSystemDirectoryHandle {
+    const absolute = resolve(path);
+    let handle = this.handles.get(absolute);
+    if (!handle) {
+      handle = {
+        kind: "directory",
+        name: basename(absolute),
+      } as unknown as FileSystemDirectoryHandle;
+      this.handles.set(absolute, handle);
+      this.paths.set(handle, absolute);
+    }
+    return handle;
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    if (this.pickPath === null) {
+      throw new Error("No notebook directory given");
+    }
+    return this.directory(this.pickPath);
+  }
+
+  async readTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<string> {
+    return await readFile(this.resolve(dir, path), "utf8");
+  }
+
+  async writeTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    content: string,
+  ): Promise<void> {
+    await this.writeAtomic(this.resolve(dir, path), content);
+  }
+
+  async readBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<ArrayBuffer> {
+    const buffer = await readFile(this.resolve(dir, path));
+    // Copy out of Node's pooled Buffer memory
+    return new Uint8Array(buffer).buffer;
+  }
+
+  async writeBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    data: ArrayBuffer,
+  ): Promise<void> {
+    await this.writeAtomic(this.resolve(dir, path), new Uint8Array(data));
+  }
+
+  async mkdir(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<FileSystemDirectoryHandle> {
+    const absolute = this.resolve(dir, path);
+    await mkdir(absolute, { recursive: true });
+    return this.directory(absolute);
+  }
+
+  async listDir(
+    dir: FileSystemDirectoryHandle,
+  ): Promise<Array<{ name: string; isDirectory: boolean }>> {
+    const entries = await readdir(this.resolve(dir, ""), {
+      withFileTypes: true,
+    });
+    return entries
+      .filter((e) => e.isDirectory() || e.isFile())
+      .map((e) => ({ name: e.name, isDirectory: e.isDirectory() }));
+  }
+
+  async exists(dir: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+    try {
+      await access(this.resolve(dir, path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async remove(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+    await rm(this.resolve(dir, path), { recursive: true });
+  }
+
+  async rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    const target = this.resolve(dir, to);
+    // rename() would replace an existing file or empty directory
+    if (await this.exists(dir, to)) {
+      throw new Error(`Already exists: ${to}`);
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await rename(this.resolve(dir, from), target);
+  }
+
+  /** Handles are only remembered for the lifetime of the process */
+  async persistHandle(
+    key: string,
+    handle: FileSystemDirectoryHandle,
+  ): Promise<void> {
+    this.persisted.set(key, handle);
+  }
+
+  async getPersistedHandle(key: string): Promise<{
+    handle: FileSystemDirectoryHandle;
+    needsPermission: boolean;
+  } | null> {
+    const handle = this.persisted.get(key);
+    return handle ? { handle, needsPermission: false } : null;
+  }
+
+  /** Permissions are the operating system's business */
+  async requestPermission(): Promise<boolean> {
+    return true;
+  }
+
+  // Helper: absolute path of `path` relative to a handle
+  private resolve(dir: FileSystemDirectoryHandle, path: string): string {
+    const base = this.paths.get(dir);
+    if (base === undefined) {
+      throw new TypeError("Handle does not belong to this provider");
+    }
+    return resolve(base, path);
+  }
+
+  // Helper: write via a temporary file so readers never see a partial file
+  private async writeAtomic(
+    path: string,
+    data: string | Uint8Array,
+  ): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    const temp = `${path}.${process.pid}.tmp`;
+    await writeFile(temp, data);
+    await rename(temp, path);
+  }
+}
@@ -1,12 +1,30 @@
 import { describe, expect, it, vi } from "vitest";
 import type { FileSystemProvider } from "./filesystem";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
 import {
   createBlankDocument,
+  createNote,
+  deleteNote,
+  emptyTrash,
+  exportNoteMarkdown,
   extractCreated,
   extractTitle,
+  InvalidNoteError,
+  importMarkdownNote,
+  listBacklinks,
+  listLabels,
+  listNotes,
+  listTrash,
+  loadNote,
   loadNoteOrCreateDefault,
+  moveNote,
+  NoteConflictError,
+  normalizeNotePath,
+  onNoteRemoved,
+  restoreNote,
+  saveNote,
 } from "./note";
-import type { Notebook } from "./notebook";
+import { createNotebook, type Notebook } from "./notebook";
 
 describe("extractTitle", () => {
   it("extracts title from valid document", () => {
@@ -204,7 +222,7 @@ describe("extractCreated", () => {
 });
 
 describe("createBlankDocument", () => {
-  it("creates document with title, created, and paragraph nodes", () => {
+  it("creates document with title, created, labels and paragraph nodes", () => {
     const timestamp = 1707350400000;
     const doc = createBlankDocument(timestamp) as {
       type: string;
@@ -212,11 +230,12 @@ describe("createBlankDocument", () => {
     };
 
     expect(doc.type).toBe("doc");
-    expect(doc.content).toHaveLength(3);
+    expect(doc.content).toHaveLength(4);
     expect(doc.content[0].type).toBe("title");
     expect(doc.content[1].type).toBe("created");
     expect(doc.content[1].attrs?.timestamp).toBe(timestamp);
-    expect(doc.content[2].type).toBe("paragraph");
+    expect(doc.content[2].type).toBe("labels");
+    expect(doc.content[3].type).toBe("paragraph");
   });
 
   it("creates document that extractTitle returns Untitled for", () => {
@@ -266,6 +285,8 @@ describe("loadNoteOrCreateDefault", () => {
       listDir: vi.fn(),
       readBinaryFile: vi.fn(),
       writeBinaryFile: vi.fn(),
+      remove: vi.fn(),
+      rename: vi.fn(),
       persistHandle: vi.fn(),
       getPersistedHandle: vi.fn(),
       requestPermission: vi.fn(),
@@ -275,7 +296,7 @@ describe("loadNoteOrCreateDefault", () => {
   function createMockNotebook(): Notebook {
     return {
       handle: {} as FileSystemDirectoryHandle,
-      meta: { version: 1, lastOpenedNote: null },
+      meta: { version: 3, id: "test", lastOpenedNote: null, journal: {} },
       name: "Test Notebook",
     };
   }
@@ -335,3 +356,471 @@ describe("loadNoteOrCreateDefault", () => {
     expect(extractCreated(result.note.content)).toBeGreaterThan(0);
   });
 });
+
+describe("exportNoteMarkdown", () => {
+  it("writes note.md next to note.json", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+
+    const path = await exportNoteMarkdown(fs, notebook, note);
+
+    expect(path).toBe(`${note.path}/note.md`);
+    const markdown = await fs.readTextFile(notebook.handle, path);
+    expect(markdown).toMatch(/^---\ncreated: .*\n---\n\n# \n/);
+  });
+});
+
+describe("importMarkdownNote", () => {
+  function imagePaths(content: unknown): string[] {
+    const json = JSON.stringify(content);
+    return [...json.matchAll(/"src":"([^"]*)"/g)].map((m) => m[1]);
+  }
+
+  it("creates a note with the parsed content", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+
+    const { note, missingImages } = await importMarkdownNote(
+      fs,
+      notebook,
+      "---\ncreated: 2024-02-08T00:00:00.000Z\n---\n# Imported\n\nBody",
+      async () => null,
+    );
+
+    expect(missingImages).toEqual([]);
+    expect(extractTitle(note.content)).toBe("Imported");
+    expect(extractCreated(note.content)).toBe(1707350400000);
+    const saved = await loadNote(fs, notebook, note.path);
+    expect(saved.content).toEqual(note.content);
+  });
+
+  it("copies local images into the note directory", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+    const resolveImage = vi.fn(
+      async (path: string) =>
+        new File([new Uint8Array([1, 2, 3])], path.split("/").pop() ?? path, {
+          type: "image/png",
+        }),
+    );
+
+    const { note } = await importMarkdownNote(
+      fs,
+      notebook,
+      "![a](images/my%20pic.png)\n\n![b](images/my%20pic.png)",
+      resolveImage,
+    );
+
+    expect(resolveImage).toHaveBeenCalledTimes(1);
+    expect(resolveImage).toHaveBeenCalledWith("images/my pic.png");
+    const [first, second] = imagePaths(note.content);
+    expect(first).toMatch(/^[0-9A-Z]{26}-mypic\.png$/);
+    expect(second).toBe(first);
+    const data = await fs.readBinaryFile(
+      notebook.handle,
+      `${note.path}/${first}`,
+    );
+    expect(new Uint8Array(data)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("reports images that can't be imported and leaves URLs alone", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+
+    const { note, missingImages } = await importMarkdownNote(
+      fs,
+      notebook,
+      "![](gone.png) ![](doc.svg) ![](https://example.com/x.png)",
+      async (path) =>
+        path === "doc.svg"
+          ? new File(["<svg/>"], path, { type: "image/svg+xml" })
+          : null,
+    );
+
+    expect(missingImages).toEqual(["gone.png", "doc.svg"]);
+    expect(imagePaths(note.content)).toEqual([
+      "gone.png",
+      "doc.svg",
+      "https://example.com/x.png",
+    ]);
+  });
+});
+
+describe("loadNote", () => {
+  it("adds a labels node to notes saved before labels existed", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await fs.writeTextFile(
+      notebook.handle,
+      `${note.path}/note.json`,
+      JSON.stringify({
+        type: "doc",
+        content: [
+          { type: "title" },
+          { type: "created", attrs: { timestamp: 1 } },
+          { type: "paragraph" },
+        ],
+      }),
+    );
+
+    const loaded = await loadNote(fs, notebook, note.path);
+    expect(loaded.content).toEqual({
+      type: "doc",
+      content: [
+        { type: "title" },
+        { type: "created", attrs: { timestamp: 1 } },
+        { type: "labels", attrs: { labels: [] } },
+        { type: "paragraph" },
+      ],
+    });
+  });
+});
+
+describe("note file format", () => {
+  it("saves notes in a versioned envelope", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await saveNote(fs, notebook, note);
+
+    const file = JSON.parse(
+      await fs.readTextFile(notebook.handle, `${note.path}/note.json`),
+    );
+    expect(file).toEqual({
+      version: 2,
+      modified: note.modified,
+      doc: note.content,
+    });
+    expect((await loadNote(fs, notebook, note.path)).content).toEqual(
+      note.content,
+    );
+  });
+
+  it("reports damaged notes with their text", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const path = `${note.path}/note.json`;
+
+    for (const text of [
+      "{ not json",
+      JSON.stringify({ version: 2, doc: { type: "doc", content: [] } }),
+      JSON.stringify({ version: 99, doc: note.content }),
+    ]) {
+      await fs.writeTextFile(notebook.handle, path, text);
+      const error = await loadNote(fs, notebook, note.path).catch((e) => e);
+      expect(error).toBeInstanceOf(InvalidNoteError);
+      expect(error.path).toBe(note.path);
+      expect(error.text).toBe(text);
+    }
+  });
+
+  it("opens a new note in place of a damaged last note", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await fs.writeTextFile(notebook.handle, `${note.path}/note.json`, "[]");
+
+    const result = await loadNoteOrCreateDefault(fs, notebook, note.path);
+    expect(result.didCreate).toBe(true);
+    expect(result.note.path).not.toBe(note.path);
+    expect(result.invalidNote?.path).toBe(note.path);
+  });
+});
+
+describe("saveNote", () => {
+  function withTitle(content: unknown, title: string): unknown {
+    const doc = structuredClone(content) as { content: unknown[] };
+    doc.content[0] = {
+      type: "title",
+      content: [{ type: "text", text: title }],
+    };
+    return doc;
+  }
+
+  it("stamps notes with the time they were saved", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+
+    await saveNote(fs, notebook, note, { now: 5000 });
+
+    expect(note.modified).toBe(5000);
+    expect((await loadNote(fs, notebook, note.path)).modified).toBe(5000);
+    expect((await listNotes(fs, notebook))[0].modified).toBe(5000);
+  });
+
+  it("refuses to overwrite a note changed elsewhere", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const other = await loadNote(fs, notebook, note.path);
+    other.content = withTitle(other.content, "Theirs");
+    await saveNote(fs, notebook, other, { now: 6000 });
+
+    note.content = withTitle(note.content, "Mine");
+    const error = await saveNote(fs, notebook, note).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NoteConflictError);
+    expect(error.path).toBe(note.path);
+    expect(error.theirs).toEqual(other);
+    const onDisk = await loadNote(fs, notebook, note.path);
+    expect(extractTitle(onDisk.content)).toBe("Theirs");
+  });
+
+  it("overwrites changes made elsewhere when forced", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await fs.writeTextFile(notebook.handle, `${note.path}/note.json`, "{");
+
+    const error = await saveNote(fs, notebook, note).catch((e) => e);
+    expect(error).toBeInstanceOf(NoteConflictError);
+    expect(error.theirs).toBeNull();
+
+    await saveNote(fs, notebook, note, { force: true, now: 7000 });
+    expect((await loadNote(fs, notebook, note.path)).modified).toBe(7000);
+  });
+
+  it("saves again after its own saves", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+
+    await saveNote(fs, notebook, note);
+    await saveNote(fs, notebook, note);
+
+    expect(await loadNote(fs, notebook, note.path)).toEqual(note);
+  });
+
+  it("treats a note deleted or moved elsewhere as a conflict", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await fs.remove(notebook.handle, note.path);
+
+    const error = await saveNote(fs, notebook, note).catch((e) => e);
+    expect(error).toBeInstanceOf(NoteConflictError);
+    expect(error.theirs).toBeNull();
+    expect(await fs.exists(notebook.handle, note.path)).toBe(false);
+
+    // Without a stamp there's nothing to go by: the note is written
+    await saveNote(fs, notebook, { ...note, modified: undefined });
+    expect(await fs.exists(notebook.handle, `${note.path}/note.json`)).toBe(
+      true,
+    );
+  });
+});
+
+describe("labels", () => {
+  async function notebookWithLabels(...labelSets: string[][]) {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const notes = [note];
+    for (let i = 1; i < labelSets.length; i++) {
+      notes.push(await createNote(fs, notebook));
+    }
+    for (const [i, labels] of labelSets.entries()) {
+      const content = notes[i].content as {
+        content: Array<{ type: string; attrs?: unknown }>;
+      };
+      content.content[2].attrs = { labels };
+      await saveNote(fs, notebook, notes[i]);
+    }
+    return { fs, notebook, notes };
+  }
+
+  it("lists notes with a label, ignoring case", async () => {
+    const { fs, notebook, notes } = await notebookWithLabels(
+      ["work"],
+      ["Work", "ideas"],
+      [],
+    );
+
+    const labelled = await listNotes(fs, notebook, "WORK");
+    expect(labelled.map((n) => n.path).sort()).toEqual(
+      [notes[0].path, notes[1].path].sort(),
+    );
+    expect(await listNotes(fs, notebook, "none")).toEqual([]);
+    expect(await listNotes(fs, notebook)).toHaveLength(3);
+  });
+
+  it("counts labels across the notebook", async () => {
+    const { fs, notebook } = await notebookWithLabels(
+      ["work"],
+      ["Work", "ideas"],
+      [],
+    );
+
+    expect(await listLabels(fs, notebook)).toEqual([
+      { label: "ideas", count: 1 },
+      { label: "work", count: 2 },
+    ]);
+  });
+});
+
+/** Make `from` link to `to` and save it */
+async function link(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  from: { path: string; content: unknown },
+  to: string,
+) {
+  const content = from.content as { content: unknown[] };
+  content.content.push({
+    type: "paragraph",
+    content: [
+      {
+        type: "text",
+        text: "link",
+        marks: [{ type: "link", attrs: { href: `note:${to}` } }],
+      },
+    ],
+  });
+  await saveNote(fs, notebook, from);
+}
+
+describe("listBacklinks", () => {
+  it("lists the notes linking to a note", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: target } = await createNotebook(fs);
+    const linking = await createNote(fs, notebook);
+    const other = await createNote(fs, notebook);
+    await link(fs, notebook, linking, target.path);
+    await link(fs, notebook, other, linking.path);
+    // A note linking to itself isn't its own backlink
+    await link(fs, notebook, target, target.path);
+
+    const backlinks = await listBacklinks(fs, notebook, target.path);
+    expect(backlinks.map((n) => n.path)).toEqual([linking.path]);
+    expect(await listBacklinks(fs, notebook, other.path)).toEqual([]);
+  });
+});
+
+describe("normalizeNotePath", () => {
+  it("pads dates and trims slashes and leading zeros", () => {
+    expect(normalizeNotePath("2026/1/5/03/")).toBe("2026/01/05/3");
+    expect(normalizeNotePath(" /2026/01/05/12 ")).toBe("2026/01/05/12");
+  });
+
+  it("rejects paths that aren't note paths", () => {
+    expect(normalizeNotePath("2026/01/05")).toBeNull();
+    expect(normalizeNotePath("2026/02/30/1")).toBeNull();
+    expect(normalizeNotePath("2026/13/01/1")).toBeNull();
+    expect(normalizeNotePath("2026/01/05/0")).toBeNull();
+    expect(normalizeNotePath("2026/01/05/x")).toBeNull();
+    expect(normalizeNotePath("../01/05/1")).toBeNull();
+  });
+});
+
+describe("moveNote", () => {
+  it("moves the note, its index entry and links to it", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const other = await createNote(fs, notebook);
+    await link(fs, notebook, other, note.path);
+    const removed: string[] = [];
+    onNoteRemoved(notebook, (path) => removed.push(path));
+
+    const moved = await moveNote(fs, notebook, note.path, "2020/2/1/1");
+
+    expect(moved.path).toBe("2020/02/01/1");
+    expect(await fs.exists(notebook.handle, note.path)).toBe(false);
+    expect(removed).toEqual([note.path]);
+    expect((await listNotes(fs, notebook)).map((n) => n.path).sort()).toEqual(
+      [moved.path, other.path].sort(),
+    );
+    expect(await listBacklinks(fs, notebook, moved.path)).toHaveLength(1);
+    expect(
+      JSON.stringify((await loadNote(fs, notebook, other.path)).content),
+    ).toContain(`"note:${moved.path}"`);
+  });
+
+  it("updates the last opened note", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+
+    await moveNote(fs, notebook, note.path, "2020/02/01/1");
+
+    expect(notebook.meta.lastOpenedNote).toBe("2020/02/01/1");
+    const meta = JSON.parse(
+      await fs.readTextFile(notebook.handle, "notebook.json"),
+    );
+    expect(meta.lastOpenedNote).toBe("2020/02/01/1");
+  });
+
+  it("removes date directories left empty", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+
+    await moveNote(fs, notebook, note.path, "2020/02/01/1");
+
+    const year = note.path.split("/")[0];
+    expect(await fs.exists(notebook.handle, year)).toBe(false);
+  });
+
+  it("refuses invalid or taken paths", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const other = await createNote(fs, notebook);
+
+    await expect(moveNote(fs, notebook, note.path, "notes/1")).rejects.toThrow(
+      "not a note path",
+    );
+    await expect(moveNote(fs, notebook, note.path, other.path)).rejects.toThrow(
+      "already a note",
+    );
+    expect(await fs.exists(notebook.handle, note.path)).toBe(true);
+  });
+});
+
+describe("trash", () => {
+  it("moves deleted notes to the trash and restores them", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const other = await createNote(fs, notebook);
+    const removed: string[] = [];
+    onNoteRemoved(notebook, (path) => removed.push(path));
+
+    const trashed = await deleteNote(fs, notebook, note.path);
+
+    expect(removed).toEqual([note.path]);
+    expect(await fs.exists(notebook.handle, note.path)).toBe(false);
+    expect(await fs.exists(notebook.handle, `.trash/${trashed.id}`)).toBe(true);
+    expect((await listNotes(fs, notebook)).map((n) => n.path)).toEqual([
+      other.path,
+    ]);
+    expect(notebook.meta.lastOpenedNote).toBeNull();
+    expect(await listTrash(fs, notebook)).toEqual([trashed]);
+
+    const restored = await restoreNote(fs, notebook, trashed.id);
+
+    expect(restored).toEqual(note);
+    expect(await listTrash(fs, notebook)).toEqual([]);
+    expect(await fs.exists(notebook.handle, `${note.path}/trash.json`)).toBe(
+      false,
+    );
+    expect(await listNotes(fs, notebook)).toHaveLength(2);
+  });
+
+  it("restores to a free path if the old one was taken", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const trashed = await deleteNote(fs, notebook, note.path);
+    // The new note reuses the number of the deleted one
+    const replacement = await createNote(fs, notebook);
+    expect(replacement.path).toBe(note.path);
+
+    const restored = await restoreNote(fs, notebook, trashed.id);
+
+    expect(restored.path).not.toBe(note.path);
+    expect(restored.path.split("/").slice(0, 3)).toEqual(
+      note.path.split("/").slice(0, 3),
+    );
+  });
+
+  it("empties the trash", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    const trashed = await deleteNote(fs, notebook, note.path);
+
+    await emptyTrash(fs, notebook);
+
+    expect(await listTrash(fs, notebook)).toEqual([]);
+    await expect(restoreNote(fs, notebook, trashed.id)).rejects.toThrow(
+      "no longer in the trash",
+    );
+  });
+});
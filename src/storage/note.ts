@@ -1,13 +1,34 @@
-import { schema } from "../editor/schema";
-import { NOTE_FILE } from "./constants";
+import { Node } from "prosemirror-model";
+import { hasLabel, labelKey } from "../editor/labels";
+import { markdownToNote, noteToMarkdown } from "../editor/markdown";
+import { noteHref, parseNoteHref, schema } from "../editor/schema";
+import { MARKDOWN_FILE, NOTE_FILE, TRASH_DIR, TRASH_FILE } from "./constants";
 import type { FileSystemProvider } from "./filesystem";
-import type { Notebook } from "./notebook";
+import { saveImage } from "./image";
+import {
+  encodeNoteFile,
+  migrateNoteFile,
+  noteFileModified,
+} from "./migrations";
+import { type Notebook, type NotebookMeta, saveNotebookMeta } from "./notebook";
+import {
+  moveNoteIndexEntry,
+  readNoteIndex,
+  removeNoteIndexEntry,
+  scanNotePaths,
+  updateNoteIndex,
+} from "./noteIndex";
 
 export interface Note {
   /** Path relative to notebook root, e.g., "2026/01/26/1" */
   path: string;
   /** ProseMirror document JSON */
   content: unknown;
+  /**
+   * When note.json was written, as stamped in it. Undefined for notes saved
+   * by versions of the app that didn't stamp them.
+   */
+  modified?: number;
 }
 
 export interface NoteInfo {
@@ -17,84 +38,165 @@ export interface NoteInfo {
   title: string;
   /** Timestamp from doc's created node */
   created: number;
+  /** When the note was last saved */
+  modified: number;
+  /** From doc's labels node */
+  labels: string[];
 }
 
+export { extractCreated, extractTitle } from "./noteContent";
+
 /**
- * Create a blank ProseMirror document with the given timestamp.
+ * A note.json that exists but can't be opened: not JSON, not a document
+ * valid in the current schema, or saved by a newer version of the app.
+ * Carries the file's text so it can be shown to the user for recovery.
  */
-export function createBlankDocument(timestamp: number): unknown {
-  const doc = schema.nodes.doc.create(null, [
-    schema.nodes.title.create(),
-    schema.nodes.created.create({ timestamp }),
-    schema.nodes.paragraph.create(),
-  ]);
-  return doc.toJSON();
+export class InvalidNoteError extends Error {
+  readonly path: string;
+  /** Raw contents of note.json */
+  readonly text: string;
+
+  constructor(path: string, text: string, reason: string) {
+    super(`Note ${path} can't be opened: ${reason}`);
+    this.name = "InvalidNoteError";
+    this.path = path;
+    this.text = text;
+  }
 }
 
 /**
- * Extract title text from ProseMirror document JSON.
- * Returns "Untitled" if title node is empty.
+ * note.json was changed since the note was loaded or last saved, by another
+ * program, device or tab: saving would overwrite that change. Carries the
+ * note as it is on disk now, or null if that isn't a valid note or the note
+ * is gone.
  */
-export function extractTitle(content: unknown): string {
-  if (!content || typeof content !== "object") {
-    return "Untitled";
+export class NoteConflictError extends Error {
+  readonly path: string;
+  readonly theirs: Note | null;
+
+  constructor(path: string, theirs: Note | null) {
+    super(`Note ${path} was changed elsewhere since it was opened`);
+    this.name = "NoteConflictError";
+    this.path = path;
+    this.theirs = theirs;
   }
+}
 
-  const doc = content as {
-    content?: Array<{ type: string; content?: Array<{ text?: string }> }>;
-  };
+/** Called after a note has been written to disk */
+export type NoteSavedListener = (note: Note) => void;
 
-  if (!doc.content || doc.content.length === 0) {
-    return "Untitled";
+// Per-notebook listeners, so derived data (e.g. the search index) can be
+// kept up to date without rescanning the notebook
+const savedListeners = new WeakMap<Notebook, Set<NoteSavedListener>>();
+
+/**
+ * Register a listener for notes created or saved in a notebook.
+ * Returns a function that removes the listener.
+ */
+export function onNoteSaved(
+  notebook: Notebook,
+  listener: NoteSavedListener,
+): () => void {
+  let listeners = savedListeners.get(notebook);
+  if (!listeners) {
+    listeners = new Set();
+    savedListeners.set(notebook, listeners);
   }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
 
-  const titleNode = doc.content[0];
-  if (titleNode.type !== "title" || !titleNode.content) {
-    return "Untitled";
+function notifySaved(notebook: Notebook, note: Note): void {
+  for (const listener of savedListeners.get(notebook) ?? []) {
+    listener(note);
   }
+}
 
-  const text = titleNode.content
-    .map((n) => n.text || "")
-    .join("")
-    .trim();
+/** Called after a note has been deleted or moved away from `path` */
+export type NoteRemovedListener = (path: string) => void;
 
-  return text || "Untitled";
-}
+const removedListeners = new WeakMap<Notebook, Set<NoteRemovedListener>>();
 
 /**
- * Extract created timestamp from ProseMirror document JSON.
+ * Register a listener for notes deleted from a notebook, or moved to
+ * another path (the note at its new path is reported to onNoteSaved
+ * listeners). Returns a function that removes the listener.
  */
-export function extractCreated(content: unknown): number {
-  if (!content || typeof content !== "object") {
-    return 0;
+export function onNoteRemoved(
+  notebook: Notebook,
+  listener: NoteRemovedListener,
+): () => void {
+  let listeners = removedListeners.get(notebook);
+  if (!listeners) {
+    listeners = new Set();
+    removedListeners.set(notebook, listeners);
   }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
 
-  const doc = content as {
-    content?: Array<{ type: string; attrs?: { timestamp?: number } }>;
-  };
-
-  if (!doc.content) {
-    return 0;
+function notifyRemoved(notebook: Notebook, path: string): void {
+  for (const listener of removedListeners.get(notebook) ?? []) {
+    listener(path);
   }
+}
 
-  const createdNode = doc.content.find((n) => n.type === "created");
-  return createdNode?.attrs?.timestamp || 0;
+/**
+ * Take in a note.json written by something other than this module (e.g.
+ * sync): update the note's index entry and tell the onNoteSaved listeners.
+ * Returns the note, or null if the file isn't a valid note.
+ */
+export async function noteChangedElsewhere(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<Note | null> {
+  let note: Note;
+  try {
+    note = await loadNote(fs, notebook, path);
+  } catch {
+    return null;
+  }
+  await updateNoteIndex(fs, notebook, note, note.modified ?? Date.now());
+  notifySaved(notebook, note);
+  return note;
 }
 
 /**
- * Generate a new note path as yyyy/mm/dd/n.
+ * Take in a note deleted by something other than this module (e.g. sync):
+ * drop its index entry and tell the onNoteRemoved listeners.
  */
-async function generateNotePath(
+export async function noteRemovedElsewhere(
   fs: FileSystemProvider,
   notebook: Notebook,
-): Promise<string> {
-  const now = new Date();
-  const year = now.getFullYear().toString();
-  const month = (now.getMonth() + 1).toString().padStart(2, "0");
-  const day = now.getDate().toString().padStart(2, "0");
+  path: string,
+): Promise<void> {
+  await removeNoteIndexEntry(fs, notebook, path);
+  notifyRemoved(notebook, path);
+}
 
-  const datePath = `${year}/${month}/${day}`;
+/**
+ * Create a blank ProseMirror document with the given timestamp.
+ */
+export function createBlankDocument(timestamp: number): unknown {
+  const doc = schema.nodes.doc.create(null, [
+    schema.nodes.title.create(),
+    schema.nodes.created.create({ timestamp }),
+    schema.nodes.labels.create(),
+    schema.nodes.paragraph.create(),
+  ]);
+  return doc.toJSON();
+}
 
+/**
+ * Find the first unused note number in a date directory (yyyy/mm/dd),
+ * creating the directory if needed. Returns the note path.
+ */
+async function nextNotePath(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  datePath: string,
+): Promise<string> {
   // Create date directories if they don't exist
   await fs.mkdir(notebook.handle, datePath);
 
@@ -108,29 +210,72 @@ async function generateNotePath(
 }
 
 /**
- * Create a new note with blank content.
+ * The yyyy/mm/dd directory of notes created on a date (local time).
+ */
+export function datePath(date: Date): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${year}/${month}/${day}`;
+}
+
+/**
+ * Bring a note path into the yyyy/mm/dd/n form used on disk, e.g.
+ * "2026/1/5/03/" becomes "2026/01/05/3". Returns null if it isn't a note
+ * path: not four parts, not a real date, or n below 1.
+ */
+export function normalizeNotePath(path: string): string | null {
+  const parts = path.trim().split("/").filter(Boolean);
+  if (parts.length !== 4 || !parts.every((part) => /^\d+$/.test(part))) {
+    return null;
+  }
+  const [year, month, day, n] = parts.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (
+    year < 1000 ||
+    year > 9999 ||
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    n < 1
+  ) {
+    return null;
+  }
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${year}/${pad(month)}/${pad(day)}/${n}`;
+}
+
+/**
+ * Create a new note with blank content, created `now`.
  * Generates path as yyyy/mm/dd/n where n is next available number.
  */
 export async function createNote(
   fs: FileSystemProvider,
   notebook: Notebook,
+  now: Date = new Date(),
 ): Promise<Note> {
-  const path = await generateNotePath(fs, notebook);
-  const content = createBlankDocument(Date.now());
+  const path = await nextNotePath(fs, notebook, datePath(now));
+  const content = createBlankDocument(now.getTime());
+  const modified = now.getTime();
 
   // Create the note directory and write the file
   await fs.mkdir(notebook.handle, path);
   await fs.writeTextFile(
     notebook.handle,
     `${path}/${NOTE_FILE}`,
-    JSON.stringify(content, null, 2),
+    encodeNoteFile(content, modified),
   );
 
-  return { path, content };
+  const note = { path, content, modified };
+  await updateNoteIndex(fs, notebook, note, modified);
+  notifySaved(notebook, note);
+  return note;
 }
 
 /**
- * Load note content from disk.
+ * Load note content from disk, upgrading documents saved by older versions
+ * (see migrations.ts).
+ * Throws InvalidNoteError if the file exists but isn't a valid note.
  */
 export async function loadNote(
   fs: FileSystemProvider,
@@ -138,23 +283,184 @@ export async function loadNote(
   path: string,
 ): Promise<Note> {
   const text = await fs.readTextFile(notebook.handle, `${path}/${NOTE_FILE}`);
-  const content = JSON.parse(text);
-  return { path, content };
+  try {
+    const data = JSON.parse(text);
+    const content = migrateNoteFile(data);
+    Node.fromJSON(schema, content).check();
+    return { path, content, modified: noteFileModified(data) };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new InvalidNoteError(path, text, reason);
+  }
+}
+
+/**
+ * Options for saveNote.
+ */
+export interface SaveNoteOptions {
+  /** Overwrite note.json even if it was changed elsewhere */
+  force?: boolean;
+  /** Current time, for tests */
+  now?: number;
+}
+
+/**
+ * Throw NoteConflictError if note.json is no longer the version `note` was
+ * loaded from (or last saved as), going by its `modified` stamp. A missing
+ * note.json is a conflict too, the note having been deleted or moved
+ * elsewhere, unless the note has no stamp to go by.
+ */
+async function checkUnchanged(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+): Promise<void> {
+  const file = `${note.path}/${NOTE_FILE}`;
+  if (!(await fs.exists(notebook.handle, file))) {
+    if (note.modified === undefined) return;
+    throw new NoteConflictError(note.path, null);
+  }
+
+  try {
+    const text = await fs.readTextFile(notebook.handle, file);
+    if (noteFileModified(JSON.parse(text)) === note.modified) return;
+  } catch {
+    // Unreadable: changed by something that isn't this app
+  }
+  const theirs = await loadNote(fs, notebook, note.path).catch(() => null);
+  throw new NoteConflictError(note.path, theirs);
 }
 
 /**
- * Save note content to disk.
+ * Save note content to disk and stamp `note.modified` with the time.
+ * Throws NoteConflictError, writing nothing, if note.json was changed
+ * elsewhere since the note was loaded, unless `force` is set.
  */
 export async function saveNote(
   fs: FileSystemProvider,
   notebook: Notebook,
   note: Note,
+  options: SaveNoteOptions = {},
 ): Promise<void> {
+  if (!options.force) await checkUnchanged(fs, notebook, note);
+
+  const modified = options.now ?? Date.now();
   await fs.writeTextFile(
     notebook.handle,
     `${note.path}/${NOTE_FILE}`,
-    JSON.stringify(note.content, null, 2),
+    encodeNoteFile(note.content, modified),
   );
+  note.modified = modified;
+  await updateNoteIndex(fs, notebook, note, modified);
+  notifySaved(notebook, note);
+}
+
+/**
+ * Export note content as Markdown to note.md in the note's directory,
+ * next to note.json (so relative image paths keep working).
+ * Returns the path of the written file, relative to the notebook root.
+ */
+export async function exportNoteMarkdown(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+): Promise<string> {
+  const doc = Node.fromJSON(schema, note.content);
+  const path = `${note.path}/${MARKDOWN_FILE}`;
+  await fs.writeTextFile(notebook.handle, path, noteToMarkdown(doc));
+  return path;
+}
+
+/**
+ * Result of importMarkdownNote.
+ */
+export interface MarkdownImportResult {
+  /** The newly created note */
+  note: Note;
+  /** Local image paths that were not found or are not a supported type */
+  missingImages: string[];
+}
+
+/** True for relative or absolute paths, false for URLs (https:, data:, …) */
+function isLocalImagePath(src: string): boolean {
+  return !/^[a-z][a-z\d+.-]*:/i.test(src) && !src.startsWith("//");
+}
+
+/** Apply fn to the src of every image node in document JSON */
+function mapImageSources(
+  content: unknown,
+  fn: (src: string) => string,
+): unknown {
+  if (!content || typeof content !== "object") return content;
+  const node = content as {
+    type?: string;
+    attrs?: { src?: string };
+    content?: unknown[];
+  };
+  return {
+    ...node,
+    ...(node.type === "image" && typeof node.attrs?.src === "string"
+      ? { attrs: { ...node.attrs, src: fn(node.attrs.src) } }
+      : {}),
+    ...(node.content
+      ? { content: node.content.map((child) => mapImageSources(child, fn)) }
+      : {}),
+  };
+}
+
+/**
+ * Create a new note from Markdown text.
+ *
+ * Local images referenced by the Markdown are looked up with resolveImage
+ * (given the decoded path as written, e.g. "images/a b.png") and copied into
+ * the note directory. Images that can't be resolved keep their original src.
+ */
+export async function importMarkdownNote(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  markdown: string,
+  resolveImage: (path: string) => Promise<File | null>,
+): Promise<MarkdownImportResult> {
+  // Parsed first, so that Markdown that can't be read leaves no blank note
+  const now = new Date();
+  const doc = markdownToNote(markdown, now.getTime());
+  const note = await createNote(fs, notebook, now);
+
+  const sources = new Set<string>();
+  doc.descendants((node) => {
+    if (node.type === schema.nodes.image) {
+      sources.add(node.attrs.src as string);
+    }
+  });
+
+  const copied = new Map<string, string>();
+  const missingImages: string[] = [];
+  for (const src of sources) {
+    if (!isLocalImagePath(src)) continue;
+
+    let path = src;
+    try {
+      path = decodeURI(src);
+    } catch {
+      // Not percent-encoded after all
+    }
+
+    const file = await resolveImage(path);
+    if (!file) {
+      missingImages.push(path);
+      continue;
+    }
+    try {
+      const { relativePath } = await saveImage(fs, notebook, note.path, file);
+      copied.set(src, relativePath);
+    } catch {
+      missingImages.push(path);
+    }
+  }
+
+  note.content = mapImageSources(doc.toJSON(), (src) => copied.get(src) ?? src);
+  await saveNote(fs, notebook, note);
+  return { note, missingImages };
 }
 
 /**
@@ -165,6 +471,8 @@ export interface LoadNoteResult {
   note: Note;
   /** True if a new note was created (caller should update notebook.meta) */
   didCreate: boolean;
+  /** Set if the requested note exists but couldn't be opened */
+  invalidNote?: InvalidNoteError;
 }
 
 /**
@@ -180,87 +488,385 @@ export async function loadNoteOrCreateDefault(
   lastPath: string | null,
 ): Promise<LoadNoteResult> {
   // Try to load the specified note
+  let invalidNote: InvalidNoteError | undefined;
   if (lastPath) {
     try {
       const note = await loadNote(fs, notebook, lastPath);
       return { note, didCreate: false };
-    } catch {
-      // Note doesn't exist, fall through to create
+    } catch (e) {
+      // Note doesn't exist or is damaged, fall through to create
+      if (e instanceof InvalidNoteError) invalidNote = e;
     }
   }
 
   // Create a new note
   const note = await createNote(fs, notebook);
-  return { note, didCreate: true };
+  return invalidNote
+    ? { note, didCreate: true, invalidNote }
+    : { note, didCreate: true };
+}
+
+/**
+ * Load every note in the notebook.
+ * Scans the yyyy/mm/dd/n directory tree; directories without a valid
+ * note.json are skipped.
+ */
+export async function loadAllNotes(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<Note[]> {
+  const notes: Note[] = [];
+  for (const path of await scanNotePaths(fs, notebook)) {
+    try {
+      notes.push(await loadNote(fs, notebook, path));
+    } catch {
+      // Skip directories without valid note.json
+    }
+  }
+  return notes;
 }
 
 /**
- * List all notes in the notebook.
- * Scans directory tree, reads each note.json to extract title.
+ * List all notes in the notebook, or only those with the given label.
+ * Reads the notebook index (see noteIndex.ts) rather than every note.
  * Returns sorted by created date (newest first).
  */
 export async function listNotes(
   fs: FileSystemProvider,
   notebook: Notebook,
+  label?: string,
 ): Promise<NoteInfo[]> {
-  const notes: NoteInfo[] = [];
-
-  // Scan year directories
-  const years = await fs.listDir(notebook.handle);
-  for (const year of years) {
-    if (!year.isDirectory || !/^\d{4}$/.test(year.name)) continue;
-
-    const yearHandle = await fs
-      .mkdir(notebook.handle, year.name)
-      .catch(() => null);
-    if (!yearHandle) continue;
-
-    // Scan month directories
-    const months = await fs.listDir(yearHandle);
-    for (const month of months) {
-      if (!month.isDirectory || !/^\d{2}$/.test(month.name)) continue;
-
-      const monthHandle = await fs
-        .mkdir(yearHandle, month.name)
-        .catch(() => null);
-      if (!monthHandle) continue;
-
-      // Scan day directories
-      const days = await fs.listDir(monthHandle);
-      for (const day of days) {
-        if (!day.isDirectory || !/^\d{2}$/.test(day.name)) continue;
-
-        const dayHandle = await fs
-          .mkdir(monthHandle, day.name)
-          .catch(() => null);
-        if (!dayHandle) continue;
-
-        // Scan note directories
-        const noteDirs = await fs.listDir(dayHandle);
-        for (const noteDir of noteDirs) {
-          if (!noteDir.isDirectory) continue;
-
-          const notePath = `${year.name}/${month.name}/${day.name}/${noteDir.name}`;
-
-          try {
-            const text = await fs.readTextFile(
-              notebook.handle,
-              `${notePath}/${NOTE_FILE}`,
-            );
-            const content = JSON.parse(text);
-            notes.push({
-              path: notePath,
-              title: extractTitle(content),
-              created: extractCreated(content),
-            });
-          } catch {
-            // Skip directories without valid note.json
-          }
-        }
+  const notes = (await readNoteIndex(fs, notebook))
+    .filter((entry) => label === undefined || hasLabel(entry.labels, label))
+    .map((entry) => ({
+      path: entry.path,
+      title: entry.title,
+      created: entry.created,
+      modified: entry.modified,
+      labels: entry.labels,
+    }));
+
+  // Sort by created date, newest first
+  return notes.sort((a, b) => b.created - a.created);
+}
+
+/**
+ * A label and the number of notes that have it.
+ */
+export interface LabelCount {
+  label: string;
+  count: number;
+}
+
+/**
+ * List the labels used in the notebook, alphabetically. Labels that differ
+ * only in case are counted together, under the first spelling found.
+ */
+export async function listLabels(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<LabelCount[]> {
+  const counts = new Map<string, LabelCount>();
+  for (const entry of await readNoteIndex(fs, notebook)) {
+    for (const label of entry.labels) {
+      const key = labelKey(label);
+      const count = counts.get(key);
+      if (count) {
+        count.count++;
+      } else {
+        counts.set(key, { label, count: 1 });
       }
     }
   }
+  return [...counts.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
 
-  // Sort by created date, newest first
+/**
+ * List the notes that link to the note at `path`, newest first.
+ * Reads the notebook index, so links are as of each note's last save.
+ */
+export async function listBacklinks(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<NoteInfo[]> {
+  const notes = (await readNoteIndex(fs, notebook))
+    .filter((entry) => entry.path !== path && entry.links.includes(path))
+    .map((entry) => ({
+      path: entry.path,
+      title: entry.title,
+      created: entry.created,
+      modified: entry.modified,
+      labels: entry.labels,
+    }));
   return notes.sort((a, b) => b.created - a.created);
 }
+
+/** Point the `note:` links to `from` in document JSON at `to` instead */
+export function retargetNoteLinks(
+  content: unknown,
+  from: string,
+  to: string,
+): unknown {
+  if (!content || typeof content !== "object") return content;
+  const node = content as {
+    marks?: Array<{ type?: string; attrs?: { href?: unknown } }>;
+    content?: unknown[];
+  };
+  return {
+    ...node,
+    ...(node.marks
+      ? {
+          marks: node.marks.map((mark) =>
+            mark.type === "link" &&
+            typeof mark.attrs?.href === "string" &&
+            parseNoteHref(mark.attrs.href) === from
+              ? { ...mark, attrs: { ...mark.attrs, href: noteHref(to) } }
+              : mark,
+          ),
+        }
+      : {}),
+    ...(node.content
+      ? {
+          content: node.content.map((child) =>
+            retargetNoteLinks(child, from, to),
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Remove the date directories above a note directory that was moved away,
+ * as far up as they are empty.
+ */
+async function removeEmptyDateDirs(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<void> {
+  const parts = path.split("/").slice(0, -1);
+  while (parts.length > 0) {
+    const dir = parts.join("/");
+    const handle = await fs.mkdir(notebook.handle, dir);
+    if ((await fs.listDir(handle)).length > 0) return;
+    await fs.remove(notebook.handle, dir);
+    parts.pop();
+  }
+}
+
+/**
+ * Point the references to the note at `from` in notebook metadata (last
+ * opened note, journal) to `to`, or drop them if `to` is null.
+ * Returns true if anything changed.
+ */
+export function retargetNotebookMeta(
+  meta: NotebookMeta,
+  from: string,
+  to: string | null,
+): boolean {
+  let changed = false;
+  if (meta.lastOpenedNote === from) {
+    meta.lastOpenedNote = to;
+    changed = true;
+  }
+  for (const [day, path] of Object.entries(meta.journal)) {
+    if (path !== from) continue;
+    delete meta.journal[day];
+    if (to) meta.journal[to.split("/").slice(0, 3).join("/")] ??= to;
+    changed = true;
+  }
+  return changed;
+}
+
+/** retargetNotebookMeta on the notebook, saving notebook.json if changed */
+async function updateNotebookMeta(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  from: string,
+  to: string | null,
+): Promise<void> {
+  if (retargetNotebookMeta(notebook.meta, from, to)) {
+    await saveNotebookMeta(fs, notebook);
+  }
+}
+
+/**
+ * Move a note to another path, e.g. to file it under another date.
+ *
+ * `to` is normalized (see normalizeNotePath); throws if it isn't a note path
+ * or another note is already there. Links to the note from other notes are
+ * updated to the new path, and so are notebook.meta.lastOpenedNote and the
+ * journal (the note stays its day's journal if that day has none).
+ * Returns the note at its new path.
+ */
+export async function moveNote(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  from: string,
+  to: string,
+): Promise<Note> {
+  const path = normalizeNotePath(to);
+  if (path === null) {
+    throw new Error(`"${to}" is not a note path (expected yyyy/mm/dd/n)`);
+  }
+  if (!(await fs.exists(notebook.handle, `${from}/${NOTE_FILE}`))) {
+    throw new Error(`Note ${from} doesn't exist`);
+  }
+  if (path === from) return await loadNote(fs, notebook, from);
+  if (await fs.exists(notebook.handle, path)) {
+    throw new Error(`There is already a note at ${path}`);
+  }
+
+  await fs.rename(notebook.handle, from, path);
+  await removeEmptyDateDirs(fs, notebook, from);
+  await moveNoteIndexEntry(fs, notebook, from, path);
+  notifyRemoved(notebook, from);
+
+  await updateNotebookMeta(fs, notebook, from, path);
+
+  // Keep links to the note working, including its links to itself
+  const linking = (await readNoteIndex(fs, notebook)).filter((entry) =>
+    entry.links.includes(from),
+  );
+  for (const entry of linking) {
+    try {
+      const other = await loadNote(fs, notebook, entry.path);
+      other.content = retargetNoteLinks(other.content, from, path);
+      await saveNote(fs, notebook, other);
+    } catch {
+      // A damaged note keeps its dangling link
+    }
+  }
+
+  const note = await loadNote(fs, notebook, path);
+  notifySaved(notebook, note);
+  return note;
+}
+
+/**
+ * A deleted note, waiting in the trash.
+ */
+export interface TrashedNote {
+  /** Name of the note's directory in the trash */
+  id: string;
+  /** Where the note was before it was deleted */
+  path: string;
+  title: string;
+  /** When the note was deleted */
+  deleted: number;
+}
+
+/**
+ * Delete a note by moving its directory into the trash (.trash/ in the
+ * notebook), from where restoreNote can bring it back. Clears
+ * notebook.meta.lastOpenedNote and the journal entry if they were the note.
+ */
+export async function deleteNote(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<TrashedNote> {
+  if (!(await fs.exists(notebook.handle, `${path}/${NOTE_FILE}`))) {
+    throw new Error(`Note ${path} doesn't exist`);
+  }
+
+  const entry = (await readNoteIndex(fs, notebook)).find(
+    (e) => e.path === path,
+  );
+  const deleted = Date.now();
+  const trashed: TrashedNote = {
+    id: `${deleted}-${path.replaceAll("/", "-")}`,
+    path,
+    title: entry?.title ?? "Untitled",
+    deleted,
+  };
+
+  // Written before the move, so a note in the trash always knows its path
+  const info = { path, title: trashed.title, deleted };
+  await fs.writeTextFile(
+    notebook.handle,
+    `${path}/${TRASH_FILE}`,
+    JSON.stringify(info, null, 2),
+  );
+  await fs.rename(notebook.handle, path, `${TRASH_DIR}/${trashed.id}`);
+  await removeEmptyDateDirs(fs, notebook, path);
+  await removeNoteIndexEntry(fs, notebook, path);
+  notifyRemoved(notebook, path);
+
+  await updateNotebookMeta(fs, notebook, path, null);
+  return trashed;
+}
+
+/**
+ * List the notes in the trash, most recently deleted first.
+ */
+export async function listTrash(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<TrashedNote[]> {
+  if (!(await fs.exists(notebook.handle, TRASH_DIR))) return [];
+
+  const trash = await fs.mkdir(notebook.handle, TRASH_DIR);
+  const notes: TrashedNote[] = [];
+  for (const entry of await fs.listDir(trash)) {
+    if (!entry.isDirectory) continue;
+    try {
+      const info = JSON.parse(
+        await fs.readTextFile(trash, `${entry.name}/${TRASH_FILE}`),
+      ) as Omit<TrashedNote, "id">;
+      if (normalizeNotePath(info.path) === null) continue;
+      notes.push({
+        id: entry.name,
+        path: info.path,
+        title: typeof info.title === "string" ? info.title : "Untitled",
+        deleted: typeof info.deleted === "number" ? info.deleted : 0,
+      });
+    } catch {
+      // Not something deleteNote put there
+    }
+  }
+  return notes.sort((a, b) => b.deleted - a.deleted);
+}
+
+/**
+ * Bring a note back from the trash. It returns to its old path, or to the
+ * next free number on the same date if another note has taken that path.
+ */
+export async function restoreNote(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  id: string,
+): Promise<Note> {
+  const trashed = (await listTrash(fs, notebook)).find((t) => t.id === id);
+  if (!trashed) {
+    throw new Error("The note is no longer in the trash");
+  }
+
+  let path = trashed.path;
+  if (await fs.exists(notebook.handle, path)) {
+    const datePath = path.split("/").slice(0, -1).join("/");
+    path = await nextNotePath(fs, notebook, datePath);
+  }
+
+  const source = `${TRASH_DIR}/${id}`;
+  await fs.remove(notebook.handle, `${source}/${TRASH_FILE}`);
+  await fs.rename(notebook.handle, source, path);
+
+  const note = await loadNote(fs, notebook, path);
+  await updateNoteIndex(fs, notebook, note, note.modified ?? Date.now());
+  notifySaved(notebook, note);
+  return note;
+}
+
+/**
+ * Permanently delete every note in the trash.
+ */
+export async function emptyTrash(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<void> {
+  if (await fs.exists(notebook.handle, TRASH_DIR)) {
+    await fs.remove(notebook.handle, TRASH_DIR);
+  }
+}
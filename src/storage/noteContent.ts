@@ -0,0 +1,137 @@
+/**
+ * Helpers that read note document JSON without the ProseMirror schema.
+ *
+ * Used by the storage layer (note list, notebook index), which handles
+ * notes as plain JSON. Re-exported from note.ts.
+ */
+
+import { parseNoteHref } from "../editor/schema";
+
+/**
+ * Extract title text from ProseMirror document JSON.
+ * Returns "Untitled" if title node is empty.
+ */
+export function extractTitle(content: unknown): string {
+  if (!content || typeof content !== "object") {
+    return "Untitled";
+  }
+
+  const doc = content as {
+    content?: Array<{ type: string; content?: Array<{ text?: string }> }>;
+  };
+
+  if (!doc.content || doc.content.length === 0) {
+    return "Untitled";
+  }
+
+  const titleNode = doc.content[0];
+  if (titleNode.type !== "title" || !titleNode.content) {
+    return "Untitled";
+  }
+
+  const text = titleNode.content
+    .map((n) => n.text || "")
+    .join("")
+    .trim();
+
+  return text || "Untitled";
+}
+
+/**
+ * Extract created timestamp from ProseMirror document JSON.
+ */
+export function extractCreated(content: unknown): number {
+  if (!content || typeof content !== "object") {
+    return 0;
+  }
+
+  const doc = content as {
+    content?: Array<{ type: string; attrs?: { timestamp?: number } }>;
+  };
+
+  if (!doc.content) {
+    return 0;
+  }
+
+  const createdNode = doc.content.find((n) => n.type === "created");
+  return createdNode?.attrs?.timestamp || 0;
+}
+
+interface JsonNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: Array<{ type?: string; attrs?: Record<string, unknown> }>;
+  content?: JsonNode[];
+}
+
+/**
+ * Extract labels from ProseMirror document JSON (the `labels` node after
+ * `created`). Returns an empty array for notes without labels.
+ */
+export function extractLabels(content: unknown): string[] {
+  if (!content || typeof content !== "object") {
+    return [];
+  }
+
+  const doc = content as JsonNode;
+  const labelsNode = doc.content?.find((n) => n.type === "labels");
+  const labels = labelsNode?.attrs?.labels;
+  return Array.isArray(labels)
+    ? labels.filter((l): l is string => typeof l === "string")
+    : [];
+}
+
+/**
+ * Count the words in a note's body (everything but the title).
+ * Words are runs of non-whitespace; math and images don't count, footnotes
+ * do.
+ */
+export function countWords(content: unknown): number {
+  if (!content || typeof content !== "object") {
+    return 0;
+  }
+
+  let count = 0;
+  const visit = (node: JsonNode) => {
+    if (node.type === "title") return;
+    if (node.content?.some((child) => child.type === "text")) {
+      // Text nodes of one block may split a word (e.g. at a mark boundary)
+      const text = node.content
+        .map((child) => (child.type === "text" ? (child.text ?? "") : " "))
+        .join("");
+      count += text.match(/\S+/g)?.length ?? 0;
+      // Footnotes are inline nodes with text of their own
+      node.content.forEach((child) => {
+        if (child.type !== "text") visit(child);
+      });
+      return;
+    }
+    node.content?.forEach(visit);
+  };
+  visit(content as JsonNode);
+  return count;
+}
+
+/**
+ * Paths of the notes a note links to (`note:` links), each once, in order
+ * of first appearance.
+ */
+export function extractNoteLinks(content: unknown): string[] {
+  if (!content || typeof content !== "object") {
+    return [];
+  }
+
+  const links = new Set<string>();
+  const visit = (node: JsonNode) => {
+    for (const mark of node.marks ?? []) {
+      const href = mark.attrs?.href;
+      if (mark.type !== "link" || typeof href !== "string") continue;
+      const path = parseNoteHref(href);
+      if (path !== null) links.add(path);
+    }
+    node.content?.forEach(visit);
+  };
+  visit(content as JsonNode);
+  return [...links];
+}
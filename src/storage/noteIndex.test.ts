@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { createNote, deleteNote, listNotes, type Note, saveNote } from "./note";
+import { createNotebook, type Notebook } from "./notebook";
+import {
+  createIndexEntry,
+  forgetNoteIndex,
+  NOTE_INDEX_VERSION,
+  readNoteIndex,
+  rebuildNoteIndex,
+  refreshNoteIndexEntry,
+  updateNoteIndex,
+} from "./noteIndex";
+
+function note(path: string, title: string, ...blocks: unknown[]): Note {
+  return {
+    path,
+    content: {
+      type: "doc",
+      content: [
+        {
+          type: "title",
+          content: title ? [{ type: "text", text: title }] : [],
+        },
+        { type: "created", attrs: { timestamp: 1000 } },
+        ...blocks,
+      ],
+    },
+  };
+}
+
+function paragraph(text: string) {
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
+function link(href: string) {
+  return { type: "link", attrs: { href } };
+}
+
+function noteLink(path: string) {
+  return link(`note:${path}`);
+}
+
+/** The same notebook as opened in a later session (nothing cached) */
+function reopen(notebook: Notebook): Notebook {
+  return { ...notebook };
+}
+
+async function readIndexFile(fs: MemoryFileSystemProvider, notebook: Notebook) {
+  return JSON.parse(await fs.readTextFile(notebook.handle, "index.json"));
+}
+
+describe("createIndexEntry", () => {
+  it("records title, created, labels, word count and links", () => {
+    const entry = createIndexEntry(
+      note(
+        "2026/01/26/1",
+        "Not counted",
+        { type: "labels", attrs: { labels: ["work", "ideas"] } },
+        paragraph("One two  three"),
+        {
+          type: "bullet_list",
+          content: [{ type: "list_item", content: [paragraph("four")] }],
+        },
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "see", marks: [noteLink("2026/01/01/2")] },
+            { type: "text", text: "web", marks: [link("https://e.com/")] },
+            { type: "text", text: "again", marks: [noteLink("2026/01/01/2")] },
+          ],
+        },
+      ),
+      5000,
+    );
+
+    expect(entry).toEqual({
+      path: "2026/01/26/1",
+      title: "Not counted",
+      created: 1000,
+      modified: 5000,
+      labels: ["work", "ideas"],
+      words: 5,
+      links: ["2026/01/01/2"],
+    });
+  });
+});
+
+describe("note index", () => {
+  it("is written when notes are created and saved", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+
+    await saveNote(fs, notebook, {
+      ...note(first.path, "Saved", paragraph("some words")),
+      modified: first.modified,
+    });
+
+    const file = await readIndexFile(fs, notebook);
+    expect(file.version).toBe(NOTE_INDEX_VERSION);
+    expect(file.notes).toHaveLength(1);
+    expect(file.notes[0]).toMatchObject({
+      path: first.path,
+      title: "Saved",
+      words: 2,
+    });
+  });
+
+  it("lists notes from the index without reading them", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    await saveNote(fs, notebook, note(first.path, "Indexed"), {
+      force: true,
+      now: 2000,
+    });
+
+    // Corrupt the note itself; the listing still comes from the index
+    await fs.writeTextFile(notebook.handle, `${first.path}/note.json`, "{");
+
+    const notes = await listNotes(fs, reopen(notebook));
+    expect(notes).toEqual([
+      {
+        path: first.path,
+        title: "Indexed",
+        created: 1000,
+        modified: 2000,
+        labels: [],
+      },
+    ]);
+  });
+
+  it("picks up notes added and removed outside the app", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+
+    const added = note("2020/05/01/1", "Added");
+    await fs.mkdir(notebook.handle, added.path);
+    await fs.writeTextFile(
+      notebook.handle,
+      `${added.path}/note.json`,
+      JSON.stringify(added.content),
+    );
+    const file = await readIndexFile(fs, notebook);
+    file.notes.push({ ...file.notes[0], path: "2020/05/02/1" });
+    await fs.writeTextFile(notebook.handle, "index.json", JSON.stringify(file));
+
+    const entries = await readNoteIndex(fs, reopen(notebook));
+    expect(entries.map((e) => e.path).sort()).toEqual([added.path, first.path]);
+    // Unknown modification time falls back to the created time
+    expect(entries.find((e) => e.path === added.path)?.modified).toBe(1000);
+
+    const repaired = await readIndexFile(fs, notebook);
+    expect(repaired.notes.map((e: Note) => e.path)).toEqual([
+      added.path,
+      first.path,
+    ]);
+  });
+
+  it("rebuilds a missing or corrupt index file", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+    await createNote(fs, notebook);
+
+    await fs.writeTextFile(notebook.handle, "index.json", "garbage");
+    expect(await readNoteIndex(fs, reopen(notebook))).toHaveLength(2);
+    expect((await readIndexFile(fs, notebook)).notes).toHaveLength(2);
+  });
+
+  it("keeps modification times when rebuilding", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    await updateNoteIndex(fs, notebook, note(first.path, "Old"), 7000);
+
+    // Changed outside the app: only a rebuild notices
+    await fs.writeTextFile(
+      notebook.handle,
+      `${first.path}/note.json`,
+      JSON.stringify(note(first.path, "New").content),
+    );
+    expect((await readNoteIndex(fs, reopen(notebook)))[0].title).toBe("Old");
+
+    const entries = await rebuildNoteIndex(fs, notebook);
+    expect(entries).toMatchObject([{ title: "New", modified: 7000 }]);
+    expect((await readNoteIndex(fs, notebook))[0].title).toBe("New");
+  });
+
+  it("reads index.json again once forgotten", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    await readNoteIndex(fs, notebook);
+
+    // Written by another tab
+    const other = reopen(notebook);
+    await saveNote(fs, other, note(first.path, "Elsewhere"), { force: true });
+    expect((await readNoteIndex(fs, notebook))[0].title).toBe("Untitled");
+
+    forgetNoteIndex(notebook);
+    expect((await readNoteIndex(fs, notebook))[0].title).toBe("Elsewhere");
+  });
+
+  it("refreshes one entry after another tab's save", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    const second = await createNote(fs, notebook);
+    await readNoteIndex(fs, notebook);
+
+    // Written by another tab
+    const other = reopen(notebook);
+    await saveNote(fs, other, note(first.path, "Elsewhere"), { force: true });
+    await deleteNote(fs, other, second.path);
+    await fs.writeTextFile(notebook.handle, "index.json", "not read again");
+
+    await refreshNoteIndexEntry(fs, notebook, first.path);
+    await refreshNoteIndexEntry(fs, notebook, second.path);
+    expect(await readNoteIndex(fs, notebook)).toMatchObject([
+      { path: first.path, title: "Elsewhere" },
+    ]);
+  });
+
+  it("applies concurrent updates in order", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+
+    await Promise.all([
+      updateNoteIndex(fs, notebook, note(first.path, "One"), 1),
+      updateNoteIndex(fs, notebook, note(first.path, "Two"), 2),
+      updateNoteIndex(fs, notebook, note(first.path, "Three"), 3),
+    ]);
+
+    const file = await readIndexFile(fs, notebook);
+    expect(file.notes).toMatchObject([{ title: "Three", modified: 3 }]);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Notebook index: a sidecar file (index.json, next to notebook.json) with
+ * one entry per note, so the note list doesn't have to open every note.
+ *
+ * The index is a cache of what's in the note files:
+ * - saveNote/createNote update the entry of the note they wrote, and
+ *   moveNote/deleteNote/restoreNote move, drop or add entries
+ * - on first use in a session, the directory tree is checked against the
+ *   index, picking up notes added or removed outside the app
+ * - a missing or unreadable index file is rebuilt from the notes
+ * - other tabs' saves reach the cache through refreshNoteIndexEntry
+ *
+ * Edits made outside the app to a note that is already indexed are only
+ * picked up when the note is next saved, or by rebuildNoteIndex(), which
+ * the app and the CLI offer as a command.
+ */
+
+import { INDEX_FILE, NOTE_FILE } from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { migrateNoteFile, noteFileModified } from "./migrations";
+import type { Note, NoteInfo } from "./note";
+import type { Notebook } from "./notebook";
+import {
+  countWords,
+  extractCreated,
+  extractLabels,
+  extractNoteLinks,
+  extractTitle,
+} from "./noteContent";
+
+/**
+ * Version of the index file format. An index with another version is
+ * rebuilt from the notes.
+ * - 2: entries list the notes each note links to
+ */
+export const NOTE_INDEX_VERSION = 2;
+
+export interface NoteIndexEntry extends NoteInfo {
+  /** Number of words in the note body */
+  words: number;
+  /** Paths of the notes this note links to */
+  links: string[];
+}
+
+interface NoteIndexFile {
+  version: number;
+  notes: NoteIndexEntry[];
+}
+
+interface CachedIndex {
+  entries: Promise<Map<string, NoteIndexEntry>>;
+  /** Last pending write; writes are chained so they land in order */
+  writing: Promise<void>;
+}
+
+// Loaded indexes, per open notebook
+const indexes = new WeakMap<Notebook, CachedIndex>();
+
+/**
+ * Build the index entry for a note.
+ */
+export function createIndexEntry(note: Note, modified: number): NoteIndexEntry {
+  return {
+    path: note.path,
+    title: extractTitle(note.content),
+    created: extractCreated(note.content),
+    modified,
+    labels: extractLabels(note.content),
+    words: countWords(note.content),
+    links: extractNoteLinks(note.content),
+  };
+}
+
+/**
+ * Find the paths of all note directories (yyyy/mm/dd/n containing a
+ * note.json), without reading the notes.
+ */
+export async function scanNotePaths(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<string[]> {
+  const paths: string[] = [];
+  const patterns = [/^\d{4}$/, /^\d{2}$/, /^\d{2}$/];
+
+  const walk = async (
+    dir: FileSystemDirectoryHandle,
+    prefix: string,
+    depth: number,
+  ) => {
+    const entries = await fs.listDir(dir);
+    for (const entry of entries) {
+      if (!entry.isDirectory) continue;
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+      if (depth === patterns.length) {
+        if (await fs.exists(dir, `${entry.name}/${NOTE_FILE}`)) {
+          paths.push(path);
+        }
+        continue;
+      }
+      if (!patterns[depth].test(entry.name)) continue;
+
+      const child = await fs.mkdir(dir, entry.name).catch(() => null);
+      if (child) await walk(child, path, depth + 1);
+    }
+  };
+
+  await walk(notebook.handle, "", 0);
+  return paths;
+}
+
+async function loadEntry(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+  modified?: number,
+): Promise<NoteIndexEntry | null> {
+  try {
+    const text = await fs.readTextFile(notebook.handle, `${path}/${NOTE_FILE}`);
+    const data = JSON.parse(text);
+    const note = { path, content: migrateNoteFile(data) };
+    // Unknown modification time: assume the note is as old as it says
+    return createIndexEntry(
+      note,
+      noteFileModified(data) ?? modified ?? extractCreated(note.content),
+    );
+  } catch {
+    // Not a valid note
+    return null;
+  }
+}
+
+async function readIndexFile(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<Map<string, NoteIndexEntry> | null> {
+  try {
+    const text = await fs.readTextFile(notebook.handle, INDEX_FILE);
+    const file = JSON.parse(text) as NoteIndexFile;
+    if (file.version !== NOTE_INDEX_VERSION || !Array.isArray(file.notes)) {
+      return null;
+    }
+    return new Map(file.notes.map((entry) => [entry.path, entry]));
+  } catch {
+    return null;
+  }
+}
+
+async function writeIndexFile(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  entries: Map<string, NoteIndexEntry>,
+): Promise<void> {
+  const file: NoteIndexFile = {
+    version: NOTE_INDEX_VERSION,
+    notes: [...entries.values()].sort((a, b) =>
+      a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+    ),
+  };
+  await fs.writeTextFile(
+    notebook.handle,
+    INDEX_FILE,
+    JSON.stringify(file, null, 2),
+  );
+}
+
+/**
+ * Bring index entries in line with the note directories on disk: add
+ * entries for new notes and drop entries whose note is gone.
+ * Returns true if anything changed.
+ */
+async function reconcile(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  entries: Map<string, NoteIndexEntry>,
+): Promise<boolean> {
+  const paths = new Set(await scanNotePaths(fs, notebook));
+  let changed = false;
+
+  for (const path of entries.keys()) {
+    if (!paths.has(path)) {
+      entries.delete(path);
+      changed = true;
+    }
+  }
+  for (const path of paths) {
+    if (entries.has(path)) continue;
+    const entry = await loadEntry(fs, notebook, path);
+    if (entry) {
+      entries.set(path, entry);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Get the cached index for a notebook, loading (and repairing) it on first
+ * use. A failed load isn't cached, so the next call tries again.
+ */
+function getCachedIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): CachedIndex {
+  let cached = indexes.get(notebook);
+  if (!cached) {
+    const entries = (async () => {
+      const existing = await readIndexFile(fs, notebook);
+      const loaded = existing ?? new Map<string, NoteIndexEntry>();
+      const changed = await reconcile(fs, notebook, loaded);
+      if (changed || !existing) {
+        await writeIndexFile(fs, notebook, loaded);
+      }
+      return loaded;
+    })();
+    const entry: CachedIndex = { entries, writing: Promise.resolve() };
+    entries.catch(() => {
+      if (indexes.get(notebook) === entry) indexes.delete(notebook);
+    });
+    indexes.set(notebook, entry);
+    cached = entry;
+  }
+  return cached;
+}
+
+/**
+ * Drop the cached index of a notebook, so the next read loads index.json
+ * again. For when something else (e.g. another tab) has written it.
+ */
+export function forgetNoteIndex(notebook: Notebook): void {
+  indexes.delete(notebook);
+}
+
+/**
+ * Read all index entries of a notebook, in no particular order.
+ */
+export async function readNoteIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<NoteIndexEntry[]> {
+  const entries = await getCachedIndex(fs, notebook).entries;
+  return [...entries.values()];
+}
+
+/**
+ * Apply a change to the cached entries and write the index file.
+ *
+ * The index is only a cache, so failures don't propagate: the index is
+ * dropped and rebuilt from the notes the next time it's read.
+ */
+async function changeNoteIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  change: (entries: Map<string, NoteIndexEntry>) => void,
+): Promise<void> {
+  const cached = getCachedIndex(fs, notebook);
+  const write = async () => {
+    const entries = await cached.entries;
+    change(entries);
+    await writeIndexFile(fs, notebook, entries);
+  };
+  cached.writing = cached.writing.then(write, write);
+
+  try {
+    await cached.writing;
+  } catch {
+    if (indexes.get(notebook) === cached) indexes.delete(notebook);
+    await fs.writeTextFile(notebook.handle, INDEX_FILE, "").catch(() => {});
+  }
+}
+
+/**
+ * Re-read the entry of one note into the cached index, or drop it if the
+ * note is gone: for a note another tab saved or removed, which has written
+ * index.json itself. Does nothing until the index is loaded.
+ */
+export async function refreshNoteIndexEntry(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<void> {
+  const cached = indexes.get(notebook);
+  if (!cached) return;
+  const entry = await loadEntry(fs, notebook, path);
+  const entries = await cached.entries.catch(() => null);
+  if (!entries || indexes.get(notebook) !== cached) return;
+  if (entry) {
+    entries.set(path, entry);
+  } else {
+    entries.delete(path);
+  }
+}
+
+/**
+ * Record a note that was just written.
+ */
+export async function updateNoteIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+  modified: number = Date.now(),
+): Promise<void> {
+  await changeNoteIndex(fs, notebook, (entries) => {
+    entries.set(note.path, createIndexEntry(note, modified));
+  });
+}
+
+/**
+ * Drop the entry of a note that was deleted.
+ */
+export async function removeNoteIndexEntry(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  path: string,
+): Promise<void> {
+  await changeNoteIndex(fs, notebook, (entries) => {
+    entries.delete(path);
+  });
+}
+
+/**
+ * Move the entry of a note whose directory was moved. The note itself
+ * didn't change, so its modification time is kept.
+ */
+export async function moveNoteIndexEntry(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  from: string,
+  to: string,
+): Promise<void> {
+  await changeNoteIndex(fs, notebook, (entries) => {
+    const entry = entries.get(from);
+    entries.delete(from);
+    if (entry) entries.set(to, { ...entry, path: to });
+  });
+}
+
+/**
+ * Rebuild the index from scratch by reading every note.
+ * Modification times of notes already in the index are kept.
+ */
+export async function rebuildNoteIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<NoteIndexEntry[]> {
+  const previous = (await readIndexFile(fs, notebook)) ?? new Map();
+  const entries = new Map<string, NoteIndexEntry>();
+  for (const path of await scanNotePaths(fs, notebook)) {
+    const modified = previous.get(path)?.modified;
+    const entry = await loadEntry(fs, notebook, path, modified);
+    if (entry) entries.set(path, entry);
+  }
+
+  await writeIndexFile(fs, notebook, entries);
+  indexes.set(notebook, {
+    entries: Promise.resolve(entries),
+    writing: Promise.resolve(),
+  });
+  return [...entries.values()];
+}
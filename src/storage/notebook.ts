@@ -1,14 +1,23 @@
+import { importNotebookArchive } from "./archive";
 import {
   HANDLE_STORAGE_KEY,
   NOTEBOOK_FILE,
   NOTEBOOK_VERSION,
 } from "./constants";
 import type { FileSystemProvider } from "./filesystem";
+import { migrateNotebookMeta } from "./migrations";
 import { createNote, type Note } from "./note";
 
 export interface NotebookMeta {
   version: number;
+  /**
+   * Random id of this copy of the notebook, naming its locks and messages
+   * between tabs. Unlike the folder name, two notebooks never share it.
+   */
+  id: string;
   lastOpenedNote: string | null;
+  /** Journal note of each day, e.g. "2026/01/26" → "2026/01/26/3" */
+  journal: Record<string, string>;
 }
 
 export interface Notebook {
@@ -26,24 +35,43 @@ export interface Notebook {
 function createDefaultMeta(): NotebookMeta {
   return {
     version: NOTEBOOK_VERSION,
+    id: crypto.randomUUID(),
     lastOpenedNote: null,
+    journal: {},
   };
 }
 
 /**
- * Read notebook.json from a directory.
+ * Read notebook.json from a directory, migrating it to the current version.
  * Returns null if file doesn't exist or is invalid.
+ * Throws if it was written by a newer version of the app.
  */
 async function readNotebookMeta(
   fs: FileSystemProvider,
   handle: FileSystemDirectoryHandle,
 ): Promise<NotebookMeta | null> {
+  let data: unknown;
   try {
-    const text = await fs.readTextFile(handle, NOTEBOOK_FILE);
-    return JSON.parse(text) as NotebookMeta;
+    data = JSON.parse(await fs.readTextFile(handle, NOTEBOOK_FILE));
   } catch {
     return null;
   }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const meta = migrateNotebookMeta(data) as unknown as NotebookMeta;
+  // Keep an id the migration made up, so every tab gets the same one
+  if (meta.id !== (data as { id?: unknown }).id) {
+    await writeNotebookMeta(fs, handle, meta);
+  }
+  return meta;
+}
+
+/** Write notebook.json */
+async function writeNotebookMeta(
+  fs: FileSystemProvider,
+  handle: FileSystemDirectoryHandle,
+  meta: NotebookMeta,
+): Promise<void> {
+  await fs.writeTextFile(handle, NOTEBOOK_FILE, JSON.stringify(meta, null, 2));
 }
 
 /**
@@ -100,7 +128,7 @@ export async function createNotebook(
 
   // Update meta with the note path and save
   meta.lastOpenedNote = note.path;
-  await fs.writeTextFile(handle, NOTEBOOK_FILE, JSON.stringify(meta, null, 2));
+  await writeNotebookMeta(fs, handle, meta);
 
   // Persist handle for future sessions
   await fs.persistHandle(HANDLE_STORAGE_KEY, handle);
@@ -108,6 +136,43 @@ export async function createNotebook(
   return { notebook, note };
 }
 
+/**
+ * Import a notebook from a zip archive - user picks/creates the target
+ * directory, which must not already be a notebook.
+ */
+export async function importNotebook(
+  fs: FileSystemProvider,
+  archive: Uint8Array,
+): Promise<Notebook> {
+  const handle = await fs.pickDirectory();
+
+  const existingMeta = await readNotebookMeta(fs, handle);
+  if (existingMeta) {
+    throw new Error(
+      "Directory is already a notebook. Choose an empty directory.",
+    );
+  }
+
+  await importNotebookArchive(fs, handle, archive);
+
+  const meta = await readNotebookMeta(fs, handle);
+  if (!meta) {
+    throw new Error("Imported archive has an invalid notebook.json");
+  }
+  // A copy of its own, even next to the notebook it was exported from
+  meta.id = crypto.randomUUID();
+  await writeNotebookMeta(fs, handle, meta);
+
+  // Persist handle for future sessions
+  await fs.persistHandle(HANDLE_STORAGE_KEY, handle);
+
+  return {
+    handle,
+    meta,
+    name: handle.name,
+  };
+}
+
 export interface RestoreResult {
   notebook: Notebook;
   needsPermission: boolean;
@@ -131,7 +196,7 @@ export async function restoreNotebook(
     return {
       notebook: {
         handle,
-        meta: { version: NOTEBOOK_VERSION, lastOpenedNote: null },
+        meta: createDefaultMeta(),
         name: handle.name,
       },
       needsPermission: true,
@@ -172,6 +237,31 @@ export async function reconnectNotebook(
   };
 }
 
+/** Called after notebook.json has been written */
+export type NotebookMetaSavedListener = (meta: NotebookMeta) => void;
+
+const metaSavedListeners = new WeakMap<
+  Notebook,
+  Set<NotebookMetaSavedListener>
+>();
+
+/**
+ * Register a listener for saves of a notebook's metadata.
+ * Returns a function that removes the listener.
+ */
+export function onNotebookMetaSaved(
+  notebook: Notebook,
+  listener: NotebookMetaSavedListener,
+): () => void {
+  let listeners = metaSavedListeners.get(notebook);
+  if (!listeners) {
+    listeners = new Set();
+    metaSavedListeners.set(notebook, listeners);
+  }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
 /**
  * Save notebook metadata (e.g., after changing lastOpenedNote).
  */
@@ -179,9 +269,8 @@ export async function saveNotebookMeta(
   fs: FileSystemProvider,
   notebook: Notebook,
 ): Promise<void> {
-  await fs.writeTextFile(
-    notebook.handle,
-    NOTEBOOK_FILE,
-    JSON.stringify(notebook.meta, null, 2),
-  );
+  await writeNotebookMeta(fs, notebook.handle, notebook.meta);
+  for (const listener of metaSavedListeners.get(notebook) ?? []) {
+    listener(notebook.meta);
+  }
 }
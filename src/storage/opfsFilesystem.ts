@@ -0,0 +1,66 @@
+import { LocalFileSystemProvider } from "./filesystem";
+
+/** Directory inside the origin private file system that holds notebooks */
+const NOTEBOOKS_DIR = "notebooks";
+
+/**
+ * Origin Private File System implementation of FileSystemProvider.
+ *
+ * For browsers without showDirectoryPicker (Firefox, Safari). Notebooks live
+ * in the browser's private storage for this origin, under
+ * `notebooks/<name>/`. There is no system dialog: pickDirectory() asks the
+ * caller to choose a notebook name instead. OPFS handles never need a
+ * permission grant.
+ *
+ * Data in OPFS is not visible to the user's file manager, so pair this with
+ * notebook archive export/import to get notes in and out.
+ */
+export class OpfsFileSystemProvider extends LocalFileSystemProvider {
+  private readonly chooseNotebook: (
+    existing: string[],
+  ) => Promise<string | null>;
+
+  /**
+   * @param chooseNotebook - Asked to pick a notebook name, given the names of
+   *   notebooks that already exist. Return null to cancel.
+   */
+  constructor(chooseNotebook: (existing: string[]) => Promise<string | null>) {
+    super();
+    this.chooseNotebook = chooseNotebook;
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    const notebooks = await root.getDirectoryHandle(NOTEBOOKS_DIR, {
+      create: true,
+    });
+
+    const existing = (await this.listDir(notebooks))
+      .filter((e) => e.isDirectory)
+      .map((e) => e.name)
+      .sort();
+
+    const choice = (await this.chooseNotebook(existing))?.trim();
+    if (!choice) {
+      throw new DOMException("The user aborted a request.", "AbortError");
+    }
+    if (choice.includes("/") || choice === "." || choice === "..") {
+      throw new Error(`Invalid notebook name: ${choice}`);
+    }
+
+    return await notebooks.getDirectoryHandle(choice, { create: true });
+  }
+
+  async getPersistedHandle(key: string): Promise<{
+    handle: FileSystemDirectoryHandle;
+    needsPermission: boolean;
+  } | null> {
+    const handle = await this.getStoredHandle(key);
+    if (!handle) return null;
+    return { handle, needsPermission: false };
+  }
+
+  async requestPermission(): Promise<boolean> {
+    return true;
+  }
+}
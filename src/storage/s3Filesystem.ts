@@ -0,0 +1,648 @@
+/**
+ * S3 implementation of FileSystemProvider.
+ *
+ * Keeps a notebook under a key prefix in an S3 bucket (AWS, MinIO, ...).
+ * S3 has no directories, only keys: the directory `a/b` is every key
+ * starting with `a/b/`, so it exists while it holds objects. mkdir writes
+ * an empty `a/b/` marker object to keep a directory with nothing in it yet,
+ * and listDir lists the prefix with delimiter "/" to get its files and
+ * subdirectories.
+ *
+ * - readTextFile/readBinaryFile: GET
+ * - writeTextFile/writeBinaryFile: PUT (no parents to create)
+ * - listDir/exists: ListObjectsV2, and HEAD for files
+ * - remove: DELETE of every object under the path
+ * - rename: CopyObject then DELETE, object by object
+ *
+ * Renaming a directory is therefore not atomic: if it fails partway, the
+ * objects copied so far are in both places.
+ *
+ * Requests use path-style URLs (endpoint/bucket/key), which both MinIO and
+ * AWS accept, and are signed with Signature Version 4 using the access key
+ * from the location. Like the WebDAV provider, pickDirectory() asks for a
+ * location instead of showing a dialog and persistHandle() keeps it,
+ * credentials included, in localStorage by default. Use a key limited to
+ * the bucket. In a browser, the bucket must allow the app's origin (CORS).
+ */
+
+import type { FileSystemProvider } from "./filesystem";
+import { xmlElements, xmlText } from "./xml";
+
+/**
+ * An access key, as used to sign requests.
+ */
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials */
+  sessionToken?: string;
+}
+
+/**
+ * Where a notebook lives in S3, and the key to reach it with.
+ */
+export interface S3Location extends S3Credentials {
+  /** Service URL, e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000 */
+  endpoint: string;
+  /** Region the requests are signed for (MinIO: us-east-1 unless set) */
+  region: string;
+  bucket: string;
+  /** Key prefix of the notebook, e.g. "notebooks/work" ("" for the bucket root) */
+  prefix: string;
+}
+
+/** The part of Storage used to persist locations */
+export type S3LocationStorage = Pick<
+  Storage,
+  "getItem" | "setItem" | "removeItem"
+>;
+
+export interface S3FileSystemOptions {
+  /**
+   * Called by pickDirectory() to ask for the notebook location.
+   * Return null to cancel.
+   */
+  chooseLocation?: () => Promise<S3Location | null>;
+
+  /** Where persistHandle() keeps locations (default localStorage) */
+  storage?: S3LocationStorage;
+
+  /** Injectable fetch and clock for testing */
+  fetch?: typeof globalThis.fetch;
+  now?: () => Date;
+}
+
+/** A page of a ListObjectsV2 response */
+export interface S3Listing {
+  /** Keys of the objects, in full */
+  keys: string[];
+  /** Common prefixes (with delimiter "/": the subdirectories), in full */
+  prefixes: string[];
+  /** Token for the next page, or null if this is the last */
+  nextToken: string | null;
+}
+
+/** A request to sign */
+export interface S3Request {
+  method: string;
+  /** Full URL, path and query encoded with uriEncode */
+  url: string;
+  /** Headers to send and sign, apart from Host, which comes from the URL */
+  headers: Record<string, string>;
+  /** Hex SHA-256 of the body */
+  payloadHash: string;
+}
+
+/** SHA-256 of nothing, the payload hash of requests without a body */
+export const EMPTY_SHA256 =
+  "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+const encoder = new TextEncoder();
+
+function hex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/** Hex SHA-256 of a string's UTF-8 bytes, or of binary data */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  return hex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+/**
+ * Percent-encode as Signature Version 4 wants: every byte except
+ * A-Z, a-z, 0-9, "-", ".", "_" and "~".
+ */
+export function uriEncode(text: string): string {
+  return encodeURIComponent(text).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/** A key as a URL path: each segment encoded, the slashes kept */
+function encodeKey(key: string): string {
+  return key.split("/").map(uriEncode).join("/");
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 for S3, at time `now`.
+ * Returns the headers to send: the request's own, x-amz-date,
+ * x-amz-content-sha256, x-amz-security-token for temporary credentials,
+ * and Authorization. All of them are signed.
+ */
+export async function signS3Request(
+  request: S3Request,
+  credentials: S3Credentials,
+  region: string,
+  now: Date = new Date(),
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  // 20130524T000000Z
+  const amzDate = now.toISOString().replace(/[-:]|\.\d+/g, "");
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    "x-amz-content-sha256": request.payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = new Map([["host", url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders.set(name.toLowerCase(), value.trim().replace(/\s+/g, " "));
+  }
+  const names = [...canonicalHeaders.keys()].sort();
+  const signedHeaders = names.join(";");
+
+  const query = [...url.searchParams]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, x], [b, y]) =>
+      a === b ? (x < y ? -1 : x > y ? 1 : 0) : a < b ? -1 : 1,
+    )
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+
+  const canonicalRequest = [
+    request.method,
+    encodeKey(decodeURIComponent(url.pathname)),
+    query,
+    names.map((name) => `${name}:${canonicalHeaders.get(name)}\n`).join(""),
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let key = encoder.encode(`AWS4${credentials.secretAccessKey}`)
+    .buffer as ArrayBuffer;
+  for (const part of [date, region, "s3", "aws4_request"]) {
+    key = await hmac(key, part);
+  }
+  const signature = hex(await hmac(key, stringToSign));
+
+  headers.Authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},` +
+    `SignedHeaders=${signedHeaders},Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * Read a page of a ListObjectsV2 response.
+ */
+export function parseListObjects(xml: string): S3Listing {
+  const texts = (parent: string, name: string) =>
+    xmlElements(xml, parent)
+      .map((element) => xmlText(element, name))
+      .filter((text) => text !== null);
+  return {
+    keys: texts("Contents", "Key"),
+    prefixes: texts("CommonPrefixes", "Prefix"),
+    nextToken:
+      xmlText(xml, "IsTruncated") === "true"
+        ? xmlText(xml, "NextContinuationToken")
+        : null,
+  };
+}
+
+function notFound(path: string): DOMException {
+  return new DOMException(`Not found: ${path}`, "NotFoundError");
+}
+
+function splitPath(path: string): string[] {
+  const parts = path.split("/").filter((p) => p.length > 0 && p !== ".");
+  if (parts.includes("..")) throw new Error(`Invalid path: ${path}`);
+  return parts;
+}
+
+/** In-memory storage, where there is no localStorage (Node) */
+function memoryStorage(): S3LocationStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+interface Directory {
+  location: S3Location;
+  /** Key prefix of the directory: "" or ending in "/" */
+  prefix: string;
+}
+
+export class S3FileSystemProvider implements FileSystemProvider {
+  private directories = new WeakMap<FileSystemDirectoryHandle, Directory>();
+  private handles = new Map<string, FileSystemDirectoryHandle>();
+
+  private readonly chooseLocation: () => Promise<S3Location | null>;
+  private readonly storage: S3LocationStorage;
+  private readonly fetch: typeof globalThis.fetch;
+  private readonly now: () => Date;
+
+  constructor(options: S3FileSystemOptions = {}) {
+    this.chooseLocation =
+      options.chooseLocation ?? (() => Promise.resolve(null));
+    this.storage =
+      options.storage ?? globalThis.localStorage ?? memoryStorage();
+    // Bind to globalThis to avoid "Illegal invocation" when called as a method
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Get a handle for a notebook location. Nothing is created or checked.
+   */
+  connect(location: S3Location): FileSystemDirectoryHandle {
+    const parts = splitPath(location.prefix);
+    const prefix = parts.length > 0 ? `${parts.join("/")}/` : "";
+    return this.handleFor({ ...location, prefix: parts.join("/") }, prefix);
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    const location = await this.chooseLocation();
+    if (!location) {
+      throw new DOMException("The user aborted a request.", "AbortError");
+    }
+    const handle = this.connect(location);
+    // Fails early on a wrong bucket or key
+    await this.list(handle, this.directory(handle).prefix, "/", null, 1);
+    return handle;
+  }
+
+  async readTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<string> {
+    return await (await this.get(dir, path)).text();
+  }
+
+  async writeTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    content: string,
+  ): Promise<void> {
+    await this.put(dir, path, content, "text/plain; charset=utf-8");
+  }
+
+  async readBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<ArrayBuffer> {
+    return await (await this.get(dir, path)).arrayBuffer();
+  }
+
+  async writeBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    data: ArrayBuffer,
+  ): Promise<void> {
+    await this.put(dir, path, data, "application/octet-stream");
+  }
+
+  async mkdir(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<FileSystemDirectoryHandle> {
+    const key = this.key(dir, path);
+    const { location, prefix } = this.directory(dir);
+    if (key === prefix) return dir;
+
+    if (await this.isFile(dir, key)) {
+      throw new Error(`Not a directory: ${path}`);
+    }
+    if (!(await this.hasObjectsUnder(dir, `${key}/`))) {
+      await this.request(dir, "PUT", `${key}/`, {
+        headers: { "Content-Type": "application/x-directory" },
+        body: "",
+      });
+    }
+    return this.handleFor(location, `${key}/`);
+  }
+
+  async listDir(
+    dir: FileSystemDirectoryHandle,
+  ): Promise<Array<{ name: string; isDirectory: boolean }>> {
+    const { prefix } = this.directory(dir);
+    const entries: Array<{ name: string; isDirectory: boolean }> = [];
+    let token: string | null = null;
+    do {
+      const page = await this.list(dir, prefix, "/", token);
+      for (const key of page.keys) {
+        // Skip the directory's own marker
+        if (key !== prefix) {
+          entries.push({ name: key.slice(prefix.length), isDirectory: false });
+        }
+      }
+      for (const sub of page.prefixes) {
+        entries.push({
+          name: sub.slice(prefix.length, -1),
+          isDirectory: true,
+        });
+      }
+      token = page.nextToken;
+    } while (token);
+    return entries;
+  }
+
+  async exists(dir: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+    const key = this.key(dir, path);
+    if (key === this.directory(dir).prefix) return true;
+    return (
+      (await this.isFile(dir, key)) ||
+      (await this.hasObjectsUnder(dir, `${key}/`))
+    );
+  }
+
+  async remove(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+    const keys = await this.keysAt(dir, this.key(dir, path));
+    if (keys.length === 0) throw notFound(path);
+    for (const key of keys) {
+      await this.request(dir, "DELETE", key);
+    }
+  }
+
+  async rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    const source = this.key(dir, from);
+    const target = this.key(dir, to);
+    if (target === this.directory(dir).prefix) {
+      throw new Error("Invalid path: empty name");
+    }
+    if (`${target}/`.startsWith(`${source}/`)) {
+      throw new Error(`Can't move ${from} into itself`);
+    }
+    const keys = await this.keysAt(dir, source);
+    if (keys.length === 0) throw notFound(from);
+    if (await this.exists(dir, to)) {
+      throw new Error(`Already exists: ${to}`);
+    }
+
+    const { bucket } = this.directory(dir).location;
+    for (const key of keys) {
+      await this.request(dir, "PUT", target + key.slice(source.length), {
+        headers: {
+          "x-amz-copy-source": `/${uriEncode(bucket)}/${encodeKey(key)}`,
+        },
+      });
+    }
+    for (const key of keys) {
+      await this.request(dir, "DELETE", key);
+    }
+  }
+
+  /** Keeps the location, credentials included, in storage */
+  async persistHandle(
+    key: string,
+    handle: FileSystemDirectoryHandle,
+  ): Promise<void> {
+    const { location, prefix } = this.directory(handle);
+    this.storage.setItem(
+      key,
+      JSON.stringify({ ...location, prefix: prefix.replace(/\/$/, "") }),
+    );
+  }
+
+  async getPersistedHandle(key: string): Promise<{
+    handle: FileSystemDirectoryHandle;
+    needsPermission: boolean;
+  } | null> {
+    let location: Partial<S3Location> | null;
+    try {
+      location = JSON.parse(this.storage.getItem(key) ?? "null");
+    } catch {
+      return null;
+    }
+    if (
+      typeof location?.endpoint !== "string" ||
+      typeof location.bucket !== "string"
+    ) {
+      return null;
+    }
+    return {
+      handle: this.connect({
+        endpoint: location.endpoint,
+        region: location.region ?? "us-east-1",
+        bucket: location.bucket,
+        prefix: location.prefix ?? "",
+        accessKeyId: location.accessKeyId ?? "",
+        secretAccessKey: location.secretAccessKey ?? "",
+        sessionToken: location.sessionToken,
+      }),
+      needsPermission: false,
+    };
+  }
+
+  /** Checks that the bucket still accepts the credentials */
+  async requestPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    try {
+      await this.list(handle, this.directory(handle).prefix, "/", null, 1);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Helper: the directory a handle stands for
+  private directory(dir: FileSystemDirectoryHandle): Directory {
+    const directory = this.directories.get(dir);
+    if (!directory) {
+      throw new TypeError("Handle does not belong to this provider");
+    }
+    return directory;
+  }
+
+  // Helper: handle for a key prefix in a bucket, one per prefix
+  private handleFor(
+    location: S3Location,
+    prefix: string,
+  ): FileSystemDirectoryHandle {
+    const id = `${location.endpoint}/${location.bucket}/${prefix}`;
+    let handle = this.handles.get(id);
+    if (!handle) {
+      const parts = prefix.split("/").filter(Boolean);
+      handle = {
+        kind: "directory",
+        name: parts[parts.length - 1] ?? location.bucket,
+      } as unknown as FileSystemDirectoryHandle;
+      this.handles.set(id, handle);
+    }
+    // New credentials for a known location replace the old ones
+    this.directories.set(handle, { location, prefix });
+    return handle;
+  }
+
+  // Helper: key of `path` relative to a handle (the handle's prefix for "")
+  private key(dir: FileSystemDirectoryHandle, path: string): string {
+    return this.directory(dir).prefix + splitPath(path).join("/");
+  }
+
+  // Helper: whether there's an object at a key
+  private async isFile(
+    dir: FileSystemDirectoryHandle,
+    key: string,
+  ): Promise<boolean> {
+    const response = await this.request(dir, "HEAD", key, {
+      allowNotFound: true,
+    });
+    return response.status !== 404;
+  }
+
+  // Helper: whether any object's key starts with a prefix
+  private async hasObjectsUnder(
+    dir: FileSystemDirectoryHandle,
+    prefix: string,
+  ): Promise<boolean> {
+    const page = await this.list(dir, prefix, null, null, 1);
+    return page.keys.length > 0;
+  }
+
+  // Helper: the keys of the file at a key, or of everything in the
+  // directory there, marker included
+  private async keysAt(
+    dir: FileSystemDirectoryHandle,
+    key: string,
+  ): Promise<string[]> {
+    if (await this.isFile(dir, key)) return [key];
+    const keys: string[] = [];
+    let token: string | null = null;
+    do {
+      const page = await this.list(dir, `${key}/`, null, token);
+      keys.push(...page.keys);
+      token = page.nextToken;
+    } while (token);
+    return keys;
+  }
+
+  // Helper: one page of ListObjectsV2
+  private async list(
+    dir: FileSystemDirectoryHandle,
+    prefix: string,
+    delimiter: string | null,
+    token: string | null,
+    maxKeys?: number,
+  ): Promise<S3Listing> {
+    const query: Record<string, string> = { "list-type": "2", prefix };
+    if (delimiter) query.delimiter = delimiter;
+    if (token) query["continuation-token"] = token;
+    if (maxKeys !== undefined) query["max-keys"] = maxKeys.toString();
+    const response = await this.request(dir, "GET", null, { query });
+    return parseListObjects(await response.text());
+  }
+
+  private async get(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<Response> {
+    const response = await this.request(dir, "GET", this.key(dir, path), {
+      allowNotFound: true,
+    });
+    if (response.status === 404) throw notFound(path);
+    return response;
+  }
+
+  private async put(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    body: string | ArrayBuffer,
+    type: string,
+  ): Promise<void> {
+    const parts = splitPath(path);
+    if (parts.length === 0) throw new Error("Invalid path: empty filename");
+    await this.request(dir, "PUT", this.key(dir, path), {
+      headers: { "Content-Type": type },
+      body,
+    });
+  }
+
+  // Helper: send a signed request for an object (or, with key null, the
+  // bucket), throwing on failure
+  private async request(
+    dir: FileSystemDirectoryHandle,
+    method: string,
+    key: string | null,
+    options: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: string | ArrayBuffer;
+      /** Return 404 responses instead of throwing */
+      allowNotFound?: boolean;
+    } = {},
+  ): Promise<Response> {
+    const { location } = this.directory(dir);
+    const query = Object.entries(options.query ?? {})
+      .map(([name, value]) => `${uriEncode(name)}=${uriEncode(value)}`)
+      .join("&");
+    const url =
+      `${location.endpoint.replace(/\/+$/, "")}/${uriEncode(location.bucket)}` +
+      (key === null ? "/" : `/${encodeKey(key)}`) +
+      (query ? `?${query}` : "");
+
+    const headers = await signS3Request(
+      {
+        method,
+        url,
+        headers: options.headers ?? {},
+        payloadHash:
+          options.body === undefined
+            ? EMPTY_SHA256
+            : await sha256Hex(options.body),
+      },
+      location,
+      location.region,
+      this.now(),
+    );
+    // Objects change under the app (other devices, other tabs); never reuse
+    // a response from the HTTP cache
+    const response = await this.fetch(url, {
+      method,
+      headers,
+      body: options.body,
+      cache: "no-store",
+    });
+    if (response.ok) return response;
+    if (response.status === 404 && options.allowNotFound) return response;
+
+    // S3 explains errors in an XML body (HEAD responses have none)
+    const code =
+      method === "HEAD" ? null : xmlText(await response.text(), "Code");
+    const what = key ?? location.bucket;
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `The S3 server refused the access key${code ? ` (${code})` : ""}`,
+      );
+    }
+    throw new Error(
+      `S3 ${method} ${what} failed: ${response.status} ${code ?? response.statusText}`.trim(),
+    );
+  }
+}
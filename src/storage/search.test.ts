@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { createNote, deleteNote, type Note, saveNote } from "./note";
+import { createNotebook } from "./notebook";
+import {
+  buildSearchIndex,
+  extractSearchFields,
+  SearchIndex,
+  tokenize,
+} from "./search";
+
+function paragraph(text: string) {
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
+function note(path: string, title: string, ...blocks: unknown[]): Note {
+  return {
+    path,
+    content: {
+      type: "doc",
+      content: [
+        {
+          type: "title",
+          content: title ? [{ type: "text", text: title }] : [],
+        },
+        { type: "created", attrs: { timestamp: 1000 } },
+        { type: "labels", attrs: { labels: [] } },
+        // block+: a note always has at least one block
+        ...(blocks.length > 0 ? blocks : [{ type: "paragraph" }]),
+      ],
+    },
+  };
+}
+
+describe("tokenize", () => {
+  it("splits into lowercase words", () => {
+    expect(tokenize("Hello, World! e=mc^2 x_1 Ünïcode")).toEqual([
+      "hello",
+      "world",
+      "e",
+      "mc",
+      "2",
+      "x_1",
+      "ünïcode",
+    ]);
+  });
+});
+
+describe("extractSearchFields", () => {
+  it("collects title, text, headings, code, math and alt text in order", () => {
+    const fields = extractSearchFields(
+      note(
+        "p",
+        "Title",
+        {
+          type: "section",
+          attrs: { level: 1 },
+          content: [{ type: "text", text: "Heading" }],
+        },
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Body" },
+            { type: "hard_break" },
+            { type: "text", text: "more" },
+            { type: "math_inline", attrs: { content: "x^2" } },
+            { type: "image", attrs: { src: "a.png", alt: "A photo" } },
+          ],
+        },
+        { type: "code_block", content: [{ type: "text", text: "let x;" }] },
+        { type: "math_display", attrs: { content: "\\frac{a}{b}" } },
+        {
+          type: "bullet_list",
+          content: [{ type: "list_item", content: [paragraph("item")] }],
+        },
+      ).content,
+    );
+    expect(fields).toEqual([
+      { kind: "title", text: "Title" },
+      { kind: "heading", text: "Heading" },
+      { kind: "text", text: "Body more" },
+      { kind: "math", text: "x^2" },
+      { kind: "alt", text: "A photo" },
+      { kind: "code", text: "let x;" },
+      { kind: "math", text: "\\frac{a}{b}" },
+      { kind: "text", text: "item" },
+    ]);
+  });
+
+  it("returns nothing for invalid content", () => {
+    expect(extractSearchFields(null)).toEqual([]);
+    expect(extractSearchFields("doc")).toEqual([]);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("finds notes containing all query words", () => {
+    const index = new SearchIndex();
+    index.update(note("a", "Apples", paragraph("red fruit")));
+    index.update(note("b", "Bananas", paragraph("yellow fruit")));
+
+    expect(
+      index
+        .search("fruit")
+        .map((r) => r.path)
+        .sort(),
+    ).toEqual(["a", "b"]);
+    expect(index.search("yellow FRUIT").map((r) => r.path)).toEqual(["b"]);
+    expect(index.search("yellow apples")).toEqual([]);
+    expect(index.search("  ")).toEqual([]);
+  });
+
+  it("matches word prefixes", () => {
+    const index = new SearchIndex();
+    index.update(note("a", "", paragraph("Photosynthesis")));
+
+    expect(index.search("photo").map((r) => r.path)).toEqual(["a"]);
+    expect(index.search("synth")).toEqual([]);
+  });
+
+  it("ranks title matches above body matches", () => {
+    const index = new SearchIndex();
+    index.update(note("body", "Notes", paragraph("about gardening")));
+    index.update(note("title", "Gardening", paragraph("notes")));
+
+    expect(index.search("gardening").map((r) => r.path)).toEqual([
+      "title",
+      "body",
+    ]);
+  });
+
+  it("ranks exact words above prefixes", () => {
+    const index = new SearchIndex();
+    index.update(note("prefix", "", paragraph("carpet")));
+    index.update(note("exact", "", paragraph("car")));
+
+    expect(index.search("car").map((r) => r.path)).toEqual(["exact", "prefix"]);
+  });
+
+  it("searches LaTeX source, code and alt text", () => {
+    const index = new SearchIndex();
+    index.update(
+      note(
+        "a",
+        "",
+        { type: "math_display", attrs: { content: "\\int_0^1 f(x)" } },
+        {
+          type: "code_block",
+          content: [{ type: "text", text: "console.log" }],
+        },
+        {
+          type: "paragraph",
+          content: [{ type: "image", attrs: { src: "a.png", alt: "Sunset" } }],
+        },
+      ),
+    );
+
+    expect(index.search("int")).toHaveLength(1);
+    expect(index.search("console")).toHaveLength(1);
+    expect(index.search("sunset")).toHaveLength(1);
+  });
+
+  it("replaces a note's words when it is updated", () => {
+    const index = new SearchIndex();
+    index.update(note("a", "", paragraph("before")));
+    index.update(note("a", "", paragraph("after")));
+
+    expect(index.size).toBe(1);
+    expect(index.search("before")).toEqual([]);
+    expect(index.search("after").map((r) => r.path)).toEqual(["a"]);
+  });
+
+  it("removes notes", () => {
+    const index = new SearchIndex();
+    index.update(note("a", "", paragraph("word")));
+    index.remove("a");
+    index.remove("missing");
+
+    expect(index.size).toBe(0);
+    expect(index.search("word")).toEqual([]);
+  });
+
+  it("returns title, created and a highlighted snippet", () => {
+    const index = new SearchIndex();
+    const long = `${"lorem ipsum ".repeat(10)}the Quick brown fox ${"dolor ".repeat(30)}`;
+    index.update(note("a", "Fox facts", paragraph(long)));
+
+    const [result] = index.search("quick fox");
+    expect(result.title).toBe("Fox facts");
+    expect(result.created).toBe(1000);
+    // The title mentions "fox" but not "quick"; the snippet shows the
+    // first field with a match
+    expect(result.snippet).toBe("Fox facts");
+    expect(result.match).toBe("Fox");
+    expect(result.highlights).toEqual([[0, 3]]);
+
+    const [body] = index.search("quick");
+    expect(body.snippet.startsWith("…")).toBe(true);
+    expect(body.snippet.endsWith("…")).toBe(true);
+    expect(body.match).toBe("Quick");
+    const highlighted = body.highlights.map(([s, e]) =>
+      body.snippet.slice(s, e),
+    );
+    expect(highlighted).toEqual(["Quick"]);
+  });
+
+  it("highlights every query word in the snippet", () => {
+    const index = new SearchIndex();
+    index.update(note("a", "", paragraph("cats and dogs and more cats")));
+
+    const [result] = index.search("cat dog");
+    const highlighted = result.highlights.map(([s, e]) =>
+      result.snippet.slice(s, e),
+    );
+    expect(highlighted).toEqual(["cats", "dogs", "cats"]);
+  });
+});
+
+describe("buildSearchIndex", () => {
+  it("indexes existing notes and follows later saves", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    first.content = note(first.path, "Existing").content;
+    await saveNote(fs, notebook, first);
+
+    const { index, dispose } = await buildSearchIndex(fs, notebook);
+    expect(index.search("existing").map((r) => r.path)).toEqual([first.path]);
+
+    const second = await createNote(fs, notebook);
+    expect(index.size).toBe(2);
+    second.content = note(second.path, "Fresh").content;
+    await saveNote(fs, notebook, second);
+    expect(index.search("fresh").map((r) => r.path)).toEqual([second.path]);
+
+    await deleteNote(fs, notebook, second.path);
+    expect(index.search("fresh")).toEqual([]);
+
+    dispose();
+    first.content = note(first.path, "Changed").content;
+    await saveNote(fs, notebook, first);
+    expect(index.search("changed")).toEqual([]);
+  });
+});
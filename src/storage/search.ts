@@ -0,0 +1,365 @@
+/**
+ * Full-text search across the notes of a notebook.
+ *
+ * The index is built once from every note.json and then kept current by
+ * listening to saveNote/createNote, re-indexing only the note that changed.
+ * It lives in memory; notebooks are small enough that building it on first
+ * use is quick.
+ *
+ * Ranking is BM25 over words, with title and section words counting more
+ * than body text. Query words match as prefixes, so results show up while
+ * the user is still typing.
+ */
+
+import type { FileSystemProvider } from "./filesystem";
+import {
+  extractCreated,
+  extractTitle,
+  loadAllNotes,
+  type Note,
+  onNoteRemoved,
+  onNoteSaved,
+} from "./note";
+import type { Notebook } from "./notebook";
+
+/** Where a piece of searchable text comes from */
+export type SearchFieldKind =
+  | "title"
+  | "heading"
+  | "text"
+  | "code"
+  | "math"
+  | "alt";
+
+export interface SearchField {
+  kind: SearchFieldKind;
+  text: string;
+}
+
+export interface SearchResult {
+  /** Path of the note, relative to the notebook root */
+  path: string;
+  title: string;
+  created: number;
+  score: number;
+  /** Excerpt around the best match */
+  snippet: string;
+  /** [start, end) ranges of matched words within snippet */
+  highlights: Array<[number, number]>;
+  /** Matched text as it appears in the note, for jumping to the match */
+  match: string;
+}
+
+/** How much a word counts, by field */
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = {
+  title: 5,
+  heading: 3,
+  text: 1,
+  code: 1,
+  math: 1,
+  alt: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Score factor for a query word that is only a prefix of the indexed word */
+const PREFIX_FACTOR = 0.5;
+
+const SNIPPET_BEFORE = 30;
+const SNIPPET_LENGTH = 120;
+
+interface JsonNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  content?: JsonNode[];
+}
+
+/**
+ * Split text into lowercase words (letters, digits and underscores).
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Collect the searchable text of a note from its document JSON, in
+ * document order: title, paragraphs, sections, code, LaTeX source and
+ * image alt text.
+ */
+export function extractSearchFields(content: unknown): SearchField[] {
+  const fields: SearchField[] = [];
+
+  const add = (kind: SearchFieldKind, text: string) => {
+    if (text.trim()) fields.push({ kind, text });
+  };
+
+  const visit = (node: JsonNode) => {
+    switch (node.type) {
+      case "math_display":
+      case "math_inline":
+        add("math", String(node.attrs?.content ?? ""));
+        return;
+      case "image":
+        add("alt", String(node.attrs?.alt ?? ""));
+        return;
+    }
+
+    const children = node.content ?? [];
+    const isTextblock = children.some(
+      (child) => child.type === "text" || child.type === "hard_break",
+    );
+    if (isTextblock) {
+      const text = children
+        .map((child) =>
+          child.type === "text"
+            ? (child.text ?? "")
+            : child.type === "hard_break"
+              ? " "
+              : "",
+        )
+        .join("");
+      const kind: SearchFieldKind =
+        node.type === "title"
+          ? "title"
+          : node.type === "section"
+            ? "heading"
+            : node.type === "code_block"
+              ? "code"
+              : "text";
+      add(kind, text);
+    }
+    // Inline atoms (math, images) inside textblocks are fields of their own
+    for (const child of children) {
+      if (child.type !== "text") visit(child);
+    }
+  };
+
+  if (content && typeof content === "object") {
+    visit(content as JsonNode);
+  }
+  return fields;
+}
+
+interface IndexedNote {
+  path: string;
+  title: string;
+  created: number;
+  fields: SearchField[];
+  /** Weighted count of each word */
+  terms: Map<string, number>;
+  /** Weighted number of words */
+  length: number;
+}
+
+/**
+ * In-memory inverted index over the notes of one notebook.
+ */
+export class SearchIndex {
+  private notes = new Map<string, IndexedNote>();
+  /** Word → paths of notes containing it */
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  /** Number of indexed notes */
+  get size(): number {
+    return this.notes.size;
+  }
+
+  /**
+   * Add a note to the index, replacing any previous version of it.
+   */
+  update(note: Note): void {
+    this.remove(note.path);
+
+    const fields = extractSearchFields(note.content);
+    const terms = new Map<string, number>();
+    let length = 0;
+    for (const field of fields) {
+      const weight = FIELD_WEIGHTS[field.kind];
+      for (const word of tokenize(field.text)) {
+        terms.set(word, (terms.get(word) ?? 0) + weight);
+        length += weight;
+      }
+    }
+
+    this.notes.set(note.path, {
+      path: note.path,
+      title: extractTitle(note.content),
+      created: extractCreated(note.content),
+      fields,
+      terms,
+      length,
+    });
+    this.totalLength += length;
+    for (const word of terms.keys()) {
+      let paths = this.postings.get(word);
+      if (!paths) {
+        paths = new Set();
+        this.postings.set(word, paths);
+      }
+      paths.add(note.path);
+    }
+  }
+
+  /**
+   * Remove a note from the index. Does nothing if it isn't indexed.
+   */
+  remove(path: string): void {
+    const indexed = this.notes.get(path);
+    if (!indexed) return;
+
+    for (const word of indexed.terms.keys()) {
+      const paths = this.postings.get(word);
+      paths?.delete(path);
+      if (paths?.size === 0) this.postings.delete(word);
+    }
+    this.totalLength -= indexed.length;
+    this.notes.delete(path);
+  }
+
+  /**
+   * Find notes containing every word of the query (as a word or a word
+   * prefix). Results are sorted by score, best first.
+   */
+  search(query: string, limit = 50): SearchResult[] {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0 || this.notes.size === 0) return [];
+
+    const count = this.notes.size;
+    const averageLength = this.totalLength / count || 1;
+    let scores: Map<string, number> | null = null;
+
+    for (const word of words) {
+      const wordScores = new Map<string, number>();
+      for (const [term, paths] of this.postings) {
+        if (!term.startsWith(word)) continue;
+
+        const factor = term === word ? 1 : PREFIX_FACTOR;
+        const idf = Math.log(
+          1 + (count - paths.size + 0.5) / (paths.size + 0.5),
+        );
+        for (const path of paths) {
+          const note = this.notes.get(path) as IndexedNote;
+          const tf = note.terms.get(term) ?? 0;
+          const norm = K1 * (1 - B + (B * note.length) / averageLength);
+          const score = (factor * idf * tf * (K1 + 1)) / (tf + norm);
+          wordScores.set(path, (wordScores.get(path) ?? 0) + score);
+        }
+      }
+
+      // Every word must match
+      if (scores) {
+        const previous: Map<string, number> = scores;
+        scores = new Map();
+        for (const [path, score] of wordScores) {
+          const before = previous.get(path);
+          if (before !== undefined) scores.set(path, before + score);
+        }
+      } else {
+        scores = wordScores;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return [...(scores ?? [])]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([path, score]) => {
+        const note = this.notes.get(path) as IndexedNote;
+        return {
+          path,
+          title: note.title,
+          created: note.created,
+          score,
+          ...makeSnippet(note.fields, words),
+        };
+      });
+  }
+}
+
+/**
+ * Find the first field containing a query word and cut an excerpt around
+ * the match. Matches are found at word starts, like the index does.
+ */
+function makeSnippet(
+  fields: SearchField[],
+  words: string[],
+): Pick<SearchResult, "snippet" | "highlights" | "match"> {
+  const escaped = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${escaped.join("|")})[\\p{L}\\p{N}_]*`,
+    "giu",
+  );
+
+  for (const field of fields) {
+    pattern.lastIndex = 0;
+    const first = pattern.exec(field.text);
+    if (!first) continue;
+
+    let start = Math.max(0, first.index - SNIPPET_BEFORE);
+    // Don't start in the middle of a word
+    if (start > 0) {
+      const space = field.text.indexOf(" ", start);
+      if (space !== -1 && space < first.index) start = space + 1;
+    }
+    const end = Math.min(field.text.length, start + SNIPPET_LENGTH);
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < field.text.length ? "…" : "";
+    const excerpt = field.text.slice(start, end);
+
+    const highlights: Array<[number, number]> = [];
+    pattern.lastIndex = 0;
+    for (const m of excerpt.matchAll(pattern)) {
+      const from = prefix.length + (m.index ?? 0);
+      highlights.push([from, from + m[0].length]);
+    }
+
+    return {
+      snippet: `${prefix}${excerpt}${suffix}`,
+      highlights,
+      match: first[0],
+    };
+  }
+
+  // Only reachable if tokenize and the pattern disagree
+  return { snippet: "", highlights: [], match: "" };
+}
+
+/**
+ * Build a search index over every note in the notebook. The index
+ * subscribes to the notebook's saves and deletions; call the returned
+ * `dispose` when switching notebooks.
+ */
+export async function buildSearchIndex(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<{ index: SearchIndex; dispose: () => void }> {
+  const index = new SearchIndex();
+
+  // Subscribe before scanning so changes during the scan aren't lost. A
+  // note saved or removed during the scan may have been read before that,
+  // so the scanned copy must not replace the change.
+  let changedDuringScan: Set<string> | null = new Set();
+  const disposeSaved = onNoteSaved(notebook, (note) => {
+    changedDuringScan?.add(note.path);
+    index.update(note);
+  });
+  const disposeRemoved = onNoteRemoved(notebook, (path) => {
+    changedDuringScan?.add(path);
+    index.remove(path);
+  });
+
+  for (const note of await loadAllNotes(fs, notebook)) {
+    if (!changedDuringScan.has(note.path)) index.update(note);
+  }
+  changedDuringScan = null;
+
+  const dispose = () => {
+    disposeSaved();
+    disposeRemoved();
+  };
+  return { index, dispose };
+}
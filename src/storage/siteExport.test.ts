@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { createNote, type Note, saveNote } from "./note";
+import { createNotebook, type Notebook } from "./notebook";
+import { exportNotebookSite, relativeUrl } from "./siteExport";
+
+function noteContent(title: string, created: number, blocks: unknown[] = []) {
+  return {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp: created } },
+      { type: "labels", attrs: { labels: [] } },
+      ...(blocks.length > 0 ? blocks : [{ type: "paragraph" }]),
+    ],
+  };
+}
+
+async function setNote(
+  fs: MemoryFileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+  content: unknown,
+) {
+  note.content = content;
+  await saveNote(fs, notebook, note);
+}
+
+describe("relativeUrl", () => {
+  it("links from the root", () => {
+    expect(relativeUrl("", "2026/01/02/1/index.html")).toBe(
+      "2026/01/02/1/index.html",
+    );
+  });
+
+  it("links back to the root", () => {
+    expect(relativeUrl("2026/01/02/1", "index.html")).toBe(
+      "../../../../index.html",
+    );
+  });
+
+  it("links between notes via their common ancestor", () => {
+    expect(relativeUrl("2026/01/02/1", "2026/01/02/2/index.html")).toBe(
+      "../2/index.html",
+    );
+    expect(relativeUrl("2026/01/02/1", "2025/12/31/1/index.html")).toBe(
+      "../../../../2025/12/31/1/index.html",
+    );
+  });
+});
+
+describe("exportNotebookSite", () => {
+  it("writes an index and one page per note", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    await setNote(fs, notebook, first, noteContent("Older & wiser", 1000));
+    const second = await createNote(fs, notebook);
+    await setNote(fs, notebook, second, noteContent("Newer", 2000));
+    const target = fs.directory("site");
+
+    const result = await exportNotebookSite(fs, notebook, target);
+
+    expect(result).toEqual({ pages: 2, skipped: [] });
+    const index = await fs.readTextFile(target, "index.html");
+    const newer = index.indexOf(`href="${second.path}/index.html">Newer<`);
+    const older = index.indexOf(
+      `href="${first.path}/index.html">Older &amp; wiser<`,
+    );
+    expect(newer).toBeGreaterThan(-1);
+    expect(older).toBeGreaterThan(newer);
+
+    const page = await fs.readTextFile(target, `${first.path}/index.html`);
+    expect(page).toContain("<h1>Older &amp; wiser</h1>");
+    expect(page).toContain('<a href="../../../../index.html">All notes</a>');
+    expect(page).toContain(
+      `<a href="${relativeUrl(first.path, `${second.path}/index.html`)}" rel="prev">Newer</a>`,
+    );
+    expect(page).not.toContain('rel="next"');
+  });
+
+  it("links notes to each other's pages", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    const second = await createNote(fs, notebook);
+    const link = (text: string, path: string) => ({
+      type: "text",
+      text,
+      marks: [{ type: "link", attrs: { href: `note:${path}` } }],
+    });
+    await setNote(
+      fs,
+      notebook,
+      first,
+      noteContent("First", 1000, [
+        {
+          type: "paragraph",
+          content: [link("next", second.path), link("gone", "2000/01/01/1")],
+        },
+      ]),
+    );
+    const target = fs.directory("site");
+
+    await exportNotebookSite(fs, notebook, target);
+
+    const page = await fs.readTextFile(target, `${first.path}/index.html`);
+    const href = relativeUrl(first.path, `${second.path}/index.html`);
+    expect(page).toContain(`<p><a href="${href}">next</a>gone</p>`);
+  });
+
+  it("copies images next to the pages that use them", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await fs.writeBinaryFile(
+      notebook.handle,
+      `${note.path}/01ABC.png`,
+      new Uint8Array([1, 2, 3]).buffer,
+    );
+    await setNote(
+      fs,
+      notebook,
+      note,
+      noteContent("Pics", 1000, [
+        {
+          type: "paragraph",
+          content: [
+            { type: "image", attrs: { src: "01ABC.png" } },
+            { type: "image", attrs: { src: "missing.png" } },
+          ],
+        },
+      ]),
+    );
+    const target = fs.directory("site");
+
+    await exportNotebookSite(fs, notebook, target);
+
+    const data = await fs.readBinaryFile(target, `${note.path}/01ABC.png`);
+    expect([...new Uint8Array(data)]).toEqual([1, 2, 3]);
+    expect(await fs.exists(target, `${note.path}/missing.png`)).toBe(false);
+    const page = await fs.readTextFile(target, `${note.path}/index.html`);
+    expect(page).toContain('<img src="01ABC.png" class="pm-image">');
+  });
+
+  it("shares one copy of KaTeX's fonts among pages with math", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: plain } = await createNotebook(fs);
+    await setNote(fs, notebook, plain, noteContent("Plain", 1000));
+    const math = await createNote(fs, notebook);
+    await setNote(
+      fs,
+      notebook,
+      math,
+      noteContent("Math", 2000, [
+        { type: "math_display", attrs: { content: "x^2" } },
+      ]),
+    );
+    const target = fs.directory("site");
+
+    await exportNotebookSite(fs, notebook, target);
+
+    const page = await fs.readTextFile(target, `${math.path}/index.html`);
+    expect(page).toContain(
+      `<link rel="stylesheet" href="${relativeUrl(math.path, "fonts/katex.css")}">`,
+    );
+    expect(page).not.toContain("@font-face");
+    expect(
+      await fs.readTextFile(target, `${plain.path}/index.html`),
+    ).not.toContain("fonts/katex.css");
+
+    const css = await fs.readTextFile(target, "fonts/katex.css");
+    expect(css).toContain('src:url(KaTeX_Main-Regular.woff2) format("woff2")');
+    const font = await fs.readBinaryFile(
+      target,
+      "fonts/KaTeX_Main-Regular.woff2",
+    );
+    // woff2 signature
+    expect(new TextDecoder().decode(font.slice(0, 4))).toBe("wOF2");
+  });
+
+  it("writes no fonts when no page has math", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note } = await createNotebook(fs);
+    await setNote(fs, notebook, note, noteContent("Plain", 1000));
+    const target = fs.directory("site");
+
+    await exportNotebookSite(fs, notebook, target);
+
+    expect(await fs.exists(target, "fonts")).toBe(false);
+  });
+
+  it("leaves out notes that can't be opened, and reports them", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook, note: first } = await createNotebook(fs);
+    await setNote(fs, notebook, first, noteContent("First", 1000));
+    const broken = await createNote(fs, notebook);
+    await setNote(fs, notebook, broken, noteContent("Broken", 2000));
+    const third = await createNote(fs, notebook);
+    await setNote(fs, notebook, third, noteContent("Third", 3000));
+    await fs.writeTextFile(notebook.handle, `${broken.path}/note.json`, "{");
+    const target = fs.directory("site");
+
+    const result = await exportNotebookSite(fs, notebook, target);
+
+    expect(result).toEqual({ pages: 2, skipped: [broken.path] });
+    expect(await fs.exists(target, `${broken.path}/index.html`)).toBe(false);
+    expect(await fs.readTextFile(target, "index.html")).not.toContain(
+      broken.path,
+    );
+    const page = await fs.readTextFile(target, `${first.path}/index.html`);
+    expect(page).toContain(
+      `<a href="${relativeUrl(first.path, `${third.path}/index.html`)}" rel="prev">Newer</a>`,
+    );
+  });
+
+  it("refuses to write into a notebook", async () => {
+    const fs = new MemoryFileSystemProvider();
+    const { notebook } = await createNotebook(fs);
+
+    await expect(
+      exportNotebookSite(fs, notebook, notebook.handle),
+    ).rejects.toThrow(/outside the notebook/);
+  });
+});
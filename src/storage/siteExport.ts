@@ -0,0 +1,201 @@
+/**
+ * Static site export.
+ *
+ * Writes a whole notebook as plain HTML files that can be browsed offline
+ * or put on any web server:
+ *
+ *   index.html                 list of notes, newest first
+ *   2026/01/26/1/index.html    one page per note
+ *   2026/01/26/1/<image>       images, next to the page that uses them
+ *   fonts/                     KaTeX's fonts, if any page has math
+ *
+ * All links are relative, so the output folder can be moved freely. Links
+ * between notes lead to the linked note's page.
+ */
+
+import { Node } from "prosemirror-model";
+import {
+  escapeHtml,
+  katexFontFaces,
+  loadKatexFonts,
+  type PageLink,
+  renderHtmlPage,
+  renderNoteHtml,
+} from "../editor/htmlExport";
+import { schema } from "../editor/schema";
+import { NOTEBOOK_FILE } from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { InvalidNoteError, listNotes, loadNote, type NoteInfo } from "./note";
+import type { Notebook } from "./notebook";
+
+export const SITE_PAGE_FILE = "index.html";
+const FONTS_DIR = "fonts";
+const FONTS_STYLESHEET = `${FONTS_DIR}/katex.css`;
+
+/**
+ * Relative URL from a page in directory `fromDir` to `to`
+ * (both relative to the site root, "" for the root itself).
+ */
+export function relativeUrl(fromDir: string, to: string): string {
+  const from = fromDir ? fromDir.split("/") : [];
+  const target = to.split("/");
+  let common = 0;
+  while (
+    common < from.length &&
+    common < target.length - 1 &&
+    from[common] === target[common]
+  ) {
+    common++;
+  }
+  const up = Array(from.length - common).fill("..");
+  return [...up, ...target.slice(common)].join("/");
+}
+
+function formatDate(ts: number): string {
+  return ts ? new Date(ts).toISOString().slice(0, 10) : "";
+}
+
+function renderIndex(notebook: Notebook, notes: NoteInfo[]): string {
+  const items = notes
+    .map((note) => {
+      const href = escapeHtml(`${note.path}/${SITE_PAGE_FILE}`);
+      const date = formatDate(note.created);
+      return `<li><a href="${href}">${escapeHtml(note.title)}</a><time>${date}</time></li>`;
+    })
+    .join("\n");
+  return renderHtmlPage(
+    notebook.name,
+    `<h1>${escapeHtml(notebook.name)}</h1>\n<ul class="note-index">\n${items}\n</ul>`,
+  );
+}
+
+/** The bytes of a base64 data URL */
+function dataUrlBytes(url: string): ArrayBuffer {
+  const binary = atob(url.slice(url.indexOf(",") + 1));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * Write KaTeX's fonts into the site once, with a stylesheet of their
+ * @font-face rules for the pages with math to link.
+ */
+async function writeKatexFonts(
+  fs: FileSystemProvider,
+  target: FileSystemDirectoryHandle,
+): Promise<void> {
+  const fonts = await loadKatexFonts();
+  await fs.mkdir(target, FONTS_DIR);
+  for (const [file, url] of Object.entries(fonts)) {
+    await fs.writeBinaryFile(target, `${FONTS_DIR}/${file}`, dataUrlBytes(url));
+  }
+  // Relative to the stylesheet, next to the fonts
+  const faces = katexFontFaces((file) => (fonts[file] ? file : undefined));
+  await fs.writeTextFile(target, FONTS_STYLESHEET, faces);
+}
+
+/** True for image paths inside the note directory */
+function isLocalImage(src: string): boolean {
+  return (
+    !/^[a-z][a-z\d+.-]*:/i.test(src) &&
+    !src.startsWith("/") &&
+    !src.split("/").includes("..")
+  );
+}
+
+/**
+ * Result of exporting a site.
+ */
+export interface SiteExportResult {
+  /** Number of note pages written */
+  pages: number;
+  /** Paths of notes left out because they can't be opened */
+  skipped: string[];
+}
+
+/**
+ * Export every note in the notebook as a static HTML site into `target`.
+ * Existing files with the same names are overwritten. Notes that can't be
+ * opened are left out, of the index and of links too, and reported.
+ */
+export async function exportNotebookSite(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  target: FileSystemDirectoryHandle,
+): Promise<SiteExportResult> {
+  if (await fs.exists(target, NOTEBOOK_FILE)) {
+    throw new Error("Choose a folder outside the notebook for the site");
+  }
+
+  // Newest first, as in the index. Every note is loaded up front, so those
+  // skipped don't get links from the others.
+  const notes: NoteInfo[] = [];
+  const docs: Node[] = [];
+  const skipped: string[] = [];
+  for (const info of await listNotes(fs, notebook)) {
+    try {
+      const note = await loadNote(fs, notebook, info.path);
+      docs.push(Node.fromJSON(schema, note.content));
+      notes.push(info);
+    } catch (e) {
+      if (!(e instanceof InvalidNoteError)) throw e;
+      skipped.push(info.path);
+    }
+  }
+  // Links to other notes go to their pages
+  const paths = new Set(notes.map((note) => note.path));
+  let hasMath = false;
+
+  for (const [i, note] of notes.entries()) {
+    const doc = docs[i];
+
+    await fs.mkdir(target, note.path);
+
+    const images = new Set<string>();
+    doc.descendants((node) => {
+      const src = node.attrs.src;
+      if (node.type === schema.nodes.image && isLocalImage(src)) {
+        images.add(src);
+      }
+    });
+    for (const src of images) {
+      const path = `${note.path}/${src}`;
+      try {
+        const data = await fs.readBinaryFile(notebook.handle, path);
+        await fs.writeBinaryFile(target, path, data);
+      } catch {
+        // Missing image: the page shows it as broken, like the editor does
+      }
+    }
+
+    const pageLink = (other: NoteInfo) =>
+      relativeUrl(note.path, `${other.path}/${SITE_PAGE_FILE}`);
+    const links: PageLink[] = [
+      { href: relativeUrl(note.path, SITE_PAGE_FILE), text: "All notes" },
+    ];
+    if (i > 0) {
+      links.push({ href: pageLink(notes[i - 1]), text: "Newer", rel: "prev" });
+    }
+    if (i < notes.length - 1) {
+      links.push({ href: pageLink(notes[i + 1]), text: "Older", rel: "next" });
+    }
+
+    // Images are copied next to the page, so their relative src still works
+    const html = await renderNoteHtml(
+      doc,
+      async (src) => src,
+      links,
+      (path) =>
+        paths.has(path)
+          ? relativeUrl(note.path, `${path}/${SITE_PAGE_FILE}`)
+          : null,
+      relativeUrl(note.path, FONTS_STYLESHEET),
+    );
+    await fs.writeTextFile(target, `${note.path}/${SITE_PAGE_FILE}`, html);
+    hasMath ||= html.includes('class="katex');
+  }
+
+  if (hasMath) await writeKatexFonts(fs, target);
+
+  await fs.writeTextFile(target, SITE_PAGE_FILE, renderIndex(notebook, notes));
+  return { pages: notes.length, skipped };
+}
@@ -0,0 +1,350 @@
+import { describe, expect, it, vi } from "vitest";
+import { NOTEBOOK_VERSION } from "./constants";
+import { loadRevision } from "./history";
+import { saveImage } from "./image";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import {
+  createNote,
+  deleteNote,
+  listNotes,
+  listTrash,
+  loadNote,
+  onNoteSaved,
+  saveNote,
+} from "./note";
+import { createNotebook, type Notebook, saveNotebookMeta } from "./notebook";
+import { mergeNotebookMeta, type SyncTarget, syncNotebook } from "./sync";
+import { titled } from "./testing";
+
+interface Device {
+  fs: MemoryFileSystemProvider;
+  notebook: Notebook;
+}
+
+async function setup() {
+  const remoteFs = new MemoryFileSystemProvider();
+  const remote: SyncTarget = {
+    fs: remoteFs,
+    handle: await remoteFs.pickDirectory(),
+    id: "memory:remote",
+  };
+  const fs = new MemoryFileSystemProvider();
+  const { notebook, note } = await createNotebook(fs);
+  return { remote, a: { fs, notebook }, note };
+}
+
+/** A device with an empty folder to sync the notebook into */
+async function emptyDevice(): Promise<Device> {
+  const fs = new MemoryFileSystemProvider();
+  const handle = await fs.pickDirectory();
+  const meta = {
+    version: NOTEBOOK_VERSION,
+    id: crypto.randomUUID(),
+    lastOpenedNote: null,
+    journal: {},
+  };
+  return { fs, notebook: { handle, meta, name: handle.name } };
+}
+
+function sync(device: Device, remote: SyncTarget, now?: number) {
+  return syncNotebook(device.fs, device.notebook, remote, { now });
+}
+
+/** Load a note, set its title and save it */
+async function retitle(device: Device, path: string, title: string) {
+  const note = await loadNote(device.fs, device.notebook, path);
+  await saveNote(device.fs, device.notebook, titled(note, title));
+}
+
+async function titles(device: Device): Promise<string[]> {
+  const notes = await listNotes(device.fs, device.notebook);
+  return notes.map((n) => n.title).sort();
+}
+
+describe("syncNotebook", () => {
+  it("copies a notebook to an empty remote, and from it into an empty folder", async () => {
+    const { remote, a, note } = await setup();
+    await retitle(a, note.path, "Hello");
+    await a.fs.writeTextFile(a.notebook.handle, ".git/HEAD", "ref: x\n");
+
+    const pushed = await sync(a, remote);
+    expect(pushed.pushed).toContain("notebook.json");
+    expect(pushed.pushed).toContain(`${note.path}/note.json`);
+    expect(await remote.fs.exists(remote.handle, "index.json")).toBe(false);
+    expect(await remote.fs.exists(remote.handle, ".git")).toBe(false);
+
+    const b = await emptyDevice();
+    const saved = vi.fn();
+    onNoteSaved(b.notebook, saved);
+    const pulled = await sync(b, remote);
+
+    expect(pulled.changedNotes).toEqual([note.path]);
+    expect(pulled.metaChanged).toBe(true);
+    expect(saved).toHaveBeenCalledTimes(1);
+    expect(await titles(b)).toEqual(["Hello"]);
+  });
+
+  it("does nothing, and downloads nothing, when nothing changed", async () => {
+    const { remote, a } = await setup();
+    await sync(a, remote);
+
+    const reads = vi.spyOn(remote.fs, "readBinaryFile");
+    const result = await sync(a, remote);
+
+    expect(reads).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ pulled: [], pushed: [], conflicts: [] });
+  });
+
+  it("passes on edits, new notes, images and deletions both ways", async () => {
+    const { remote, a, note } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    // Edited and illustrated on A
+    await retitle(a, note.path, "Edited on A");
+    const { relativePath } = await saveImage(
+      a.fs,
+      a.notebook,
+      note.path,
+      new File([new Uint8Array([1, 2, 3])], "photo.png", { type: "image/png" }),
+    );
+    await sync(a, remote);
+    const result = await sync(b, remote);
+
+    expect(result.changedNotes).toEqual([note.path]);
+    expect(await titles(b)).toEqual(["Edited on A"]);
+    const image = await b.fs.readBinaryFile(
+      b.notebook.handle,
+      `${note.path}/${relativePath}`,
+    );
+    expect([...new Uint8Array(image)]).toEqual([1, 2, 3]);
+
+    // A new note on B, and the first one deleted there
+    const added = await createNote(b.fs, b.notebook);
+    await saveNote(b.fs, b.notebook, titled(added, "New on B"));
+    await deleteNote(b.fs, b.notebook, note.path);
+    await sync(b, remote);
+    const back = await sync(a, remote);
+
+    expect(back.removedNotes).toEqual([note.path]);
+    expect(await titles(a)).toEqual(["New on B"]);
+    expect((await listTrash(a.fs, a.notebook)).map((t) => t.path)).toEqual([
+      note.path,
+    ]);
+    expect(await a.fs.exists(a.notebook.handle, note.path)).toBe(false);
+  });
+
+  it("merges a note changed on both sides", async () => {
+    const { remote, a, note } = await setup();
+    await retitle(a, note.path, "Title");
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    const added = await loadNote(a.fs, a.notebook, note.path);
+    const body = (added.content as { content: unknown[] }).content;
+    body.push({ type: "paragraph", content: [{ type: "text", text: "A" }] });
+    await saveNote(a.fs, a.notebook, added);
+    await retitle(b, note.path, "B's title");
+    await sync(a, remote);
+    const result = await sync(b, remote);
+    await sync(a, remote);
+
+    expect(result.merged).toEqual([note.path]);
+    expect(result.conflicts).toEqual([]);
+    for (const device of [a, b]) {
+      const merged = await loadNote(device.fs, device.notebook, note.path);
+      const text = JSON.stringify(merged.content);
+      expect(text).toContain("B's title");
+      expect(text).toContain('"text":"A"');
+    }
+  });
+
+  it("marks the edits that clash in a merged note", async () => {
+    const { remote, a, note } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    await retitle(a, note.path, "A's version");
+    await retitle(b, note.path, "B's version");
+    await sync(a, remote);
+    const result = await sync(b, remote);
+    await sync(a, remote);
+
+    expect(result.conflicts).toEqual([
+      { path: note.path, blocks: 1, revision: null },
+    ]);
+    expect(result.changedNotes).toEqual([note.path]);
+    for (const device of [a, b]) {
+      const merged = await loadNote(device.fs, device.notebook, note.path);
+      const text = JSON.stringify(merged.content);
+      expect(text).toContain('"type":"conflict"');
+      expect(text).toContain("A's version");
+    }
+  });
+
+  it("keeps both versions of a note it can't merge", async () => {
+    const { remote, a, note } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    await retitle(a, note.path, "A's version");
+    await retitle(b, note.path, "B's version");
+    await b.fs.remove(b.notebook.handle, ".sync/base");
+    await sync(a, remote);
+    const result = await sync(b, remote, 5000);
+
+    expect(result.conflicts).toEqual([
+      { path: note.path, blocks: 0, revision: "5000" },
+    ]);
+    expect(await titles(b)).toEqual(["B's version"]);
+    const theirs = await loadRevision(b.fs, b.notebook, note.path, "5000");
+    expect(JSON.stringify(theirs)).toContain("A's version");
+
+    // A takes B's version, and the snapshot with its own
+    await sync(a, remote);
+    expect(await titles(a)).toEqual(["B's version"]);
+    const mine = await loadRevision(a.fs, a.notebook, note.path, "5000");
+    expect(JSON.stringify(mine)).toContain("A's version");
+  });
+
+  it("keeps an edited note that was deleted on the other side", async () => {
+    const { remote, a, note } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    await retitle(a, note.path, "Still needed");
+    await deleteNote(b.fs, b.notebook, note.path);
+    await sync(b, remote);
+    await sync(a, remote);
+    await sync(b, remote);
+
+    expect(await titles(a)).toEqual(["Still needed"]);
+    expect(await titles(b)).toEqual(["Still needed"]);
+  });
+
+  it("tells apart notes created on both sides under the same path", async () => {
+    const { remote, a } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    const fromA = await createNote(a.fs, a.notebook);
+    await saveNote(a.fs, a.notebook, titled(fromA, "From A"));
+    const fromB = await createNote(b.fs, b.notebook);
+    await saveNote(b.fs, b.notebook, titled(fromB, "From B"));
+    expect(fromA.path).toBe(fromB.path);
+
+    await sync(a, remote);
+    const result = await sync(b, remote);
+    await sync(a, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(await titles(a)).toEqual(["From A", "From B", "Untitled"]);
+    expect(await titles(b)).toEqual(["From A", "From B", "Untitled"]);
+  });
+
+  it("keeps links and the journal pointing at a note it tells apart", async () => {
+    const { remote, a } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    const fromA = await createNote(a.fs, a.notebook);
+    await saveNote(a.fs, a.notebook, titled(fromA, "From A"));
+    const linker = titled(await createNote(a.fs, a.notebook), "Linker");
+    (linker.content as { content: unknown[] }).content.push({
+      type: "paragraph",
+      content: [
+        {
+          type: "text",
+          text: "see",
+          marks: [{ type: "link", attrs: { href: `note:${fromA.path}` } }],
+        },
+      ],
+    });
+    await saveNote(a.fs, a.notebook, linker);
+    const day = fromA.path.split("/").slice(0, 3).join("/");
+    a.notebook.meta.journal[day] = fromA.path;
+    await saveNotebookMeta(a.fs, a.notebook);
+    const fromB = await createNote(b.fs, b.notebook);
+    await saveNote(b.fs, b.notebook, titled(fromB, "From B"));
+
+    await sync(a, remote);
+    await sync(b, remote);
+    await sync(a, remote);
+
+    for (const device of [a, b]) {
+      const notes = await listNotes(device.fs, device.notebook);
+      const moved = notes.find((n) => n.title === "From A")?.path;
+      expect(moved).not.toBe(fromA.path);
+      const { content } = await loadNote(
+        device.fs,
+        device.notebook,
+        linker.path,
+      );
+      expect(JSON.stringify(content)).toContain(`"note:${moved}"`);
+      expect(device.notebook.meta.journal).toEqual({ [day]: moved });
+    }
+  });
+
+  it("merges notebook.json changed on both sides", async () => {
+    const { remote, a } = await setup();
+    await sync(a, remote);
+    const b = await emptyDevice();
+    await sync(b, remote);
+
+    a.notebook.meta.journal["2026/01/01"] = "2026/01/01/1";
+    await saveNotebookMeta(a.fs, a.notebook);
+    b.notebook.meta.journal["2026/01/02"] = "2026/01/02/1";
+    b.notebook.meta.lastOpenedNote = "2026/01/02/1";
+    await saveNotebookMeta(b.fs, b.notebook);
+    await sync(a, remote);
+    await sync(b, remote);
+    await sync(a, remote);
+
+    const journal = {
+      "2026/01/01": "2026/01/01/1",
+      "2026/01/02": "2026/01/02/1",
+    };
+    expect(a.notebook.meta.journal).toEqual(journal);
+    expect(b.notebook.meta.journal).toEqual(journal);
+    expect(b.notebook.meta.lastOpenedNote).toBe("2026/01/02/1");
+    expect(a.notebook.meta.lastOpenedNote).not.toBe("2026/01/02/1");
+  });
+
+  it("refuses a remote synced by a newer version", async () => {
+    const { remote, a } = await setup();
+    await remote.fs.writeTextFile(
+      remote.handle,
+      ".sync/state.json",
+      JSON.stringify({ version: 99, files: {} }),
+    );
+
+    await expect(sync(a, remote)).rejects.toThrow(/newer version/);
+  });
+});
+
+describe("mergeNotebookMeta", () => {
+  // `device` stands in for both the id and the last opened note
+  const meta = (journal: Record<string, string>, device: string) => ({
+    version: NOTEBOOK_VERSION,
+    id: device,
+    lastOpenedNote: device,
+    journal,
+  });
+
+  it("merges journal days and keeps the local last opened note and id", () => {
+    const base = meta({ "2026/01/01": "2026/01/01/1", gone: "x" }, "b");
+    const local = meta({ "2026/01/01": "2026/01/01/2", gone: "x" }, "l");
+    const remote = meta({ "2026/01/01": "2026/01/01/3", new: "y" }, "r");
+
+    expect(mergeNotebookMeta(base, local, remote)).toEqual(
+      meta({ "2026/01/01": "2026/01/01/2", new: "y" }, "l"),
+    );
+  });
+});
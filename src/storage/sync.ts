@@ -0,0 +1,626 @@
+/**
+ * Two-way sync of a notebook with a copy elsewhere.
+ *
+ * syncNotebook reconciles the open (local) notebook with a remote notebook
+ * directory on any FileSystemProvider, e.g. a WebDAV server or an S3
+ * bucket. Files are compared by SHA-256 hash against the hashes both sides
+ * had after the last sync, kept in the local manifest
+ * (`.sync/manifest.json`):
+ *
+ * - changed on one side only: copied to the other side, or deleted there
+ * - changed the same way on both sides: nothing to do
+ * - deleted on one side, changed on the other: the changed file wins
+ * - notebook.json changed on both sides: merged (mergeNotebookMeta)
+ * - a note.json changed on both sides: merged block by block with the
+ *   version both started from (editor/merge.ts), which the local manifest
+ *   keeps a copy of in `.sync/base/`. Blocks both sides changed become
+ *   conflict blocks the user resolves in the editor. Without that copy
+ *   (e.g. on the first sync) the local version is kept on both sides and
+ *   the remote one saved to the note's history (see history.ts), so
+ *   nothing is lost and the user can compare them
+ * - any other file changed on both sides: the local version is kept, and
+ *   the conflict reported
+ *
+ * Notes created on both sides under the same path (two devices offline on
+ * the same day) are told apart first: the remote one moves to a free path,
+ * and the remote's links and journal entries to it follow.
+ *
+ * So that a sync needn't download the whole notebook, the remote keeps the
+ * hashes of its files in `.sync/state.json`, which each sync rewrites when
+ * it's done. Only a remote without one is read in full. The remote is
+ * therefore expected to change only by syncing, and two devices shouldn't
+ * sync at the very same moment. index.json is a cache rebuilt on each side
+ * and isn't synced, nor are `.sync/` and a git repository (`.git/`, see
+ * git.ts), which each device keeps of its own.
+ */
+
+import { type MergeResult, mergeDocs } from "../editor/merge";
+import { schema } from "../editor/schema";
+import {
+  GIT_DIR,
+  HISTORY_DIR,
+  INDEX_FILE,
+  NOTE_FILE,
+  NOTEBOOK_FILE,
+  SYNC_DIR,
+} from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { recordRevision } from "./history";
+import {
+  encodeNoteFile,
+  migrateNotebookMeta,
+  migrateNoteFile,
+  noteFileModified,
+} from "./migrations";
+import {
+  noteChangedElsewhere,
+  noteRemovedElsewhere,
+  retargetNotebookMeta,
+  retargetNoteLinks,
+} from "./note";
+import { type Notebook, type NotebookMeta, saveNotebookMeta } from "./notebook";
+
+/** Version of the manifest and remote state format */
+export const SYNC_VERSION = 1;
+
+const MANIFEST_FILE = `${SYNC_DIR}/manifest.json`;
+const STATE_FILE = `${SYNC_DIR}/state.json`;
+const BASE_DIR = `${SYNC_DIR}/base`;
+
+const encoder = new TextEncoder();
+
+/** A dated note's note.json: day and number */
+const DATED_NOTE_FILE = /^(\d{4}\/\d{2}\/\d{2})\/(\d+)\/note\.json$/;
+
+/**
+ * The remote copy of a notebook.
+ */
+export interface SyncTarget {
+  fs: FileSystemProvider;
+  /** The remote notebook directory */
+  handle: FileSystemDirectoryHandle;
+  /**
+   * Identifies the remote (e.g. its URL), so the manifest of a sync with
+   * another remote isn't used
+   */
+  id: string;
+}
+
+/**
+ * A note (or other file) changed on both sides since the last sync, that
+ * couldn't be merged without the user.
+ */
+export interface SyncConflict {
+  /** Path of the note, or of the file if it isn't a note.json */
+  path: string;
+  /** Conflict blocks in the merged note, 0 if it couldn't be merged */
+  blocks: number;
+  /**
+   * Snapshot in the note's history that holds the remote version, or null
+   * if there is none (merged, not a note, or the remote version can't be
+   * read)
+   */
+  revision: string | null;
+}
+
+/**
+ * What a sync did.
+ */
+export interface SyncResult {
+  /** Files copied from the remote, or deleted because they were deleted there */
+  pulled: string[];
+  /** Files copied to the remote, or deleted there */
+  pushed: string[];
+  /** Dated notes whose note.json was written locally */
+  changedNotes: string[];
+  /** Dated notes whose note.json was deleted locally */
+  removedNotes: string[];
+  /** Whether notebook.meta was changed */
+  metaChanged: boolean;
+  /** Notes changed on both sides and merged without conflicts */
+  merged: string[];
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Options for syncNotebook.
+ */
+export interface SyncOptions {
+  /** Current time, for tests */
+  now?: number;
+}
+
+interface SyncManifest {
+  version: number;
+  remote: string;
+  /** Hash of each file, as it was on both sides after the last sync */
+  files: Record<string, string>;
+  /** notebook.json after the last sync, the base for merging it */
+  meta: NotebookMeta | null;
+  /**
+   * Hash of each note.json copied to `.sync/base/`, the base for merging
+   * it (missing from manifests written before merging)
+   */
+  bases?: Record<string, string>;
+}
+
+interface SyncState {
+  version: number;
+  files: Record<string, string>;
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function isSynced(path: string): boolean {
+  const [top] = path.split("/");
+  return path !== INDEX_FILE && top !== SYNC_DIR && top !== GIT_DIR;
+}
+
+/** Hash every synced file below a directory, by path */
+async function hashTree(
+  fs: FileSystemProvider,
+  dir: FileSystemDirectoryHandle,
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  const walk = async (handle: FileSystemDirectoryHandle, prefix: string) => {
+    for (const entry of await fs.listDir(handle)) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (!isSynced(path)) continue;
+      if (entry.isDirectory) {
+        await walk(await fs.mkdir(handle, entry.name), path);
+      } else {
+        hashes.set(
+          path,
+          await sha256(await fs.readBinaryFile(handle, entry.name)),
+        );
+      }
+    }
+  };
+  await walk(dir, "");
+  return hashes;
+}
+
+/** Parse a JSON file; null if it's missing or unreadable */
+async function readJson(
+  fs: FileSystemProvider,
+  dir: FileSystemDirectoryHandle,
+  path: string,
+): Promise<Record<string, unknown> | null> {
+  try {
+    const data = JSON.parse(await fs.readTextFile(dir, path));
+    return data && typeof data === "object" && !Array.isArray(data)
+      ? data
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Throw if sync files were written by a newer version of the app */
+function checkVersion(data: Record<string, unknown>): void {
+  if (typeof data.version === "number" && data.version > SYNC_VERSION) {
+    throw new Error(
+      `This notebook was synced by a newer version of the app (format ${data.version})`,
+    );
+  }
+}
+
+async function readManifest(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  remote: string,
+): Promise<SyncManifest | null> {
+  const data = await readJson(fs, notebook.handle, MANIFEST_FILE);
+  if (!data) return null;
+  checkVersion(data);
+  if (data.remote !== remote || !data.files || typeof data.files !== "object") {
+    return null;
+  }
+  return data as unknown as SyncManifest;
+}
+
+async function readState(remote: SyncTarget): Promise<SyncState | null> {
+  const data = await readJson(remote.fs, remote.handle, STATE_FILE);
+  if (!data) return null;
+  checkVersion(data);
+  if (!data.files || typeof data.files !== "object") return null;
+  return data as unknown as SyncState;
+}
+
+/** Parse notebook.json text as current metadata */
+function parseMeta(text: string): NotebookMeta {
+  return migrateNotebookMeta(JSON.parse(text)) as unknown as NotebookMeta;
+}
+
+/**
+ * Merge notebook.json changed on both sides, given what it was after the
+ * last sync (`base`, null if unknown). Journal days are merged one by one,
+ * the local side winning where both changed a day. The last opened note
+ * belongs to the device and the id to the local copy, so they're the
+ * local ones.
+ */
+export function mergeNotebookMeta(
+  base: NotebookMeta | null,
+  local: NotebookMeta,
+  remote: NotebookMeta,
+): NotebookMeta {
+  const journal: Record<string, string> = {};
+  const days = new Set([
+    ...Object.keys(local.journal),
+    ...Object.keys(remote.journal),
+  ]);
+  for (const day of [...days].sort()) {
+    const mine = local.journal[day];
+    const merged = mine === base?.journal[day] ? remote.journal[day] : mine;
+    if (merged !== undefined) journal[day] = merged;
+  }
+  return {
+    ...remote,
+    ...local,
+    version: Math.max(local.version, remote.version),
+    id: local.id,
+    lastOpenedNote: local.lastOpenedNote,
+    journal,
+  };
+}
+
+/** Remove the directories a deleted file leaves empty */
+async function removeEmptyParents(
+  fs: FileSystemProvider,
+  dir: FileSystemDirectoryHandle,
+  path: string,
+): Promise<void> {
+  const parts = path.split("/").slice(0, -1);
+  for (; parts.length > 0; parts.pop()) {
+    const parent = parts.join("/");
+    // Key prefixes (S3) vanish with their last file
+    if (!(await fs.exists(dir, parent))) continue;
+    if ((await fs.listDir(await fs.mkdir(dir, parent))).length > 0) return;
+    await fs.remove(dir, parent);
+  }
+}
+
+/**
+ * Move remote notes that were created under the same path as a different
+ * local note to a path free on both sides, and the remote's links and
+ * journal entries to them along (as moveNote does). Notes written are
+ * stamped `now`. Updates `theirs`.
+ */
+async function separateNewNotes(
+  remote: SyncTarget,
+  local: Map<string, string>,
+  theirs: Map<string, string>,
+  base: Map<string, string>,
+  now: number,
+): Promise<void> {
+  const moved = new Map<string, string>();
+  const taken = new Set(
+    [...local.keys(), ...theirs.keys(), ...base.keys()].map((path) =>
+      path.split("/").slice(0, 4).join("/"),
+    ),
+  );
+  for (const [path, hash] of local) {
+    const match = DATED_NOTE_FILE.exec(path);
+    const other = theirs.get(path);
+    if (!match || base.has(path) || other === undefined || other === hash) {
+      continue;
+    }
+
+    const [, day, n] = match;
+    let free = Number(n) + 1;
+    while (taken.has(`${day}/${free}`)) free++;
+    const from = `${day}/${n}`;
+    const to = `${day}/${free}`;
+    taken.add(to);
+
+    await remote.fs.rename(remote.handle, from, to);
+    for (const [file, fileHash] of [...theirs]) {
+      if (!file.startsWith(`${from}/`)) continue;
+      theirs.delete(file);
+      theirs.set(to + file.slice(from.length), fileHash);
+    }
+    moved.set(from, to);
+  }
+  if (moved.size === 0) return;
+
+  const write = async (path: string, text: string) => {
+    await remote.fs.writeTextFile(remote.handle, path, text);
+    theirs.set(path, await sha256(encoder.encode(text).buffer));
+  };
+
+  // Only notes new or changed on the remote can link to notes new there
+  for (const [path, hash] of [...theirs]) {
+    if (!DATED_NOTE_FILE.test(path) || base.get(path) === hash) continue;
+    let content: unknown;
+    try {
+      const text = await remote.fs.readTextFile(remote.handle, path);
+      content = migrateNoteFile(JSON.parse(text));
+    } catch {
+      // A damaged note keeps its dangling links
+      continue;
+    }
+    let retargeted = content;
+    for (const [from, to] of moved) {
+      retargeted = retargetNoteLinks(retargeted, from, to);
+    }
+    if (JSON.stringify(retargeted) !== JSON.stringify(content)) {
+      await write(path, encodeNoteFile(retargeted, now));
+    }
+  }
+
+  const metaHash = theirs.get(NOTEBOOK_FILE);
+  if (metaHash === undefined || base.get(NOTEBOOK_FILE) === metaHash) return;
+  let meta: NotebookMeta;
+  try {
+    meta = parseMeta(
+      await remote.fs.readTextFile(remote.handle, NOTEBOOK_FILE),
+    );
+  } catch {
+    return;
+  }
+  let changed = false;
+  for (const [from, to] of moved) {
+    if (retargetNotebookMeta(meta, from, to)) changed = true;
+  }
+  if (changed) await write(NOTEBOOK_FILE, JSON.stringify(meta, null, 2));
+}
+
+/**
+ * Sync a notebook with its remote copy. Either side may be empty: the
+ * first sync of a notebook copies it to an empty remote, and syncing an
+ * empty local folder copies the remote notebook into it.
+ *
+ * Notes written or deleted locally are reported to the note listeners
+ * (onNoteSaved, onNoteRemoved) and the index, and a changed notebook.json
+ * is saved with saveNotebookMeta, so `notebook.meta` is current. A note
+ * open in the editor is the caller's to reload (see `changedNotes`).
+ */
+export async function syncNotebook(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  remote: SyncTarget,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    pulled: [],
+    pushed: [],
+    changedNotes: [],
+    removedNotes: [],
+    metaChanged: false,
+    merged: [],
+    conflicts: [],
+  };
+  const now = options.now ?? Date.now();
+
+  const manifest = await readManifest(fs, notebook, remote.id);
+  const base = new Map(Object.entries(manifest?.files ?? {}));
+  const local = await hashTree(fs, notebook.handle);
+  const state = await readState(remote);
+  const theirs = state
+    ? new Map(Object.entries(state.files))
+    : await hashTree(remote.fs, remote.handle);
+
+  await separateNewNotes(remote, local, theirs, base, now);
+
+  // Hashes of the files now the same on both sides: the next base
+  const synced = new Map<string, string>();
+  const conflicted: string[] = [];
+
+  const push = async (path: string) => {
+    const data = await fs.readBinaryFile(notebook.handle, path);
+    await remote.fs.writeBinaryFile(remote.handle, path, data);
+    synced.set(path, await sha256(data));
+    result.pushed.push(path);
+  };
+
+  const pull = async (path: string) => {
+    let data: ArrayBuffer;
+    try {
+      data = await remote.fs.readBinaryFile(remote.handle, path);
+    } catch {
+      // Gone since the remote state was written: nothing to pull
+      return;
+    }
+    await fs.writeBinaryFile(notebook.handle, path, data);
+    synced.set(path, await sha256(data));
+    result.pulled.push(path);
+    const note = DATED_NOTE_FILE.exec(path);
+    if (note) result.changedNotes.push(`${note[1]}/${note[2]}`);
+  };
+
+  const remove = async (side: "local" | "remote", path: string) => {
+    const [target, dir] =
+      side === "local" ? [fs, notebook.handle] : [remote.fs, remote.handle];
+    if (await target.exists(dir, path)) {
+      await target.remove(dir, path);
+      await removeEmptyParents(target, dir, path);
+    }
+    if (side === "remote") {
+      result.pushed.push(path);
+      return;
+    }
+    result.pulled.push(path);
+    const note = DATED_NOTE_FILE.exec(path);
+    if (note) result.removedNotes.push(`${note[1]}/${note[2]}`);
+  };
+
+  // notebook.json: take theirs, keep ours, or merge
+  const syncMeta = async (theirsOnly: boolean, oursOnly: boolean) => {
+    if (oursOnly) {
+      await push(NOTEBOOK_FILE);
+      return;
+    }
+    const other = parseMeta(
+      await remote.fs.readTextFile(remote.handle, NOTEBOOK_FILE),
+    );
+    notebook.meta = theirsOnly
+      ? {
+          ...other,
+          id: notebook.meta.id,
+          lastOpenedNote: notebook.meta.lastOpenedNote,
+        }
+      : mergeNotebookMeta(manifest?.meta ?? null, notebook.meta, other);
+    await saveNotebookMeta(fs, notebook);
+    result.metaChanged = true;
+    await push(NOTEBOOK_FILE);
+  };
+
+  const paths = new Set([...local.keys(), ...theirs.keys(), ...base.keys()]);
+  for (const path of [...paths].sort()) {
+    const mine = local.get(path);
+    const other = theirs.get(path);
+    const was = base.get(path);
+
+    if (mine === other) {
+      if (mine !== undefined) synced.set(path, mine);
+    } else if (path === NOTEBOOK_FILE) {
+      await syncMeta(
+        mine === was || mine === undefined,
+        other === was || other === undefined,
+      );
+    } else if (other === was) {
+      // Changed or deleted here only
+      if (mine === undefined) await remove("remote", path);
+      else await push(path);
+    } else if (mine === was) {
+      // Changed or deleted on the remote only
+      if (other === undefined) await remove("local", path);
+      else await pull(path);
+    } else if (mine === undefined) {
+      // Deleted here and changed there: the change wins
+      await pull(path);
+    } else if (other === undefined) {
+      await push(path);
+    } else {
+      conflicted.push(path);
+    }
+  }
+
+  // Merge a note.json with the copy of what both sides started from
+  const mergeNote = async (path: string): Promise<MergeResult | null> => {
+    const was = base.get(path);
+    if (was === undefined || manifest?.bases?.[path] !== was) return null;
+    const read = async (
+      from: FileSystemProvider,
+      dir: FileSystemDirectoryHandle,
+      file: string,
+    ) =>
+      schema.nodeFromJSON(
+        migrateNoteFile(JSON.parse(await from.readTextFile(dir, file))),
+      );
+    try {
+      return mergeDocs(
+        await read(fs, notebook.handle, `${BASE_DIR}/${path}`),
+        await read(fs, notebook.handle, path),
+        await read(remote.fs, remote.handle, path),
+      );
+    } catch {
+      return null;
+    }
+  };
+
+  for (const path of conflicted) {
+    if (!path.endsWith(`/${NOTE_FILE}`)) {
+      await push(path);
+      result.conflicts.push({ path, blocks: 0, revision: null });
+      continue;
+    }
+    const notePath = path.slice(0, -NOTE_FILE.length - 1);
+
+    const merged = await mergeNote(path);
+    if (merged) {
+      const text = encodeNoteFile(merged.doc.toJSON(), now);
+      await fs.writeTextFile(notebook.handle, path, text);
+      await push(path);
+      result.changedNotes.push(notePath);
+      if (merged.conflicts === 0) result.merged.push(notePath);
+      else {
+        result.conflicts.push({
+          path: notePath,
+          blocks: merged.conflicts,
+          revision: null,
+        });
+      }
+      continue;
+    }
+
+    // Keep their version in the note's history
+    let revision: string | null = null;
+    try {
+      const data = JSON.parse(
+        await remote.fs.readTextFile(remote.handle, path),
+      );
+      const snapshot = await recordRevision(
+        fs,
+        notebook,
+        {
+          path: notePath,
+          content: migrateNoteFile(data),
+          modified: noteFileModified(data),
+        },
+        { force: true, now },
+      );
+      if (snapshot) {
+        revision = snapshot.id;
+        await push(`${notePath}/${HISTORY_DIR}/${snapshot.id}.json`);
+      }
+    } catch {
+      // Not a note: only ours is kept
+    }
+    await push(path);
+    result.conflicts.push({ path: notePath, blocks: 0, revision });
+  }
+
+  // Copies of the notes as synced, to merge them with next time
+  const bases: Record<string, string> = {};
+  for (const [path, hash] of synced) {
+    if (!DATED_NOTE_FILE.test(path)) continue;
+    if (manifest?.bases?.[path] !== hash) {
+      const data = await fs.readBinaryFile(notebook.handle, path);
+      await fs.writeBinaryFile(notebook.handle, `${BASE_DIR}/${path}`, data);
+    }
+    bases[path] = hash;
+  }
+  for (const path of Object.keys(manifest?.bases ?? {})) {
+    if (path in bases) continue;
+    const copy = `${BASE_DIR}/${path}`;
+    if (await fs.exists(notebook.handle, copy)) {
+      await fs.remove(notebook.handle, copy);
+      await removeEmptyParents(fs, notebook.handle, copy);
+    }
+  }
+
+  // The remote state is the commit point for other devices
+  const files = Object.fromEntries([...synced].sort());
+  const newState: SyncState = { version: SYNC_VERSION, files };
+  await remote.fs.writeTextFile(
+    remote.handle,
+    STATE_FILE,
+    JSON.stringify(newState),
+  );
+  const newManifest: SyncManifest = {
+    version: SYNC_VERSION,
+    remote: remote.id,
+    files,
+    meta: notebook.meta,
+    bases,
+  };
+  await fs.writeTextFile(
+    notebook.handle,
+    MANIFEST_FILE,
+    JSON.stringify(newManifest),
+  );
+
+  for (const path of result.changedNotes) {
+    await noteChangedElsewhere(fs, notebook, path);
+  }
+  for (const path of result.removedNotes) {
+    await noteRemovedElsewhere(fs, notebook, path);
+  }
+  return result;
+}
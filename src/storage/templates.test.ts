@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { MemoryFileSystemProvider } from "./memoryFilesystem";
+import { encodeNoteFile } from "./migrations";
+import { listNotes, loadNote } from "./note";
+import { createNotebook } from "./notebook";
+import {
+  createNoteFromTemplate,
+  fillPlaceholders,
+  listTemplates,
+  saveNoteAsTemplate,
+  templateName,
+  templateValues,
+} from "./templates";
+
+function templateDoc(title: string, ...blocks: unknown[]) {
+  return {
+    type: "doc",
+    content: [
+      { type: "title", content: [{ type: "text", text: title }] },
+      { type: "created", attrs: { timestamp: 1 } },
+      { type: "labels", attrs: { labels: ["meeting"] } },
+      ...blocks,
+    ],
+  };
+}
+
+function paragraph(text: string) {
+  return { type: "paragraph", content: [{ type: "text", text }] };
+}
+
+async function setup() {
+  const fs = new MemoryFileSystemProvider();
+  const { notebook } = await createNotebook(fs);
+  return { fs, notebook };
+}
+
+// Monday 26 January 2026, 09:05 local time
+const NOW = new Date(2026, 0, 26, 9, 5);
+
+describe("templateValues", () => {
+  it("formats the date and time", () => {
+    expect(templateValues(NOW)).toEqual({
+      date: "2026-01-26",
+      time: "09:05",
+      year: "2026",
+      month: "01",
+      day: "26",
+      weekday: "Monday",
+    });
+  });
+});
+
+describe("fillPlaceholders", () => {
+  it("replaces known placeholders and keeps unknown ones", () => {
+    const filled = fillPlaceholders(
+      templateDoc(
+        "Meeting {{date}}",
+        paragraph("{{ weekday }} at {{time}}, {{who}}"),
+      ),
+      templateValues(NOW),
+    );
+    expect(filled).toEqual(
+      templateDoc("Meeting 2026-01-26", paragraph("Monday at 09:05, {{who}}")),
+    );
+  });
+});
+
+describe("templateName", () => {
+  it("makes a directory name", () => {
+    expect(templateName("  Paper Reading / Notes ")).toBe(
+      "paper-reading-notes",
+    );
+    expect(templateName("../")).toBe("");
+  });
+});
+
+describe("createNoteFromTemplate", () => {
+  it("copies blocks, labels and images and fills placeholders", async () => {
+    const { fs, notebook } = await setup();
+    await fs.writeTextFile(
+      notebook.handle,
+      "templates/meeting/note.json",
+      encodeNoteFile(
+        templateDoc("Meeting {{date}}", paragraph("Agenda"), {
+          type: "paragraph",
+          content: [{ type: "image", attrs: { src: "agenda.png" } }],
+        }),
+      ),
+    );
+    await fs.writeBinaryFile(
+      notebook.handle,
+      "templates/meeting/agenda.png",
+      new Uint8Array([1, 2, 3]).buffer,
+    );
+
+    const note = await createNoteFromTemplate(fs, notebook, "meeting", NOW);
+
+    const loaded = await loadNote(fs, notebook, note.path);
+    expect(loaded.content).toEqual(note.content);
+    const content = note.content as { content: unknown[] };
+    expect(content.content.slice(0, 4)).toEqual([
+      {
+        type: "title",
+        content: [{ type: "text", text: "Meeting 2026-01-26" }],
+      },
+      { type: "created", attrs: { timestamp: NOW.getTime() } },
+      { type: "labels", attrs: { labels: ["meeting"] } },
+      paragraph("Agenda"),
+    ]);
+    const image = await fs.readBinaryFile(
+      notebook.handle,
+      `${note.path}/agenda.png`,
+    );
+    expect([...new Uint8Array(image)]).toEqual([1, 2, 3]);
+    // Templates aren't notes
+    expect((await listNotes(fs, notebook)).map((n) => n.title)).toContain(
+      "Meeting 2026-01-26",
+    );
+    expect(await listNotes(fs, notebook)).toHaveLength(2);
+  });
+
+  it("fails for a missing template", async () => {
+    const { fs, notebook } = await setup();
+    await expect(
+      createNoteFromTemplate(fs, notebook, "nope", NOW),
+    ).rejects.toThrow();
+  });
+});
+
+describe("saveNoteAsTemplate", () => {
+  it("saves a note as a template that can be listed", async () => {
+    const { fs, notebook } = await setup();
+    const note = {
+      path: "2026/01/26/9",
+      content: templateDoc("Proof of {{date}}", paragraph("Claim.")),
+    };
+    await fs.writeBinaryFile(
+      notebook.handle,
+      `${note.path}/x.png`,
+      new Uint8Array([7]).buffer,
+    );
+
+    const template = await saveNoteAsTemplate(
+      fs,
+      notebook,
+      note,
+      "Proof Attempt",
+    );
+    await saveNoteAsTemplate(fs, notebook, note, "proof attempt");
+
+    expect(template).toEqual({
+      name: "proof-attempt",
+      title: "Proof of {{date}}",
+    });
+    expect(await listTemplates(fs, notebook)).toEqual([template]);
+    await expect(saveNoteAsTemplate(fs, notebook, note, "!!")).rejects.toThrow(
+      "template name",
+    );
+  });
+
+  it("lists nothing without a templates folder", async () => {
+    const { fs, notebook } = await setup();
+    expect(await listTemplates(fs, notebook)).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Note templates.
+ *
+ * A template is a note kept in the notebook's `templates/` folder, one
+ * directory per template, named after it:
+ *
+ *   templates/meeting/note.json
+ *   templates/meeting/agenda.png
+ *
+ * Being outside the yyyy/mm/dd/n tree, templates don't show up as notes.
+ * createNoteFromTemplate copies a template's blocks, labels and images into
+ * a new note, replacing placeholders such as `{{date}}` in its text (see
+ * templateValues).
+ */
+
+import { Node } from "prosemirror-model";
+import { schema } from "../editor/schema";
+import { NOTE_FILE, TEMPLATES_DIR } from "./constants";
+import type { FileSystemProvider } from "./filesystem";
+import { encodeNoteFile } from "./migrations";
+import {
+  createNote,
+  extractTitle,
+  loadNote,
+  type Note,
+  saveNote,
+} from "./note";
+import type { Notebook } from "./notebook";
+
+/**
+ * A template in the notebook.
+ */
+export interface NoteTemplate {
+  /** Directory name in templates/ */
+  name: string;
+  /** Title of the template note, placeholders and all */
+  title: string;
+}
+
+/**
+ * Turn a name typed by the user into a template directory name:
+ * lowercase letters, digits and dashes. Returns "" if nothing is left.
+ */
+export function templateName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * List the templates in the notebook, by name.
+ */
+export async function listTemplates(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+): Promise<NoteTemplate[]> {
+  if (!(await fs.exists(notebook.handle, TEMPLATES_DIR))) return [];
+
+  const dir = await fs.mkdir(notebook.handle, TEMPLATES_DIR);
+  const templates: NoteTemplate[] = [];
+  for (const entry of await fs.listDir(dir)) {
+    if (!entry.isDirectory) continue;
+    try {
+      const note = await loadNote(fs, notebook, templatePath(entry.name));
+      templates.push({ name: entry.name, title: extractTitle(note.content) });
+    } catch {
+      // Not a template, or a damaged one
+    }
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function templatePath(name: string): string {
+  return `${TEMPLATES_DIR}/${name}`;
+}
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Values of the placeholders a template can use, at time `now`:
+ * `{{date}}` (2026-01-26), `{{time}}` (14:05), `{{year}}`, `{{month}}`,
+ * `{{day}}` and `{{weekday}}` (Monday).
+ */
+export function templateValues(now: Date): Record<string, string> {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const year = now.getFullYear().toString();
+  const month = pad(now.getMonth() + 1);
+  const day = pad(now.getDate());
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    year,
+    month,
+    day,
+    weekday: WEEKDAYS[now.getDay()],
+  };
+}
+
+interface JsonNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  content?: JsonNode[];
+}
+
+/**
+ * Replace `{{name}}` placeholders in the text of document JSON. Unknown
+ * placeholders are left as they are, and so are placeholders split by a
+ * change of formatting.
+ */
+export function fillPlaceholders(
+  content: unknown,
+  values: Record<string, string>,
+): unknown {
+  if (!content || typeof content !== "object") return content;
+  const node = content as JsonNode;
+  return {
+    ...node,
+    ...(typeof node.text === "string"
+      ? {
+          text: node.text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key) =>
+            Object.hasOwn(values, key) ? values[key] : placeholder,
+          ),
+        }
+      : {}),
+    ...(node.content
+      ? {
+          content: node.content.map((child) => fillPlaceholders(child, values)),
+        }
+      : {}),
+  };
+}
+
+/** Relative image paths used by a document, each once */
+function localImages(content: unknown): string[] {
+  const images = new Set<string>();
+  Node.fromJSON(schema, content).descendants((node) => {
+    const src = node.attrs.src;
+    if (
+      node.type === schema.nodes.image &&
+      !/^[a-z][a-z\d+.-]*:/i.test(src) &&
+      !src.startsWith("/") &&
+      !src.split("/").includes("..")
+    ) {
+      images.add(src);
+    }
+  });
+  return [...images];
+}
+
+/** Copy a note's images from one note directory to another */
+async function copyImages(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  content: unknown,
+  from: string,
+  to: string,
+): Promise<void> {
+  for (const src of localImages(content)) {
+    try {
+      const data = await fs.readBinaryFile(notebook.handle, `${from}/${src}`);
+      await fs.writeBinaryFile(notebook.handle, `${to}/${src}`, data);
+    } catch {
+      // Missing image: shown as broken, like in the template
+    }
+  }
+}
+
+/**
+ * Create a new note from a template: its blocks, labels and images, with
+ * placeholders filled in for time `now`. The new note's created time is
+ * now, not the template's.
+ */
+export async function createNoteFromTemplate(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  name: string,
+  now: Date = new Date(),
+): Promise<Note> {
+  const template = await loadNote(fs, notebook, templatePath(name));
+  const note = await createNote(fs, notebook, now);
+
+  const doc = fillPlaceholders(template.content, templateValues(now)) as {
+    content: JsonNode[];
+  };
+  note.content = {
+    ...doc,
+    content: doc.content.map((block) =>
+      block.type === "created"
+        ? { ...block, attrs: { ...block.attrs, timestamp: now.getTime() } }
+        : block,
+    ),
+  };
+  await copyImages(fs, notebook, note.content, template.path, note.path);
+  await saveNote(fs, notebook, note);
+  return note;
+}
+
+/**
+ * Save a copy of a note, with its images, as the template `name`
+ * (see templateName), replacing any template of that name.
+ * Returns the template.
+ */
+export async function saveNoteAsTemplate(
+  fs: FileSystemProvider,
+  notebook: Notebook,
+  note: Note,
+  name: string,
+): Promise<NoteTemplate> {
+  const dirName = templateName(name);
+  if (!dirName) {
+    throw new Error("A template name needs at least one letter or digit");
+  }
+
+  const path = templatePath(dirName);
+  if (await fs.exists(notebook.handle, path)) {
+    await fs.remove(notebook.handle, path);
+  }
+  await fs.writeTextFile(
+    notebook.handle,
+    `${path}/${NOTE_FILE}`,
+    encodeNoteFile(note.content),
+  );
+  await copyImages(fs, notebook, note.content, note.path, path);
+  return { name: dirName, title: extractTitle(note.content) };
+}
@@ -0,0 +1,15 @@
+/**
+ * Fixtures shared by the storage tests.
+ */
+
+import { createBlankDocument, type Note } from "./note";
+
+/** The note with its title set to `title`, and otherwise blank */
+export function titled(note: Note, title: string): Note {
+  const content = createBlankDocument(0) as { content: unknown[] };
+  content.content[0] = {
+    type: "title",
+    content: [{ type: "text", text: title }],
+  };
+  return { ...note, content };
+}
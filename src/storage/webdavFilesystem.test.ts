@@ -0,0 +1,350 @@
+/// <reference types="node" />
+import { afterAll, describe, expect, it } from "vitest";
+import { listNotes, moveNote } from "./note";
+import { createNotebook, openNotebook } from "./notebook";
+import {
+  parseMultistatus,
+  WebDavFileSystemProvider,
+  type WebDavLocation,
+} from "./webdavFilesystem";
+
+/**
+ * A WebDAV server in memory, answering through `fetch`. Implements the
+ * methods the provider uses, with status codes as RFC 4918 has them.
+ */
+class FakeDavServer {
+  /** Decoded paths (no trailing slash) to collections (null) or file data */
+  private entries = new Map<string, ArrayBuffer | null>([["/dav", null]]);
+  readonly requests: Array<{
+    method: string;
+    authorization: string | null;
+    cache: RequestCache;
+  }> = [];
+  auth: string | null = null;
+
+  readonly fetch = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const method = request.method;
+    const authorization = request.headers.get("Authorization");
+    this.requests.push({ method, authorization, cache: request.cache });
+    if (this.auth && authorization !== this.auth) {
+      return new Response(null, { status: 401 });
+    }
+
+    const path = this.path(request.url);
+    const entry = this.entries.get(path);
+    const exists = this.entries.has(path);
+    const parentExists = this.entries.get(this.parent(path)) === null;
+
+    switch (method) {
+      case "GET":
+        if (!entry) return new Response(null, { status: 404 });
+        return new Response(entry);
+      case "PUT":
+        if (!parentExists) return new Response(null, { status: 409 });
+        if (entry === null) return new Response(null, { status: 405 });
+        this.entries.set(path, await request.arrayBuffer());
+        return new Response(null, { status: exists ? 204 : 201 });
+      case "MKCOL":
+        if (exists) return new Response(null, { status: 405 });
+        if (!parentExists) return new Response(null, { status: 409 });
+        this.entries.set(path, null);
+        return new Response(null, { status: 201 });
+      case "DELETE":
+        if (!exists) return new Response(null, { status: 404 });
+        for (const other of this.below(path)) this.entries.delete(other);
+        return new Response(null, { status: 204 });
+      case "MOVE": {
+        if (!exists) return new Response(null, { status: 404 });
+        const target = this.path(request.headers.get("Destination") ?? "");
+        if (this.entries.has(target)) {
+          return new Response(null, { status: 412 });
+        }
+        if (this.entries.get(this.parent(target)) !== null) {
+          return new Response(null, { status: 409 });
+        }
+        for (const other of this.below(path)) {
+          const data = this.entries.get(other) ?? null;
+          this.entries.delete(other);
+          this.entries.set(target + other.slice(path.length), data);
+        }
+        return new Response(null, { status: 201 });
+      }
+      case "PROPFIND": {
+        if (!exists) return new Response(null, { status: 404 });
+        const depth = request.headers.get("Depth");
+        const paths = [
+          path,
+          ...(depth === "1" && entry === null
+            ? [...this.entries.keys()].filter((p) => this.parent(p) === path)
+            : []),
+        ];
+        return new Response(this.multistatus(paths), { status: 207 });
+      }
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  has(path: string): boolean {
+    return this.entries.has(path);
+  }
+
+  private path(url: string): string {
+    return decodeURIComponent(new URL(url).pathname).replace(/\/+$/, "");
+  }
+
+  private parent(path: string): string {
+    return path.slice(0, path.lastIndexOf("/"));
+  }
+
+  private below(path: string): string[] {
+    return [...this.entries.keys()].filter(
+      (p) => p === path || p.startsWith(`${path}/`),
+    );
+  }
+
+  // Like Apache: D: prefix, hrefs as absolute paths, entities escaped
+  private multistatus(paths: string[]): string {
+    const responses = paths.map((path) => {
+      const isDirectory = this.entries.get(path) === null;
+      const href =
+        path.split("/").map(encodeURIComponent).join("/") +
+        (isDirectory ? "/" : "");
+      return `<D:response><D:href>${href.replaceAll("&", "&amp;")}</D:href>
+<D:propstat><D:prop><D:resourcetype>${isDirectory ? "<D:collection/>" : ""}</D:resourcetype></D:prop>
+<D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`;
+    });
+    return `<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`;
+  }
+}
+
+const LOCATION: WebDavLocation = {
+  url: "https://cloud.example/dav/Notes",
+  username: "ada",
+  password: "pässword",
+};
+
+function setup() {
+  const server = new FakeDavServer();
+  const fs = new WebDavFileSystemProvider({
+    fetch: server.fetch,
+    chooseLocation: async () => LOCATION,
+  });
+  return { server, fs };
+}
+
+describe("parseMultistatus", () => {
+  it("reads entries whatever the namespace prefix", () => {
+    const xml = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <d:response>
+    <d:href>/remote.php/dav/files/ada/Notes/</d:href>
+    <d:propstat><d:prop><d:resourcetype><d:collection /></d:resourcetype></d:prop></d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/remote.php/dav/files/ada/Notes/a%20%26%20b.json</d:href>
+    <d:propstat><d:prop><d:resourcetype/></d:prop></d:propstat>
+  </d:response>
+</d:multistatus>
+<multistatus xmlns="DAV:"><response><href>http://h/x&amp;y/</href>
+<propstat><prop><resourcetype><collection/></resourcetype></prop></propstat></response></multistatus>`;
+
+    expect(parseMultistatus(xml)).toEqual([
+      { href: "/remote.php/dav/files/ada/Notes/", isDirectory: true },
+      {
+        href: "/remote.php/dav/files/ada/Notes/a%20%26%20b.json",
+        isDirectory: false,
+      },
+      { href: "http://h/x&y/", isDirectory: true },
+    ]);
+  });
+});
+
+describe("WebDavFileSystemProvider", () => {
+  it("creates the picked collection and logs in with Basic auth", async () => {
+    const { server, fs } = setup();
+    server.auth = `Basic ${Buffer.from("ada:pässword").toString("base64")}`;
+
+    const dir = await fs.pickDirectory();
+
+    expect(dir.name).toBe("Notes");
+    expect(server.has("/dav/Notes")).toBe(true);
+    expect(server.requests.every((r) => r.authorization === server.auth)).toBe(
+      true,
+    );
+  });
+
+  it("reports a refused login", async () => {
+    const { server, fs } = setup();
+    server.auth = "Basic something-else";
+
+    await expect(fs.pickDirectory()).rejects.toThrow(/refused/);
+    expect(await fs.requestPermission(fs.connect(LOCATION))).toBe(false);
+  });
+
+  it("aborts when no location is given", async () => {
+    const fs = new WebDavFileSystemProvider({
+      fetch: new FakeDavServer().fetch,
+    });
+    await expect(fs.pickDirectory()).rejects.toMatchObject({
+      name: "AbortError",
+    });
+  });
+
+  it("round-trips text and binary files, creating parents", async () => {
+    const { server, fs } = setup();
+    const dir = await fs.pickDirectory();
+
+    await fs.writeTextFile(dir, "a/b c/d.txt", "héllo");
+    await fs.writeBinaryFile(
+      dir,
+      "a/img #1.png",
+      new Uint8Array([1, 2]).buffer,
+    );
+
+    expect(await fs.readTextFile(dir, "a/b c/d.txt")).toBe("héllo");
+    const bytes = new Uint8Array(await fs.readBinaryFile(dir, "a/img #1.png"));
+    expect([...bytes]).toEqual([1, 2]);
+    await expect(fs.readTextFile(dir, "missing.txt")).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+    expect(server.requests.every((r) => r.cache === "no-store")).toBe(true);
+  });
+
+  it("only creates each parent collection once", async () => {
+    const { server, fs } = setup();
+    const dir = await fs.pickDirectory();
+
+    await fs.writeTextFile(dir, "2026/01/26/1/note.json", "1");
+    await fs.writeTextFile(dir, "2026/01/26/1/note.json", "2");
+
+    const mkcols = server.requests.filter((r) => r.method === "MKCOL");
+    expect(mkcols).toHaveLength(5);
+  });
+
+  it("lists collections and checks existence", async () => {
+    const { fs } = setup();
+    const dir = await fs.pickDirectory();
+    const sub = await fs.mkdir(dir, "2026/01");
+    await fs.writeTextFile(sub, "f & g.txt", "");
+    await fs.mkdir(dir, "2026/01");
+
+    expect(await fs.listDir(await fs.mkdir(dir, "2026"))).toEqual([
+      { name: "01", isDirectory: true },
+    ]);
+    expect(await fs.listDir(sub)).toEqual([
+      { name: "f & g.txt", isDirectory: false },
+    ]);
+    expect(await fs.exists(dir, "2026/01/f & g.txt")).toBe(true);
+    expect(await fs.exists(dir, "2026/02")).toBe(false);
+  });
+
+  it("removes and renames collections", async () => {
+    const { fs } = setup();
+    const dir = await fs.pickDirectory();
+    await fs.writeTextFile(dir, "a/b/c.txt", "hi");
+    await fs.writeTextFile(dir, "x/y.txt", "");
+
+    await fs.rename(dir, "a/b", "d/e");
+    expect(await fs.readTextFile(dir, "d/e/c.txt")).toBe("hi");
+    expect(await fs.exists(dir, "a/b")).toBe(false);
+
+    await expect(fs.rename(dir, "d/e", "x")).rejects.toThrow(/Already exists/);
+    await expect(fs.rename(dir, "d", "d/e/f")).rejects.toThrow(/into itself/);
+
+    await fs.remove(dir, "d");
+    expect(await fs.exists(dir, "d/e/c.txt")).toBe(false);
+    // The removed collections are created again when written to
+    await fs.writeTextFile(dir, "d/e/c.txt", "again");
+    expect(await fs.readTextFile(dir, "d/e/c.txt")).toBe("again");
+  });
+
+  it("persists the location and login", async () => {
+    const { server, fs } = setup();
+    const dir = await fs.pickDirectory();
+    await fs.persistHandle("notebook-handle", dir);
+
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    };
+    const first = new WebDavFileSystemProvider({
+      fetch: server.fetch,
+      storage,
+    });
+    await first.persistHandle("notebook-handle", first.connect(LOCATION));
+
+    const second = new WebDavFileSystemProvider({
+      fetch: server.fetch,
+      storage,
+    });
+    const restored = await second.getPersistedHandle("notebook-handle");
+    expect(restored?.needsPermission).toBe(false);
+    expect(JSON.parse(items.get("notebook-handle") ?? "")).toEqual({
+      ...LOCATION,
+      url: `${LOCATION.url}/`,
+    });
+    expect(await second.getPersistedHandle("other")).toBeNull();
+  });
+
+  it("holds a notebook", async () => {
+    const { fs } = setup();
+    const { notebook, note } = await createNotebook(fs);
+
+    await moveNote(fs, notebook, note.path, "2020/01/01/1");
+
+    const reopened = await openNotebook(fs);
+    expect((await listNotes(fs, reopened)).map((n) => n.path)).toEqual([
+      "2020/01/01/1",
+    ]);
+  });
+});
+
+// Set WEBDAV_TEST_URL (and WEBDAV_TEST_USER, WEBDAV_TEST_PASSWORD) to run
+// against a real server, e.g. `rclone serve webdav /tmp/dav`. Each run works
+// in a new collection below the URL and deletes it afterwards.
+const serverUrl = process.env.WEBDAV_TEST_URL;
+
+describe.runIf(serverUrl)("WebDavFileSystemProvider on a server", () => {
+  const location: WebDavLocation = {
+    url: `${serverUrl?.replace(/\/+$/, "")}/reflection-notes-test-${Date.now()}`,
+    username: process.env.WEBDAV_TEST_USER ?? "",
+    password: process.env.WEBDAV_TEST_PASSWORD ?? "",
+  };
+  const fs = new WebDavFileSystemProvider({
+    chooseLocation: async () => location,
+  });
+
+  afterAll(async () => {
+    const root = fs.connect({ ...location, url: serverUrl ?? "" });
+    await fs.remove(root, location.url.slice(location.url.lastIndexOf("/")));
+  });
+
+  it("holds a notebook", async () => {
+    const { notebook, note } = await createNotebook(fs);
+    await fs.writeBinaryFile(
+      notebook.handle,
+      `${note.path}/img.png`,
+      new Uint8Array([1, 2, 3]).buffer,
+    );
+
+    await moveNote(fs, notebook, note.path, "2020/01/01/1");
+
+    const reopened = await openNotebook(fs);
+    expect((await listNotes(fs, reopened)).map((n) => n.path)).toEqual([
+      "2020/01/01/1",
+    ]);
+    const bytes = await fs.readBinaryFile(
+      reopened.handle,
+      "2020/01/01/1/img.png",
+    );
+    expect([...new Uint8Array(bytes)]).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * WebDAV implementation of FileSystemProvider.
+ *
+ * Keeps a notebook in a collection on a WebDAV server (Nextcloud, ownCloud,
+ * Apache mod_dav, rclone serve webdav, ...):
+ *
+ * - readTextFile/readBinaryFile: GET
+ * - writeTextFile/writeBinaryFile: PUT, after MKCOL for missing parents
+ * - mkdir: MKCOL, one level at a time
+ * - listDir/exists: PROPFIND (Depth 1 and 0)
+ * - remove: DELETE; rename: MOVE with `Overwrite: F`
+ *
+ * Handles are plain objects typed as FileSystemDirectoryHandle that the
+ * provider maps back to collection URLs; they must not be passed to the
+ * File System Access API. pickDirectory() asks for the collection URL and a
+ * login instead of showing a dialog, and persistHandle() keeps those (in
+ * localStorage by default) so the notebook reopens on the next visit. Use
+ * an app password rather than the account password where the server has
+ * them. In a browser, the server must allow the app's origin (CORS).
+ */
+
+import type { FileSystemProvider } from "./filesystem";
+import { hasXmlElement, xmlElements, xmlText } from "./xml";
+
+/**
+ * Where a notebook lives on a WebDAV server, and how to log in.
+ */
+export interface WebDavLocation {
+  /** URL of the notebook's collection */
+  url: string;
+  username: string;
+  password: string;
+}
+
+/** The part of Storage used to persist locations */
+export type WebDavLocationStorage = Pick<
+  Storage,
+  "getItem" | "setItem" | "removeItem"
+>;
+
+export interface WebDavFileSystemOptions {
+  /**
+   * Called by pickDirectory() to ask for the notebook location.
+   * Return null to cancel.
+   */
+  chooseLocation?: () => Promise<WebDavLocation | null>;
+
+  /** Where persistHandle() keeps locations (default localStorage) */
+  storage?: WebDavLocationStorage;
+
+  /** Injectable fetch for testing */
+  fetch?: typeof globalThis.fetch;
+}
+
+/** An entry of a PROPFIND response */
+export interface WebDavEntry {
+  /** href as sent by the server, entities decoded */
+  href: string;
+  isDirectory: boolean;
+}
+
+const PROPFIND_BODY =
+  '<?xml version="1.0" encoding="utf-8"?>' +
+  '<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>';
+
+function notFound(path: string): DOMException {
+  return new DOMException(`Not found: ${path}`, "NotFoundError");
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((p) => p.length > 0 && p !== ".");
+}
+
+/**
+ * Read the entries of a PROPFIND multistatus response.
+ */
+export function parseMultistatus(xml: string): WebDavEntry[] {
+  const entries: WebDavEntry[] = [];
+  for (const response of xmlElements(xml, "response")) {
+    const href = xmlText(response, "href");
+    if (!href) continue;
+    const resourcetype = xmlElements(response, "resourcetype")[0] ?? "";
+    entries.push({
+      href,
+      isDirectory: hasXmlElement(resourcetype, "collection"),
+    });
+  }
+  return entries;
+}
+
+/** Base64 of a string's UTF-8 bytes, for Basic authentication */
+function base64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/** Decoded path of a URL, without the trailing slash, for comparing */
+function pathOf(url: string): string {
+  return decodeURIComponent(new URL(url).pathname).replace(/\/+$/, "");
+}
+
+/** In-memory storage, where there is no localStorage (Node) */
+function memoryStorage(): WebDavLocationStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+interface Collection {
+  /** Collection URL, ending in "/" */
+  url: string;
+  location: WebDavLocation;
+}
+
+export class WebDavFileSystemProvider implements FileSystemProvider {
+  private collections = new WeakMap<FileSystemDirectoryHandle, Collection>();
+  private handles = new Map<string, FileSystemDirectoryHandle>();
+  /** Collections known to exist, so writes don't MKCOL every parent again */
+  private knownDirs = new Set<string>();
+
+  private readonly chooseLocation: () => Promise<WebDavLocation | null>;
+  private readonly storage: WebDavLocationStorage;
+  private readonly fetch: typeof globalThis.fetch;
+
+  constructor(options: WebDavFileSystemOptions = {}) {
+    this.chooseLocation =
+      options.chooseLocation ?? (() => Promise.resolve(null));
+    this.storage =
+      options.storage ?? globalThis.localStorage ?? memoryStorage();
+    // Bind to globalThis to avoid "Illegal invocation" when called as a method
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  /**
+   * Get a handle for a collection on a server. The collection need not
+   * exist yet.
+   */
+  connect(location: WebDavLocation): FileSystemDirectoryHandle {
+    const url = location.url.endsWith("/") ? location.url : `${location.url}/`;
+    return this.handleFor(url, { ...location, url });
+  }
+
+  async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    const location = await this.chooseLocation();
+    if (!location) {
+      throw new DOMException("The user aborted a request.", "AbortError");
+    }
+    const handle = this.connect(location);
+    const { url } = this.collection(handle);
+    if (!(await this.stat(handle, url))) {
+      await this.request(handle, "MKCOL", url);
+    }
+    this.knownDirs.add(url);
+    return handle;
+  }
+
+  async readTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<string> {
+    return await (await this.get(dir, path)).text();
+  }
+
+  async writeTextFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    content: string,
+  ): Promise<void> {
+    await this.put(dir, path, content, "text/plain; charset=utf-8");
+  }
+
+  async readBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<ArrayBuffer> {
+    return await (await this.get(dir, path)).arrayBuffer();
+  }
+
+  async writeBinaryFile(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    data: ArrayBuffer,
+  ): Promise<void> {
+    await this.put(dir, path, data, "application/octet-stream");
+  }
+
+  async mkdir(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<FileSystemDirectoryHandle> {
+    const url = await this.makeCollections(dir, splitPath(path));
+    return this.handleFor(url, this.collection(dir).location);
+  }
+
+  async listDir(
+    dir: FileSystemDirectoryHandle,
+  ): Promise<Array<{ name: string; isDirectory: boolean }>> {
+    const { url } = this.collection(dir);
+    const response = await this.request(dir, "PROPFIND", url, {
+      headers: { Depth: "1", "Content-Type": "application/xml" },
+      body: PROPFIND_BODY,
+    });
+    const self = pathOf(url);
+    return parseMultistatus(await response.text())
+      .map((entry) => ({
+        path: pathOf(new URL(entry.href, url).href),
+        isDirectory: entry.isDirectory,
+      }))
+      .filter((entry) => entry.path !== self)
+      .map((entry) => ({
+        name: entry.path.slice(entry.path.lastIndexOf("/") + 1),
+        isDirectory: entry.isDirectory,
+      }));
+  }
+
+  async exists(dir: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+    return (await this.stat(dir, this.url(dir, path))) !== null;
+  }
+
+  async remove(dir: FileSystemDirectoryHandle, path: string): Promise<void> {
+    const url = await this.entryUrl(dir, path);
+    await this.request(dir, "DELETE", url);
+    this.forgetDirs(url);
+  }
+
+  async rename(
+    dir: FileSystemDirectoryHandle,
+    from: string,
+    to: string,
+  ): Promise<void> {
+    const source = await this.entryUrl(dir, from);
+    const parts = splitPath(to);
+    const name = parts.pop();
+    if (!name) throw new Error("Invalid path: empty name");
+    if (
+      `${[...parts, name].join("/")}/`.startsWith(
+        `${splitPath(from).join("/")}/`,
+      )
+    ) {
+      throw new Error(`Can't move ${from} into itself`);
+    }
+    if (await this.exists(dir, to)) {
+      throw new Error(`Already exists: ${to}`);
+    }
+
+    const parent = await this.makeCollections(dir, parts);
+    const target =
+      new URL(encodeURIComponent(name), parent).href +
+      (source.endsWith("/") ? "/" : "");
+    await this.request(dir, "MOVE", source, {
+      headers: { Destination: target, Overwrite: "F" },
+    });
+    this.forgetDirs(source);
+  }
+
+  /** Keeps the location, login included, in storage */
+  async persistHandle(
+    key: string,
+    handle: FileSystemDirectoryHandle,
+  ): Promise<void> {
+    this.storage.setItem(key, JSON.stringify(this.collection(handle).location));
+  }
+
+  async getPersistedHandle(key: string): Promise<{
+    handle: FileSystemDirectoryHandle;
+    needsPermission: boolean;
+  } | null> {
+    let location: Partial<WebDavLocation> | null;
+    try {
+      location = JSON.parse(this.storage.getItem(key) ?? "null");
+    } catch {
+      return null;
+    }
+    if (typeof location?.url !== "string") return null;
+    return {
+      handle: this.connect({
+        url: location.url,
+        username: location.username ?? "",
+        password: location.password ?? "",
+      }),
+      needsPermission: false,
+    };
+  }
+
+  /** Checks that the server still accepts the login */
+  async requestPermission(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    try {
+      return (await this.stat(handle, this.collection(handle).url)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  // Helper: the collection a handle stands for
+  private collection(dir: FileSystemDirectoryHandle): Collection {
+    const collection = this.collections.get(dir);
+    if (!collection) {
+      throw new TypeError("Handle does not belong to this provider");
+    }
+    return collection;
+  }
+
+  // Helper: handle for a collection URL, one per URL
+  private handleFor(
+    url: string,
+    location: WebDavLocation,
+  ): FileSystemDirectoryHandle {
+    let handle = this.handles.get(url);
+    if (!handle) {
+      const name = pathOf(url);
+      handle = {
+        kind: "directory",
+        name: name.slice(name.lastIndexOf("/") + 1),
+      } as unknown as FileSystemDirectoryHandle;
+      this.handles.set(url, handle);
+    }
+    // A new login for a known collection replaces the old one
+    this.collections.set(handle, { url, location });
+    return handle;
+  }
+
+  // Helper: URL of `path` relative to a handle, without a trailing slash
+  private url(dir: FileSystemDirectoryHandle, path: string): string {
+    const { url } = this.collection(dir);
+    const parts = splitPath(path);
+    if (parts.includes("..")) throw new Error(`Invalid path: ${path}`);
+    return parts.length === 0
+      ? url
+      : new URL(parts.map(encodeURIComponent).join("/"), url).href;
+  }
+
+  // Helper: URL of an existing entry, with a trailing slash if it's a
+  // collection (some servers redirect or refuse otherwise)
+  private async entryUrl(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<string> {
+    const url = this.url(dir, path);
+    const entry = await this.stat(dir, url);
+    if (!entry) throw notFound(path);
+    return entry.isDirectory && !url.endsWith("/") ? `${url}/` : url;
+  }
+
+  // Helper: PROPFIND an entry; null if there's none
+  private async stat(
+    dir: FileSystemDirectoryHandle,
+    url: string,
+  ): Promise<{ isDirectory: boolean } | null> {
+    const response = await this.request(dir, "PROPFIND", url, {
+      headers: { Depth: "0", "Content-Type": "application/xml" },
+      body: PROPFIND_BODY,
+      allowNotFound: true,
+    });
+    if (response.status === 404) return null;
+    const [entry] = parseMultistatus(await response.text());
+    return { isDirectory: entry?.isDirectory ?? false };
+  }
+
+  private async get(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+  ): Promise<Response> {
+    const response = await this.request(dir, "GET", this.url(dir, path), {
+      allowNotFound: true,
+    });
+    if (response.status === 404) throw notFound(path);
+    return response;
+  }
+
+  private async put(
+    dir: FileSystemDirectoryHandle,
+    path: string,
+    body: string | ArrayBuffer,
+    type: string,
+  ): Promise<void> {
+    const parts = splitPath(path);
+    const name = parts.pop();
+    if (!name) throw new Error("Invalid path: empty filename");
+    const parent = await this.makeCollections(dir, parts);
+    await this.request(
+      dir,
+      "PUT",
+      new URL(encodeURIComponent(name), parent).href,
+      {
+        headers: { "Content-Type": type },
+        body,
+      },
+    );
+  }
+
+  // Helper: MKCOL each missing collection along a path below a handle.
+  // Returns the URL of the last one, ending in "/".
+  private async makeCollections(
+    dir: FileSystemDirectoryHandle,
+    parts: string[],
+  ): Promise<string> {
+    let url = this.collection(dir).url;
+    for (const part of parts) {
+      if (part === "..") throw new Error(`Invalid path: ${parts.join("/")}`);
+      url = new URL(`${encodeURIComponent(part)}/`, url).href;
+      if (this.knownDirs.has(url)) continue;
+      const response = await this.request(dir, "MKCOL", url, {
+        allowExisting: true,
+      });
+      // 405: there's already something there
+      if (
+        response.status === 405 &&
+        !(await this.stat(dir, url))?.isDirectory
+      ) {
+        throw new Error(`Not a directory: ${parts.join("/")}`);
+      }
+      this.knownDirs.add(url);
+    }
+    return url;
+  }
+
+  // Helper: forget the known collections at or below a URL
+  private forgetDirs(url: string): void {
+    const prefix = url.endsWith("/") ? url : `${url}/`;
+    for (const known of this.knownDirs) {
+      if (known.startsWith(prefix)) this.knownDirs.delete(known);
+    }
+  }
+
+  // Helper: send a request with the handle's login, throwing on failure
+  private async request(
+    dir: FileSystemDirectoryHandle,
+    method: string,
+    url: string,
+    options: {
+      headers?: Record<string, string>;
+      body?: string | ArrayBuffer;
+      /** Return 404 responses instead of throwing */
+      allowNotFound?: boolean;
+      /** Return 405 responses (MKCOL on an existing entry) */
+      allowExisting?: boolean;
+    } = {},
+  ): Promise<Response> {
+    const { username, password } = this.collection(dir).location;
+    const headers: Record<string, string> = { ...options.headers };
+    if (username || password) {
+      headers.Authorization = `Basic ${base64(`${username}:${password}`)}`;
+    }
+
+    // Files change under the app (other devices, other tabs); never reuse a
+    // response from the HTTP cache
+    const response = await this.fetch(url, {
+      method,
+      headers,
+      body: options.body,
+      cache: "no-store",
+    });
+    if (response.ok) return response;
+    if (response.status === 404 && options.allowNotFound) return response;
+    if (response.status === 405 && options.allowExisting) return response;
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error("The WebDAV server refused the user name or password");
+    }
+    if (response.status === 412) {
+      throw new Error(`Already exists: ${pathOf(url)}`);
+    }
+    throw new Error(
+      `WebDAV ${method} ${pathOf(url)} failed: ${response.status} ${response.statusText}`.trim(),
+    );
+  }
+}
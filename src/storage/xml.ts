@@ -0,0 +1,57 @@
+/**
+ * Just enough XML reading for the WebDAV and S3 providers' responses.
+ *
+ * Elements are found by local name, whatever their namespace prefix
+ * (`d:`, `D:`, `lp1:`, none), and text is unescaped. This is not a parser:
+ * CDATA sections, comments and elements nested in an element of the same
+ * name aren't handled, none of which the servers' responses use.
+ */
+
+/**
+ * Unescape the predefined and numeric character references in XML text.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(amp|lt|gt|quot|apos|#(\d+)|#x([\da-f]+));/gi,
+    (entity, name: string, dec?: string, hex?: string) => {
+      if (dec) return String.fromCodePoint(Number(dec));
+      if (hex) return String.fromCodePoint(Number.parseInt(hex, 16));
+      const named: Record<string, string> = {
+        amp: "&",
+        lt: "<",
+        gt: ">",
+        quot: '"',
+        apos: "'",
+      };
+      return named[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+/**
+ * The contents (markup included) of each element named `name`, in order.
+ * Empty elements (`<name/>`) are left out.
+ */
+export function xmlElements(xml: string, name: string): string[] {
+  const element = new RegExp(
+    `<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>`,
+    "g",
+  );
+  return [...xml.matchAll(element)].map((match) => match[1]);
+}
+
+/**
+ * The unescaped, trimmed text of the first element named `name`, or null
+ * if there is none.
+ */
+export function xmlText(xml: string, name: string): string | null {
+  const [content] = xmlElements(xml, name);
+  return content === undefined ? null : decodeEntities(content.trim());
+}
+
+/**
+ * Whether the markup contains an element named `name`, empty or not.
+ */
+export function hasXmlElement(xml: string, name: string): boolean {
+  return new RegExp(`<(?:[\\w.-]+:)?${name}[\\s/>]`).test(xml);
+}
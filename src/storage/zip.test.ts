@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, readZip } from "./zip";
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("returns 0 for empty input", () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip / readZip", () => {
+  it("round-trips text and binary entries", async () => {
+    const binary = new Uint8Array(256).map((_, i) => i);
+    const zip = await createZip([
+      { path: "notebook.json", data: encode('{"version":1}') },
+      { path: "2026/01/02/1/note.json", data: encode("x".repeat(1000)) },
+      { path: "2026/01/02/1/img.png", data: binary },
+    ]);
+
+    const entries = await readZip(zip);
+
+    expect(entries.map((e) => e.path)).toEqual([
+      "notebook.json",
+      "2026/01/02/1/note.json",
+      "2026/01/02/1/img.png",
+    ]);
+    expect(decode(entries[0].data)).toBe('{"version":1}');
+    expect(decode(entries[1].data)).toBe("x".repeat(1000));
+    expect([...entries[2].data]).toEqual([...binary]);
+  });
+
+  it("compresses repetitive content", async () => {
+    const data = encode("abc".repeat(1000));
+    const zip = await createZip([{ path: "a.txt", data }]);
+    expect(zip.length).toBeLessThan(data.length);
+  });
+
+  it("round-trips UTF-8 file names and empty files", async () => {
+    const zip = await createZip([
+      { path: "ñotes/é.txt", data: new Uint8Array() },
+    ]);
+    const entries = await readZip(zip);
+    expect(entries).toEqual([{ path: "ñotes/é.txt", data: new Uint8Array() }]);
+  });
+
+  it("rejects data that is not a zip file", async () => {
+    await expect(readZip(encode("definitely not a zip"))).rejects.toThrow(
+      /Not a zip file/,
+    );
+  });
+
+  it("detects corrupted content", async () => {
+    const zip = await createZip([
+      { path: "a.bin", data: new Uint8Array([1, 2, 3]) },
+    ]);
+    // Stored entry data starts after the 30-byte header and 5-byte name
+    zip[35] ^= 0xff;
+    await expect(readZip(zip)).rejects.toThrow(/checksum mismatch/);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Minimal ZIP archive reader and writer.
+ *
+ * Supports what notebook export/import needs: stored (0) and deflated (8)
+ * entries with UTF-8 names. Compression uses the platform's
+ * CompressionStream/DecompressionStream ("deflate-raw"), so no library is
+ * needed. ZIP64, encryption and multi-disk archives are not supported.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, "/"-separated, no leading slash */
+  path: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/** General purpose flag bit 11: file names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) as used by ZIP.
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Run bytes through a (de)compression stream, e.g. "deflate-raw" */
+export async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const source = new Blob([data as Uint8Array<ArrayBuffer>]).stream();
+  const buffer = await new Response(source.pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(buffer);
+}
+
+/** Convert a Date to MS-DOS time and date fields */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive. Entries are deflated unless that doesn't make them
+ * smaller (e.g. images, which are already compressed).
+ */
+export async function createZip(
+  entries: ZipEntry[],
+  modified: Date = new Date(),
+): Promise<Uint8Array> {
+  const { time, date } = dosDateTime(modified);
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const deflated = await transform(
+      entry.data,
+      new CompressionStream("deflate-raw"),
+    );
+    const useDeflate = deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE;
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER_SIG, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // extra length
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER_SIG, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    // extra, comment, disk number, internal/external attrs stay 0
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    chunks.push(local, body);
+    central.push(header);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = central.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIR_SIG, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, end];
+  const result = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  for (const chunk of all) {
+    result.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Read all file entries from a ZIP archive. Directory entries are skipped.
+ * Throws if the archive is malformed or uses an unsupported feature.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record is followed by a comment of up to
+  // 64KiB, so search backwards for its signature.
+  let eocd = -1;
+  const stop = Math.max(0, data.length - 22 - 0xffff);
+  for (let i = data.length - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip file (missing end of central directory)");
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_HEADER_SIG) {
+      throw new Error("Corrupt zip file (bad central directory entry)");
+    }
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const path = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) continue;
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${path}`);
+    }
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIG) {
+      throw new Error(`Corrupt zip file (bad local header): ${path}`);
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const body = data.subarray(start, start + compressedSize);
+
+    let content: Uint8Array;
+    if (method === METHOD_STORE) {
+      content = body.slice();
+    } else if (method === METHOD_DEFLATE) {
+      content = await transform(body, new DecompressionStream("deflate-raw"));
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${path}`);
+    }
+
+    if (crc32(content) !== crc) {
+      throw new Error(`Corrupt zip file (checksum mismatch): ${path}`);
+    }
+    entries.push({ path, data: content });
+  }
+
+  return entries;
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SyncScheduler } from "./syncScheduler";
+
+/** A sync that stays running until resolved */
+function deferredSync() {
+  const resolvers: (() => void)[] = [];
+  const sync = vi.fn(
+    () => new Promise<void>((resolve) => resolvers.push(resolve)),
+  );
+  const finish = async () => {
+    resolvers.shift()?.();
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { sync, finish };
+}
+
+describe("SyncScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("syncs on start, then every interval", async () => {
+    const sync = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+    });
+
+    await scheduler.start();
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(scheduler.isStarted).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(sync).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sync).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sync).toHaveBeenCalledTimes(3);
+  });
+
+  it("debounces schedule()", async () => {
+    const sync = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+    });
+    await scheduler.start();
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(4000);
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it("syncs on the interval when schedule() is called more often than the delay", async () => {
+    const sync = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 30_000,
+      sync,
+    });
+    await scheduler.start();
+
+    // Saving every 10 seconds never lets the debounce run out
+    for (let i = 0; i < 5; i++) {
+      scheduler.schedule();
+      await vi.advanceTimersByTimeAsync(10_000);
+    }
+    expect(sync).toHaveBeenCalledTimes(1);
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sync).toHaveBeenCalledTimes(2);
+
+    for (let i = 0; i < 6; i++) {
+      scheduler.schedule();
+      await vi.advanceTimersByTimeAsync(10_000);
+    }
+    expect(sync).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores schedule() until started", async () => {
+    const sync = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+    });
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(sync).not.toHaveBeenCalled();
+  });
+
+  it("never runs two syncs at once", async () => {
+    const { sync, finish } = deferredSync();
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+    });
+
+    void scheduler.start();
+    expect(scheduler.isSyncing).toBe(true);
+    scheduler.schedule();
+    const now = scheduler.syncNow();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    // Asked for twice while syncing: one more sync after
+    await finish();
+    expect(sync).toHaveBeenCalledTimes(2);
+    await finish();
+    await now;
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(scheduler.isSyncing).toBe(false);
+  });
+
+  it("stops scheduling on stop()", async () => {
+    const sync = vi.fn().mockResolvedValue(undefined);
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+    });
+    await scheduler.start();
+
+    scheduler.schedule();
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(scheduler.isStarted).toBe(false);
+  });
+
+  it("reports errors and carries on", async () => {
+    const error = new Error("offline");
+    const sync = vi
+      .fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValue(undefined);
+    const onError = vi.fn();
+    const scheduler = new SyncScheduler({
+      intervalMs: 60_000,
+      delayMs: 5000,
+      sync,
+      onError,
+    });
+
+    await scheduler.start();
+    expect(onError).toHaveBeenCalledWith(error);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * SyncScheduler - runs a notebook sync in the background
+ *
+ * Once started, syncs right away, then every `intervalMs`, and `delayMs`
+ * after the last schedule() call (e.g. after each save), whichever comes
+ * first. Only one sync runs at a time: one asked for while a sync runs is
+ * done right after it.
+ */
+
+export interface SyncSchedulerConfig {
+  /** Time between syncs in milliseconds */
+  intervalMs: number;
+
+  /** Debounce delay of schedule() in milliseconds */
+  delayMs: number;
+
+  /** Async function to perform the sync */
+  sync: () => Promise<void>;
+
+  /** Optional callback when a sync fails; the schedule carries on */
+  onError?: (error: unknown) => void;
+
+  /** Injectable timer functions for testing */
+  setTimeout?: typeof globalThis.setTimeout;
+  clearTimeout?: typeof globalThis.clearTimeout;
+}
+
+export class SyncScheduler {
+  private started = false;
+  private pending = false;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  /** When the next interval sync is due (Date.now() time) */
+  private intervalDueAt = 0;
+  private syncPromise: Promise<void> | null = null;
+
+  private readonly interval: number;
+  private readonly delay: number;
+  private readonly sync: () => Promise<void>;
+  private readonly onError?: (error: unknown) => void;
+  private readonly _setTimeout: typeof globalThis.setTimeout;
+  private readonly _clearTimeout: typeof globalThis.clearTimeout;
+
+  constructor(config: SyncSchedulerConfig) {
+    this.interval = config.intervalMs;
+    this.delay = config.delayMs;
+    this.sync = config.sync;
+    this.onError = config.onError;
+    // Bind to globalThis to avoid "Illegal invocation" when called as methods
+    this._setTimeout =
+      config.setTimeout ?? globalThis.setTimeout.bind(globalThis);
+    this._clearTimeout =
+      config.clearTimeout ?? globalThis.clearTimeout.bind(globalThis);
+  }
+
+  /** True while started */
+  get isStarted(): boolean {
+    return this.started;
+  }
+
+  /** True while a sync is running */
+  get isSyncing(): boolean {
+    return this.syncPromise !== null;
+  }
+
+  /**
+   * Start syncing: sync now, then on schedule.
+   * Resolves when the first sync is done.
+   */
+  start(): Promise<void> {
+    if (this.started) return this.syncPromise ?? Promise.resolve();
+    this.started = true;
+    return this.run();
+  }
+
+  /**
+   * Stop syncing. A sync already running completes, but nothing more is
+   * scheduled.
+   */
+  stop(): void {
+    this.started = false;
+    this.pending = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Sync after the debounce delay, unless the interval sync is due sooner:
+   * saving more often than the delay doesn't put syncing off for good.
+   * If currently syncing, syncs again right after.
+   */
+  schedule(): void {
+    if (!this.started) return;
+    if (this.syncPromise) {
+      this.pending = true;
+      return;
+    }
+    const untilInterval = Math.max(0, this.intervalDueAt - Date.now());
+    this.startTimer(Math.min(this.delay, untilInterval));
+  }
+
+  /**
+   * Sync now, or right after the current sync. Resolves when done; errors
+   * go to onError.
+   */
+  syncNow(): Promise<void> {
+    this.clearTimer();
+    return this.run();
+  }
+
+  private run(): Promise<void> {
+    if (this.syncPromise) {
+      this.pending = true;
+      return this.syncPromise;
+    }
+    this.syncPromise = this.loop().finally(() => {
+      this.syncPromise = null;
+      if (this.started) {
+        this.intervalDueAt = Date.now() + this.interval;
+        this.startTimer(this.interval);
+      }
+    });
+    return this.syncPromise;
+  }
+
+  private async loop(): Promise<void> {
+    do {
+      this.pending = false;
+      try {
+        await this.sync();
+      } catch (e) {
+        this.onError?.(e);
+      }
+    } while (this.pending);
+  }
+
+  private startTimer(delay: number): void {
+    this.clearTimer();
+    this.timeoutId = this._setTimeout(() => {
+      this.timeoutId = null;
+      void this.run();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timeoutId !== null) {
+      this._clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+}
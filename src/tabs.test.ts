@@ -0,0 +1,244 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type NoteAccess,
+  type TabChannel,
+  TabCoordinator,
+  type TabCoordinatorConfig,
+  type TabLocks,
+  type TabMessage,
+} from "./tabs";
+
+/** BroadcastChannel stand-in: delivers to every other channel on the bus */
+class FakeChannel implements TabChannel {
+  private readonly bus: Set<FakeChannel>;
+  private listeners: Array<(event: MessageEvent<TabMessage>) => void> = [];
+
+  constructor(bus: Set<FakeChannel>) {
+    this.bus = bus;
+    bus.add(this);
+  }
+
+  postMessage(message: TabMessage): void {
+    for (const channel of this.bus) {
+      if (channel === this) continue;
+      for (const listener of channel.listeners) {
+        listener({ data: structuredClone(message) } as MessageEvent);
+      }
+    }
+  }
+
+  addEventListener(
+    _type: "message",
+    listener: (event: MessageEvent<TabMessage>) => void,
+  ): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    this.bus.delete(this);
+  }
+}
+
+/** LockManager stand-in with exclusive locks, ifAvailable, steal and signal */
+class FakeLocks implements TabLocks {
+  private held = new Map<string, { steal: () => void }>();
+  private queues = new Map<string, Array<() => void>>();
+
+  request(
+    name: string,
+    options: LockOptions,
+    callback: (lock: Lock | null) => Promise<void>,
+  ): Promise<void> {
+    if (options.steal) {
+      this.held.get(name)?.steal();
+      this.held.delete(name);
+      return this.grant(name, callback);
+    }
+    if (!this.held.has(name)) return this.grant(name, callback);
+    if (options.ifAvailable) return callback(null);
+
+    return new Promise((resolve, reject) => {
+      const start = () => this.grant(name, callback).then(resolve, reject);
+      const queue = this.queues.get(name) ?? [];
+      queue.push(start);
+      this.queues.set(name, queue);
+      options.signal?.addEventListener("abort", () => {
+        queue.splice(queue.indexOf(start), 1);
+        reject(new DOMException("Aborted", "AbortError"));
+      });
+    });
+  }
+
+  isHeld(name: string): boolean {
+    return this.held.has(name);
+  }
+
+  private grant(
+    name: string,
+    callback: (lock: Lock | null) => Promise<void>,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const entry = {
+        steal: () => reject(new DOMException("Stolen", "AbortError")),
+      };
+      this.held.set(name, entry);
+      callback({ name, mode: "exclusive" }).then(() => {
+        if (this.held.get(name) === entry) {
+          this.held.delete(name);
+          this.queues.get(name)?.shift()?.();
+        }
+        resolve();
+      }, reject);
+    });
+  }
+}
+
+/** Let pending lock grants and releases run */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function setup() {
+  const bus = new Set<FakeChannel>();
+  const locks = new FakeLocks();
+  let count = 0;
+  const tab = (config: Partial<TabCoordinatorConfig> = {}) => {
+    const changes: NoteAccess[] = [];
+    const coordinator = new TabCoordinator({
+      notebook: "Notes",
+      channel: new FakeChannel(bus),
+      locks,
+      tabId: `tab-${++count}`,
+      onAccessChanged: (access) => changes.push(access),
+      ...config,
+    });
+    return { coordinator, changes };
+  };
+  return { locks, tab };
+}
+
+describe("TabCoordinator", () => {
+  describe("write lock", () => {
+    it("gives the first tab to open a note write access", async () => {
+      const { tab } = setup();
+      const a = tab();
+      const b = tab();
+
+      expect(await a.coordinator.openNote("2026/01/26/1")).toBe("writable");
+      expect(await b.coordinator.openNote("2026/01/26/1")).toBe("read_only");
+      expect(await b.coordinator.openNote("2026/01/26/2")).toBe("writable");
+      expect(b.changes).toEqual(["read_only", "writable"]);
+    });
+
+    it("hands the lock over when the writer switches notes", async () => {
+      const { tab } = setup();
+      const a = tab();
+      const b = tab();
+      await a.coordinator.openNote("2026/01/26/1");
+      await b.coordinator.openNote("2026/01/26/1");
+
+      await a.coordinator.openNote("2026/01/26/2");
+      await settle();
+
+      expect(b.coordinator.access).toBe("writable");
+      expect(b.changes).toEqual(["read_only", "writable"]);
+    });
+
+    it("hands the lock over when the writer closes", async () => {
+      const { tab } = setup();
+      const a = tab();
+      const b = tab();
+      await a.coordinator.openNote("2026/01/26/1");
+      await b.coordinator.openNote("2026/01/26/1");
+
+      a.coordinator.dispose();
+      await settle();
+
+      expect(b.coordinator.access).toBe("writable");
+    });
+
+    it("lets a read-only tab take over, and gives it back later", async () => {
+      const { tab } = setup();
+      const a = tab();
+      const b = tab();
+      await a.coordinator.openNote("2026/01/26/1");
+      await b.coordinator.openNote("2026/01/26/1");
+
+      await b.coordinator.takeOver();
+      await settle();
+
+      expect(b.coordinator.access).toBe("writable");
+      expect(a.coordinator.access).toBe("read_only");
+      expect(a.changes).toEqual(["read_only"]);
+
+      await b.coordinator.openNote("2026/01/26/2");
+      await settle();
+      expect(a.coordinator.access).toBe("writable");
+    });
+
+    it("stops queueing for a note it has moved away from", async () => {
+      const { locks, tab } = setup();
+      const a = tab();
+      const b = tab();
+      await a.coordinator.openNote("2026/01/26/1");
+      await b.coordinator.openNote("2026/01/26/1");
+      await b.coordinator.openNote("2026/01/26/2");
+
+      a.coordinator.dispose();
+      await settle();
+
+      expect(locks.isHeld("reflection-notes:Notes:2026/01/26/1")).toBe(false);
+      expect(b.changes).toEqual(["read_only", "writable"]);
+    });
+
+    it("is always writable without Web Locks", async () => {
+      const { tab } = setup();
+      const a = tab({ locks: null });
+      const b = tab({ locks: null });
+
+      expect(await a.coordinator.openNote("2026/01/26/1")).toBe("writable");
+      expect(await b.coordinator.openNote("2026/01/26/1")).toBe("writable");
+    });
+  });
+
+  describe("broadcasts", () => {
+    it("tells the other tabs of the notebook about saves", () => {
+      const { tab } = setup();
+      const onNoteSaved = vi.fn();
+      const onNoteRemoved = vi.fn();
+      const onMetaSaved = vi.fn();
+      const a = tab({ onNoteSaved, onNoteRemoved, onMetaSaved });
+      const b = tab({ onNoteSaved, onNoteRemoved, onMetaSaved });
+      const other = tab({ notebook: "Other", onNoteSaved });
+      const meta = {
+        version: 3,
+        id: "notes",
+        lastOpenedNote: "2026/01/26/1",
+        journal: {},
+      };
+
+      b.coordinator.noteSaved("2026/01/26/1", 5000);
+      b.coordinator.noteRemoved("2026/01/26/2");
+      b.coordinator.metaSaved(meta);
+
+      expect(onNoteSaved).toHaveBeenCalledTimes(1);
+      expect(onNoteSaved).toHaveBeenCalledWith("2026/01/26/1", 5000);
+      expect(onNoteRemoved).toHaveBeenCalledWith("2026/01/26/2");
+      expect(onMetaSaved).toHaveBeenCalledWith(meta);
+      expect(a.coordinator.access).toBe("writable");
+      expect(other.changes).toEqual([]);
+    });
+
+    it("stops listening when disposed", () => {
+      const { tab } = setup();
+      const onNoteSaved = vi.fn();
+      const a = tab({ onNoteSaved });
+      const b = tab();
+
+      a.coordinator.dispose();
+      b.coordinator.noteSaved("2026/01/26/1");
+
+      expect(onNoteSaved).not.toHaveBeenCalled();
+    });
+  });
+});
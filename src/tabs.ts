@@ -0,0 +1,269 @@
+/**
+ * TabCoordinator - keeps tabs with the same notebook open from writing
+ * over each other.
+ *
+ * Each open note is guarded by a Web Lock named after the notebook and the
+ * note. The tab holding it is the note's writer; other tabs showing the
+ * note are read-only and queue for the lock, so they become the writer
+ * when that tab moves on or closes. takeOver() steals the lock, making the
+ * other tab read-only instead.
+ *
+ * Tabs tell each other over a BroadcastChannel when they save or remove a
+ * note or save notebook.json, so read-only tabs can reload and every tab
+ * keeps its notebook metadata current.
+ *
+ * Browsers without Web Locks get no write lock: every tab is a writer, and
+ * saveNote's conflict check is what keeps them apart.
+ */
+
+import type { NotebookMeta } from "./storage/notebook";
+
+/** Name of the BroadcastChannel the tabs talk over */
+export const TAB_CHANNEL = "reflection-notes";
+
+/** Whether this tab may write the note it has open */
+export type NoteAccess = "writable" | "read_only";
+
+/** Something a tab did that the other tabs need to know about */
+type TabEvent =
+  | { type: "note_saved"; path: string; modified?: number }
+  | { type: "note_removed"; path: string }
+  | { type: "meta_saved"; meta: NotebookMeta };
+
+/**
+ * A message between tabs. `tab` is the sender and `notebook` the notebook
+ * it's about.
+ */
+export type TabMessage = TabEvent & { tab: string; notebook: string };
+
+/** The part of BroadcastChannel used, so tests can pass a fake */
+export interface TabChannel {
+  postMessage(message: TabMessage): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<TabMessage>) => void,
+  ): void;
+  close(): void;
+}
+
+/** The part of LockManager (navigator.locks) used, so tests can pass a fake */
+export interface TabLocks {
+  request(
+    name: string,
+    options: LockOptions,
+    callback: (lock: Lock | null) => Promise<void>,
+  ): Promise<void>;
+}
+
+export interface TabCoordinatorConfig {
+  /** Id of the open notebook (NotebookMeta.id) */
+  notebook: string;
+
+  /** Called when another tab saved a note of the notebook */
+  onNoteSaved?: (path: string, modified?: number) => void;
+
+  /** Called when another tab deleted or moved away a note of the notebook */
+  onNoteRemoved?: (path: string) => void;
+
+  /** Called when another tab saved the notebook's notebook.json */
+  onMetaSaved?: (meta: NotebookMeta) => void;
+
+  /** Called when this tab gains or loses the write lock of its open note */
+  onAccessChanged?: (access: NoteAccess) => void;
+
+  /** Injectable channel, locks and tab ID for testing */
+  channel?: TabChannel;
+  locks?: TabLocks | null;
+  tabId?: string;
+}
+
+export class TabCoordinator {
+  private readonly notebook: string;
+  private readonly channel: TabChannel;
+  private readonly locks: TabLocks | null;
+  private readonly tabId: string;
+  private readonly config: TabCoordinatorConfig;
+
+  private path: string | null = null;
+  private _access: NoteAccess = "writable";
+  /** Bumped on each openNote, so callbacks for an earlier note are ignored */
+  private generation = 0;
+  /** Releases the lock held, or gives up the queued request */
+  private release: (() => void) | null = null;
+
+  constructor(config: TabCoordinatorConfig) {
+    this.config = config;
+    this.notebook = config.notebook;
+    this.channel = config.channel ?? new BroadcastChannel(TAB_CHANNEL);
+    this.locks =
+      config.locks === undefined
+        ? (globalThis.navigator?.locks ?? null)
+        : config.locks;
+    this.tabId = config.tabId ?? crypto.randomUUID();
+    this.channel.addEventListener("message", (event) =>
+      this.receive(event.data),
+    );
+  }
+
+  /** Access to the open note */
+  get access(): NoteAccess {
+    return this._access;
+  }
+
+  /** The note the tab has open */
+  get openPath(): string | null {
+    return this.path;
+  }
+
+  /**
+   * Switch to another note: let go of the previous note's lock and try to
+   * take this one's. Resolves with the access the tab gets.
+   */
+  async openNote(path: string): Promise<NoteAccess> {
+    this.release?.();
+    this.release = null;
+    this.path = path;
+    const generation = ++this.generation;
+
+    if (!this.locks) {
+      this.setAccess("writable");
+      return this._access;
+    }
+    const granted = await this.hold(generation, { ifAvailable: true });
+    if (generation !== this.generation) return this._access;
+    if (granted) {
+      this.setAccess("writable");
+    } else {
+      this.setAccess("read_only");
+      this.wait(generation);
+    }
+    return this._access;
+  }
+
+  /**
+   * Take the write lock of the open note from the tab holding it.
+   */
+  async takeOver(): Promise<void> {
+    if (!this.locks || !this.path || this._access === "writable") return;
+    this.release?.();
+    const generation = ++this.generation;
+    await this.hold(generation, { steal: true });
+    if (generation === this.generation) this.setAccess("writable");
+  }
+
+  /** Tell the other tabs a note was saved */
+  noteSaved(path: string, modified?: number): void {
+    this.post({ type: "note_saved", path, modified });
+  }
+
+  /** Tell the other tabs a note was deleted or moved away */
+  noteRemoved(path: string): void {
+    this.post({ type: "note_removed", path });
+  }
+
+  /** Tell the other tabs notebook.json was saved */
+  metaSaved(meta: NotebookMeta): void {
+    this.post({ type: "meta_saved", meta });
+  }
+
+  /** Release the lock and stop listening to the other tabs */
+  dispose(): void {
+    this.generation++;
+    this.release?.();
+    this.release = null;
+    this.channel.close();
+  }
+
+  private post(event: TabEvent): void {
+    this.channel.postMessage({
+      ...event,
+      tab: this.tabId,
+      notebook: this.notebook,
+    });
+  }
+
+  private receive(message: TabMessage): void {
+    if (message.tab === this.tabId || message.notebook !== this.notebook) {
+      return;
+    }
+    switch (message.type) {
+      case "note_saved":
+        this.config.onNoteSaved?.(message.path, message.modified);
+        break;
+      case "note_removed":
+        this.config.onNoteRemoved?.(message.path);
+        break;
+      case "meta_saved":
+        this.config.onMetaSaved?.(message.meta);
+        break;
+    }
+  }
+
+  private setAccess(access: NoteAccess): void {
+    if (access === this._access) return;
+    this._access = access;
+    this.config.onAccessChanged?.(access);
+  }
+
+  private lockName(): string {
+    return `${TAB_CHANNEL}:${this.notebook}:${this.path}`;
+  }
+
+  /**
+   * Request the open note's lock and keep it until released. Resolves with
+   * whether it was granted.
+   */
+  private hold(generation: number, options: LockOptions): Promise<boolean> {
+    const locks = this.locks;
+    if (!locks) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      let granted = false;
+      const released = new Promise<void>((done) => {
+        this.release = done;
+      });
+      locks
+        .request(this.lockName(), options, async (lock) => {
+          granted = lock !== null;
+          resolve(granted);
+          if (granted) await released;
+        })
+        .catch(() => {
+          resolve(false);
+          // Stolen by another tab: read-only until it lets go
+          if (granted && generation === this.generation) {
+            this.setAccess("read_only");
+            this.wait(generation);
+          }
+        });
+    });
+  }
+
+  /** Queue for the open note's lock, becoming the writer when granted */
+  private wait(generation: number): void {
+    const locks = this.locks;
+    if (!locks) return;
+
+    const abort = new AbortController();
+    let granted = false;
+    const released = new Promise<void>((done) => {
+      this.release = () => {
+        if (!granted) abort.abort();
+        done();
+      };
+    });
+    locks
+      .request(this.lockName(), { signal: abort.signal }, async () => {
+        granted = true;
+        if (generation === this.generation) this.setAccess("writable");
+        await released;
+      })
+      .catch(() => {
+        // Given up (aborted), or stolen from us in turn
+        if (granted && generation === this.generation) {
+          this.setAccess("read_only");
+          this.wait(generation);
+        }
+      });
+  }
+}
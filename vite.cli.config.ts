@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Builds the reflection-notes command-line tool (src/cli/bin.ts) for Node.
+// Dependencies stay external and are loaded from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/bin.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'reflection-notes.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
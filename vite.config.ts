@@ -44,11 +44,15 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,png,svg,ico}'],
+        // Exports fetch KaTeX's fonts when needed; offline use doesn't need them
+        globIgnores: ['**/katexFonts-*.js'],
       },
     }),
   ],
   test: {
     globals: true,
     environment: 'node',
+    // HTML export embeds KaTeX's stylesheet (and its fonts)
+    css: { include: [/katex\.min\.css/] },
   },
 })